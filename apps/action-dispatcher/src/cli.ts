@@ -1,31 +1,44 @@
 #!/usr/bin/env node
 /**
- * InsightView GitHub Action dispatcher CLI. Five subcommands, each a
+ * InsightView GitHub Action dispatcher CLI. Most subcommands are a
  * thin wrapper over the platform REST API:
  *
- *   insightview run        - trigger a one-off run (blocks until terminal)
- *   insightview deploy     - apply monitors-as-code YAML files
- *   insightview validate   - lint YAMLs without a server
- *   insightview status     - query the current status of a check
- *   insightview legacy-run - backwards-compatible Playwright run
+ *   insightview run           - trigger a one-off run (blocks until terminal)
+ *   insightview deploy        - apply monitors-as-code YAML files
+ *   insightview rollback      - re-apply an earlier monitors deployment
+ *   insightview validate      - lint YAMLs without a server
+ *   insightview status        - query the current status of a check
+ *   insightview alert-test    - test-fire a channel or dry-run an alert rule
+ *   insightview native-run    - run monitors locally via synthetic-kit
+ *   insightview visual-accept - promote run screenshots to visual baselines
+ *   insightview sourcemaps    - upload, list, delete and prune RUM source maps
+ *   insightview legacy-run    - backwards-compatible Playwright run
  *
  * The command name is passed via argv[2] so the same bin covers all paths.
  */
 
 import { runCommand } from "./commands/run.js";
 import { deployCommand } from "./commands/deploy.js";
+import { rollbackCommand } from "./commands/rollback.js";
 import { validateCommand } from "./commands/validate.js";
 import { statusCommand } from "./commands/status.js";
+import { alertTestCommand } from "./commands/alertTest.js";
 import { legacyRunCommand } from "./commands/legacyRun.js";
 import { nativeRunCommand } from "./commands/nativeRun.js";
+import { visualAcceptCommand } from "./commands/visualAccept.js";
+import { sourcemapsCommand } from "./commands/sourcemaps.js";
 
 const commands: Record<string, (args: string[]) => Promise<number>> = {
   run: runCommand,
   deploy: deployCommand,
+  rollback: rollbackCommand,
   validate: validateCommand,
   status: statusCommand,
+  "alert-test": alertTestCommand,
   "legacy-run": legacyRunCommand,
   "native-run": nativeRunCommand,
+  "visual-accept": visualAcceptCommand,
+  sourcemaps: sourcemapsCommand,
 };
 
 async function main() {
@@ -33,7 +46,7 @@ async function main() {
   const rest = process.argv.slice(3);
   if (!command || !commands[command]) {
     console.error(
-      `Usage: insightview <run|deploy|validate|status|native-run|legacy-run> [args]`,
+      `Usage: insightview <run|deploy|rollback|validate|status|alert-test|native-run|visual-accept|sourcemaps|legacy-run> [args]`,
     );
     process.exit(1);
   }
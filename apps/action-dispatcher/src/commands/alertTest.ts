@@ -0,0 +1,117 @@
+import { loadApiConfig, apiRequest } from "../apiClient.js";
+import { setOutput, appendSummary } from "../githubOutputs.js";
+
+/**
+ * `alert-test` command. Exercises alerting config without waiting for
+ * a real outage:
+ *
+ *   insightview alert-test channel ops-slack [--severity CRITICAL] [--resolved]
+ *       sends a synthetic incident through the channel; exits non-zero
+ *       when the channel rejected it.
+ *
+ *   insightview alert-test rule checkout-slow [--limit 20] [--fail-if-fires]
+ *       replays the rule (by name or id) over the check's last runs and
+ *       prints what it would have decided for each. Nothing is opened.
+ */
+export async function alertTestCommand(args: string[]): Promise<number> {
+  const [target, name, ...rest] = args;
+  if ((target !== "channel" && target !== "rule") || !name) {
+    console.error(
+      "Usage: insightview alert-test <channel NAME [--severity S] [--resolved] | rule NAME [--limit N] [--fail-if-fires]>",
+    );
+    return 1;
+  }
+  const flags = parseFlags(rest);
+  return target === "channel" ? testChannel(name, flags) : dryRunRule(name, flags);
+}
+
+async function testChannel(name: string, flags: AlertTestFlags): Promise<number> {
+  const config = loadApiConfig();
+  const res = await apiRequest<{
+    channel: string;
+    type: string;
+    ok: boolean;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+  }>(config, `/v1/channels/${encodeURIComponent(name)}/test`, {
+    method: "POST",
+    body: JSON.stringify({
+      severity: flags.severity,
+      kind: flags.resolved ? "resolved" : undefined,
+    }),
+  });
+  const code = res.statusCode !== undefined ? ` HTTP ${res.statusCode}` : "";
+  if (res.ok) {
+    console.log(`[alert-test] ${res.channel} (${res.type}) delivered${code} in ${res.durationMs}ms`);
+  } else {
+    console.error(`[alert-test] ${res.channel} (${res.type}) failed${code}: ${res.error}`);
+  }
+  setOutput("delivered", String(res.ok));
+  return res.ok ? 0 : 1;
+}
+
+async function dryRunRule(nameOrId: string, flags: AlertTestFlags): Promise<number> {
+  const config = loadApiConfig();
+  const rules = await apiRequest<{ items: Array<{ id: string; name: string }> }>(
+    config,
+    "/v1/alert-rules",
+  );
+  const rule = rules.items.find((r) => r.name === nameOrId || r.id === nameOrId);
+  if (!rule) {
+    console.error(`[alert-test] no alert rule named '${nameOrId}'`);
+    return 1;
+  }
+  const res = await apiRequest<{
+    wouldFire: number;
+    items: Array<{
+      runId: string;
+      status: string;
+      location: string;
+      completedAt: string | null;
+      decision: { shouldFire: boolean; shouldResolve: boolean; reason: string; severity?: string };
+    }>;
+  }>(config, `/v1/alert-rules/${encodeURIComponent(rule.id)}/dry-run`, {
+    method: "POST",
+    body: JSON.stringify({ limit: flags.limit }),
+  });
+  if (res.items.length === 0) {
+    console.log(`[alert-test] rule '${rule.name}': its check has no completed runs yet`);
+    return 0;
+  }
+  for (const item of res.items) {
+    const verdict = item.decision.shouldFire
+      ? `FIRE${item.decision.severity ? ` ${item.decision.severity}` : ""}`
+      : item.decision.shouldResolve
+        ? "resolve"
+        : "-";
+    console.log(
+      `${item.completedAt ?? ""}  ${item.status.padEnd(8)}  ${item.location.padEnd(10)}  ${verdict.padEnd(13)}  ${item.decision.reason}`,
+    );
+  }
+  console.log(`[alert-test] rule '${rule.name}' would fire on ${res.wouldFire} of ${res.items.length} runs`);
+  setOutput("would_fire", String(res.wouldFire));
+  appendSummary(
+    `## InsightView alert dry-run: \`${rule.name}\`\n\n- Runs replayed: ${res.items.length}\n- Would fire: ${res.wouldFire}\n`,
+  );
+  return flags.failIfFires && res.wouldFire > 0 ? 1 : 0;
+}
+
+interface AlertTestFlags {
+  severity?: string;
+  resolved: boolean;
+  limit: number;
+  failIfFires: boolean;
+}
+
+function parseFlags(args: string[]): AlertTestFlags {
+  const flags: AlertTestFlags = { resolved: false, limit: 20, failIfFires: false };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "--severity" && args[i + 1]) flags.severity = args[++i].toUpperCase();
+    else if (a === "--resolved") flags.resolved = true;
+    else if (a === "--limit" && args[i + 1]) flags.limit = parseInt(args[++i], 10);
+    else if (a === "--fail-if-fires") flags.failIfFires = true;
+  }
+  return flags;
+}
@@ -17,9 +17,34 @@ function walk(dir: string): string[] {
   return out;
 }
 
-export async function deployCommand(_args: string[]): Promise<number> {
+interface ResourceRef {
+  kind: string;
+  name: string;
+}
+
+interface MonitorPlan {
+  owner: string;
+  create: ResourceRef[];
+  update: Array<ResourceRef & { changes: string[]; previousOwner?: string | null }>;
+  delete: ResourceRef[];
+  unchanged: ResourceRef[];
+}
+
+/**
+ * `deploy` command. Applies every YAML file under
+ * INSIGHTVIEW_MONITORS_PATH as one deployment owned by `--owner`
+ * (INSIGHTVIEW_OWNER, else GITHUB_REPOSITORY).
+ *
+ *   --plan              print the create/update/delete diff and exit
+ *   --prune             delete owned resources the YAML no longer declares
+ *   --prune=disable     disable and release them instead
+ *
+ * Action inputs `plan`, `prune` and `owner` map to the same options.
+ */
+export async function deployCommand(args: string[]): Promise<number> {
   const monitorsPath = process.env.INSIGHTVIEW_MONITORS_PATH ?? "monitors";
   const actor = process.env.GITHUB_ACTOR ?? "cli";
+  const opts = parseDeployArgs(args);
   const config = loadApiConfig();
 
   let files: string[] = [];
@@ -35,9 +60,26 @@ export async function deployCommand(_args: string[]): Promise<number> {
   }
 
   const combined = files.map((f) => readFileSync(f, "utf8")).join("\n---\n");
+  if (opts.plan) {
+    const plan = await apiRequest<MonitorPlan>(config, "/v1/monitors/plan", {
+      method: "POST",
+      body: JSON.stringify({ yaml: combined, owner: opts.owner }),
+    });
+    const lines = planLines(plan, opts.prune);
+    for (const line of lines) console.log(line);
+    console.log(
+      `Plan for ${plan.owner}: ${plan.create.length} to create, ${plan.update.length} to update, ${opts.prune ? plan.delete.length : 0} to ${opts.prune ?? "delete"}, ${plan.unchanged.length} unchanged`,
+    );
+    appendSummary(`## InsightView deploy plan (${plan.owner})\n\n\`\`\`diff\n${lines.join("\n")}\n\`\`\`\n`);
+    return 0;
+  }
+
   const res = await apiRequest<{
     appliedChecks: string[];
     appliedRules: string[];
+    appliedChannels?: string[];
+    appliedMaintenanceWindows?: string[];
+    pruned?: ResourceRef[];
     deploymentId: string;
   }>(config, "/v1/monitors/apply", {
     method: "POST",
@@ -45,14 +87,65 @@ export async function deployCommand(_args: string[]): Promise<number> {
       yaml: combined,
       actor,
       source: "ACTION",
+      owner: opts.owner,
+      prune: opts.prune,
     }),
   });
 
+  const channels = res.appliedChannels ?? [];
+  const windows = res.appliedMaintenanceWindows ?? [];
+  const pruned = (res.pruned ?? []).map((r) => `${r.kind}/${r.name}`);
   console.log(
-    `Deployed ${res.appliedChecks.length} checks and ${res.appliedRules.length} alert rules (deployment ${res.deploymentId})`,
+    `Deployed ${res.appliedChecks.length} checks, ${res.appliedRules.length} alert rules, ${channels.length} notification channels and ${windows.length} maintenance windows (deployment ${res.deploymentId})`,
   );
+  if (pruned.length > 0) console.log(`Pruned (${opts.prune}): ${pruned.join(", ")}`);
   appendSummary(
-    `## InsightView deploy\n- files: ${files.length}\n- checks applied: ${res.appliedChecks.join(", ")}\n- alert rules applied: ${res.appliedRules.join(", ")}\n- deploymentId: ${res.deploymentId}\n`,
+    `## InsightView deploy\n- files: ${files.length}\n- checks applied: ${res.appliedChecks.join(", ")}\n- alert rules applied: ${res.appliedRules.join(", ")}\n- notification channels applied: ${channels.join(", ")}\n- maintenance windows applied: ${windows.join(", ")}\n- pruned: ${pruned.join(", ")}\n- deploymentId: ${res.deploymentId}\n`,
   );
   return 0;
 }
+
+/** One line per resource, diff-style: + create, ~ update, - delete. */
+function planLines(plan: MonitorPlan, prune: "delete" | "disable" | undefined): string[] {
+  const lines = [
+    ...plan.create.map((r) => `+ ${r.kind}/${r.name}`),
+    ...plan.update.map((r) => {
+      const notes = [...r.changes];
+      if (r.previousOwner !== undefined) {
+        notes.push(`take ownership from ${r.previousOwner ?? "UI/API"}`);
+      }
+      return `~ ${r.kind}/${r.name} (${notes.join(", ")})`;
+    }),
+  ];
+  for (const r of plan.delete) {
+    lines.push(
+      prune
+        ? `- ${r.kind}/${r.name}${prune === "disable" ? " (disable)" : ""}`
+        : `# ${r.kind}/${r.name} is no longer declared; kept (deploy with --prune to remove)`,
+    );
+  }
+  return lines;
+}
+
+interface DeployOptions {
+  plan: boolean;
+  prune?: "delete" | "disable";
+  owner?: string;
+}
+
+function parseDeployArgs(args: string[]): DeployOptions {
+  const envPrune = process.env.INSIGHTVIEW_PRUNE;
+  const opts: DeployOptions = {
+    plan: process.env.INSIGHTVIEW_DEPLOY_PLAN === "true",
+    prune: envPrune === "delete" || envPrune === "disable" ? envPrune : undefined,
+    owner: process.env.INSIGHTVIEW_OWNER || process.env.GITHUB_REPOSITORY || undefined,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "--plan") opts.plan = true;
+    else if (a === "--prune" || a === "--prune=delete") opts.prune = "delete";
+    else if (a === "--prune=disable") opts.prune = "disable";
+    else if (a === "--owner" && args[i + 1]) opts.owner = args[++i];
+  }
+  return opts;
+}
@@ -1,4 +1,4 @@
-import { parseMonitorPath, runCheck } from "@insightview/synthetic-kit";
+import { parseMonitorPath, runMonitor } from "@insightview/synthetic-kit";
 import { setOutput, appendSummary } from "../githubOutputs.js";
 
 /**
@@ -61,7 +61,10 @@ export async function nativeRunCommand(args: string[]): Promise<number> {
   ];
 
   for (const spec of filteredSpecs) {
-    const envelope = await runCheck(spec, { artifactsDir, location });
+    const envelope = await runMonitor(spec, {
+      artifactsDir,
+      location: spec.location ?? location,
+    });
     const { status, durationMs, summary } = envelope;
     const icon =
       status === "PASSED"
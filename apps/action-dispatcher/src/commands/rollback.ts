@@ -0,0 +1,96 @@
+import { loadApiConfig, apiRequest } from "../apiClient.js";
+import { setOutput, appendSummary } from "../githubOutputs.js";
+
+/** What the API records as the owner of a deploy that names none. */
+const DEFAULT_OWNER = "monitors-as-code";
+
+interface DeploymentSummary {
+  id: string;
+  actor: string;
+  source: string;
+  yamlHash: string;
+  rollbackOf: string | null;
+  createdAt: string;
+}
+
+/**
+ * `rollback` command. Re-applies the YAML snapshot of an earlier
+ * monitors deployment as a new deployment:
+ *
+ *   insightview rollback --list [--owner NAME]  recent deployments
+ *   insightview rollback DEPLOYMENT_ID [--prune[=disable]]
+ *   insightview rollback --previous [--owner NAME] [--prune[=disable]]
+ *       the owner's deployment before its latest one
+ *
+ * The owner defaults like `deploy`'s (INSIGHTVIEW_OWNER, else
+ * GITHUB_REPOSITORY, else the API's default), so --previous never
+ * picks another repository's deployment in a shared tenant. Without
+ * --prune, resources the later deploys added are kept.
+ */
+export async function rollbackCommand(args: string[]): Promise<number> {
+  const config = loadApiConfig();
+  const list = args.includes("--list");
+  const previous = args.includes("--previous");
+  const ownerAt = args.indexOf("--owner");
+  const ownerFlag = ownerAt >= 0 ? args[ownerAt + 1] : undefined;
+  const id = args.find((a, i) => !a.startsWith("--") && i !== ownerAt + 1);
+  const prune = args.includes("--prune=disable")
+    ? "disable"
+    : args.includes("--prune") || args.includes("--prune=delete")
+      ? "delete"
+      : undefined;
+  if (!list && !previous && !id) {
+    console.error(
+      "Usage: insightview rollback <DEPLOYMENT_ID | --previous | --list> [--owner NAME] [--prune[=disable]]",
+    );
+    return 1;
+  }
+
+  if (list) {
+    const query = ownerFlag ? `&owner=${encodeURIComponent(ownerFlag)}` : "";
+    const res = await apiRequest<{ items: DeploymentSummary[] }>(
+      config,
+      `/v1/deployments?limit=20${query}`,
+    );
+    for (const d of res.items) {
+      const note = d.rollbackOf ? `  (rollback of ${d.rollbackOf})` : "";
+      console.log(`${d.id}  ${d.createdAt}  ${d.source.padEnd(6)}  ${d.actor}  ${d.yamlHash.slice(0, 12)}${note}`);
+    }
+    return 0;
+  }
+
+  let target = id;
+  if (previous) {
+    const owner =
+      ownerFlag || process.env.INSIGHTVIEW_OWNER || process.env.GITHUB_REPOSITORY || DEFAULT_OWNER;
+    const res = await apiRequest<{ items: DeploymentSummary[] }>(
+      config,
+      `/v1/deployments?limit=2&owner=${encodeURIComponent(owner)}`,
+    );
+    target = res.items[1]?.id;
+  }
+  if (!target) {
+    console.error("[rollback] there is no earlier deployment to roll back to");
+    return 1;
+  }
+
+  const res = await apiRequest<{
+    deploymentId: string;
+    appliedChecks: string[];
+    appliedRules: string[];
+    pruned: Array<{ kind: string; name: string }>;
+  }>(config, `/v1/deployments/${encodeURIComponent(target)}/rollback`, {
+    method: "POST",
+    body: JSON.stringify({ source: process.env.GITHUB_ACTIONS ? "ACTION" : "CLI", prune }),
+  });
+  const pruned = res.pruned.map((r) => `${r.kind}/${r.name}`);
+  console.log(
+    `[rollback] re-applied deployment ${target}: ${res.appliedChecks.length} checks, ${res.appliedRules.length} alert rules (deployment ${res.deploymentId})`,
+  );
+  if (pruned.length > 0) console.log(`[rollback] pruned (${prune}): ${pruned.join(", ")}`);
+  setOutput("deployment_id", res.deploymentId);
+  appendSummary(
+    `## InsightView rollback\n- rolled back to: ${target}\n- new deployment: ${res.deploymentId}\n- pruned: ${pruned.join(", ")}\n`,
+  );
+  return 0;
+}
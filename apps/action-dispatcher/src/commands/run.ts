@@ -1,50 +1,74 @@
 import { loadApiConfig, apiRequest } from "../apiClient.js";
 import { setOutput, appendSummary } from "../githubOutputs.js";
 
+const TERMINAL = ["PASSED", "FAILED", "ERROR", "TIMEOUT"];
+
 export async function runCommand(_args: string[]): Promise<number> {
   const checkName = process.env.INSIGHTVIEW_CHECK_NAME;
   const waitForTerminal = (process.env.INSIGHTVIEW_WAIT ?? "true") === "true";
+  // Optional: trigger only one of the check's configured locations.
+  const location = process.env.INSIGHTVIEW_RUN_LOCATION || undefined;
   if (!checkName) {
     console.error("INSIGHTVIEW_CHECK_NAME environment variable is required for 'run'");
     return 1;
   }
   const config = loadApiConfig();
   console.log(`Triggering run for check '${checkName}' via ${config.baseUrl}`);
-  const triggered = await apiRequest<{ runId: string; status: string }>(
-    config,
-    "/v1/runs",
-    {
-      method: "POST",
-      body: JSON.stringify({ checkName, triggeredBy: "ACTION" }),
-    },
-  );
-  console.log(`Run accepted: ${triggered.runId}`);
+  const triggered = await apiRequest<{
+    runId: string;
+    status: string;
+    runs?: Array<{ runId: string; location: string }>;
+  }>(config, "/v1/runs", {
+    method: "POST",
+    body: JSON.stringify({ checkName, triggeredBy: "ACTION", location }),
+  });
+  // One run per location; older APIs only return `runId`.
+  const runs = triggered.runs ?? [{ runId: triggered.runId, location: "local" }];
+  for (const r of runs) console.log(`Run accepted: ${r.runId} (${r.location})`);
   setOutput("run_id", triggered.runId);
 
   if (!waitForTerminal) {
-    appendSummary(`## InsightView run started\n- checkName: ${checkName}\n- runId: ${triggered.runId}\n`);
+    appendSummary(
+      `## InsightView run started\n- checkName: ${checkName}\n${runs
+        .map((r) => `- runId: ${r.runId} (${r.location})\n`)
+        .join("")}`,
+    );
     return 0;
   }
 
   const deadline = Date.now() + 5 * 60 * 1000;
-  let lastStatus = triggered.status;
+  const statuses = new Map<string, string>(runs.map((r) => [r.runId, triggered.status]));
   while (Date.now() < deadline) {
     await new Promise((r) => setTimeout(r, 2000));
-    const run = await apiRequest<{ id: string; status: string }>(
-      config,
-      `/v1/runs/${encodeURIComponent(triggered.runId)}`,
-    );
-    lastStatus = run.status;
-    if (["PASSED", "FAILED", "ERROR", "TIMEOUT"].includes(run.status)) {
-      console.log(`Run finished with status: ${run.status}`);
-      setOutput("run_status", run.status);
+    for (const r of runs) {
+      if (TERMINAL.includes(statuses.get(r.runId) ?? "")) continue;
+      const run = await apiRequest<{ id: string; status: string }>(
+        config,
+        `/v1/runs/${encodeURIComponent(r.runId)}`,
+      );
+      statuses.set(r.runId, run.status);
+    }
+    if (runs.every((r) => TERMINAL.includes(statuses.get(r.runId) ?? ""))) {
+      const failed = runs.filter((r) => statuses.get(r.runId) !== "PASSED");
+      const overall = failed.length === 0 ? "PASSED" : statuses.get(failed[0].runId)!;
+      for (const r of runs) {
+        console.log(`Run ${r.runId} (${r.location}) finished with status: ${statuses.get(r.runId)}`);
+      }
+      setOutput("run_status", overall);
       appendSummary(
-        `## InsightView run result\n- checkName: ${checkName}\n- runId: ${triggered.runId}\n- status: **${run.status}**\n`,
+        `## InsightView run result\n- checkName: ${checkName}\n${runs
+          .map((r) => `- ${r.location}: runId ${r.runId} — **${statuses.get(r.runId)}**\n`)
+          .join("")}`,
       );
-      return run.status === "PASSED" ? 0 : 1;
+      return failed.length === 0 ? 0 : 1;
     }
   }
-  console.error(`Run did not complete within deadline (last status: ${lastStatus})`);
+  const pending = runs.filter((r) => !TERMINAL.includes(statuses.get(r.runId) ?? ""));
+  console.error(
+    `Run did not complete within deadline (pending: ${pending
+      .map((r) => `${r.location}=${statuses.get(r.runId)}`)
+      .join(", ")})`,
+  );
   setOutput("run_status", "TIMEOUT");
   return 1;
 }
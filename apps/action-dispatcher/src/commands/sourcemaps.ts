@@ -0,0 +1,336 @@
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { loadApiConfig, apiRequest } from "../apiClient.js";
+import { setOutput, appendSummary } from "../githubOutputs.js";
+
+interface StoredMap {
+  id: string;
+  release: string;
+  bundleUrl: string;
+  contentHash: string;
+  createdAt: string;
+}
+
+interface Artifact {
+  /** The URL browsers load the bundle from, as it appears in stacks. */
+  bundleUrl: string;
+  /** Where the map came from, for log lines. */
+  from: string;
+  content: string;
+  embedded: number;
+  missing: number;
+}
+
+const USAGE = `Usage:
+  insightview sourcemaps upload --release R --url-prefix URL [--concurrency N] [--no-sources-content] [--dry-run] DIR
+  insightview sourcemaps list [--release R]
+  insightview sourcemaps delete <--release R | MAP_ID>
+  insightview sourcemaps prune --keep N`;
+
+/**
+ * `sourcemaps` command. Manages the source maps the platform uses to
+ * resolve RUM error stacks:
+ *
+ *   upload   walks a build directory, pairs each bundle with its map
+ *            (its `sourceMappingURL`, else `<bundle>.map`) and uploads
+ *            the maps under `--url-prefix` + the bundle's path. Sources
+ *            the map doesn't embed are read from disk into
+ *            `sourcesContent` so errors show source context; maps the
+ *            release already has with the same content are skipped.
+ *   list     releases with maps, or one release's maps
+ *   delete   one map by id, or every map of a release
+ *   prune    keep the N newest releases' maps, delete the rest
+ */
+export async function sourcemapsCommand(args: string[]): Promise<number> {
+  const [sub, ...rest] = args;
+  const flags = parseFlags(rest);
+  switch (sub) {
+    case "upload":
+      return upload(flags);
+    case "list":
+      return list(flags);
+    case "delete":
+      return remove(flags);
+    case "prune":
+      return prune(flags);
+    default:
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+async function upload(flags: SourcemapsFlags): Promise<number> {
+  const dir = flags.positional[0];
+  if (!flags.release || !flags.urlPrefix || !dir) {
+    console.error(USAGE);
+    return 1;
+  }
+  const release = flags.release;
+  let artifacts: Artifact[];
+  try {
+    artifacts = collectArtifacts(dir, flags.urlPrefix, flags.sourcesContent);
+  } catch (err) {
+    console.error(`[sourcemaps] failed to read '${dir}':`, (err as Error).message);
+    return 1;
+  }
+  if (artifacts.length === 0) {
+    console.log(`[sourcemaps] no bundles with source maps under ${dir}`);
+    return 0;
+  }
+
+  const config = loadApiConfig();
+  const existing = await apiRequest<{ items: StoredMap[] }>(
+    config,
+    `/v1/source-maps?release=${encodeURIComponent(release)}`,
+  );
+  const stored = new Map(existing.items.map((m) => [m.bundleUrl, m.contentHash]));
+  const pending = artifacts.filter((a) => stored.get(a.bundleUrl) !== sha256(a.content));
+  const skipped = artifacts.length - pending.length;
+
+  for (const a of artifacts) {
+    const state = pending.includes(a) ? (flags.dryRun ? "would upload" : "upload") : "unchanged";
+    const notes = [a.from];
+    if (a.embedded > 0) notes.push(`${a.embedded} sources embedded`);
+    if (a.missing > 0) notes.push(`${a.missing} sources not found`);
+    console.log(`  ${state.padEnd(12)} ${a.bundleUrl}  (${notes.join(", ")})`);
+  }
+  if (flags.dryRun) {
+    console.log(`[sourcemaps] dry run: ${pending.length} to upload, ${skipped} unchanged for release ${release}`);
+    return 0;
+  }
+
+  const failed: string[] = [];
+  await eachLimit(pending, flags.concurrency, async (a) => {
+    try {
+      await apiRequest(config, "/v1/source-maps", {
+        method: "POST",
+        body: JSON.stringify({ release, bundleUrl: a.bundleUrl, content: a.content }),
+      });
+    } catch (err) {
+      failed.push(a.bundleUrl);
+      console.error(`[sourcemaps] ${a.bundleUrl}: ${(err as Error).message}`);
+    }
+  });
+
+  const uploaded = pending.length - failed.length;
+  console.log(
+    `[sourcemaps] release ${release}: ${uploaded} uploaded, ${skipped} unchanged${failed.length > 0 ? `, ${failed.length} failed` : ""}`,
+  );
+  setOutput("sourcemaps_uploaded", String(uploaded));
+  appendSummary(
+    `## InsightView source maps: \`${release}\`\n\n- Uploaded: ${uploaded}\n- Unchanged: ${skipped}\n- Failed: ${failed.length}\n`,
+  );
+  return failed.length > 0 ? 1 : 0;
+}
+
+async function list(flags: SourcemapsFlags): Promise<number> {
+  const config = loadApiConfig();
+  if (flags.release) {
+    const res = await apiRequest<{ items: StoredMap[] }>(
+      config,
+      `/v1/source-maps?release=${encodeURIComponent(flags.release)}`,
+    );
+    for (const m of res.items) {
+      console.log(`${m.id}  ${m.createdAt}  ${m.contentHash.slice(0, 12)}  ${m.bundleUrl}`);
+    }
+    if (res.items.length === 0) console.log(`[sourcemaps] release ${flags.release} has no maps`);
+    return 0;
+  }
+  const res = await apiRequest<{
+    items: Array<{ release: string; maps: number; firstUploadedAt: string; lastUploadedAt: string }>;
+  }>(config, "/v1/source-maps/releases");
+  for (const r of res.items) {
+    console.log(`${r.firstUploadedAt}  ${String(r.maps).padStart(4)} maps  ${r.release}`);
+  }
+  return 0;
+}
+
+async function remove(flags: SourcemapsFlags): Promise<number> {
+  const config = loadApiConfig();
+  const id = flags.positional[0];
+  if (flags.release) {
+    const res = await apiRequest<{ deleted: number }>(
+      config,
+      `/v1/source-maps/releases/${encodeURIComponent(flags.release)}`,
+      { method: "DELETE" },
+    );
+    console.log(`[sourcemaps] deleted ${res.deleted} maps of release ${flags.release}`);
+    return 0;
+  }
+  if (!id) {
+    console.error(USAGE);
+    return 1;
+  }
+  await apiRequest(config, `/v1/source-maps/${encodeURIComponent(id)}`, { method: "DELETE" });
+  console.log(`[sourcemaps] deleted map ${id}`);
+  return 0;
+}
+
+async function prune(flags: SourcemapsFlags): Promise<number> {
+  if (!flags.keep || flags.keep < 1) {
+    console.error(USAGE);
+    return 1;
+  }
+  const config = loadApiConfig();
+  const res = await apiRequest<{ releases: Array<{ release: string; maps: number }> }>(
+    config,
+    "/v1/source-maps/prune",
+    { method: "POST", body: JSON.stringify({ keep: flags.keep }) },
+  );
+  for (const r of res.releases) console.log(`  deleted ${r.release} (${r.maps} maps)`);
+  console.log(`[sourcemaps] kept the ${flags.keep} newest releases, deleted ${res.releases.length}`);
+  return 0;
+}
+
+/**
+ * Bundles under `dir` with their maps. A bundle's URL is its path
+ * relative to `dir` under `urlPrefix`, so `dist/assets/app.1a2b.js`
+ * with `--url-prefix https://cdn.example.com` becomes
+ * `https://cdn.example.com/assets/app.1a2b.js`.
+ */
+function collectArtifacts(dir: string, urlPrefix: string, fillSources: boolean): Artifact[] {
+  const root = resolve(dir);
+  const prefix = urlPrefix.replace(/\/+$/, "");
+  const out: Artifact[] = [];
+  for (const file of walk(root)) {
+    const code = readFileSync(file, "utf8");
+    const located = locateMap(file, code);
+    if (!located) continue;
+    let map: RawMap;
+    try {
+      map = JSON.parse(located.json) as RawMap;
+    } catch {
+      console.warn(`[sourcemaps] ${located.from} is not valid JSON; skipped`);
+      continue;
+    }
+    const { embedded, missing } = fillSources
+      ? embedSources(map, located.dir)
+      : { embedded: 0, missing: 0 };
+    out.push({
+      bundleUrl: `${prefix}/${relative(root, file).split(sep).join("/")}`,
+      from: located.from === "data:" ? "inline map" : relative(root, located.from),
+      content: embedded > 0 ? JSON.stringify(map) : located.json,
+      embedded,
+      missing,
+    });
+  }
+  return out;
+}
+
+function walk(dir: string): string[] {
+  const out: string[] = [];
+  for (const entry of readdirSync(dir)) {
+    if (entry === "node_modules") continue;
+    const full = join(dir, entry);
+    const st = statSync(full);
+    if (st.isDirectory()) {
+      out.push(...walk(full));
+    } else if (/\.(c|m)?js$/i.test(entry)) {
+      out.push(full);
+    }
+  }
+  return out;
+}
+
+interface RawMap {
+  sources?: string[];
+  sourceRoot?: string;
+  sourcesContent?: Array<string | null>;
+}
+
+/** The map JSON for a bundle, and the directory its sources are relative to. */
+function locateMap(file: string, code: string): { json: string; from: string; dir: string } | null {
+  // The last directive wins, as in browsers.
+  const matches = [...code.matchAll(/\/\/[#@]\s*sourceMappingURL=(\S+)/g)];
+  const url = matches[matches.length - 1]?.[1];
+  if (url?.startsWith("data:")) {
+    const comma = url.indexOf(",");
+    const data = url.slice(comma + 1);
+    const json = /;base64$/.test(url.slice(0, comma))
+      ? Buffer.from(data, "base64").toString("utf8")
+      : decodeURIComponent(data);
+    return { json, from: "data:", dir: dirname(file) };
+  }
+  if (url && /^[a-z]+:\/\//i.test(url)) {
+    console.warn(`[sourcemaps] ${file} points at a remote map (${url}); skipped`);
+    return null;
+  }
+  const path = url ? resolve(dirname(file), decodeURIComponent(url.split(/[?#]/)[0])) : `${file}.map`;
+  if (!existsSync(path)) {
+    if (url) console.warn(`[sourcemaps] ${file}: map ${path} not found; skipped`);
+    return null;
+  }
+  return { json: readFileSync(path, "utf8"), from: path, dir: dirname(path) };
+}
+
+/**
+ * Fill `sourcesContent` for sources the map lists but doesn't embed,
+ * from files on disk. Sources with a scheme (`webpack://`, `http://`)
+ * can't be found and are left out.
+ */
+function embedSources(map: RawMap, mapDir: string): { embedded: number; missing: number } {
+  const sources = map.sources ?? [];
+  const content = sources.map((_, i) => map.sourcesContent?.[i] ?? null);
+  let embedded = 0;
+  let missing = 0;
+  sources.forEach((source, i) => {
+    if (content[i] !== null) return;
+    const path = /^[a-z][a-z0-9+.-]*:/i.test(source)
+      ? null
+      : resolve(mapDir, map.sourceRoot ?? "", source);
+    if (path && existsSync(path) && statSync(path).isFile()) {
+      content[i] = readFileSync(path, "utf8");
+      embedded++;
+    } else {
+      missing++;
+    }
+  });
+  if (embedded > 0) map.sourcesContent = content;
+  return { embedded, missing };
+}
+
+// Same hash the server stores, so unchanged maps can be skipped.
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function eachLimit<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
+
+interface SourcemapsFlags {
+  release?: string;
+  urlPrefix?: string;
+  concurrency: number;
+  sourcesContent: boolean;
+  dryRun: boolean;
+  keep?: number;
+  positional: string[];
+}
+
+function parseFlags(args: string[]): SourcemapsFlags {
+  const flags: SourcemapsFlags = {
+    release: process.env.INSIGHTVIEW_RELEASE || undefined,
+    urlPrefix: process.env.INSIGHTVIEW_URL_PREFIX || undefined,
+    concurrency: 4,
+    sourcesContent: true,
+    dryRun: false,
+    positional: [],
+  };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "--release" && args[i + 1]) flags.release = args[++i];
+    else if (a === "--url-prefix" && args[i + 1]) flags.urlPrefix = args[++i];
+    else if (a === "--concurrency" && args[i + 1]) flags.concurrency = parseInt(args[++i], 10) || 4;
+    else if (a === "--keep" && args[i + 1]) flags.keep = parseInt(args[++i], 10);
+    else if (a === "--no-sources-content") flags.sourcesContent = false;
+    else if (a === "--dry-run") flags.dryRun = true;
+    else if (!a.startsWith("--")) flags.positional.push(a);
+  }
+  return flags;
+}
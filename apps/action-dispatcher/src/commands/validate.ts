@@ -1,53 +1,7 @@
 import { readdirSync, readFileSync, statSync } from "node:fs";
 import { join } from "node:path";
 import { parseAllDocuments } from "yaml";
-import { z } from "zod";
-
-const AssertionSchema = z.object({ type: z.string(), value: z.string() });
-
-const CheckSpecSchema = z.object({
-  type: z.enum(["browser", "api", "tcp"]).default("browser"),
-  enabled: z.boolean().optional(),
-  schedule: z.string(),
-  targetUrl: z.string().min(1),
-  timeoutMs: z.number().int().positive().optional(),
-  retries: z.number().int().min(0).optional(),
-  locations: z.array(z.string()).optional(),
-  scriptRef: z.string().optional(),
-  assertions: z.array(AssertionSchema).optional(),
-  tags: z.array(z.string()).optional(),
-});
-
-const AlertRuleSpecSchema = z.object({
-  checkName: z.string().optional(),
-  enabled: z.boolean().optional(),
-  strategy: z.enum(["THRESHOLD", "CONSECUTIVE_FAILURES", "COMPOSITE"]),
-  expression: z.record(z.unknown()).default({}),
-  severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
-  cooldownSeconds: z.number().int().positive().optional(),
-  channels: z.array(z.string()).optional(),
-});
-
-const MetadataSchema = z.object({
-  name: z.string().min(1),
-  description: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-});
-
-const DocSchema = z.discriminatedUnion("kind", [
-  z.object({
-    apiVersion: z.literal("insightview.io/v1"),
-    kind: z.literal("Check"),
-    metadata: MetadataSchema,
-    spec: CheckSpecSchema,
-  }),
-  z.object({
-    apiVersion: z.literal("insightview.io/v1"),
-    kind: z.literal("AlertRule"),
-    metadata: MetadataSchema,
-    spec: AlertRuleSpecSchema,
-  }),
-]);
+import { LATEST_API_VERSION, parseMonitorDoc } from "@insightview/monitor-schema";
 
 function walk(dir: string): string[] {
   const out: string[] = [];
@@ -90,7 +44,7 @@ export async function validateCommand(_args: string[]): Promise<number> {
       }
       const json = doc.toJS();
       if (!json) continue;
-      const result = DocSchema.safeParse(json);
+      const result = parseMonitorDoc(json);
       if (!result.success) {
         const issue = result.error.issues[0];
         console.error(
@@ -101,6 +55,11 @@ export async function validateCommand(_args: string[]): Promise<number> {
       }
       docs++;
       console.log(`✓ ${file} doc#${i} kind=${result.data.kind}`);
+      if (result.apiVersion !== LATEST_API_VERSION) {
+        console.log(
+          `::notice file=${file},line=${line}::${result.apiVersion} is still accepted; ${LATEST_API_VERSION} is current (see README, "Schema versions")`,
+        );
+      }
     }
   }
 
@@ -0,0 +1,98 @@
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import {
+  acceptVisualBaseline,
+  readVisualSidecars,
+} from "@insightview/synthetic-kit";
+
+/**
+ * `visual-accept` command. Promotes the screenshots of a previous
+ * native run to the `visual-diff` baselines, closing the loop after an
+ * intentional layout change:
+ *
+ *   insightview native-run                       # visual-diff fails
+ *   insightview visual-accept --monitor homepage # new baseline stored
+ *
+ * Flags:
+ *   --monitor NAME     accept the newest run of this monitor under
+ *                      INSIGHTVIEW_ARTIFACTS_DIR (default: every
+ *                      monitor's newest run). Falls back to
+ *                      INSIGHTVIEW_MONITOR / INSIGHTVIEW_CHECK_NAME.
+ *   --run-dir DIR      accept this run directory instead.
+ *   --step NAME        only accept this step (repeatable).
+ *   --baselines LOC    write to this directory or s3://bucket/prefix
+ *                      instead of the location the run compared with.
+ */
+export async function visualAcceptCommand(args: string[]): Promise<number> {
+  const flags = parseFlags(args);
+  const artifactsDir = process.env.INSIGHTVIEW_ARTIFACTS_DIR ?? "artifacts";
+
+  let runDirs: string[];
+  if (flags.runDir) {
+    runDirs = [flags.runDir];
+  } else {
+    const monitors = flags.monitor ? [flags.monitor] : listDirs(artifactsDir);
+    runDirs = monitors
+      .map((m) => newestRunWithSidecars(join(artifactsDir, m)))
+      .filter((d): d is string => d !== undefined);
+  }
+  if (runDirs.length === 0) {
+    console.error(
+      `[visual-accept] no runs with visual-diff results found under ${flags.runDir ?? artifactsDir}`,
+    );
+    return 1;
+  }
+
+  let accepted = 0;
+  for (const dir of runDirs) {
+    for (const sidecar of readVisualSidecars(dir)) {
+      if (flags.steps.length > 0 && !flags.steps.includes(sidecar.step)) continue;
+      if (!existsSync(sidecar.screenshotPath)) {
+        console.error(`[visual-accept] screenshot missing: ${sidecar.screenshotPath}`);
+        return 1;
+      }
+      const where = await acceptVisualBaseline(sidecar, flags.baselines);
+      console.log(`[visual-accept] ${sidecar.monitor} / ${sidecar.step} -> ${where}`);
+      accepted++;
+    }
+  }
+  if (accepted === 0) {
+    console.error("[visual-accept] nothing matched; check --step");
+    return 1;
+  }
+  return 0;
+}
+
+interface VisualAcceptFlags {
+  monitor?: string;
+  runDir?: string;
+  steps: string[];
+  baselines?: string;
+}
+
+function parseFlags(args: string[]): VisualAcceptFlags {
+  const flags: VisualAcceptFlags = {
+    monitor: process.env.INSIGHTVIEW_MONITOR ?? process.env.INSIGHTVIEW_CHECK_NAME,
+    steps: [],
+  };
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "--monitor" && args[i + 1]) flags.monitor = args[++i];
+    else if (a === "--run-dir" && args[i + 1]) flags.runDir = args[++i];
+    else if (a === "--step" && args[i + 1]) flags.steps.push(args[++i]);
+    else if (a === "--baselines" && args[i + 1]) flags.baselines = args[++i];
+  }
+  return flags;
+}
+
+function listDirs(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter((d) => statSync(join(dir, d)).isDirectory());
+}
+
+function newestRunWithSidecars(monitorDir: string): string | undefined {
+  return listDirs(monitorDir)
+    .map((d) => join(monitorDir, d))
+    .filter((d) => readVisualSidecars(d).length > 0)
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)[0];
+}
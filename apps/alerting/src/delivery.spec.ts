@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { deliverWithRetry, retryPolicyFor, type DeliveryAttempt } from "./delivery.js";
+import { NotificationDeliveryError } from "@insightview/alerting-kit";
+
+function recorder() {
+  const attempts: DeliveryAttempt[] = [];
+  const sleeps: number[] = [];
+  return {
+    attempts,
+    sleeps,
+    onAttempt: async (a: DeliveryAttempt) => void attempts.push(a),
+    sleep: async (ms: number) => void sleeps.push(ms),
+  };
+}
+
+describe("deliverWithRetry", () => {
+  it("retries retryable failures with exponential backoff and records each attempt", async () => {
+    const r = recorder();
+    let calls = 0;
+    const ok = await deliverWithRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw new NotificationDeliveryError("HTTP 503", 503);
+        return { statusCode: 200 };
+      },
+      { maxAttempts: 4, backoffMs: 100 },
+      r.onAttempt,
+      r.sleep,
+    );
+    expect(ok).toBe(true);
+    expect(r.sleeps).toEqual([100, 200]);
+    expect(r.attempts.map((a) => [a.attempt, a.ok, a.statusCode])).toEqual([
+      [1, false, 503],
+      [2, false, 503],
+      [3, true, 200],
+    ]);
+  });
+
+  it("stops at the first permanent failure", async () => {
+    const r = recorder();
+    const ok = await deliverWithRetry(
+      async () => {
+        throw new NotificationDeliveryError("HTTP 400", 400, false);
+      },
+      { maxAttempts: 5, backoffMs: 100 },
+      r.onAttempt,
+      r.sleep,
+    );
+    expect(ok).toBe(false);
+    expect(r.attempts).toHaveLength(1);
+    expect(r.sleeps).toEqual([]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const r = recorder();
+    const ok = await deliverWithRetry(
+      async () => {
+        throw new Error("ECONNREFUSED");
+      },
+      { maxAttempts: 3, backoffMs: 10 },
+      r.onAttempt,
+      r.sleep,
+    );
+    expect(ok).toBe(false);
+    expect(r.attempts.map((a) => a.error)).toEqual(["ECONNREFUSED", "ECONNREFUSED", "ECONNREFUSED"]);
+    expect(r.sleeps).toEqual([10, 20]);
+  });
+
+  it("caps the total wait between attempts", async () => {
+    const r = recorder();
+    const ok = await deliverWithRetry(
+      async () => {
+        throw new NotificationDeliveryError("HTTP 503", 503);
+      },
+      { maxAttempts: 6, backoffMs: 4_000 },
+      r.onAttempt,
+      r.sleep,
+    );
+    expect(ok).toBe(false);
+    expect(r.sleeps).toEqual([4_000, 6_000]);
+    expect(r.attempts).toHaveLength(3);
+  });
+});
+
+describe("retryPolicyFor", () => {
+  it("defaults to three attempts and clamps overrides", () => {
+    expect(retryPolicyFor({ config: {} })).toEqual({ maxAttempts: 3, backoffMs: 1000 });
+    expect(retryPolicyFor({ config: { retry: { maxAttempts: 50, backoffMs: 0 } } })).toEqual({
+      maxAttempts: 6,
+      backoffMs: 0,
+    });
+  });
+});
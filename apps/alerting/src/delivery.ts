@@ -0,0 +1,83 @@
+import type { NotificationChannel } from "@insightview/db";
+import { NotificationDeliveryError, type DeliveryReceipt } from "@insightview/alerting-kit";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  /** Delay before the second attempt; doubles after each failure. */
+  backoffMs: number;
+}
+
+export interface DeliveryAttempt {
+  attempt: number;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+const DEFAULT_POLICY: RetryPolicy = { maxAttempts: 3, backoffMs: 1_000 };
+const MAX_ATTEMPTS = 6;
+// Retries run inside the check.completed consumer, so the waits of one
+// delivery share this budget: six doubling 60 s backoffs would hold a
+// consumer slot for half an hour per dead receiver.
+const MAX_TOTAL_BACKOFF_MS = 10_000;
+
+/** Per-channel override: `config.retry = { maxAttempts, backoffMs }`. */
+export function retryPolicyFor(channel: Pick<NotificationChannel, "config">): RetryPolicy {
+  const retry = (channel.config as { retry?: Partial<RetryPolicy> } | null)?.retry ?? {};
+  const maxAttempts =
+    typeof retry.maxAttempts === "number" && retry.maxAttempts >= 1
+      ? Math.min(Math.floor(retry.maxAttempts), MAX_ATTEMPTS)
+      : DEFAULT_POLICY.maxAttempts;
+  const backoffMs =
+    typeof retry.backoffMs === "number" && retry.backoffMs >= 0
+      ? retry.backoffMs
+      : DEFAULT_POLICY.backoffMs;
+  return { maxAttempts, backoffMs };
+}
+
+/**
+ * Call `send` until it succeeds, fails permanently, or the policy runs
+ * out, waiting backoffMs, 2×backoffMs, 4×backoffMs... between tries.
+ * The waits add up to at most MAX_TOTAL_BACKOFF_MS; once it is spent
+ * the delivery gives up.
+ * `onAttempt` sees every attempt (the delivery log); its own failures
+ * are the caller's problem. Resolves true when delivered.
+ */
+export async function deliverWithRetry(
+  send: () => Promise<DeliveryReceipt | void>,
+  policy: RetryPolicy,
+  onAttempt: (attempt: DeliveryAttempt) => Promise<void>,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((r) => setTimeout(r, ms)),
+): Promise<boolean> {
+  let waited = 0;
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const started = Date.now();
+    try {
+      const receipt = await send();
+      await onAttempt({
+        attempt,
+        ok: true,
+        statusCode: receipt?.statusCode,
+        durationMs: Date.now() - started,
+      });
+      return true;
+    } catch (err) {
+      const retryable = !(err instanceof NotificationDeliveryError) || err.retryable;
+      await onAttempt({
+        attempt,
+        ok: false,
+        statusCode: err instanceof NotificationDeliveryError ? err.statusCode : undefined,
+        error: (err as Error).message,
+        durationMs: Date.now() - started,
+      });
+      if (!retryable || attempt === policy.maxAttempts) return false;
+      const budget = MAX_TOTAL_BACKOFF_MS - waited;
+      if (budget <= 0 && policy.backoffMs > 0) return false;
+      const delay = Math.min(policy.backoffMs * 2 ** (attempt - 1), budget);
+      waited += delay;
+      await sleep(delay);
+    }
+  }
+  return false;
+}
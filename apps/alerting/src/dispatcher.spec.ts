@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { recoveryChannels } from "./dispatcher.js";
+
+const now = new Date("2026-04-26T12:00:00Z");
+
+function incident(overrides: Record<string, unknown> = {}) {
+  return {
+    lastNotifiedAt: new Date("2026-04-26T11:00:00Z"),
+    silencedUntil: null,
+    escalationLevel: 0,
+    ...overrides,
+  } as Parameters<typeof recoveryChannels>[0];
+}
+
+const rule = {
+  channelIds: ["ops-slack"],
+  escalation: [
+    { afterMinutes: 15, channels: ["pagerduty"] },
+    { afterMinutes: 60, channels: ["manager-email"] },
+  ],
+} as unknown as Parameters<typeof recoveryChannels>[1];
+
+describe("recoveryChannels", () => {
+  it("tells the rule's channels and every escalation tier reached", () => {
+    expect(recoveryChannels(incident(), rule, now)).toEqual(["ops-slack"]);
+    expect(recoveryChannels(incident({ escalationLevel: 1 }), rule, now)).toEqual([
+      "ops-slack",
+      "pagerduty",
+    ]);
+  });
+
+  it("stays quiet for incidents that never notified", () => {
+    expect(recoveryChannels(incident({ lastNotifiedAt: null }), rule, now)).toEqual([]);
+  });
+
+  it("stays quiet while silenced, but not after the silence expires", () => {
+    const silenced = incident({ silencedUntil: new Date("2026-04-26T13:00:00Z") });
+    expect(recoveryChannels(silenced, rule, now)).toEqual([]);
+    const expired = incident({ silencedUntil: new Date("2026-04-26T11:30:00Z") });
+    expect(recoveryChannels(expired, rule, now)).toEqual(["ops-slack"]);
+  });
+});
@@ -1,8 +1,16 @@
 import type { Logger } from "@insightview/observability";
 import type { AlertIncident, AlertRule } from "@insightview/db";
-import { findChannelsByNames, markIncidentNotified } from "@insightview/db";
-import type { TenantContext } from "@insightview/core";
-import { channelFor } from "./channels/index.js";
+import {
+  claimIncidentNotification,
+  findChannelsByNames,
+  getCheckById,
+  isIncidentMuted,
+  lastNotifiedAtForDedupeKey,
+  recordNotificationDelivery,
+} from "@insightview/db";
+import type { EscalationTier, TenantContext } from "@insightview/core";
+import { channelFor, type NotificationKind } from "@insightview/alerting-kit";
+import { deliverWithRetry, retryPolicyFor } from "./delivery.js";
 
 /**
  * Dispatches a newly-fired incident to the channels named on its rule.
@@ -14,6 +22,13 @@ import { channelFor } from "./channels/index.js";
  * If the rule lists no channels, fall back to the "stdout" channel
  * if one exists so that incidents at least surface in service logs
  * rather than disappearing silently.
+ *
+ * Acknowledged and silenced incidents are skipped: on-call already
+ * knows about them. Within the rule's `cooldownSeconds` of the last
+ * notification for the same dedupe key the incident is left
+ * un-notified; the sweep (sweep.ts) sends it once the cooldown ends,
+ * if it is still firing. That is what keeps a flapping check from
+ * paging on every flap.
  */
 export async function dispatchNotifications(
   ctx: TenantContext,
@@ -21,35 +36,146 @@ export async function dispatchNotifications(
   rule: AlertRule,
   log: Logger,
 ): Promise<void> {
-  const requested = Array.isArray(rule.channelIds) ? rule.channelIds : [];
-  const lookup = requested.length > 0 ? requested : ["stdout"];
-  const channels = await findChannelsByNames(ctx, lookup);
+  if (isIncidentMuted(incident)) {
+    log.info(
+      { incidentId: incident.id, status: incident.status, silencedUntil: incident.silencedUntil },
+      "incident acknowledged or silenced; notification skipped",
+    );
+    return;
+  }
+  const last = await lastNotifiedAtForDedupeKey(ctx, incident.dedupeKey);
+  if (last && Date.now() - last.getTime() < rule.cooldownSeconds * 1000) {
+    log.info(
+      { incidentId: incident.id, rule: rule.name, lastNotifiedAt: last },
+      "within cooldown; deferring notification to the sweep",
+    );
+    return;
+  }
+  if (!(await claimIncidentNotification(incident, incident.escalationLevel))) return;
+  await sendToChannels(ctx, incident, rule, ruleChannels(rule), "initial", log);
+}
+
+/**
+ * Sends the "recovered" message for an incident the evaluator just
+ * resolved, to every channel that heard about it: the rule's own plus
+ * each escalation tier reached. Incidents that never notified (held
+ * by the cooldown) or are still silenced resolve quietly.
+ */
+export async function dispatchResolution(
+  ctx: TenantContext,
+  incident: AlertIncident,
+  rule: AlertRule,
+  log: Logger,
+): Promise<void> {
+  const names = recoveryChannels(incident, rule);
+  if (names.length === 0) {
+    log.info({ incidentId: incident.id, rule: rule.name }, "incident resolved quietly");
+    return;
+  }
+  await sendToChannels(ctx, incident, rule, names, "resolved", log);
+}
+
+export function recoveryChannels(
+  incident: Pick<AlertIncident, "lastNotifiedAt" | "silencedUntil" | "escalationLevel">,
+  rule: Pick<AlertRule, "channelIds" | "escalation">,
+  now = new Date(),
+): string[] {
+  if (!incident.lastNotifiedAt) return [];
+  if (incident.silencedUntil && incident.silencedUntil > now) return [];
+  const reached = escalationTiers(rule.escalation)
+    .slice(0, incident.escalationLevel)
+    .flatMap((t) => t.channels);
+  return [...new Set([...ruleChannels(rule), ...reached])];
+}
+
+/** Channel names a rule notifies by default. */
+export function ruleChannels(rule: Pick<AlertRule, "channelIds">): string[] {
+  const requested = Array.isArray(rule.channelIds) ? (rule.channelIds as string[]) : [];
+  return requested.length > 0 ? requested : ["stdout"];
+}
+
+/** A rule's escalation tiers, earliest first. Malformed entries are dropped. */
+export function escalationTiers(raw: unknown): EscalationTier[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (t): t is EscalationTier =>
+        typeof t?.afterMinutes === "number" && Array.isArray(t?.channels),
+    )
+    .sort((a, b) => a.afterMinutes - b.afterMinutes);
+}
+
+/**
+ * Delivers to each named channel with retries (delivery.ts) and logs
+ * every attempt as a NotificationDelivery row. Channels are tried one
+ * after another; a failing channel never blocks the rest.
+ */
+export async function sendToChannels(
+  ctx: TenantContext,
+  incident: AlertIncident,
+  rule: AlertRule,
+  names: string[],
+  kind: NotificationKind,
+  log: Logger,
+): Promise<void> {
+  const channels = await findChannelsByNames(ctx, names);
   if (channels.length === 0) {
     log.warn(
-      { rule: rule.name, requested: lookup },
+      { rule: rule.name, requested: names },
       "no enabled channels resolved for alert; incident not dispatched",
     );
     return;
   }
+  const check = incident.checkId
+    ? await getCheckById(ctx, incident.checkId).catch(() => null)
+    : null;
   for (const channel of channels) {
-    try {
-      const impl = channelFor(channel.type);
-      await impl.send({
-        channel,
-        incident,
-        ruleName: rule.name,
-        log,
-      });
-    } catch (err) {
+    const delivered = await deliverWithRetry(
+      async () =>
+        channelFor(channel.type).send({
+          channel,
+          incident,
+          ruleName: rule.name,
+          kind,
+          rule,
+          check,
+          log,
+        }),
+      retryPolicyFor(channel),
+      async (attempt) => {
+        if (!attempt.ok) {
+          log.warn(
+            {
+              channel: channel.name,
+              type: channel.type,
+              attempt: attempt.attempt,
+              error: attempt.error,
+            },
+            "notification attempt failed",
+          );
+        }
+        try {
+          await recordNotificationDelivery(ctx, {
+            incidentId: incident.id,
+            channelName: channel.name,
+            channelType: channel.type,
+            kind,
+            attempt: attempt.attempt,
+            status: attempt.ok ? "SUCCEEDED" : "FAILED",
+            statusCode: attempt.statusCode,
+            error: attempt.error,
+            durationMs: attempt.durationMs,
+          });
+        } catch (err) {
+          log.warn({ err, channel: channel.name }, "failed to record notification delivery");
+        }
+      },
+    );
+    if (!delivered) {
       log.error(
-        { err, channel: channel.name, type: channel.type },
+        { channel: channel.name, type: channel.type, incidentId: incident.id },
         "notification send failed",
       );
     }
   }
-  try {
-    await markIncidentNotified(incident.id);
-  } catch (err) {
-    log.warn({ err }, "failed to mark incident notified");
-  }
 }
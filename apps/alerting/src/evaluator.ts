@@ -1,27 +1,41 @@
 import { createHash, randomUUID } from "node:crypto";
 import type { Logger } from "@insightview/observability";
-import type {
-  CheckCompletedPayload,
-  TenantContext,
+import type { EventBus } from "@insightview/event-bus";
+import {
+  MaintenanceMode,
+  MessageTypes,
+  Topics,
+  envelope,
+  type AlertResolvedPayload,
+  type AlertTriggeredPayload,
+  type CheckCompletedPayload,
+  type TenantContext,
 } from "@insightview/core";
 import {
+  activeMaintenanceWindows,
+  getCheckById,
+  windowCoversCheck,
   listEnabledRulesForCheck,
   listRunsByCheck,
-  listResultsByRun,
-  rumWebVitalPercentiles,
   createIncident,
   findFiringIncident,
   resolveIncidentsForRule,
   type AlertIncident,
   type AlertRule,
 } from "@insightview/db";
-import { strategyFor } from "./strategies/index.js";
+import { loadHistoricalValues, loadRumAggregates, strategyFor } from "@insightview/alerting-kit";
 
 export interface FiredIncident {
   incident: AlertIncident;
   rule: AlertRule;
 }
 
+export interface EvaluationOutcome {
+  fired: FiredIncident[];
+  /** Incidents that recovered on this run (not tier supersessions). */
+  resolved: FiredIncident[];
+}
+
 /**
  * Evaluator orchestration. Loads the enabled rules for a check,
  * pre-populates strategy-specific context (historicalValues for
@@ -32,84 +46,55 @@ export interface FiredIncident {
  * Anomaly & RUM pre-population is done here rather than inside the
  * strategies themselves so the strategies remain pure functions
  * that unit tests can hammer without a database.
+ *
+ * Every incident opened or resolved here is announced on
+ * `alerts.triggered` / `alerts.resolved` for downstream consumers
+ * (ticketing bridges, audit sinks); notifications are the caller's job.
+ *
+ * Runs of checks inside a `mute-alerts` maintenance window are not
+ * evaluated at all: nothing fires and nothing resolves until the
+ * window ends, so a deploy can't open (or close) incidents.
  */
 
 export async function evaluateCompletion(
   ctx: TenantContext,
   payload: CheckCompletedPayload,
   log: Logger,
-): Promise<FiredIncident[]> {
+  bus: Pick<EventBus, "publish">,
+): Promise<EvaluationOutcome> {
   const rules = await listEnabledRulesForCheck(ctx, payload.checkId);
-  if (rules.length === 0) return [];
-
-  const recentRuns = await listRunsByCheck(ctx, payload.checkId, 20);
-  const createdIncidents: FiredIncident[] = [];
-
-  // Pre-compute historical metric samples for anomaly detection.
-  // We only do this work if at least one rule actually needs it.
-  const needsAnomaly = rules.some((r) => r.strategy === "ANOMALY_DETECTION");
-  const historicalValues: Record<string, number[]> = {};
-  if (needsAnomaly) {
-    // For every prior run in history, look up its results and
-    // harvest each web-vital measurement. One DB call per run is
-    // acceptable at 20-run window; the query is indexed.
-    for (const run of recentRuns.slice(0, 20)) {
-      if (run.id === payload.runId) continue;
-      try {
-        const results = await listResultsByRun(ctx, run.id);
-        for (const r of results) {
-          const vitals = (r.webVitals as Record<string, number>) ?? {};
-          for (const [k, v] of Object.entries(vitals)) {
-            if (typeof v === "number" && Number.isFinite(v)) {
-              (historicalValues[k] = historicalValues[k] ?? []).push(v);
-            }
-          }
-          // `duration` bucket from the step duration.
-          if (typeof r.durationMs === "number") {
-            (historicalValues.duration = historicalValues.duration ?? []).push(
-              r.durationMs,
-            );
-          }
-        }
-      } catch (err) {
-        log.warn({ err, runId: run.id }, "failed to load results for history");
-      }
-    }
-  }
+  if (rules.length === 0) return { fired: [], resolved: [] };
 
-  // Pre-compute RUM aggregates for RUM_METRIC rules. Real percentiles
-  // are computed via Postgres `percentile_cont`; the previous
-  // `avg * 1.2` / `avg * 1.5` placeholders are gone.
-  const needsRum = rules.some((r) => r.strategy === "RUM_METRIC");
-  const rumAggregates: Record<
-    string,
-    { p50: number; p75: number; p95: number; count: number; mean: number }
-  > = {};
-  if (needsRum) {
-    // For MVP we treat the configured site-id env as the lookup key.
-    // In a production deployment the rule would carry its own siteId
-    // in `expression.siteId`; this keeps the wiring simple.
-    const siteId = process.env.RUM_SITE_ID ?? "default";
-    try {
-      const distributions = await rumWebVitalPercentiles(
-        ctx,
-        siteId,
-        15 * 60 * 1000, // 15-minute window
+  const muteWindows = await activeMaintenanceWindows(ctx, MaintenanceMode.MUTE_ALERTS);
+  if (muteWindows.length > 0) {
+    const check = await getCheckById(ctx, payload.checkId);
+    const window = muteWindows.find((w) => windowCoversCheck(w, check));
+    if (window) {
+      log.info(
+        { check: check.name, window: window.name, runId: payload.runId },
+        "alerts muted for maintenance; run not evaluated",
       );
-      for (const row of distributions) {
-        rumAggregates[row.metric] = {
-          p50: row.p50,
-          p75: row.p75,
-          p95: row.p95,
-          count: row.count,
-          mean: row.mean,
-        };
-      }
-    } catch (err) {
-      log.warn({ err }, "failed to load RUM aggregate");
+      return { fired: [], resolved: [] };
     }
   }
 
+  // Quorum rules compare locations, so they need enough history to
+  // cover every location's recent streak, not just the last 20 runs.
+  const needsQuorum = rules.some(
+    (r) => typeof (r.expression as { quorum?: unknown } | null)?.quorum === "number",
+  );
+  const recentRuns = await listRunsByCheck(ctx, payload.checkId, needsQuorum ? 100 : 20);
+  const createdIncidents: FiredIncident[] = [];
+  const resolvedIncidents: FiredIncident[] = [];
+
+  // Strategy-specific context, only loaded when some rule needs it.
+  const historicalValues = rules.some((r) => r.strategy === "ANOMALY_DETECTION")
+    ? await loadHistoricalValues(ctx, recentRuns.slice(0, 20), payload.runId, log)
+    : {};
+  const rumAggregates = rules.some((r) => r.strategy === "RUM_METRIC")
+    ? await loadRumAggregates(ctx, log)
+    : {};
+
   for (const rule of rules) {
     const strategy = strategyFor(rule.strategy);
     const decision = strategy.evaluate({
@@ -120,6 +105,7 @@ export async function evaluateCompletion(
         durationMs: payload.durationMs,
         summary: payload.summary,
         errorMessage: payload.errorMessage ?? null,
+        location: payload.location,
       },
       history: recentRuns,
       historicalValues,
@@ -127,8 +113,12 @@ export async function evaluateCompletion(
     });
 
     if (decision.shouldFire) {
+      const severity = decision.severity ?? rule.severity;
       const dedupeKey = createHash("sha256")
-        .update(`${rule.id}:${payload.checkId}:${rule.severity}`)
+        .update(
+          `${rule.id}:${payload.checkId}:${severity}` +
+            (decision.dedupeScope ? `:${decision.dedupeScope}` : ""),
+        )
         .digest("hex");
       const existing = await findFiringIncident(ctx, dedupeKey);
       if (existing) {
@@ -138,12 +128,23 @@ export async function evaluateCompletion(
         );
         continue;
       }
+      if (decision.dedupeScope) {
+        // A new tier supersedes the previous one (e.g. 14 days -> 7 days).
+        // Announced on the bus, but no recovery message: it got worse.
+        const superseded = await resolveIncidentsForRule(ctx, rule.id, {
+          checkId: payload.checkId,
+          runId: payload.runId,
+        });
+        for (const incident of superseded) {
+          await publishResolved(bus, ctx, incident, rule, log);
+        }
+      }
       const incident = await createIncident(ctx, {
         id: `inc_${randomUUID()}`,
         ruleId: rule.id,
         checkId: payload.checkId,
         runId: payload.runId,
-        severity: rule.severity,
+        severity,
         dedupeKey,
         payload: {
           reason: decision.reason,
@@ -152,17 +153,87 @@ export async function evaluateCompletion(
         },
       });
       log.warn(
-        { incidentId: incident.id, rule: rule.name, severity: rule.severity },
+        { incidentId: incident.id, rule: rule.name, severity },
         "incident fired",
       );
       createdIncidents.push({ incident, rule });
+      await publishTriggered(bus, ctx, incident, rule, log);
     } else if (decision.shouldResolve) {
-      const count = await resolveIncidentsForRule(ctx, rule.id);
-      if (count > 0) {
-        log.info({ rule: rule.name, count }, "resolved stale incidents");
+      const resolved = await resolveIncidentsForRule(ctx, rule.id, {
+        checkId: payload.checkId,
+        runId: payload.runId,
+      });
+      if (resolved.length > 0) {
+        log.info(
+          { rule: rule.name, count: resolved.length, runId: payload.runId },
+          "resolved stale incidents",
+        );
+      }
+      for (const incident of resolved) {
+        resolvedIncidents.push({ incident, rule });
+        await publishResolved(bus, ctx, incident, rule, log);
       }
     }
   }
 
-  return createdIncidents;
+  return { fired: createdIncidents, resolved: resolvedIncidents };
+}
+
+// The incident row is the source of truth, so a bus outage is logged
+// rather than failing the rest of the evaluation.
+
+async function publishTriggered(
+  bus: Pick<EventBus, "publish">,
+  ctx: TenantContext,
+  incident: AlertIncident,
+  rule: AlertRule,
+  log: Logger,
+): Promise<void> {
+  const payload: AlertTriggeredPayload = {
+    incidentId: incident.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    checkId: incident.checkId,
+    runId: incident.runId,
+    severity: incident.severity,
+    openedAt: incident.openedAt.toISOString(),
+    snapshot: (incident.payload ?? {}) as Record<string, unknown>,
+  };
+  try {
+    await bus.publish(
+      Topics.AlertsTriggered,
+      envelope(MessageTypes.AlertTriggered, payload, { tenantId: ctx.tenantId }),
+      { dedupeKey: `${incident.id}:triggered` },
+    );
+  } catch (err) {
+    log.warn({ err, incidentId: incident.id }, "failed to publish alert triggered");
+  }
+}
+
+async function publishResolved(
+  bus: Pick<EventBus, "publish">,
+  ctx: TenantContext,
+  incident: AlertIncident,
+  rule: AlertRule,
+  log: Logger,
+): Promise<void> {
+  const payload: AlertResolvedPayload = {
+    incidentId: incident.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    checkId: incident.checkId,
+    severity: incident.severity,
+    openedAt: incident.openedAt.toISOString(),
+    resolvedAt: (incident.resolvedAt ?? new Date()).toISOString(),
+    resolvedRunId: incident.resolvedRunId,
+  };
+  try {
+    await bus.publish(
+      Topics.AlertsResolved,
+      envelope(MessageTypes.AlertResolved, payload, { tenantId: ctx.tenantId }),
+      { dedupeKey: `${incident.id}:resolved` },
+    );
+  } catch (err) {
+    log.warn({ err, incidentId: incident.id }, "failed to publish alert resolved");
+  }
 }
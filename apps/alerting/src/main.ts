@@ -4,10 +4,13 @@ import { createEventBus } from "@insightview/event-bus";
 import {
   Topics,
   defaultTenant,
+  type AlertResolvedPayload,
   type CheckCompletedPayload,
 } from "@insightview/core";
+import { getAlertRuleById, getIncident } from "@insightview/db";
 import { evaluateCompletion } from "./evaluator.js";
-import { dispatchNotifications } from "./dispatcher.js";
+import { dispatchNotifications, dispatchResolution } from "./dispatcher.js";
+import { startNotificationSweep } from "./sweep.js";
 
 const log = createLogger({ service: "alerting" });
 const port = Number(process.env.PORT ?? 4300);
@@ -30,10 +33,13 @@ async function main() {
     async (env) => {
       const ctx = defaultTenant("alerting");
       try {
-        const fired = await evaluateCompletion(ctx, env.payload, log);
+        const { fired, resolved } = await evaluateCompletion(ctx, env.payload, log, bus);
         for (const { incident, rule } of fired) {
           await dispatchNotifications(ctx, incident, rule, log);
         }
+        for (const { incident, rule } of resolved) {
+          await dispatchResolution(ctx, incident, rule, log);
+        }
       } catch (err) {
         log.error({ err, runId: env.payload.runId }, "evaluation failed");
       }
@@ -41,9 +47,38 @@ async function main() {
     { concurrency: 4 },
   );
 
+  // The evaluator dispatches its own resolutions inline above; manual
+  // resolves from the API carry `resolvedBy` and are only announced on
+  // the bus, so their "resolved" sends happen here.
+  const resolvedSub = await bus.subscribe<AlertResolvedPayload>(
+    Topics.AlertsResolved,
+    async (env) => {
+      if (!env.payload.resolvedBy) return;
+      const ctx = { ...defaultTenant("alerting"), tenantId: env.tenantId };
+      try {
+        const incident = await getIncident(ctx, env.payload.incidentId);
+        const rule = await getAlertRuleById(ctx, incident.ruleId);
+        await dispatchResolution(ctx, incident, rule, log);
+      } catch (err) {
+        log.error(
+          { err, incidentId: env.payload.incidentId },
+          "manual resolution dispatch failed",
+        );
+      }
+    },
+    { concurrency: 2 },
+  );
+
+  const stopSweep = startNotificationSweep({
+    log,
+    intervalMs: Number(process.env.ALERT_SWEEP_INTERVAL_MS ?? 60_000),
+  });
+
   const shutdown = async () => {
     log.info("alerting shutting down");
+    stopSweep();
     await sub.close();
+    await resolvedSub.close();
     await bus.close();
     await app.close();
     process.exit(0);
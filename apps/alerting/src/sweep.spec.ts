@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { mutingWindow, planNotification } from "./sweep.js";
+
+const opened = new Date("2026-04-25T10:00:00Z");
+const minutes = (n: number) => new Date(opened.getTime() + n * 60_000);
+
+function rule(overrides: Record<string, unknown> = {}) {
+  return {
+    channelIds: ["ops-slack"],
+    cooldownSeconds: 300,
+    renotifySeconds: null,
+    escalation: [],
+    ...overrides,
+  } as Parameters<typeof planNotification>[1];
+}
+
+function incident(overrides: Record<string, unknown> = {}) {
+  return {
+    openedAt: opened,
+    lastNotifiedAt: minutes(0),
+    escalationLevel: 0,
+    ...overrides,
+  } as Parameters<typeof planNotification>[0];
+}
+
+describe("planNotification", () => {
+  it("does nothing for a notified incident without re-notify or escalation", () => {
+    expect(planNotification(incident(), rule(), minutes(120), null)).toBeNull();
+  });
+
+  it("holds a deferred incident until the cooldown for its dedupe key ends", () => {
+    const deferred = incident({ lastNotifiedAt: null });
+    expect(planNotification(deferred, rule(), minutes(3), minutes(0))).toBeNull();
+    expect(planNotification(deferred, rule(), minutes(5), minutes(0))).toEqual({
+      kind: "initial",
+      channels: ["ops-slack"],
+      escalationLevel: 0,
+    });
+  });
+
+  it("re-notifies every renotifySeconds, never faster than the cooldown", () => {
+    const r = rule({ renotifySeconds: 60 });
+    expect(planNotification(incident(), r, minutes(4), null)).toBeNull();
+    expect(planNotification(incident(), r, minutes(5), null)).toMatchObject({
+      kind: "renotify",
+      channels: ["ops-slack"],
+    });
+  });
+
+  it("escalates tier by tier once each tier is due", () => {
+    const r = rule({
+      escalation: [
+        { afterMinutes: 60, channels: ["manager-email"] },
+        { afterMinutes: 15, channels: ["pagerduty", "ops-slack"] },
+      ],
+    });
+    expect(planNotification(incident(), r, minutes(10), null)).toBeNull();
+    expect(planNotification(incident(), r, minutes(15), null)).toEqual({
+      kind: "escalation",
+      channels: ["pagerduty", "ops-slack"],
+      escalationLevel: 1,
+    });
+    expect(planNotification(incident({ escalationLevel: 1 }), r, minutes(59), null)).toBeNull();
+    expect(planNotification(incident({ escalationLevel: 1 }), r, minutes(60), null)).toEqual({
+      kind: "escalation",
+      channels: ["manager-email"],
+      escalationLevel: 2,
+    });
+    expect(planNotification(incident({ escalationLevel: 2 }), r, minutes(600), null)).toBeNull();
+  });
+
+  it("includes the rule's channels when escalating a never-notified incident", () => {
+    const r = rule({ escalation: [{ afterMinutes: 1, channels: ["pagerduty"] }] });
+    expect(
+      planNotification(incident({ lastNotifiedAt: null }), r, minutes(2), minutes(0))?.channels,
+    ).toEqual(["ops-slack", "pagerduty"]);
+  });
+
+  it("re-notifies every tier already reached", () => {
+    const r = rule({
+      renotifySeconds: 600,
+      escalation: [{ afterMinutes: 15, channels: ["pagerduty"] }],
+    });
+    const escalated = incident({ escalationLevel: 1, lastNotifiedAt: minutes(15) });
+    expect(planNotification(escalated, r, minutes(25), null)).toEqual({
+      kind: "renotify",
+      channels: ["ops-slack", "pagerduty"],
+      escalationLevel: 1,
+    });
+  });
+
+  it("falls back to stdout when the rule names no channels", () => {
+    expect(
+      planNotification(incident({ lastNotifiedAt: null }), rule({ channelIds: [] }), minutes(0), null)
+        ?.channels,
+    ).toEqual(["stdout"]);
+  });
+});
+
+describe("mutingWindow", () => {
+  const checkout = { name: "checkout", tags: ["payments"] };
+  const all = { name: "all", checkNames: [], tags: [] };
+  const payments = { name: "payments", checkNames: [], tags: ["payments"] };
+  const search = { name: "search", checkNames: ["search"], tags: [] };
+
+  it("mutes incidents whose check a window covers", () => {
+    expect(mutingWindow([search, payments], checkout)?.name).toBe("payments");
+    expect(mutingWindow([search], checkout)).toBeUndefined();
+  });
+
+  it("only lets tenant-wide windows mute incidents without a check", () => {
+    expect(mutingWindow([payments], null)).toBeUndefined();
+    expect(mutingWindow([payments, all], null)?.name).toBe("all");
+  });
+});
@@ -0,0 +1,174 @@
+import type { Logger } from "@insightview/observability";
+import { MaintenanceMode, type TenantContext } from "@insightview/core";
+import {
+  activeMaintenanceWindows,
+  claimIncidentNotification,
+  getCheckById,
+  iterateIncidentsForSweep,
+  lastNotifiedAtForDedupeKey,
+  windowCoversCheck,
+  type AlertIncident,
+  type AlertRule,
+  type MaintenanceWindow,
+} from "@insightview/db";
+import { escalationTiers, ruleChannels, sendToChannels } from "./dispatcher.js";
+import type { NotificationKind } from "@insightview/alerting-kit";
+
+export interface NotificationSweepOpts {
+  log: Logger;
+  intervalMs?: number;
+}
+
+export interface PlannedNotification {
+  kind: NotificationKind;
+  channels: string[];
+  /** Escalation level to record once sent. */
+  escalationLevel: number;
+}
+
+/**
+ * Decide what, if anything, a still-firing incident needs right now.
+ * Pure so the policy can be unit tested without a database:
+ *
+ *   1. escalation — the next tier in `rule.escalation` is due (time
+ *      since the incident opened >= afterMinutes). Sends to that
+ *      tier's channels, plus the rule's own channels if the incident
+ *      was never notified.
+ *   2. initial — the incident was held back by the cooldown and the
+ *      cooldown has now passed.
+ *   3. renotify — `rule.renotifySeconds` (never less than the
+ *      cooldown) elapsed since the last notification. Goes to the rule's
+ *      channels and to every tier already reached.
+ *
+ * `lastNotifiedForKey` is the latest notification for the incident's
+ * dedupe key across all incidents; it only matters for (2).
+ */
+export function planNotification(
+  incident: Pick<AlertIncident, "openedAt" | "lastNotifiedAt" | "escalationLevel">,
+  rule: Pick<AlertRule, "channelIds" | "cooldownSeconds" | "renotifySeconds" | "escalation">,
+  now: Date,
+  lastNotifiedForKey: Date | null,
+): PlannedNotification | null {
+  const base = ruleChannels(rule);
+  const tiers = escalationTiers(rule.escalation);
+
+  const next = tiers[incident.escalationLevel];
+  if (next && now.getTime() - incident.openedAt.getTime() >= next.afterMinutes * 60_000) {
+    return {
+      kind: "escalation",
+      channels: unique([...(incident.lastNotifiedAt ? [] : base), ...next.channels]),
+      escalationLevel: incident.escalationLevel + 1,
+    };
+  }
+
+  const cooldownMs = rule.cooldownSeconds * 1000;
+  if (!incident.lastNotifiedAt) {
+    if (lastNotifiedForKey && now.getTime() - lastNotifiedForKey.getTime() < cooldownMs) {
+      return null;
+    }
+    return { kind: "initial", channels: base, escalationLevel: incident.escalationLevel };
+  }
+
+  if (rule.renotifySeconds) {
+    const intervalMs = Math.max(rule.renotifySeconds * 1000, cooldownMs);
+    if (now.getTime() - incident.lastNotifiedAt.getTime() >= intervalMs) {
+      const reached = tiers.slice(0, incident.escalationLevel).flatMap((t) => t.channels);
+      return {
+        kind: "renotify",
+        channels: unique([...base, ...reached]),
+        escalationLevel: incident.escalationLevel,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * The mute window, if any, that holds back notifications for an
+ * incident's check. Incidents without a check (or whose check is gone)
+ * are only muted by windows that cover every check.
+ */
+export function mutingWindow(
+  windows: Pick<MaintenanceWindow, "name" | "checkNames" | "tags">[],
+  check: { name: string; tags: string[] } | null,
+): Pick<MaintenanceWindow, "name"> | undefined {
+  return windows.find((w) =>
+    check
+      ? windowCoversCheck(w, check)
+      : w.checkNames.length === 0 && w.tags.length === 0,
+  );
+}
+
+/**
+ * Background sweep over firing, unacknowledged, unsilenced incidents:
+ * sends cooldown-deferred notifications, reminders and escalations.
+ * Incidents whose check is under a mute-alerts maintenance window are
+ * skipped, like the runs the evaluator ignores during one.
+ * Every send is claimed first (claimIncidentNotification), so running
+ * several alerting replicas never double-notifies.
+ */
+export function startNotificationSweep(opts: NotificationSweepOpts): () => void {
+  const interval = opts.intervalMs ?? 60_000;
+  let stopped = false;
+  let running = false;
+
+  const tick = async () => {
+    if (stopped || running) return;
+    running = true;
+    try {
+      const now = new Date();
+      const muteWindows = new Map<string, MaintenanceWindow[]>();
+      for await (const { rule, ...incident } of iterateIncidentsForSweep()) {
+        const ctx = { tenantId: incident.tenantId, actor: "alerting-sweep" };
+        let windows = muteWindows.get(ctx.tenantId);
+        if (!windows) {
+          windows = await activeMaintenanceWindows(ctx, MaintenanceMode.MUTE_ALERTS, now);
+          muteWindows.set(ctx.tenantId, windows);
+        }
+        if (windows.length > 0) {
+          const window = mutingWindow(windows, await incidentCheck(ctx, incident.checkId));
+          if (window) {
+            opts.log.debug(
+              { incidentId: incident.id, window: window.name },
+              "sweep skipped; alerts muted for maintenance",
+            );
+            continue;
+          }
+        }
+        const lastForKey = incident.lastNotifiedAt
+          ? null
+          : await lastNotifiedAtForDedupeKey(ctx, incident.dedupeKey);
+        const plan = planNotification(incident, rule, now, lastForKey);
+        if (!plan) continue;
+        if (!(await claimIncidentNotification(incident, plan.escalationLevel))) continue;
+        opts.log.info(
+          { incidentId: incident.id, rule: rule.name, kind: plan.kind, channels: plan.channels },
+          "sweep notification",
+        );
+        await sendToChannels(ctx, incident, rule, plan.channels, plan.kind, opts.log);
+      }
+    } catch (err) {
+      opts.log.warn({ err }, "notification sweep tick failed");
+    } finally {
+      running = false;
+    }
+  };
+
+  const handle = setInterval(() => void tick(), interval);
+  return () => {
+    stopped = true;
+    clearInterval(handle);
+  };
+}
+
+async function incidentCheck(
+  ctx: TenantContext,
+  checkId: string | null,
+): Promise<{ name: string; tags: string[] } | null> {
+  if (!checkId) return null;
+  return getCheckById(ctx, checkId).catch(() => null);
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
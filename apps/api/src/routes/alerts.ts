@@ -3,30 +3,95 @@ import { z } from "zod";
 import {
   listAlertRules,
   upsertAlertRule,
+  getAlertRuleById,
   listIncidents,
+  getIncident,
+  listDeliveriesForIncident,
+  acknowledgeIncident,
+  resolveIncident,
+  silenceIncident,
   listChannels,
   upsertChannel,
+  getChannelByName,
+  recordAudit,
 } from "@insightview/db";
-import { AlertStrategy, Severity, NotificationChannelType } from "@insightview/core";
-
-const RuleBody = z.object({
-  name: z.string().min(1),
-  checkId: z.string().optional().nullable(),
-  enabled: z.boolean().optional(),
-  strategy: z.nativeEnum(AlertStrategy),
-  expression: z.record(z.unknown()).default({}),
-  severity: z.nativeEnum(Severity),
-  cooldownSeconds: z.number().int().positive().optional(),
-  channelIds: z.array(z.string()).optional(),
-});
+import { dryRunRule, testFireChannel } from "@insightview/alerting-kit";
+import {
+  AlertStrategy,
+  MessageTypes,
+  NotificationChannelType,
+  Severity,
+  Topics,
+  envelope,
+  type AlertResolvedPayload,
+} from "@insightview/core";
+import { createEventBus } from "@insightview/event-bus";
+import { createLogger } from "@insightview/observability";
+import { requireRole } from "../plugins/tenant.js";
+import {
+  ChannelConfigSchemas,
+  refineAlertExpression,
+  refineChannelConfig,
+} from "@insightview/monitor-schema";
+
+// Manual resolves are announced on alerts.resolved like the
+// evaluator's; the alerting service picks them up (they carry
+// `resolvedBy`) and sends the channels' "resolved" notifications.
+const bus = createEventBus();
+// Channel impls and strategy loaders log through the alerting Logger.
+const log = createLogger({ service: "api" });
+
+const RuleBody = z
+  .object({
+    name: z.string().min(1),
+    checkId: z.string().optional().nullable(),
+    enabled: z.boolean().optional(),
+    strategy: z.nativeEnum(AlertStrategy),
+    expression: z.record(z.unknown()).default({}),
+    severity: z.nativeEnum(Severity),
+    cooldownSeconds: z.number().int().positive().optional(),
+    channelIds: z.array(z.string()).optional(),
+    renotifySeconds: z.number().int().positive().optional(),
+    escalation: z
+      .array(
+        z.object({
+          afterMinutes: z.number().int().positive(),
+          channels: z.array(z.string()).min(1),
+        }),
+      )
+      .optional(),
+  })
+  .superRefine(refineAlertExpression);
+
+const DryRunBody = z
+  .object({ limit: z.number().int().positive().max(100).default(20) })
+  .default({});
+
+const TestFireBody = z
+  .object({
+    severity: z.nativeEnum(Severity).optional(),
+    kind: z.enum(["initial", "resolved"]).optional(),
+  })
+  .default({});
+
+const IncidentNoteBody = z
+  .object({ note: z.string().max(500).optional() })
+  .default({});
 
-const ChannelBody = z.object({
-  name: z.string().min(1),
-  type: z.nativeEnum(NotificationChannelType),
-  config: z.record(z.unknown()).optional(),
-  enabled: z.boolean().optional(),
+const SilenceBody = z.object({
+  durationMinutes: z.number().int().positive().max(30 * 24 * 60),
+  reason: z.string().min(1).max(500),
 });
 
+const ChannelBody = z
+  .object({
+    name: z.string().min(1),
+    type: z.nativeEnum(NotificationChannelType),
+    config: z.record(z.unknown()).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .superRefine(refineChannelConfig(ChannelConfigSchemas));
+
 export async function registerAlertRoutes(
   app: FastifyInstance,
 ): Promise<void> {
@@ -34,25 +99,159 @@ export async function registerAlertRoutes(
     items: await listAlertRules(req.tenant),
   }));
 
-  app.post("/v1/alert-rules", async (req, reply) => {
+  app.post("/v1/alert-rules", { preHandler: requireRole("write") }, async (req, reply) => {
     const body = RuleBody.parse(req.body);
     const rule = await upsertAlertRule(req.tenant, body);
     reply.status(201);
     return rule;
   });
 
+  // Replays the rule's strategy over the check's recent runs; never
+  // opens or resolves incidents.
+  app.post<{ Params: { id: string } }>(
+    "/v1/alert-rules/:id/dry-run",
+    async (req) => {
+      const body = DryRunBody.parse(req.body ?? {});
+      const rule = await getAlertRuleById(req.tenant, req.params.id);
+      const items = await dryRunRule(req.tenant, rule, { limit: body.limit, log });
+      return {
+        rule: { id: rule.id, name: rule.name, strategy: rule.strategy },
+        wouldFire: items.filter((i) => i.decision.shouldFire).length,
+        items,
+      };
+    },
+  );
+
   app.get("/v1/incidents", async (req) => ({
     items: await listIncidents(req.tenant, 100),
   }));
 
+  app.get<{ Params: { id: string } }>("/v1/incidents/:id", async (req) =>
+    getIncident(req.tenant, req.params.id),
+  );
+
+  // Every notification attempt for the incident, oldest first.
+  app.get<{ Params: { id: string } }>(
+    "/v1/incidents/:id/deliveries",
+    async (req) => {
+      await getIncident(req.tenant, req.params.id);
+      return { items: await listDeliveriesForIncident(req.tenant, req.params.id) };
+    },
+  );
+
+  // On-call actions. Acknowledged and silenced incidents stay open
+  // (they still dedupe and auto-resolve) but stop notifying.
+  app.post<{ Params: { id: string } }>(
+    "/v1/incidents/:id/ack",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = IncidentNoteBody.parse(req.body ?? {});
+      const actor = req.tenant.actor ?? "system";
+      const incident = await acknowledgeIncident(req.tenant, req.params.id, actor);
+      await recordAudit(req.tenant, {
+        actor,
+        action: "incident.ack",
+        resource: "AlertIncident",
+        resourceId: incident.id,
+        metadata: { note: body.note },
+      });
+      return incident;
+    },
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/v1/incidents/:id/resolve",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = IncidentNoteBody.parse(req.body ?? {});
+      const actor = req.tenant.actor ?? "system";
+      const incident = await resolveIncident(req.tenant, req.params.id, actor);
+      const rule = await getAlertRuleById(req.tenant, incident.ruleId);
+      await recordAudit(req.tenant, {
+        actor,
+        action: "incident.resolve",
+        resource: "AlertIncident",
+        resourceId: incident.id,
+        metadata: { note: body.note },
+      });
+      // The resolve is committed; a bus outage must not turn it into a
+      // 500 that clients retry into a 409. Only the "resolved" send is lost.
+      try {
+        await bus.publish(
+          Topics.AlertsResolved,
+          envelope<AlertResolvedPayload>(
+            MessageTypes.AlertResolved,
+            {
+              incidentId: incident.id,
+              ruleId: incident.ruleId,
+              ruleName: rule.name,
+              checkId: incident.checkId,
+              severity: incident.severity,
+              openedAt: incident.openedAt.toISOString(),
+              resolvedAt: (incident.resolvedAt ?? new Date()).toISOString(),
+              resolvedBy: actor,
+            },
+            { tenantId: req.tenant.tenantId },
+          ),
+          { dedupeKey: `${incident.id}:resolved` },
+        );
+      } catch (err) {
+        req.log.warn({ err, incidentId: incident.id }, "failed to publish alert resolved");
+      }
+      return incident;
+    },
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/v1/incidents/:id/silence",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = SilenceBody.parse(req.body);
+      const until = new Date(Date.now() + body.durationMinutes * 60_000);
+      const actor = req.tenant.actor ?? "system";
+      const incident = await silenceIncident(req.tenant, req.params.id, {
+        until,
+        reason: body.reason,
+      });
+      await recordAudit(req.tenant, {
+        actor,
+        action: "incident.silence",
+        resource: "AlertIncident",
+        resourceId: incident.id,
+        metadata: { until: until.toISOString(), reason: body.reason },
+      });
+      return incident;
+    },
+  );
+
   app.get("/v1/channels", async (req) => ({
     items: await listChannels(req.tenant),
   }));
 
-  app.post("/v1/channels", async (req, reply) => {
+  app.post("/v1/channels", { preHandler: requireRole("write") }, async (req, reply) => {
     const body = ChannelBody.parse(req.body);
     const channel = await upsertChannel(req.tenant, body);
     reply.status(201);
     return channel;
   });
+
+  // Sends a synthetic incident (one attempt, no delivery row). It
+  // reaches real people, hence write access and an audit entry.
+  app.post<{ Params: { name: string } }>(
+    "/v1/channels/:name/test",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = TestFireBody.parse(req.body ?? {});
+      const channel = await getChannelByName(req.tenant, req.params.name);
+      const result = await testFireChannel(req.tenant, channel, { ...body, log });
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "channel.test",
+        resource: "NotificationChannel",
+        resourceId: channel.id,
+        metadata: { name: channel.name, ok: result.ok, statusCode: result.statusCode },
+      });
+      return result;
+    },
+  );
 }
@@ -5,6 +5,7 @@ import {
   getCheckByName,
   upsertCheck,
   deleteCheck,
+  a11yTrendByCheck,
   type CheckInput,
 } from "@insightview/db";
 
@@ -44,6 +45,20 @@ export async function registerCheckRoutes(
     },
   );
 
+  // Accessibility violations per audited run, for the dashboard trend.
+  app.get<{ Params: { name: string }; Querystring: { limit?: string } }>(
+    "/v1/checks/:name/a11y",
+    async (req) => {
+      const check = await getCheckByName(req.tenant, req.params.name);
+      const items = await a11yTrendByCheck(
+        req.tenant,
+        check.id,
+        req.query.limit ? parseInt(req.query.limit, 10) : 50,
+      );
+      return { items };
+    },
+  );
+
   app.post("/v1/checks", async (req, reply) => {
     const body = CheckBodySchema.parse(req.body);
     const check = await upsertCheck(req.tenant, body as CheckInput);
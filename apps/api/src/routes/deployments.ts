@@ -0,0 +1,60 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { listDeployments, getDeployment, recordAudit } from "@insightview/db";
+import { requireRole } from "../plugins/tenant.js";
+import { rollbackDeployment } from "../services/monitorsYaml.js";
+import { parseLimit } from "../util/query.js";
+
+const RollbackBody = z.object({
+  source: z.enum(["ACTION", "API", "CLI"]).default("API"),
+  prune: z.enum(["delete", "disable"]).optional(),
+});
+
+export async function registerDeploymentRoutes(
+  app: FastifyInstance,
+): Promise<void> {
+  // Newest first, without the YAML snapshots; fetch one by id for that.
+  // `owner` narrows the list to one deploy owner's deployments.
+  app.get<{ Querystring: { limit?: string; owner?: string } }>(
+    "/v1/deployments",
+    async (req) => {
+      const items = await listDeployments(
+        req.tenant,
+        parseLimit(req.query.limit, 20, 1, 200),
+        req.query.owner || undefined,
+      );
+      return { items };
+    },
+  );
+
+  app.get<{ Params: { id: string } }>("/v1/deployments/:id", async (req) =>
+    getDeployment(req.tenant, req.params.id),
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/v1/deployments/:id/rollback",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      const body = RollbackBody.parse(req.body ?? {});
+      const actor = req.tenant.actor ?? "system";
+      const result = await rollbackDeployment(req.tenant, req.params.id, {
+        actor,
+        source: body.source,
+        prune: body.prune,
+      });
+      await recordAudit(req.tenant, {
+        actor,
+        action: "monitors.rollback",
+        resource: "MonitorDeployment",
+        resourceId: result.deploymentId,
+        metadata: {
+          rollbackOf: req.params.id,
+          prune: body.prune ?? null,
+          pruned: result.pruned,
+        },
+      });
+      reply.status(201);
+      return { ...result, rollbackOf: req.params.id };
+    },
+  );
+}
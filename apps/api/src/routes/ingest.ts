@@ -9,7 +9,14 @@ import {
   insertResults,
   type ResultInput,
 } from "@insightview/db";
-import { createRunId } from "@insightview/core";
+import {
+  createRunId,
+  envelope as busEnvelope,
+  MessageTypes,
+  Topics,
+  type CheckCompletedPayload,
+} from "@insightview/core";
+import { createEventBus } from "@insightview/event-bus";
 
 /**
  * Platform ingest endpoint. Accepts a ResultEnvelope from an
@@ -20,8 +27,30 @@ import { createRunId } from "@insightview/core";
  * start in Actions-native can layer the platform on top later
  * without rewriting any monitors. The envelope shape is stable so
  * ingest is versioned (version: 1) for future envelope changes.
+ *
+ * Ingested runs of checks the platform doesn't run itself are
+ * published on checks.completed, so alert rules (e.g. THRESHOLD on
+ * `a11y.critical`) evaluate them too. An enabled check is already
+ * scheduled, run and evaluated by the platform; evaluating an external
+ * copy of it as well would fire its rules twice, so those runs are
+ * stored without being published.
  */
 
+const A11yImpactCounts = z.record(z.number());
+
+const TlsCertificate = z
+  .object({
+    subject: z.string().optional(),
+    issuer: z.string().optional(),
+    subjectAltNames: z.array(z.string()).default([]),
+    validFrom: z.string(),
+    validTo: z.string(),
+    daysUntilExpiry: z.number(),
+  })
+  .passthrough();
+
+const bus = createEventBus();
+
 const IngestBody = z.object({
   runId: z.string(),
   monitor: z.string(),
@@ -61,6 +90,14 @@ const IngestBody = z.object({
       errorCategory: z.string().optional(),
       errorMessage: z.string().optional(),
       screenshotPath: z.string().optional(),
+      a11y: z
+        .object({
+          counts: A11yImpactCounts,
+          total: z.number(),
+          violations: z.array(z.record(z.unknown())).default([]),
+        })
+        .optional(),
+      tls: TlsCertificate.optional(),
     }),
   ),
   summary: z
@@ -69,6 +106,16 @@ const IngestBody = z.object({
       passedSteps: z.number(),
       failedSteps: z.number(),
       webVitals: z.record(z.number()).default({}),
+      timings: z.record(z.number()).default({}),
+      a11y: A11yImpactCounts.optional(),
+      cert: z
+        .object({
+          host: z.string(),
+          subject: z.string().optional(),
+          daysUntilExpiry: z.number(),
+          validTo: z.string(),
+        })
+        .optional(),
       totalRequests: z.number(),
       failedRequests: z.number(),
       passedAssertions: z.number(),
@@ -114,9 +161,7 @@ export async function registerIngestRoutes(
       triggeredBy: "API",
     });
     await markRunStarted(req.tenant, dbRunId, "ingest");
-    await markRunCompleted(
-      req.tenant,
-      dbRunId,
+    const status =
       envelope.status === "PARTIAL"
         ? "PASSED"
         : envelope.status === "TIMEOUT"
@@ -125,9 +170,8 @@ export async function registerIngestRoutes(
             ? "FAILED"
             : envelope.status === "ERROR"
               ? "ERROR"
-              : "PASSED",
-      envelope.errorMessage,
-    );
+              : "PASSED";
+    await markRunCompleted(req.tenant, dbRunId, status, envelope.errorMessage);
 
     // Persist per-step results.
     const inputs: ResultInput[] = envelope.steps.map((step) => ({
@@ -141,8 +185,37 @@ export async function registerIngestRoutes(
       navigationStats: step.navigationTiming,
       assertionsPassed: step.assertions.filter((a) => a.passed).length,
       assertionsFailed: step.assertions.filter((a) => !a.passed).length,
+      a11y: step.a11y,
+      tls: step.tls,
     }));
-    await insertResults(req.tenant, inputs);
+    const rows = await insertResults(req.tenant, inputs);
+
+    const completed: CheckCompletedPayload = {
+      runId: dbRunId,
+      checkId: check.id,
+      status,
+      completedAt: envelope.completedAt,
+      durationMs: envelope.durationMs,
+      resultIds: rows.map((r) => r.id),
+      location: envelope.location,
+      summary: {
+        passedAssertions: envelope.summary?.passedAssertions ?? 0,
+        failedAssertions: envelope.summary?.failedAssertions ?? 0,
+        webVitals: envelope.summary?.webVitals ?? {},
+        timings: envelope.summary?.timings,
+        a11y: envelope.summary?.a11y,
+        cert: envelope.summary?.cert,
+      },
+      errorMessage: envelope.errorMessage ?? null,
+    };
+    if (!check.enabled) {
+      await bus.publish(
+        Topics.ChecksCompleted,
+        busEnvelope(MessageTypes.CheckCompleted, completed, {
+          tenantId: req.tenant.tenantId,
+        }),
+      );
+    }
 
     reply.status(202);
     return {
@@ -0,0 +1,85 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  listMaintenanceWindows,
+  getMaintenanceWindow,
+  upsertMaintenanceWindow,
+  deleteMaintenanceWindow,
+  upcomingMaintenance,
+  recordAudit,
+} from "@insightview/db";
+import {
+  MaintenanceWindowSpecObject,
+  refineMaintenanceTiming,
+} from "@insightview/monitor-schema";
+import { requireRole } from "../plugins/tenant.js";
+import { maintenanceWindowInput } from "../services/monitorsYaml.js";
+
+// Same shape as the `kind: MaintenanceWindow` spec, plus its name.
+const WindowBody = MaintenanceWindowSpecObject.extend({
+  name: z.string().min(1).max(120),
+}).superRefine(refineMaintenanceTiming);
+
+const UpcomingQuery = z.object({
+  days: z.coerce.number().int().positive().max(90).default(7),
+});
+
+export async function registerMaintenanceRoutes(
+  app: FastifyInstance,
+): Promise<void> {
+  app.get("/v1/maintenance-windows", async (req) => ({
+    items: await listMaintenanceWindows(req.tenant),
+  }));
+
+  // In-progress and upcoming occurrences, soonest first.
+  app.get("/v1/maintenance-windows/upcoming", async (req) => {
+    const q = UpcomingQuery.parse(req.query);
+    const upcoming = await upcomingMaintenance(req.tenant, q.days * 86_400_000);
+    return {
+      items: upcoming.map(({ window, occurrence }) => ({
+        ...window,
+        occurrence,
+      })),
+    };
+  });
+
+  app.get<{ Params: { id: string } }>("/v1/maintenance-windows/:id", async (req) =>
+    getMaintenanceWindow(req.tenant, req.params.id),
+  );
+
+  app.post(
+    "/v1/maintenance-windows",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      const body = WindowBody.parse(req.body);
+      const window = await upsertMaintenanceWindow(
+        req.tenant,
+        maintenanceWindowInput(body.name, body),
+      );
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "maintenance.upsert",
+        resource: "MaintenanceWindow",
+        resourceId: window.id,
+        metadata: { name: window.name, mode: window.mode },
+      });
+      reply.status(201);
+      return window;
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>(
+    "/v1/maintenance-windows/:id",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      await deleteMaintenanceWindow(req.tenant, req.params.id);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "maintenance.delete",
+        resource: "MaintenanceWindow",
+        resourceId: req.params.id,
+      });
+      reply.status(204);
+    },
+  );
+}
@@ -1,18 +1,40 @@
 import type { FastifyInstance } from "fastify";
+import { ValidationError } from "@insightview/core";
+import type { PruneMode } from "@insightview/db";
+import { monitorsJsonSchema } from "@insightview/monitor-schema";
+import { requireRole } from "../plugins/tenant.js";
 import { parseMonitorsYaml, applyMonitors } from "../services/monitorsYaml.js";
+import {
+  DEFAULT_OWNER,
+  assertRuleChecksExist,
+  desiredResources,
+  detectDrift,
+  loadLiveResources,
+  planMonitors,
+} from "../services/monitorsPlan.js";
+
+const PRUNE_MODES: PruneMode[] = ["delete", "disable"];
 
 export async function registerMonitorRoutes(
   app: FastifyInstance,
 ): Promise<void> {
-  app.post<{ Body: { yaml: string; actor?: string; source?: string } }>(
+  app.post<{
+    Body: { yaml: string; actor?: string; source?: string; owner?: string; prune?: PruneMode };
+  }>(
     "/v1/monitors/apply",
+    { preHandler: requireRole("write") },
     async (req) => {
       const body = req.body;
+      if (body.prune !== undefined && !PRUNE_MODES.includes(body.prune)) {
+        throw new ValidationError(`prune must be one of ${PRUNE_MODES.join(", ")}`);
+      }
       const parsed = parseMonitorsYaml(body.yaml);
       const result = await applyMonitors(req.tenant, parsed, {
         actor: body.actor ?? "api",
         source: (body.source ?? "API") as "ACTION" | "API" | "CLI",
         yaml: body.yaml,
+        owner: body.owner,
+        prune: body.prune,
       });
       return result;
     },
@@ -22,4 +44,24 @@ export async function registerMonitorRoutes(
     const parsed = parseMonitorsYaml(req.body.yaml);
     return { valid: true, count: parsed.length, docs: parsed };
   });
+
+  // Dry run of apply: what would be created, updated (and which
+  // fields) and, with prune, deleted. Writes nothing.
+  app.post<{ Body: { yaml: string; owner?: string } }>("/v1/monitors/plan", async (req) => {
+    const desired = desiredResources(parseMonitorsYaml(req.body.yaml));
+    const liveResources = await loadLiveResources(req.tenant);
+    assertRuleChecksExist(desired, liveResources);
+    return planMonitors(desired, liveResources, req.body.owner ?? DEFAULT_OWNER);
+  });
+
+  // Managed resources edited outside monitors-as-code since their
+  // last deploy.
+  app.get<{ Querystring: { owner?: string } }>("/v1/monitors/drift", async (req) => {
+    const items = detectDrift(await loadLiveResources(req.tenant), req.query.owner);
+    return { items };
+  });
+
+  // JSON Schema for editors and external validators; the same document
+  // is committed at packages/monitor-schema/schema/monitors.schema.json.
+  app.get("/v1/monitors/schema", async () => monitorsJsonSchema());
 }
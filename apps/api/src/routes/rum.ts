@@ -1,11 +1,16 @@
+import { Readable } from "node:stream";
 import type { FastifyInstance } from "fastify";
 import {
+  getRumSession,
+  iterateReplayChunks,
   listRumEvents,
   listRumSessions,
+  listSessionEvents,
   rumWebVitalSummary,
 } from "@insightview/db";
 import { RumEventType } from "@insightview/core";
 import { parseLimit } from "../util/query.js";
+import { ndjson, replayLines } from "../services/replayStream.js";
 
 export async function registerRumRoutes(app: FastifyInstance): Promise<void> {
   app.get<{
@@ -36,6 +41,32 @@ export async function registerRumRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  // One session with its event timeline, oldest first.
+  app.get<{ Params: { id: string }; Querystring: { limit?: string } }>(
+    "/v1/rum/sessions/:id",
+    async (req) => {
+      const session = await getRumSession(req.tenant, req.params.id);
+      const events = await listSessionEvents(
+        req.tenant,
+        session.id,
+        parseLimit(req.query.limit, 1000, 1, 5000),
+      );
+      return { ...session, events };
+    },
+  );
+
+  // Replay chunks as NDJSON (see services/replayStream.ts), streamed
+  // so a long recording never sits in memory whole.
+  app.get<{ Params: { id: string } }>(
+    "/v1/rum/sessions/:id/replay",
+    async (req, reply) => {
+      const session = await getRumSession(req.tenant, req.params.id);
+      const lines = replayLines(iterateReplayChunks(req.tenant, session.id));
+      reply.type("application/x-ndjson");
+      return reply.send(Readable.from(ndjson(lines)));
+    },
+  );
+
   app.get<{ Querystring: { siteId?: string } }>(
     "/v1/rum/summary",
     async (req) => {
@@ -0,0 +1,68 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  getRumIssue,
+  listIssueEvents,
+  listRumIssues,
+  updateRumIssueStatus,
+  recordAudit,
+} from "@insightview/db";
+import { RumIssueStatus } from "@insightview/core";
+import { requireRole } from "../plugins/tenant.js";
+import { parseLimit } from "../util/query.js";
+
+const ListQuery = z.object({
+  siteId: z.string().min(1).optional(),
+  status: z.nativeEnum(RumIssueStatus).optional(),
+  limit: z.string().optional(),
+});
+
+// REGRESSED is only ever set by ingest.
+const UpdateBody = z.object({
+  status: z.enum([RumIssueStatus.OPEN, RumIssueStatus.RESOLVED, RumIssueStatus.IGNORED]),
+  /** With RESOLVED: the release the fix ships in. */
+  release: z.string().min(1).optional(),
+});
+
+export async function registerRumIssueRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/v1/rum/issues", async (req) => {
+    const q = ListQuery.parse(req.query);
+    const items = await listRumIssues(req.tenant, {
+      siteId: q.siteId,
+      status: q.status,
+      limit: parseLimit(q.limit, 100, 1, 500),
+    });
+    return { items };
+  });
+
+  // One issue with its latest events, newest first.
+  app.get<{ Params: { id: string }; Querystring: { limit?: string } }>(
+    "/v1/rum/issues/:id",
+    async (req) => {
+      const issue = await getRumIssue(req.tenant, req.params.id);
+      const events = await listIssueEvents(
+        req.tenant,
+        issue.id,
+        parseLimit(req.query.limit, 20, 1, 200),
+      );
+      return { ...issue, events };
+    },
+  );
+
+  app.patch<{ Params: { id: string } }>(
+    "/v1/rum/issues/:id",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = UpdateBody.parse(req.body ?? {});
+      const issue = await updateRumIssueStatus(req.tenant, req.params.id, body.status, body.release);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "rumIssue.update",
+        resource: "RumIssue",
+        resourceId: issue.id,
+        metadata: { status: body.status, release: body.release },
+      });
+      return issue;
+    },
+  );
+}
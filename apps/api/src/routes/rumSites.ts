@@ -0,0 +1,107 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import {
+  listRumSites,
+  getRumSite,
+  createRumSite,
+  updateRumSite,
+  rotateRumSiteKey,
+  deleteRumSite,
+  recordAudit,
+} from "@insightview/db";
+import { requireRole } from "../plugins/tenant.js";
+
+// `https://example.com` or `https://*.example.com`; no paths.
+const Origin = z
+  .string()
+  .regex(/^https?:\/\/(\*\.)?[^/*\s]+$/, "expected scheme://host[:port], optionally with a leading *.");
+
+const SiteFields = {
+  name: z.string().max(120).nullable().optional(),
+  allowedOrigins: z.array(Origin).max(50).optional(),
+  eventsPerMinute: z.number().int().positive().optional(),
+  replayChunksPerMinute: z.number().int().positive().optional(),
+  enabled: z.boolean().optional(),
+};
+
+const CreateBody = z.object({
+  siteId: z.string().min(1).max(120),
+  ...SiteFields,
+});
+
+const UpdateBody = z.object(SiteFields);
+
+export async function registerRumSiteRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/v1/rum/sites", async (req) => ({
+    items: await listRumSites(req.tenant),
+  }));
+
+  app.get<{ Params: { id: string } }>("/v1/rum/sites/:id", async (req) =>
+    getRumSite(req.tenant, req.params.id),
+  );
+
+  app.post(
+    "/v1/rum/sites",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      const body = CreateBody.parse(req.body ?? {});
+      const site = await createRumSite(req.tenant, body);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "rumSite.create",
+        resource: "RumSite",
+        resourceId: site.id,
+        metadata: { siteId: site.siteId, allowedOrigins: site.allowedOrigins },
+      });
+      reply.status(201);
+      return site;
+    },
+  );
+
+  app.patch<{ Params: { id: string } }>(
+    "/v1/rum/sites/:id",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = UpdateBody.parse(req.body ?? {});
+      const site = await updateRumSite(req.tenant, req.params.id, body);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "rumSite.update",
+        resource: "RumSite",
+        resourceId: site.id,
+        metadata: { fields: Object.keys(body) },
+      });
+      return site;
+    },
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/v1/rum/sites/:id/rotate-key",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const site = await rotateRumSiteKey(req.tenant, req.params.id);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "rumSite.rotateKey",
+        resource: "RumSite",
+        resourceId: site.id,
+      });
+      return site;
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>(
+    "/v1/rum/sites/:id",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      await deleteRumSite(req.tenant, req.params.id);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "rumSite.delete",
+        resource: "RumSite",
+        resourceId: req.params.id,
+      });
+      reply.status(204);
+    },
+  );
+}
@@ -9,10 +9,12 @@ import {
 } from "@insightview/db";
 import {
   createRunId,
+  DEFAULT_LOCATION,
   envelope,
   MessageTypes,
-  Topics,
+  scheduledTopicFor,
   TriggerSource,
+  ValidationError,
   type CheckScheduledPayload,
 } from "@insightview/core";
 import { createEventBus } from "@insightview/event-bus";
@@ -20,6 +22,8 @@ import { createEventBus } from "@insightview/event-bus";
 const TriggerBody = z.object({
   checkName: z.string().min(1),
   triggeredBy: z.enum(["MANUAL", "API", "ACTION"]).default("API"),
+  /** Run from one configured location only. Default: all of them. */
+  location: z.string().min(1).optional(),
 });
 
 // Singleton bus per process — the API is both a publisher and (via /healthz)
@@ -30,36 +34,56 @@ export async function registerRunRoutes(app: FastifyInstance): Promise<void> {
   app.post("/v1/runs", async (req, reply) => {
     const body = TriggerBody.parse(req.body);
     const check = await getCheckByName(req.tenant, body.checkName);
+    const configured =
+      check.locations.length > 0 ? check.locations : [DEFAULT_LOCATION];
+    if (body.location && !configured.includes(body.location)) {
+      throw new ValidationError(
+        `Check '${check.name}' does not run from location '${body.location}'`,
+        { locations: configured },
+      );
+    }
+    const locations = body.location ? [body.location] : configured;
 
-    const runId = createRunId();
+    // Same fan-out as the scheduler: one run per location.
     const scheduledAt = new Date();
-    await createRun(req.tenant, {
-      runId,
-      checkId: check.id,
-      scheduledAt,
-      triggeredBy: body.triggeredBy as TriggerSource,
-    });
+    const runs: Array<{ runId: string; location: string }> = [];
+    for (const location of locations) {
+      const runId = createRunId();
+      await createRun(req.tenant, {
+        runId,
+        checkId: check.id,
+        scheduledAt,
+        triggeredBy: body.triggeredBy as TriggerSource,
+        location,
+      });
 
-    const payload: CheckScheduledPayload = {
-      runId,
-      checkId: check.id,
-      checkName: check.name,
-      scheduledAt: scheduledAt.toISOString(),
-      targetUrl: check.targetUrl,
-      scriptRef: check.scriptRef,
-      timeoutMs: check.timeoutMs,
-      retries: check.retries,
-      triggeredBy: body.triggeredBy as TriggerSource,
-      assertions: (check.assertions as Array<{ type: string; value: string }>) ?? [],
-    };
+      const payload: CheckScheduledPayload = {
+        runId,
+        checkId: check.id,
+        checkName: check.name,
+        scheduledAt: scheduledAt.toISOString(),
+        type: check.type,
+        targetUrl: check.targetUrl,
+        scriptRef: check.scriptRef,
+        request: check.request as Record<string, unknown> | null,
+        runSpec: check.runSpec as Record<string, unknown> | null,
+        timeoutMs: check.timeoutMs,
+        retries: check.retries,
+        triggeredBy: body.triggeredBy as TriggerSource,
+        assertions: (check.assertions as Array<{ type: string; value: string }>) ?? [],
+        location,
+      };
 
-    const env = envelope(MessageTypes.CheckScheduled, payload, {
-      tenantId: req.tenant.tenantId,
-    });
-    await bus.publish(Topics.ChecksScheduled, env, { dedupeKey: runId });
+      const env = envelope(MessageTypes.CheckScheduled, payload, {
+        tenantId: req.tenant.tenantId,
+      });
+      await bus.publish(scheduledTopicFor(location), env, { dedupeKey: runId });
+      runs.push({ runId, location });
+    }
 
     reply.status(202);
-    return { runId, status: "QUEUED" };
+    // `runId` stays the first run so single-location callers keep working.
+    return { runId: runs[0].runId, status: "QUEUED", runs };
   });
 
   app.get<{ Params: { runId: string } }>(
@@ -1,13 +1,30 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
-import { upsertSourceMap, listSourceMapsByRelease } from "@insightview/db";
-import { deobfuscateStack } from "../services/sourceMapResolver.js";
+import {
+  upsertSourceMap,
+  listSourceMapsByRelease,
+  listSourceMapReleases,
+  deleteSourceMap,
+  deleteSourceMapsByRelease,
+  pruneSourceMapReleases,
+  recordAudit,
+} from "@insightview/db";
+import { createStackResolver } from "@insightview/rum-errors";
+import { requireRole } from "../plugins/tenant.js";
+import { parseLimit } from "../util/query.js";
 
 /**
  * Source map routes. Customers POST their source maps once per
- * release (e.g. from a CI/CD step after bundling) and the platform
- * stores them by (tenant, release, bundleUrl). The enrichment
- * pipeline looks them up when processing RUM error events.
+ * release (e.g. from a CI/CD step after bundling, usually through
+ * `insightview sourcemaps upload`) and the platform stores them by
+ * (tenant, release, bundleUrl). The rum-collector resolves error
+ * stacks against them at ingest; `resolve` does the same for a stack
+ * pasted by hand.
+ *
+ * With SOURCE_MAP_RETAIN_RELEASES set, each upload also drops the
+ * maps of all but that many newest releases. Uploads get their own
+ * body limit (SOURCE_MAP_MAX_BYTES, default 50 MB) above the server's
+ * 2 MB: maps with embedded `sourcesContent` are routinely larger.
  */
 
 const UploadBody = z.object({
@@ -21,20 +38,38 @@ const ResolveBody = z.object({
   stack: z.string().min(1),
 });
 
+const PruneBody = z.object({
+  keep: z.number().int().min(1),
+});
+
 export async function registerSourceMapRoutes(
   app: FastifyInstance,
 ): Promise<void> {
-  app.post("/v1/source-maps", async (req, reply) => {
-    const body = UploadBody.parse(req.body);
-    const row = await upsertSourceMap(req.tenant, body);
-    reply.status(201);
-    return {
-      id: row.id,
-      contentHash: row.contentHash,
-      release: row.release,
-      bundleUrl: row.bundleUrl,
-    };
-  });
+  const stacks = createStackResolver();
+  const retain = Number(process.env.SOURCE_MAP_RETAIN_RELEASES ?? 0);
+  const maxBytes = Number(process.env.SOURCE_MAP_MAX_BYTES ?? 50 * 1024 * 1024);
+
+  app.post(
+    "/v1/source-maps",
+    { bodyLimit: maxBytes, preHandler: requireRole("write") },
+    async (req, reply) => {
+      const body = UploadBody.parse(req.body);
+      const row = await upsertSourceMap(req.tenant, body);
+      if (retain > 0) {
+        const pruned = await pruneSourceMapReleases(req.tenant, retain);
+        if (pruned.length > 0) {
+          req.log.info({ releases: pruned.map((r) => r.release) }, "pruned source map releases");
+        }
+      }
+      reply.status(201);
+      return {
+        id: row.id,
+        contentHash: row.contentHash,
+        release: row.release,
+        bundleUrl: row.bundleUrl,
+      };
+    },
+  );
 
   app.get<{ Querystring: { release?: string } }>(
     "/v1/source-maps",
@@ -54,9 +89,66 @@ export async function registerSourceMapRoutes(
     },
   );
 
+  // Releases with maps, newest first.
+  app.get<{ Querystring: { limit?: string } }>(
+    "/v1/source-maps/releases",
+    async (req) => {
+      const items = await listSourceMapReleases(req.tenant, parseLimit(req.query.limit, 50, 1, 500));
+      return { items };
+    },
+  );
+
+  app.delete<{ Params: { id: string } }>(
+    "/v1/source-maps/:id",
+    { preHandler: requireRole("write") },
+    async (req, reply) => {
+      await deleteSourceMap(req.tenant, req.params.id);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "sourceMap.delete",
+        resource: "SourceMap",
+        resourceId: req.params.id,
+      });
+      reply.status(204);
+    },
+  );
+
+  app.delete<{ Params: { release: string } }>(
+    "/v1/source-maps/releases/:release",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const deleted = await deleteSourceMapsByRelease(req.tenant, req.params.release);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "sourceMap.deleteRelease",
+        resource: "SourceMap",
+        resourceId: req.params.release,
+        metadata: { deleted },
+      });
+      return { release: req.params.release, deleted };
+    },
+  );
+
+  // Keep the `keep` newest releases' maps, delete the rest.
+  app.post(
+    "/v1/source-maps/prune",
+    { preHandler: requireRole("write") },
+    async (req) => {
+      const body = PruneBody.parse(req.body ?? {});
+      const releases = await pruneSourceMapReleases(req.tenant, body.keep);
+      await recordAudit(req.tenant, {
+        actor: req.tenant.actor ?? "system",
+        action: "sourceMap.prune",
+        resource: "SourceMap",
+        metadata: { keep: body.keep, releases: releases.map((r) => r.release) },
+      });
+      return { releases };
+    },
+  );
+
   app.post("/v1/source-maps/resolve", async (req) => {
     const body = ResolveBody.parse(req.body);
-    const resolved = await deobfuscateStack(req.tenant, body.release, body.stack);
-    return { resolved };
+    const result = await stacks.resolve(req.tenant, body.release, body.stack);
+    return { resolved: result.stack, frames: result.frames };
   });
 }
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { listChecks, listRunsByCheck } from "@insightview/db";
+import { listChecks, listRunsByCheck, upcomingMaintenance } from "@insightview/db";
 import { defaultTenant } from "@insightview/core";
 
 /**
@@ -15,6 +15,9 @@ import { defaultTenant } from "@insightview/core";
  * templating library, just a single template literal — so the
  * status page stays fast and deployable even if the dashboard
  * isn't running.
+ *
+ * Maintenance windows in progress or starting within the next
+ * seven days are listed above the monitor table.
  */
 
 interface StatusMonitor {
@@ -25,6 +28,35 @@ interface StatusMonitor {
   tags: string[];
 }
 
+interface StatusMaintenance {
+  name: string;
+  reason: string | null;
+  mode: string;
+  startsAt: string;
+  endsAt: string;
+  inProgress: boolean;
+  /** Check names and tags in scope; both empty = every monitor. */
+  checks: string[];
+  tags: string[];
+}
+
+const MAINTENANCE_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+async function buildMaintenance(): Promise<StatusMaintenance[]> {
+  const now = new Date();
+  const upcoming = await upcomingMaintenance(defaultTenant("public"), MAINTENANCE_HORIZON_MS, now);
+  return upcoming.map(({ window, occurrence }) => ({
+    name: window.name,
+    reason: window.reason,
+    mode: window.mode,
+    startsAt: occurrence.startsAt.toISOString(),
+    endsAt: occurrence.endsAt.toISOString(),
+    inProgress: occurrence.startsAt <= now,
+    checks: window.checkNames,
+    tags: window.tags,
+  }));
+}
+
 async function buildStatus(): Promise<StatusMonitor[]> {
   const ctx = defaultTenant("public");
   const checks = await listChecks(ctx);
@@ -55,6 +87,7 @@ export async function registerStatusPageRoutes(
       ok: allOk,
       updatedAt: new Date().toISOString(),
       monitors,
+      maintenance: await buildMaintenance(),
     };
   });
 
@@ -66,7 +99,7 @@ export async function registerStatusPageRoutes(
         (m) => !m.enabled || m.latestStatus === "PASSED",
       );
       reply.header("Content-Type", "text/html; charset=utf-8");
-      return renderHtml(monitors, allOk);
+      return renderHtml(monitors, allOk, await buildMaintenance());
     },
   );
 
@@ -77,11 +110,22 @@ export async function registerStatusPageRoutes(
       (m) => !m.enabled || m.latestStatus === "PASSED",
     );
     reply.header("Content-Type", "text/html; charset=utf-8");
-    return renderHtml(monitors, allOk);
+    return renderHtml(monitors, allOk, await buildMaintenance());
   });
 }
 
-function renderHtml(monitors: StatusMonitor[], ok: boolean): string {
+function renderHtml(
+  monitors: StatusMonitor[],
+  ok: boolean,
+  maintenance: StatusMaintenance[],
+): string {
+  const windows = maintenance
+    .map((w) => {
+      const scope = [...w.checks, ...w.tags.map((t) => `#${t}`)];
+      const when = `${new Date(w.startsAt).toLocaleString()} – ${new Date(w.endsAt).toLocaleString()}`;
+      return `<li class="${w.inProgress ? "now" : ""}"><strong>${escapeHtml(w.name)}</strong>${w.inProgress ? " (in progress)" : ""} · ${when}${w.reason ? ` · ${escapeHtml(w.reason)}` : ""}<br /><span class="scope">${scope.length > 0 ? escapeHtml(scope.join(", ")) : "All monitors"}</span></li>`;
+    })
+    .join("");
   const rows = monitors
     .map((m) => {
       const cls =
@@ -112,6 +156,12 @@ function renderHtml(monitors: StatusMonitor[], ok: boolean): string {
   tr.ok td { color: #065f46; }
   tr.fail td { color: #991b1b; }
   tr.dim td { color: #718096; font-style: italic; }
+  section.maintenance { background: #fffbeb; border: 1px solid #fcd34d; border-radius: 12px; padding: 12px 16px; margin-bottom: 16px; }
+  section.maintenance h2 { font-size: 14px; margin: 0 0 8px 0; color: #92400e; }
+  section.maintenance ul { margin: 0; padding-left: 18px; }
+  section.maintenance li { margin: 4px 0; }
+  section.maintenance li.now { color: #92400e; }
+  section.maintenance .scope { color: #718096; font-size: 12px; }
   footer { text-align: center; padding: 24px; color: #718096; font-size: 12px; }
 </style>
 </head><body>
@@ -120,6 +170,7 @@ function renderHtml(monitors: StatusMonitor[], ok: boolean): string {
   <p>${new Date().toLocaleString()}</p>
 </header>
 <main>
+  ${windows ? `<section class="maintenance"><h2>Scheduled maintenance</h2><ul>${windows}</ul></section>` : ""}
   <table>
     <thead><tr><th>Monitor</th><th>Enabled</th><th>Latest</th><th>Last run</th></tr></thead>
     <tbody>${rows || '<tr><td colspan="4" class="dim">No monitors configured</td></tr>'}</tbody>
@@ -8,12 +8,16 @@ import { registerRunRoutes } from "./routes/runs.js";
 import { registerResultRoutes } from "./routes/results.js";
 import { registerAlertRoutes } from "./routes/alerts.js";
 import { registerRumRoutes } from "./routes/rum.js";
+import { registerRumSiteRoutes } from "./routes/rumSites.js";
+import { registerRumIssueRoutes } from "./routes/rumIssues.js";
 import { registerMonitorRoutes } from "./routes/monitors.js";
+import { registerDeploymentRoutes } from "./routes/deployments.js";
 import { registerMetricsRoute } from "./routes/metrics.js";
 import { registerIngestRoutes } from "./routes/ingest.js";
 import { registerSourceMapRoutes } from "./routes/sourceMaps.js";
 import { registerTokenRoutes } from "./routes/tokens.js";
 import { registerAuditRoutes } from "./routes/audit.js";
+import { registerMaintenanceRoutes } from "./routes/maintenance.js";
 import { registerStatusPageRoutes } from "./routes/statusPage.js";
 import { tenantPlugin } from "./plugins/tenant.js";
 import { createRegistry } from "@insightview/observability";
@@ -71,11 +75,15 @@ export async function buildServer(): Promise<FastifyInstance> {
   await registerResultRoutes(app);
   await registerAlertRoutes(app);
   await registerRumRoutes(app);
+  await registerRumSiteRoutes(app);
+  await registerRumIssueRoutes(app);
   await registerMonitorRoutes(app);
+  await registerDeploymentRoutes(app);
   await registerIngestRoutes(app);
   await registerSourceMapRoutes(app);
   await registerTokenRoutes(app);
   await registerAuditRoutes(app);
+  await registerMaintenanceRoutes(app);
   await registerStatusPageRoutes(app);
 
   return app;
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { parseMonitorsYaml } from "./monitorsYaml.js";
+import {
+  assertRuleChecksExist,
+  checkRunSpec,
+  desiredResources,
+  detectDrift,
+  planMonitors,
+  type LiveResource,
+} from "./monitorsPlan.js";
+
+const yaml = `
+apiVersion: insightview.io/v2
+kind: Check
+metadata: { name: homepage, tags: [smoke] }
+spec:
+  schedule: "*/5 * * * *"
+  targetUrl: https://example.com/
+---
+apiVersion: insightview.io/v2
+kind: AlertRule
+metadata: { name: homepage-down }
+spec:
+  check: homepage
+  strategy: CONSECUTIVE_FAILURES
+  expression: { threshold: 2 }
+  severity: CRITICAL
+`;
+
+const desired = desiredResources(parseMonitorsYaml(yaml));
+
+function live(overrides: Partial<LiveResource> & Pick<LiveResource, "kind" | "name">): LiveResource {
+  const match = desired.find((d) => d.kind === overrides.kind && d.name === overrides.name);
+  const spec = { ...(match?.spec ?? {}) };
+  return {
+    spec,
+    managedBy: "acme/monitors",
+    sourceYamlHash: "abc",
+    appliedSpec: spec,
+    ...overrides,
+  };
+}
+
+describe("planMonitors", () => {
+  it("fills repository defaults so an untouched resource is unchanged", () => {
+    expect(desired[0].spec).toMatchObject({
+      type: "BROWSER",
+      enabled: true,
+      timeoutMs: 30000,
+      locations: ["local"],
+      runSpec: null,
+      tags: ["smoke"],
+    });
+    const plan = planMonitors(
+      desired,
+      [live({ kind: "Check", name: "homepage" }), live({ kind: "AlertRule", name: "homepage-down" })],
+      "acme/monitors",
+    );
+    expect(plan.unchanged).toHaveLength(2);
+    expect(plan.create).toEqual([]);
+    expect(plan.update).toEqual([]);
+  });
+
+  it("lists creates, changed fields, takeovers and owned deletions", () => {
+    const homepage = live({ kind: "Check", name: "homepage", managedBy: null });
+    homepage.spec = { ...homepage.spec, timeoutMs: 10000, tags: [] };
+    const plan = planMonitors(
+      desired,
+      [
+        homepage,
+        live({ kind: "Check", name: "old-page" }),
+        live({ kind: "Check", name: "ui-made", managedBy: null }),
+        live({ kind: "Check", name: "other-repo", managedBy: "acme/other" }),
+      ],
+      "acme/monitors",
+    );
+    expect(plan.create).toEqual([{ kind: "AlertRule", name: "homepage-down" }]);
+    expect(plan.update).toEqual([
+      { kind: "Check", name: "homepage", changes: ["timeoutMs", "tags"], previousOwner: null },
+    ]);
+    expect(plan.delete).toEqual([{ kind: "Check", name: "old-page" }]);
+  });
+
+  it("ignores JSON key order", () => {
+    const rule = live({ kind: "AlertRule", name: "homepage-down" });
+    const want = { ...rule, spec: { ...rule.spec, expression: { threshold: 2, quorum: 2 } } };
+    rule.spec = { ...rule.spec, expression: { quorum: 2, threshold: 2 } };
+    const plan = planMonitors([want], [rule], "acme/monitors");
+    expect(plan.unchanged).toEqual([{ kind: "AlertRule", name: "homepage-down" }]);
+  });
+});
+
+describe("assertRuleChecksExist", () => {
+  it("accepts checks from the YAML or the tenant and rejects the rest", () => {
+    expect(() => assertRuleChecksExist(desired, [])).not.toThrow();
+    const rule = desired.filter((d) => d.kind === "AlertRule");
+    const homepage = live({ kind: "Check", name: "homepage" });
+    expect(() => assertRuleChecksExist(rule, [homepage])).not.toThrow();
+    expect(() => assertRuleChecksExist(rule, [])).toThrow(/unknown checks/);
+    expect(() => assertRuleChecksExist(rule, [homepage], [homepage])).toThrow(/unknown checks/);
+  });
+});
+
+describe("checkRunSpec", () => {
+  it("keeps the journey fields the platform runner executes", () => {
+    const [doc] = parseMonitorsYaml(`
+apiVersion: insightview.io/v2
+kind: Check
+metadata: { name: journey }
+spec:
+  schedule: "*/5 * * * *"
+  targetUrl: https://example.com/
+  steps: [{ name: home, url: https://example.com/ }]
+  cookies: [{ name: consent, value: "yes" }]
+  exporters: [{ type: stdout }]
+`);
+    if (doc.kind !== "Check") throw new Error("unreachable");
+    expect(checkRunSpec(doc)).toEqual({
+      steps: [{ name: "home", url: "https://example.com/" }],
+      cookies: [{ name: "consent", value: "yes" }],
+    });
+  });
+});
+
+describe("detectDrift", () => {
+  it("reports managed resources edited since their last deploy", () => {
+    const edited = live({ kind: "AlertRule", name: "homepage-down" });
+    edited.spec = { ...edited.spec, severity: "INFO", enabled: false };
+    const resources = [
+      live({ kind: "Check", name: "homepage" }),
+      edited,
+      live({ kind: "Check", name: "ui-made", managedBy: null, appliedSpec: null }),
+    ];
+    expect(detectDrift(resources)).toEqual([
+      {
+        kind: "AlertRule",
+        name: "homepage-down",
+        managedBy: "acme/monitors",
+        sourceYamlHash: "abc",
+        changes: ["enabled", "severity"],
+      },
+    ]);
+    expect(detectDrift(resources, "acme/other")).toEqual([]);
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  listChecks,
+  listAlertRules,
+  listChannels,
+  listMaintenanceWindows,
+  type AlertRule,
+  type Check,
+  type MaintenanceWindow,
+  type ManagedKind,
+  type NotificationChannel,
+} from "@insightview/db";
+import { ValidationError, type TenantContext } from "@insightview/core";
+import type { MonitorDoc } from "@insightview/monitor-schema";
+
+/**
+ * Plan and drift for monitors-as-code. Every resource is reduced to a
+ * normalised spec (defaults filled in the way the repository upserts
+ * fill them, references by name) so a YAML document and a stored row
+ * compare field by field. Only field names are reported, never values:
+ * channel config can hold credentials set through the API.
+ */
+
+/** Owner recorded when a deploy doesn't name one. */
+export const DEFAULT_OWNER = "monitors-as-code";
+
+export interface ResourceRef {
+  kind: ManagedKind;
+  name: string;
+}
+
+export interface DesiredResource extends ResourceRef {
+  spec: Record<string, unknown>;
+}
+
+export interface LiveResource extends ResourceRef {
+  spec: Record<string, unknown>;
+  managedBy: string | null;
+  sourceYamlHash: string | null;
+  appliedSpec: Record<string, unknown> | null;
+}
+
+export interface PlannedUpdate extends ResourceRef {
+  changes: string[];
+  /** Set when the deploy takes the resource over; null = created in the UI/API. */
+  previousOwner?: string | null;
+}
+
+export interface MonitorPlan {
+  owner: string;
+  create: ResourceRef[];
+  update: PlannedUpdate[];
+  /** Rows this owner manages that the YAML no longer declares. */
+  delete: ResourceRef[];
+  unchanged: ResourceRef[];
+}
+
+export interface DriftItem extends ResourceRef {
+  managedBy: string;
+  sourceYamlHash: string | null;
+  changes: string[];
+}
+
+/**
+ * The browser journey fields the runner executes beyond the request,
+ * stored on Check.runSpec; null when the doc sets none. `exporters`
+ * is not among them: the platform ships results its own way.
+ */
+export function checkRunSpec(
+  doc: Extract<MonitorDoc, { kind: "Check" }>,
+): Record<string, unknown> | null {
+  const { steps, auth, network, cookies, a11y } = doc.spec;
+  const journey = Object.fromEntries(
+    Object.entries({ steps, auth, network, cookies, a11y }).filter(([, v]) => v !== undefined),
+  );
+  return Object.keys(journey).length > 0 ? journey : null;
+}
+
+export function desiredResources(docs: MonitorDoc[]): DesiredResource[] {
+  return docs.map((doc): DesiredResource => {
+    const name = doc.metadata.name;
+    switch (doc.kind) {
+      case "Check":
+        return {
+          kind: "Check",
+          name,
+          spec: {
+            description: doc.metadata.description ?? null,
+            type: doc.spec.type.toUpperCase(),
+            enabled: doc.spec.enabled ?? true,
+            schedule: doc.spec.schedule ?? null,
+            targetUrl: doc.spec.targetUrl,
+            timeoutMs: doc.spec.timeoutMs ?? 30000,
+            retries: doc.spec.retries ?? 0,
+            locations: doc.spec.locations ?? ["local"],
+            scriptRef: doc.spec.scriptRef ?? null,
+            request: doc.spec.request ?? doc.spec.tcp ?? null,
+            runSpec: checkRunSpec(doc),
+            assertions: doc.spec.assertions ?? [],
+            tags: doc.metadata.tags ?? [],
+          },
+        };
+      case "AlertRule":
+        return {
+          kind: "AlertRule",
+          name,
+          spec: {
+            check: doc.spec.check ?? null,
+            enabled: doc.spec.enabled ?? true,
+            strategy: doc.spec.strategy,
+            expression: doc.spec.expression,
+            severity: doc.spec.severity,
+            cooldownSeconds: doc.spec.cooldownSeconds ?? 300,
+            renotifySeconds: doc.spec.renotifySeconds ?? null,
+            escalation: doc.spec.escalation ?? [],
+            channels: doc.spec.channels ?? [],
+          },
+        };
+      case "NotificationChannel":
+        return {
+          kind: "NotificationChannel",
+          name,
+          spec: {
+            type: doc.spec.type,
+            config: doc.spec.config ?? {},
+            enabled: doc.spec.enabled ?? true,
+          },
+        };
+      case "MaintenanceWindow":
+        return {
+          kind: "MaintenanceWindow",
+          name,
+          spec: {
+            mode: doc.spec.mode,
+            startsAt: doc.spec.startsAt?.toISOString() ?? null,
+            endsAt: doc.spec.endsAt?.toISOString() ?? null,
+            cron: doc.spec.cron ?? null,
+            durationMinutes: doc.spec.durationMinutes ?? null,
+            timezone: doc.spec.timezone ?? "UTC",
+            checks: doc.spec.checks ?? [],
+            tags: doc.spec.tags ?? [],
+            reason: doc.spec.reason ?? null,
+          },
+        };
+    }
+  });
+}
+
+export async function loadLiveResources(ctx: TenantContext): Promise<LiveResource[]> {
+  const [checks, rules, channels, windows] = await Promise.all([
+    listChecks(ctx),
+    listAlertRules(ctx),
+    listChannels(ctx),
+    listMaintenanceWindows(ctx),
+  ]);
+  const checkNames = new Map(checks.map((c) => [c.id, c.name]));
+  return [
+    ...checks.map((c) => live("Check", c, checkSpec(c))),
+    ...rules.map((r) => live("AlertRule", r, ruleSpec(r, checkNames))),
+    ...channels.map((c) => live("NotificationChannel", c, channelSpec(c))),
+    ...windows.map((w) => live("MaintenanceWindow", w, windowSpec(w))),
+  ];
+}
+
+type OwnedRow = Pick<Check, "name" | "managedBy" | "sourceYamlHash" | "appliedSpec">;
+
+function live(kind: ManagedKind, row: OwnedRow, spec: Record<string, unknown>): LiveResource {
+  return {
+    kind,
+    name: row.name,
+    spec,
+    managedBy: row.managedBy,
+    sourceYamlHash: row.sourceYamlHash,
+    appliedSpec: (row.appliedSpec as Record<string, unknown> | null) ?? null,
+  };
+}
+
+function checkSpec(c: Check): Record<string, unknown> {
+  return {
+    description: c.description,
+    type: c.type,
+    enabled: c.enabled,
+    schedule: c.schedule,
+    targetUrl: c.targetUrl,
+    timeoutMs: c.timeoutMs,
+    retries: c.retries,
+    locations: c.locations,
+    scriptRef: c.scriptRef,
+    request: c.request,
+    runSpec: c.runSpec,
+    assertions: c.assertions,
+    tags: c.tags,
+  };
+}
+
+function ruleSpec(r: AlertRule, checkNames: Map<string, string>): Record<string, unknown> {
+  return {
+    check: r.checkId ? (checkNames.get(r.checkId) ?? null) : null,
+    enabled: r.enabled,
+    strategy: r.strategy,
+    expression: r.expression,
+    severity: r.severity,
+    cooldownSeconds: r.cooldownSeconds,
+    renotifySeconds: r.renotifySeconds,
+    escalation: r.escalation,
+    channels: r.channelIds,
+  };
+}
+
+function channelSpec(c: NotificationChannel): Record<string, unknown> {
+  return { type: c.type, config: c.config, enabled: c.enabled };
+}
+
+function windowSpec(w: MaintenanceWindow): Record<string, unknown> {
+  return {
+    mode: w.mode,
+    startsAt: w.startsAt?.toISOString() ?? null,
+    endsAt: w.endsAt?.toISOString() ?? null,
+    cron: w.cron,
+    durationMinutes: w.durationMinutes,
+    timezone: w.timezone,
+    checks: w.checkNames,
+    tags: w.tags,
+    reason: w.reason,
+  };
+}
+
+/**
+ * Rejects AlertRules naming a check that neither the YAML nor the
+ * tenant has, or that `pruned` deletes. Such a rule would be stored
+ * without its check, never evaluate, and show up as an update in
+ * every later plan and in drift.
+ */
+export function assertRuleChecksExist(
+  desired: DesiredResource[],
+  liveResources: LiveResource[],
+  pruned: ResourceRef[] = [],
+): void {
+  const deleted = new Set(pruned.filter((r) => r.kind === "Check").map((r) => r.name));
+  const checks = new Set(
+    [...desired, ...liveResources]
+      .filter((r) => r.kind === "Check" && !deleted.has(r.name))
+      .map((r) => r.name),
+  );
+  const issues = desired
+    .filter((d) => d.kind === "AlertRule" && d.spec.check !== null)
+    .filter((d) => !checks.has(d.spec.check as string))
+    .map((d) => ({
+      code: "custom",
+      path: ["spec", "check"],
+      message: `rule '${d.name}' references check '${d.spec.check}', which does not exist`,
+    }));
+  if (issues.length > 0) {
+    throw new ValidationError("Alert rules reference unknown checks", { issues });
+  }
+}
+
+/**
+ * What applying `desired` as `owner` would do. Resources declared in
+ * the YAML but owned by someone else (or by nobody) are updates that
+ * take ownership; deletions only ever cover rows this owner manages,
+ * so UI-created checks and other repositories' monitors are safe.
+ */
+export function planMonitors(
+  desired: DesiredResource[],
+  liveResources: LiveResource[],
+  owner: string,
+): MonitorPlan {
+  const byKey = new Map(liveResources.map((r) => [keyOf(r), r]));
+  const declared = new Set(desired.map(keyOf));
+  const plan: MonitorPlan = { owner, create: [], update: [], delete: [], unchanged: [] };
+  for (const d of desired) {
+    const current = byKey.get(keyOf(d));
+    const ref = { kind: d.kind, name: d.name };
+    if (!current) {
+      plan.create.push(ref);
+      continue;
+    }
+    const changes = changedFields(d.spec, current.spec);
+    const takeover = current.managedBy !== owner;
+    if (changes.length === 0 && !takeover) {
+      plan.unchanged.push(ref);
+    } else {
+      plan.update.push({ ...ref, changes, ...(takeover ? { previousOwner: current.managedBy } : {}) });
+    }
+  }
+  for (const r of liveResources) {
+    if (r.managedBy === owner && !declared.has(keyOf(r))) {
+      plan.delete.push({ kind: r.kind, name: r.name });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Managed resources whose live state no longer matches the spec their
+ * last deploy applied, i.e. edited through the API or UI since.
+ */
+export function detectDrift(liveResources: LiveResource[], owner?: string): DriftItem[] {
+  const items: DriftItem[] = [];
+  for (const r of liveResources) {
+    if (!r.managedBy || !r.appliedSpec) continue;
+    if (owner && r.managedBy !== owner) continue;
+    const changes = changedFields(r.appliedSpec, r.spec);
+    if (changes.length === 0) continue;
+    items.push({
+      kind: r.kind,
+      name: r.name,
+      managedBy: r.managedBy,
+      sourceYamlHash: r.sourceYamlHash,
+      changes,
+    });
+  }
+  return items;
+}
+
+function keyOf(r: ResourceRef): string {
+  return `${r.kind}/${r.name}`;
+}
+
+function changedFields(a: Record<string, unknown>, b: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((k) => stableJson(a[k]) !== stableJson(b[k]));
+}
+
+// JSON with sorted object keys, so key order in YAML vs Postgres jsonb
+// doesn't count as a change.
+function stableJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_k, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0)))
+      : v,
+  );
+}
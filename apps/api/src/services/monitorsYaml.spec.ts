@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import type { ValidationError } from "@insightview/core";
 import { parseMonitorsYaml } from "./monitorsYaml.js";
 
 describe("monitorsYaml.parseMonitorsYaml", () => {
@@ -61,4 +62,174 @@ spec:
 `;
     expect(() => parseMonitorsYaml(yaml)).toThrow(/schema/);
   });
+
+  it("parses one-off and recurring MaintenanceWindow docs", () => {
+    const yaml = `
+apiVersion: insightview.io/v1
+kind: MaintenanceWindow
+metadata: { name: release-2026-05-01 }
+spec:
+  mode: pause-runs
+  startsAt: "2026-05-01T02:00:00Z"
+  endsAt: "2026-05-01T02:30:00Z"
+  tags: [checkout]
+---
+apiVersion: insightview.io/v1
+kind: MaintenanceWindow
+metadata: { name: nightly-backup }
+spec:
+  mode: mute-alerts
+  cron: "0 3 * * *"
+  durationMinutes: 20
+  timezone: Europe/Berlin
+`;
+    const docs = parseMonitorsYaml(yaml);
+    expect(docs.map((d) => d.kind)).toEqual(["MaintenanceWindow", "MaintenanceWindow"]);
+    const oneOff = docs[0];
+    if (oneOff.kind !== "MaintenanceWindow") throw new Error("unreachable");
+    expect(oneOff.spec.startsAt).toEqual(new Date("2026-05-01T02:00:00Z"));
+  });
+
+  it("rejects maintenance windows with incomplete or conflicting timing", () => {
+    const doc = (spec: string) => `
+apiVersion: insightview.io/v1
+kind: MaintenanceWindow
+metadata: { name: w }
+spec:
+  mode: mute-alerts
+${spec}`;
+    expect(() => parseMonitorsYaml(doc(`  cron: "0 3 * * *"`))).toThrow(/schema/);
+    expect(() => parseMonitorsYaml(doc(`  cron: "not a cron"\n  durationMinutes: 5`))).toThrow(
+      /schema/,
+    );
+    expect(() =>
+      parseMonitorsYaml(
+        doc(`  startsAt: "2026-05-01T03:00:00Z"\n  endsAt: "2026-05-01T02:00:00Z"`),
+      ),
+    ).toThrow(/schema/);
+  });
+
+  it("accepts every strategy with a well-formed expression", () => {
+    const rule = (strategy: string, expression: string) => `
+apiVersion: insightview.io/v1
+kind: AlertRule
+metadata: { name: ${strategy.toLowerCase()} }
+spec:
+  strategy: ${strategy}
+  expression: ${expression}
+  severity: WARNING
+`;
+    const yaml = [
+      rule("THRESHOLD", `{ metric: LCP, operator: ">", value: 2500 }`),
+      rule("CONSECUTIVE_FAILURES", `{ threshold: 2, quorum: 2 }`),
+      rule(
+        "COMPOSITE",
+        `{ any: [{ strategy: THRESHOLD, expression: { metric: CLS, value: 0.1 } }, { strategy: CONSECUTIVE_FAILURES }] }`,
+      ),
+      rule("ANOMALY_DETECTION", `{ metric: duration, direction: both }`),
+      rule("RUM_METRIC", `{ metric: INP, percentile: p95, value: 200 }`),
+      rule("CERT_EXPIRY", `{ thresholds: [21, { days: 7, severity: CRITICAL }] }`),
+    ].join("---");
+    expect(parseMonitorsYaml(yaml)).toHaveLength(6);
+  });
+
+  it("rejects expression typos per strategy", () => {
+    const issues = (strategy: string, expression: string) => {
+      try {
+        parseMonitorsYaml(`
+apiVersion: insightview.io/v1
+kind: AlertRule
+metadata: { name: r }
+spec:
+  strategy: ${strategy}
+  expression: ${expression}
+  severity: WARNING
+`);
+      } catch (err) {
+        return (err as ValidationError).details as { issues: Array<{ path: unknown[] }> };
+      }
+      throw new Error("expected a validation error");
+    };
+    expect(issues("THRESHOLD", `{ metirc: LCP, value: 2500 }`).issues.map((i) => i.path)).toEqual([
+      ["spec", "expression", "metric"],
+      ["spec", "expression"],
+    ]);
+    expect(issues("RUM_METRIC", `{ metric: LCP, percentile: p99, value: 1 }`).issues[0].path).toEqual(
+      ["spec", "expression", "percentile"],
+    );
+    expect(issues("COMPOSITE", `{ all: [], any: [] }`).issues.length).toBeGreaterThan(0);
+  });
+
+  it("parses NotificationChannel docs whose credentials are secret refs", () => {
+    const docs = parseMonitorsYaml(`
+apiVersion: insightview.io/v1
+kind: NotificationChannel
+metadata: { name: ops-slack }
+spec:
+  type: SLACK_WEBHOOK
+  config:
+    webhookUrl: { secretRef: INSIGHTVIEW_SECRET_OPS_SLACK }
+    retry: { maxAttempts: 5 }
+`);
+    const channel = docs[0];
+    if (channel.kind !== "NotificationChannel") throw new Error("unreachable");
+    expect(channel.spec.config).toEqual({
+      webhookUrl: { secretRef: "INSIGHTVIEW_SECRET_OPS_SLACK" },
+      retry: { maxAttempts: 5 },
+    });
+  });
+
+  it("rejects inline credentials in NotificationChannel docs", () => {
+    expect(() =>
+      parseMonitorsYaml(`
+apiVersion: insightview.io/v1
+kind: NotificationChannel
+metadata: { name: pager }
+spec:
+  type: PAGERDUTY
+  config: { routingKey: R0ut1ngK3y }
+`),
+    ).toThrow(/schema/);
+  });
+
+  it("rejects secret refs outside the prefix or outside credential fields", () => {
+    const channel = (config: string) => `
+apiVersion: insightview.io/v1
+kind: NotificationChannel
+metadata: { name: hook }
+spec:
+  type: GENERIC_WEBHOOK
+  config: ${config}
+`;
+    expect(() => parseMonitorsYaml(channel(`{ url: { secretRef: DATABASE_URL } }`))).toThrow(
+      /schema/,
+    );
+    expect(() =>
+      parseMonitorsYaml(
+        channel(`{ url: https://example.com/, extra: { secretRef: INSIGHTVIEW_SECRET_X } }`),
+      ),
+    ).toThrow(/schema/);
+    expect(
+      parseMonitorsYaml(channel(`{ url: { secretRef: INSIGHTVIEW_SECRET_HOOK_URL } }`))[0].kind,
+    ).toBe("NotificationChannel");
+  });
+
+  it("requires a schedule on Checks the platform will run", () => {
+    const yaml = `
+apiVersion: insightview.io/v2
+kind: Check
+metadata: { name: native-only }
+spec:
+  targetUrl: https://example.com/
+  cookies: [{ name: consent, value: "yes" }]
+`;
+    try {
+      parseMonitorsYaml(yaml);
+      throw new Error("expected a ValidationError");
+    } catch (err) {
+      const issues = (err as ValidationError).details as { issues: Array<{ path: string[] }> };
+      expect(issues.issues[0].path).toEqual(["spec", "schedule"]);
+    }
+    expect(parseMonitorsYaml(`${yaml}  schedule: "*/5 * * * *"\n`)[0].kind).toBe("Check");
+  });
 });
@@ -1,66 +1,65 @@
 import { createHash } from "node:crypto";
 import { parseAllDocuments } from "yaml";
-import { z } from "zod";
-import { ValidationError, type TenantContext } from "@insightview/core";
+import type { z } from "zod";
+import { ConflictError, ValidationError, type TenantContext } from "@insightview/core";
 import {
   upsertCheck,
   upsertAlertRule,
+  upsertChannel,
+  upsertMaintenanceWindow,
   recordDeployment,
+  getDeployment,
   findCheckByName,
+  markManaged,
+  pruneManaged,
   type CheckInput,
+  type PruneMode,
+  type MaintenanceWindowInput,
 } from "@insightview/db";
+import {
+  parseMonitorDoc,
+  type MaintenanceWindowSpecObject,
+  type MonitorDoc,
+} from "@insightview/monitor-schema";
 
-const AssertionSchema = z.object({
-  type: z.string(),
-  value: z.string(),
-});
-
-const CheckSpecSchema = z.object({
-  type: z.enum(["browser", "api", "tcp"]).default("browser"),
-  enabled: z.boolean().optional(),
-  schedule: z.string(),
-  targetUrl: z.string().min(1),
-  timeoutMs: z.number().int().positive().optional(),
-  retries: z.number().int().min(0).optional(),
-  locations: z.array(z.string()).optional(),
-  scriptRef: z.string().optional(),
-  assertions: z.array(AssertionSchema).optional(),
-  tags: z.array(z.string()).optional(),
-});
-
-const AlertRuleSpecSchema = z.object({
-  checkName: z.string().optional(),
-  enabled: z.boolean().optional(),
-  strategy: z.enum(["THRESHOLD", "CONSECUTIVE_FAILURES", "COMPOSITE"]),
-  expression: z.record(z.unknown()).default({}),
-  severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
-  cooldownSeconds: z.number().int().positive().optional(),
-  channels: z.array(z.string()).optional(),
-});
-
-const MetadataSchema = z.object({
-  name: z.string().min(1).max(120),
-  description: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-});
+import {
+  DEFAULT_OWNER,
+  assertRuleChecksExist,
+  checkRunSpec,
+  desiredResources,
+  loadLiveResources,
+  planMonitors,
+  type MonitorPlan,
+  type ResourceRef,
+} from "./monitorsPlan.js";
 
-const MonitorDocSchema = z.discriminatedUnion("kind", [
-  z.object({
-    apiVersion: z.literal("insightview.io/v1"),
-    kind: z.literal("Check"),
-    metadata: MetadataSchema,
-    spec: CheckSpecSchema,
-  }),
-  z.object({
-    apiVersion: z.literal("insightview.io/v1"),
-    kind: z.literal("AlertRule"),
-    metadata: MetadataSchema,
-    spec: AlertRuleSpecSchema,
-  }),
-]);
+export type { MonitorDoc };
 
-export type MonitorDoc = z.infer<typeof MonitorDocSchema>;
+export function maintenanceWindowInput(
+  name: string,
+  spec: z.infer<typeof MaintenanceWindowSpecObject>,
+): MaintenanceWindowInput {
+  return {
+    name,
+    mode: spec.mode,
+    startsAt: spec.startsAt ?? null,
+    endsAt: spec.endsAt ?? null,
+    cron: spec.cron ?? null,
+    durationMinutes: spec.durationMinutes ?? null,
+    timezone: spec.timezone,
+    checkNames: spec.checks ?? [],
+    tags: spec.tags ?? [],
+    reason: spec.reason ?? null,
+  };
+}
 
+/**
+ * Parse and validate a multi-document YAML string. Any supported
+ * apiVersion is accepted and returned as the latest (see
+ * @insightview/monitor-schema). Checks additionally need a `schedule`
+ * here: native-run leaves scheduling to the workflow, the platform
+ * can't.
+ */
 export function parseMonitorsYaml(yaml: string): MonitorDoc[] {
   const docs = parseAllDocuments(yaml);
   const out: MonitorDoc[] = [];
@@ -72,13 +71,25 @@ export function parseMonitorsYaml(yaml: string): MonitorDoc[] {
     }
     const json = doc.toJS();
     if (!json) continue;
-    const result = MonitorDocSchema.safeParse(json);
+    const result = parseMonitorDoc(json);
     if (!result.success) {
       throw new ValidationError("Monitor document failed schema validation", {
         issues: result.error.issues,
         received: json,
       });
     }
+    if (result.data.kind === "Check" && !result.data.spec.schedule) {
+      throw new ValidationError("Monitor document failed schema validation", {
+        issues: [
+          {
+            code: "custom",
+            path: ["spec", "schedule"],
+            message: `check '${result.data.metadata.name}' needs a schedule to run on the platform`,
+          },
+        ],
+        received: json,
+      });
+    }
     out.push(result.data);
   }
   return out;
@@ -88,22 +99,42 @@ export interface ApplyOptions {
   actor: string;
   source: "ACTION" | "API" | "CLI";
   yaml: string;
+  /** Ownership label stamped on every applied resource. */
+  owner?: string;
+  /** Remove resources this owner manages that the YAML dropped. */
+  prune?: PruneMode;
+  /** Set when re-applying an earlier deployment's snapshot. */
+  rollbackOf?: string;
+}
+
+export interface ApplyResult {
+  appliedChecks: string[];
+  appliedRules: string[];
+  appliedChannels: string[];
+  appliedMaintenanceWindows: string[];
+  plan: MonitorPlan;
+  pruned: ResourceRef[];
+  deploymentId: string;
 }
 
 export async function applyMonitors(
   ctx: TenantContext,
   docs: MonitorDoc[],
   opts: ApplyOptions,
-): Promise<{
-  appliedChecks: string[];
-  appliedRules: string[];
-  deploymentId: string;
-}> {
+): Promise<ApplyResult> {
   const yamlHash = createHash("sha256").update(opts.yaml).digest("hex");
+  const owner = opts.owner ?? DEFAULT_OWNER;
+  const desired = desiredResources(docs);
+  const liveResources = await loadLiveResources(ctx);
+  const plan = planMonitors(desired, liveResources, owner);
+  assertRuleChecksExist(desired, liveResources, opts.prune === "delete" ? plan.delete : []);
   const appliedChecks: string[] = [];
   const appliedRules: string[] = [];
+  const appliedChannels: string[] = [];
+  const appliedMaintenanceWindows: string[] = [];
 
-  // Two-pass so rules can reference checks that were applied in the same file.
+  // Two-pass so rules can reference checks (and channels) that were
+  // applied in the same file.
   for (const doc of docs) {
     if (doc.kind === "Check") {
       const input: CheckInput = {
@@ -111,27 +142,40 @@ export async function applyMonitors(
         description: doc.metadata.description ?? null,
         type: doc.spec.type.toUpperCase() as "BROWSER" | "API" | "TCP",
         enabled: doc.spec.enabled ?? true,
-        schedule: doc.spec.schedule,
+        // Presence checked in parseMonitorsYaml.
+        schedule: doc.spec.schedule as string,
         targetUrl: doc.spec.targetUrl,
         timeoutMs: doc.spec.timeoutMs,
         retries: doc.spec.retries,
         locations: doc.spec.locations,
         scriptRef: doc.spec.scriptRef,
+        // API checks store their HTTP request, TCP checks their probe.
+        request: doc.spec.request ?? doc.spec.tcp ?? null,
+        runSpec: checkRunSpec(doc),
         assertions: doc.spec.assertions ?? [],
-        tags: doc.metadata.tags ?? doc.spec.tags ?? [],
+        tags: doc.metadata.tags ?? [],
         sourceYaml: opts.yaml,
         sourceYamlHash: yamlHash,
       };
       await upsertCheck(ctx, input);
       appliedChecks.push(doc.metadata.name);
     }
+    if (doc.kind === "NotificationChannel") {
+      await upsertChannel(ctx, {
+        name: doc.metadata.name,
+        type: doc.spec.type,
+        config: doc.spec.config,
+        enabled: doc.spec.enabled,
+      });
+      appliedChannels.push(doc.metadata.name);
+    }
   }
 
   for (const doc of docs) {
     if (doc.kind === "AlertRule") {
       let checkId: string | null = null;
-      if (doc.spec.checkName) {
-        const c = await findCheckByName(ctx, doc.spec.checkName);
+      if (doc.spec.check) {
+        const c = await findCheckByName(ctx, doc.spec.check);
         checkId = c?.id ?? null;
       }
       await upsertAlertRule(ctx, {
@@ -143,21 +187,84 @@ export async function applyMonitors(
         severity: doc.spec.severity,
         cooldownSeconds: doc.spec.cooldownSeconds,
         channelIds: doc.spec.channels,
+        renotifySeconds: doc.spec.renotifySeconds ?? null,
+        escalation: doc.spec.escalation,
       });
       appliedRules.push(doc.metadata.name);
     }
+    if (doc.kind === "MaintenanceWindow") {
+      await upsertMaintenanceWindow(ctx, maintenanceWindowInput(doc.metadata.name, doc.spec));
+      appliedMaintenanceWindows.push(doc.metadata.name);
+    }
+  }
+
+  for (const d of desired) {
+    await markManaged(ctx, d.kind, d.name, {
+      managedBy: owner,
+      sourceYamlHash: yamlHash,
+      appliedSpec: d.spec,
+    });
+  }
+  const pruned: ResourceRef[] = [];
+  if (opts.prune) {
+    for (const r of plan.delete) {
+      await pruneManaged(ctx, r.kind, r.name, opts.prune);
+      pruned.push(r);
+    }
   }
 
   const deployment = await recordDeployment(ctx, {
     actor: opts.actor,
     source: opts.source,
     yamlHash,
-    diff: { appliedChecks, appliedRules },
+    yaml: opts.yaml,
+    rollbackOf: opts.rollbackOf,
+    diff: {
+      owner,
+      appliedChecks,
+      appliedRules,
+      appliedChannels,
+      appliedMaintenanceWindows,
+      created: plan.create,
+      updated: plan.update,
+      pruned,
+      ...(pruned.length > 0 ? { pruneMode: opts.prune } : {}),
+    },
   });
 
   return {
     appliedChecks,
     appliedRules,
+    appliedChannels,
+    appliedMaintenanceWindows,
+    plan,
+    pruned,
     deploymentId: deployment.id,
   };
 }
+
+/**
+ * Re-apply the YAML snapshot of an earlier deployment as a new one,
+ * under the owner that deployment used. The snapshot is parsed again,
+ * so it must still pass today's schema (older apiVersions migrate as
+ * usual). Pass `prune` to also remove what was added since.
+ */
+export async function rollbackDeployment(
+  ctx: TenantContext,
+  deploymentId: string,
+  opts: Pick<ApplyOptions, "actor" | "source" | "prune">,
+): Promise<ApplyResult> {
+  const target = await getDeployment(ctx, deploymentId);
+  if (target.yaml === null) {
+    throw new ConflictError(
+      `Deployment ${deploymentId} predates stored snapshots and cannot be rolled back to`,
+    );
+  }
+  const owner = (target.diff as { owner?: unknown }).owner;
+  return applyMonitors(ctx, parseMonitorsYaml(target.yaml), {
+    ...opts,
+    yaml: target.yaml,
+    owner: typeof owner === "string" ? owner : undefined,
+    rollbackOf: target.id,
+  });
+}
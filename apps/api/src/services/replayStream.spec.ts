@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { replayLines, type ReplayChunkRow, type ReplayLine } from "./replayStream.js";
+
+async function collect(rows: ReplayChunkRow[]): Promise<ReplayLine[]> {
+  async function* source() {
+    yield* rows;
+  }
+  const out: ReplayLine[] = [];
+  for await (const line of replayLines(source())) out.push(line);
+  return out;
+}
+
+const chunk = (sequence: number, events: unknown[] = [{ type: 2, timestamp: sequence }]) => ({
+  sequence,
+  payload: JSON.stringify(events),
+});
+
+describe("replayLines", () => {
+  it("streams chunks in order and reports missing sequences", async () => {
+    const lines = await collect([chunk(0), chunk(1), chunk(4), chunk(5)]);
+    expect(lines.map((l) => (l.type === "chunk" ? l.sequence : l.type))).toEqual([
+      0,
+      1,
+      "gap",
+      4,
+      5,
+      "end",
+    ]);
+    expect(lines[2]).toEqual({ type: "gap", from: 2, to: 3, reason: "missing" });
+    expect(lines.at(-1)).toEqual({ type: "end", chunks: 4, gaps: 1, missing: 2 });
+  });
+
+  it("reports a session whose first chunks never arrived", async () => {
+    const lines = await collect([chunk(2)]);
+    expect(lines[0]).toEqual({ type: "gap", from: 0, to: 1, reason: "missing" });
+  });
+
+  it("drops retried duplicates and flags unreadable payloads", async () => {
+    const lines = await collect([chunk(0), chunk(0), { sequence: 1, payload: "{not json" }, chunk(2)]);
+    expect(lines).toEqual([
+      { type: "chunk", sequence: 0, events: [{ type: 2, timestamp: 0 }] },
+      { type: "gap", from: 1, to: 1, reason: "unreadable" },
+      { type: "chunk", sequence: 2, events: [{ type: 2, timestamp: 2 }] },
+      { type: "end", chunks: 2, gaps: 1, missing: 1 },
+    ]);
+  });
+
+  it("keeps same-sequence chunks with different payloads", async () => {
+    const lines = await collect([chunk(0, [{ a: 1 }]), chunk(0, [{ b: 1 }])]);
+    expect(lines.filter((l) => l.type === "chunk")).toHaveLength(2);
+    expect(lines.at(-1)).toMatchObject({ gaps: 0 });
+  });
+});
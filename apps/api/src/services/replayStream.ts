@@ -0,0 +1,63 @@
+/**
+ * Session replay playback. Chunks come out of the database in
+ * sequence order and go to the client as NDJSON, one line per chunk,
+ * with a `gap` line wherever sequences are missing or a payload can't
+ * be read, and an `end` line with totals. A gap after the last chunk
+ * received can't be seen from here: nothing says how many were sent.
+ */
+
+export interface ReplayChunkRow {
+  sequence: number;
+  payload: string;
+}
+
+export type ReplayLine =
+  | { type: "chunk"; sequence: number; events: unknown[] }
+  | { type: "gap"; from: number; to: number; reason: "missing" | "unreadable" }
+  | { type: "end"; chunks: number; gaps: number; missing: number };
+
+export async function* replayLines(
+  chunks: AsyncIterable<ReplayChunkRow>,
+): AsyncGenerator<ReplayLine> {
+  let expected = 0;
+  let previous: ReplayChunkRow | undefined;
+  let count = 0;
+  let gaps = 0;
+  let missing = 0;
+  for await (const chunk of chunks) {
+    // A beacon the browser retried: same sequence, same payload.
+    if (previous && previous.sequence === chunk.sequence && previous.payload === chunk.payload) {
+      continue;
+    }
+    previous = chunk;
+    if (chunk.sequence > expected) {
+      gaps++;
+      missing += chunk.sequence - expected;
+      yield { type: "gap", from: expected, to: chunk.sequence - 1, reason: "missing" };
+    }
+    expected = Math.max(expected, chunk.sequence + 1);
+    const events = parseEvents(chunk.payload);
+    if (!events) {
+      gaps++;
+      missing++;
+      yield { type: "gap", from: chunk.sequence, to: chunk.sequence, reason: "unreadable" };
+      continue;
+    }
+    count++;
+    yield { type: "chunk", sequence: chunk.sequence, events };
+  }
+  yield { type: "end", chunks: count, gaps, missing };
+}
+
+export async function* ndjson(lines: AsyncIterable<unknown>): AsyncGenerator<string> {
+  for await (const line of lines) yield `${JSON.stringify(line)}\n`;
+}
+
+function parseEvents(payload: string): unknown[] | null {
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
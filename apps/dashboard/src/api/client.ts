@@ -15,10 +15,38 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   return res.json();
 }
 
+// Line-delimited JSON, handed to `onLine` as each line arrives.
+async function streamLines<T>(path: string, onLine: (line: T) => void): Promise<void> {
+  const res = await fetch(`${BASE}${path}`);
+  if (!res.ok || !res.body) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`${res.status} ${res.statusText}: ${text}`);
+  }
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let pending = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const lines = (pending + value).split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) if (line) onLine(JSON.parse(line) as T);
+  }
+  if (pending) onLine(JSON.parse(pending) as T);
+}
+
+export type ReplayLine =
+  | { type: "chunk"; sequence: number; events: any[] }
+  | { type: "gap"; from: number; to: number; reason: "missing" | "unreadable" }
+  | { type: "end"; chunks: number; gaps: number; missing: number };
+
 export const api = {
   listChecks: () => request<{ items: any[] }>("/v1/checks"),
   triggerRun: (checkName: string) =>
-    request<{ runId: string; status: string }>("/v1/runs", {
+    request<{
+      runId: string;
+      status: string;
+      runs: Array<{ runId: string; location: string }>;
+    }>("/v1/runs", {
       method: "POST",
       body: JSON.stringify({ checkName, triggeredBy: "API" }),
     }),
@@ -26,7 +54,26 @@ export const api = {
     request<{ items: any[] }>(
       `/v1/runs?checkName=${encodeURIComponent(checkName)}&limit=20`,
     ),
+  a11yTrend: (checkName: string) =>
+    request<{ items: Array<{ runId: string; createdAt: string; counts: Record<string, number> }> }>(
+      `/v1/checks/${encodeURIComponent(checkName)}/a11y?limit=20`,
+    ),
   listIncidents: () => request<{ items: any[] }>("/v1/incidents"),
+  ackIncident: (id: string) =>
+    request<any>(`/v1/incidents/${encodeURIComponent(id)}/ack`, {
+      method: "POST",
+      body: JSON.stringify({}),
+    }),
+  resolveIncident: (id: string) =>
+    request<any>(`/v1/incidents/${encodeURIComponent(id)}/resolve`, {
+      method: "POST",
+      body: JSON.stringify({}),
+    }),
+  silenceIncident: (id: string, durationMinutes: number, reason: string) =>
+    request<any>(`/v1/incidents/${encodeURIComponent(id)}/silence`, {
+      method: "POST",
+      body: JSON.stringify({ durationMinutes, reason }),
+    }),
   listChannels: () => request<{ items: any[] }>("/v1/channels"),
   listAlertRules: () => request<{ items: any[] }>("/v1/alert-rules"),
   rumSummary: (siteId: string) =>
@@ -37,5 +84,19 @@ export const api = {
     request<{ items: any[] }>(`/v1/rum/sessions?siteId=${encodeURIComponent(siteId)}`),
   rumEvents: (siteId: string, limit = 50) =>
     request<{ items: any[] }>(`/v1/rum/events?siteId=${encodeURIComponent(siteId)}&limit=${limit}`),
+  rumSession: (id: string) =>
+    request<any>(`/v1/rum/sessions/${encodeURIComponent(id)}`),
+  rumReplay: (id: string, onLine: (line: ReplayLine) => void) =>
+    streamLines<ReplayLine>(`/v1/rum/sessions/${encodeURIComponent(id)}/replay`, onLine),
+  rumIssues: (siteId: string, status: string) =>
+    request<{ items: any[] }>(
+      `/v1/rum/issues?siteId=${encodeURIComponent(siteId)}${status ? `&status=${status}` : ""}`,
+    ),
+  rumIssue: (id: string) => request<any>(`/v1/rum/issues/${encodeURIComponent(id)}`),
+  updateRumIssue: (id: string, status: string, release?: string) =>
+    request<any>(`/v1/rum/issues/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status, release }),
+    }),
   health: () => request<{ ok: boolean; watchdog: any }>("/healthz"),
 };
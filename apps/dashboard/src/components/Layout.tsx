@@ -10,7 +10,8 @@ export function Layout({ children }: PropsWithChildren) {
           <NavLink to="/checks">Checks</NavLink>
           <NavLink to="/runs">Runs</NavLink>
           <NavLink to="/alerts">Alerts</NavLink>
-          <NavLink to="/rum">RUM</NavLink>
+          <NavLink to="/rum" end>RUM</NavLink>
+          <NavLink to="/rum/issues">Issues</NavLink>
         </nav>
         <div style={{ marginTop: "auto", fontSize: 12, color: "var(--muted)" }}>
           <div>v0.1.0</div>
@@ -0,0 +1,129 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { Replayer } from "rrweb";
+import "rrweb/dist/rrweb.min.css";
+
+export type ReplayEvent = Exclude<ConstructorParameters<typeof Replayer>[0][number], string>;
+
+export interface ReplayMarker {
+  /** Epoch ms, the same clock as the rrweb event timestamps. */
+  at: number;
+  kind: "error" | "click";
+  label: string;
+}
+
+export interface ReplayPlayerHandle {
+  /** Jump to an epoch-ms timestamp and play from there. */
+  seek(at: number): void;
+}
+
+function clock(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+export const ReplayPlayer = forwardRef<
+  ReplayPlayerHandle,
+  { events: ReplayEvent[]; markers: ReplayMarker[] }
+>(function ReplayPlayer({ events, markers }, ref) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const replayerRef = useRef<Replayer | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [meta, setMeta] = useState({ startTime: 0, totalTime: 0 });
+
+  useEffect(() => {
+    const root = rootRef.current;
+    // rrweb needs a full snapshot plus at least one more event.
+    if (!root || events.length < 2) return;
+    // Chunks arrive in sequence order; events inside overlapping or
+    // legacy chunks may not be, and the replayer assumes they are.
+    const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+    const replayer = new Replayer(sorted, { root, skipInactive: true, showWarning: false });
+    replayerRef.current = replayer;
+    setMeta(replayer.getMetaData());
+    setOffset(0);
+    replayer.on("finish", () => setPlaying(false));
+    return () => {
+      replayer.destroy();
+      replayerRef.current = null;
+      setPlaying(false);
+    };
+  }, [events]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setOffset(replayerRef.current?.getCurrentTime() ?? 0);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [playing]);
+
+  const playFrom = (ms: number) => {
+    const at = Math.min(Math.max(0, ms), meta.totalTime);
+    replayerRef.current?.play(at);
+    setOffset(at);
+    setPlaying(true);
+  };
+
+  useImperativeHandle(ref, () => ({ seek: (at: number) => playFrom(at - meta.startTime) }), [meta]);
+
+  const toggle = () => {
+    const replayer = replayerRef.current;
+    if (!replayer) return;
+    if (playing) {
+      replayer.pause();
+      setPlaying(false);
+    } else {
+      playFrom(offset >= meta.totalTime ? 0 : offset);
+    }
+  };
+
+  if (events.length < 2) {
+    return <div className="muted">Not enough replay data to play this session.</div>;
+  }
+
+  return (
+    <div>
+      <div
+        ref={rootRef}
+        style={{ overflow: "auto", maxHeight: 560, background: "#fff", borderRadius: 8 }}
+      />
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 12 }}>
+        <button onClick={toggle}>{playing ? "Pause" : "Play"}</button>
+        <div style={{ position: "relative", flex: 1 }}>
+          <input
+            type="range"
+            min={0}
+            max={meta.totalTime}
+            value={offset}
+            onChange={(e) => playFrom(Number(e.target.value))}
+            style={{ width: "100%" }}
+          />
+          {markers.map((m, i) => {
+            const at = m.at - meta.startTime;
+            if (at < 0 || at > meta.totalTime || meta.totalTime === 0) return null;
+            return (
+              <span
+                key={i}
+                title={m.label}
+                onClick={() => playFrom(at)}
+                style={{
+                  position: "absolute",
+                  top: -6,
+                  left: `${(at / meta.totalTime) * 100}%`,
+                  width: 4,
+                  height: 8,
+                  cursor: "pointer",
+                  background: m.kind === "error" ? "var(--danger)" : "var(--accent)",
+                }}
+              />
+            );
+          })}
+        </div>
+        <span className="muted" style={{ fontVariantNumeric: "tabular-nums" }}>
+          {clock(offset)} / {clock(meta.totalTime)}
+        </span>
+      </div>
+    </div>
+  );
+});
@@ -6,6 +6,8 @@ import { ChecksPage } from "./pages/ChecksPage";
 import { RunsPage } from "./pages/RunsPage";
 import { AlertsPage } from "./pages/AlertsPage";
 import { RumPage } from "./pages/RumPage";
+import { SessionPage } from "./pages/SessionPage";
+import { IssuesPage } from "./pages/IssuesPage";
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
@@ -18,6 +20,8 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
           <Route path="/runs" element={<RunsPage />} />
           <Route path="/alerts" element={<AlertsPage />} />
           <Route path="/rum" element={<RumPage />} />
+          <Route path="/rum/sessions/:id" element={<SessionPage />} />
+          <Route path="/rum/issues" element={<IssuesPage />} />
         </Routes>
       </Layout>
     </BrowserRouter>
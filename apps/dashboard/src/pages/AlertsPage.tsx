@@ -1,9 +1,40 @@
+import { useState } from "react";
 import { api } from "../api/client";
 import { useFetch } from "../hooks/useFetch";
 
 export function AlertsPage() {
   const { data: rules } = useFetch(() => api.listAlertRules(), []);
   const { data: incidents, reload } = useFetch(() => api.listIncidents(), []);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const act = async (id: string, action: () => Promise<unknown>) => {
+    setBusy(id);
+    try {
+      await action();
+      reload();
+    } catch (e) {
+      alert(`Action failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const silence = (id: string) => {
+    const minutes = Number(prompt("Silence for how many minutes?", "60"));
+    if (!Number.isInteger(minutes) || minutes <= 0) return;
+    const reason = prompt("Reason (shown in the audit log)?")?.trim();
+    if (!reason) return;
+    void act(id, () => api.silenceIncident(id, minutes, reason));
+  };
+
+  const statusLabel = (i: any) => {
+    if (i.status === "ACKNOWLEDGED") return `ACKNOWLEDGED by ${i.acknowledgedBy ?? "?"}`;
+    if (i.status === "RESOLVED" && i.resolvedBy) return `RESOLVED by ${i.resolvedBy}`;
+    if (i.silencedUntil && new Date(i.silencedUntil) > new Date()) {
+      return `${i.status} (silenced until ${new Date(i.silencedUntil).toLocaleString()})`;
+    }
+    return i.status;
+  };
 
   const severityClass = (sev: string) => {
     if (sev === "CRITICAL") return "badge badge-fail";
@@ -55,6 +86,7 @@ export function AlertsPage() {
               <th>Status</th>
               <th>Opened</th>
               <th>Resolved</th>
+              <th></th>
             </tr>
           </thead>
           <tbody>
@@ -62,13 +94,41 @@ export function AlertsPage() {
               <tr key={i.id}>
                 <td><code style={{ fontSize: 11 }}>{i.id}</code></td>
                 <td><span className={severityClass(i.severity)}>{i.severity}</span></td>
-                <td>{i.status}</td>
+                <td title={i.silenceReason ?? undefined}>{statusLabel(i)}</td>
                 <td className="muted">{new Date(i.openedAt).toLocaleString()}</td>
                 <td className="muted">{i.resolvedAt ? new Date(i.resolvedAt).toLocaleString() : "—"}</td>
+                <td style={{ whiteSpace: "nowrap" }}>
+                  {i.status === "FIRING" && (
+                    <button
+                      disabled={busy === i.id}
+                      onClick={() => act(i.id, () => api.ackIncident(i.id))}
+                      style={{ marginRight: 4 }}
+                    >
+                      Ack
+                    </button>
+                  )}
+                  {i.status !== "RESOLVED" && (
+                    <>
+                      <button
+                        disabled={busy === i.id}
+                        onClick={() => silence(i.id)}
+                        style={{ marginRight: 4 }}
+                      >
+                        Silence
+                      </button>
+                      <button
+                        disabled={busy === i.id}
+                        onClick={() => act(i.id, () => api.resolveIncident(i.id))}
+                      >
+                        Resolve
+                      </button>
+                    </>
+                  )}
+                </td>
               </tr>
             ))}
             {(incidents?.items ?? []).length === 0 && (
-              <tr><td colSpan={5} className="muted">No incidents.</td></tr>
+              <tr><td colSpan={6} className="muted">No incidents.</td></tr>
             )}
           </tbody>
         </table>
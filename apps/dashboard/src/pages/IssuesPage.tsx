@@ -0,0 +1,211 @@
+import { Fragment, useState } from "react";
+import { Link } from "react-router-dom";
+import { api } from "../api/client";
+import { useFetch } from "../hooks/useFetch";
+
+const inputStyle = {
+  padding: "6px 10px",
+  background: "var(--panel)",
+  color: "var(--text)",
+  border: "1px solid var(--border)",
+  borderRadius: 8,
+  marginRight: 8,
+};
+
+const codeStyle = {
+  fontFamily: "ui-monospace, monospace",
+  fontSize: 12,
+  whiteSpace: "pre" as const,
+  overflowX: "auto" as const,
+  margin: "4px 0 8px",
+};
+
+// Frames of one event as stored at ingest: the original position when
+// a source map resolved it, with its source context.
+function StackFrames({ frames }: { frames: any[] }) {
+  return (
+    <div style={{ marginBottom: 12 }}>
+      {frames.map((f, idx) => (
+        <div key={idx}>
+          {f.original ? (
+            <>
+              <div>
+                {f.original.func ?? "?"}{" "}
+                <span className="muted">
+                  {f.original.source}:{f.original.line}:{f.original.col}
+                </span>
+              </div>
+              {f.original.context && (
+                <div style={codeStyle}>
+                  {[
+                    ...f.original.context.pre.map((l: string) => `  ${l}`),
+                    `> ${f.original.context.line}`,
+                    ...f.original.context.post.map((l: string) => `  ${l}`),
+                  ].join("\n")}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="muted">
+              {f.func ?? "?"} {f.url}:{f.line}:{f.col}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function IssuesPage() {
+  const [siteId, setSiteId] = useState("test-site-home");
+  const [status, setStatus] = useState("");
+  const { data: issues, reload } = useFetch(() => api.rumIssues(siteId, status), [siteId, status]);
+  const [open, setOpen] = useState<string | null>(null);
+  const { data: detail } = useFetch(
+    () => (open ? api.rumIssue(open) : Promise.resolve(null)),
+    [open],
+  );
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const setIssueStatus = async (id: string, next: string) => {
+    let release: string | undefined;
+    if (next === "RESOLVED") {
+      // Naming the fix release lets older clients keep reporting it
+      // without reopening the issue.
+      release = prompt("Fixed in release (optional)?")?.trim() || undefined;
+    }
+    setBusy(id);
+    try {
+      await api.updateRumIssue(id, next, release);
+      reload();
+    } catch (e) {
+      alert(`Action failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const statusClass = (s: string) => {
+    if (s === "REGRESSED") return "badge badge-fail";
+    if (s === "OPEN") return "badge badge-warn";
+    if (s === "RESOLVED") return "badge badge-pass";
+    return "badge badge-info";
+  };
+
+  return (
+    <>
+      <div className="header-row">
+        <h2>Issues</h2>
+        <div>
+          <input
+            value={siteId}
+            onChange={(e) => setSiteId(e.target.value)}
+            placeholder="siteId"
+            style={inputStyle}
+          />
+          <select value={status} onChange={(e) => setStatus(e.target.value)} style={inputStyle}>
+            <option value="">All statuses</option>
+            <option value="OPEN">Open</option>
+            <option value="REGRESSED">Regressed</option>
+            <option value="RESOLVED">Resolved</option>
+            <option value="IGNORED">Ignored</option>
+          </select>
+          <button onClick={() => reload()}>Refresh</button>
+        </div>
+      </div>
+
+      <div className="card">
+        <table>
+          <thead>
+            <tr>
+              <th>Issue</th>
+              <th>Status</th>
+              <th>Events</th>
+              <th>Sessions</th>
+              <th>Releases</th>
+              <th>Last seen</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(issues?.items ?? []).map((i: any) => (
+              <Fragment key={i.id}>
+                <tr>
+                  <td>
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setOpen(open === i.id ? null : i.id);
+                      }}
+                    >
+                      {i.title}
+                    </a>
+                    {i.culprit && <div className="muted" style={{ fontSize: 12 }}>{i.culprit}</div>}
+                  </td>
+                  <td><span className={statusClass(i.status)}>{i.status}</span></td>
+                  <td>{i.eventCount}</td>
+                  <td>{i.sessionCount}</td>
+                  <td className="muted">
+                    {i.firstRelease ?? "—"}
+                    {i.lastRelease && i.lastRelease !== i.firstRelease ? ` → ${i.lastRelease}` : ""}
+                  </td>
+                  <td className="muted">{new Date(i.lastSeenAt).toLocaleString()}</td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    {i.status !== "RESOLVED" && (
+                      <button disabled={busy === i.id} onClick={() => setIssueStatus(i.id, "RESOLVED")}>
+                        Resolve
+                      </button>
+                    )}{" "}
+                    {i.status !== "IGNORED" && (
+                      <button disabled={busy === i.id} onClick={() => setIssueStatus(i.id, "IGNORED")}>
+                        Ignore
+                      </button>
+                    )}{" "}
+                    {(i.status === "RESOLVED" || i.status === "IGNORED") && (
+                      <button disabled={busy === i.id} onClick={() => setIssueStatus(i.id, "OPEN")}>
+                        Reopen
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {open === i.id && detail?.id === i.id && (
+                  <tr>
+                    <td colSpan={7}>
+                      {detail.status === "REGRESSED" && detail.regressedAt && (
+                        <div className="error" style={{ marginBottom: 8 }}>
+                          Regressed {new Date(detail.regressedAt).toLocaleString()}
+                          {detail.resolvedInRelease ? ` after a fix in ${detail.resolvedInRelease}` : ""}
+                        </div>
+                      )}
+                      {Array.isArray(detail.events[0]?.attributes?.frames) && (
+                        <StackFrames frames={detail.events[0].attributes.frames} />
+                      )}
+                      <table>
+                        <tbody>
+                          {detail.events.map((e: any) => (
+                            <tr key={e.id}>
+                              <td className="muted">{new Date(e.occurredAt).toLocaleString()}</td>
+                              <td>{e.attributes?.release ?? "—"}</td>
+                              <td className="muted">{e.url}</td>
+                              <td>
+                                <Link to={`/rum/sessions/${encodeURIComponent(e.sessionId)}`}>session</Link>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {(issues?.items ?? []).length === 0 && (
+              <tr><td colSpan={7} className="muted">No issues.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
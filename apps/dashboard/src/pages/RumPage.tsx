@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { api } from "../api/client";
 import { useFetch } from "../hooks/useFetch";
 
@@ -85,7 +86,11 @@ export function RumPage() {
           <tbody>
             {(sessions?.items ?? []).slice(0, 15).map((s: any) => (
               <tr key={s.id}>
-                <td><code style={{ fontSize: 11 }}>{s.id.slice(0, 8)}…</code></td>
+                <td>
+                  <Link to={`/rum/sessions/${encodeURIComponent(s.id)}`}>
+                    <code style={{ fontSize: 11 }}>{s.id.slice(0, 8)}…</code>
+                  </Link>
+                </td>
                 <td>{s.deviceCategory}</td>
                 <td>{s.pageCount}</td>
                 <td className="muted">{new Date(s.startedAt).toLocaleString()}</td>
@@ -10,6 +10,11 @@ export function RunsPage() {
     () => (effective ? api.listRunsByCheck(effective) : Promise.resolve({ items: [] })),
     [effective],
   );
+  const { data: a11y } = useFetch(
+    () => (effective ? api.a11yTrend(effective) : Promise.resolve({ items: [] })),
+    [effective],
+  );
+  const a11yByRun = new Map((a11y?.items ?? []).map((p) => [p.runId, p.counts]));
 
   const badge = (status: string) => {
     if (status === "PASSED") return "badge badge-pass";
@@ -50,7 +55,9 @@ export function RunsPage() {
             <tr>
               <th>Run ID</th>
               <th>Status</th>
+              <th>Location</th>
               <th>Trigger</th>
+              <th>A11y (crit / serious / total)</th>
               <th>Started</th>
               <th>Completed</th>
             </tr>
@@ -60,7 +67,9 @@ export function RunsPage() {
               <tr key={r.id}>
                 <td><code style={{ fontSize: 11 }}>{r.id}</code></td>
                 <td><span className={badge(r.status)}>{r.status}</span></td>
+                <td>{r.location}</td>
                 <td>{r.triggeredBy}</td>
+                <td>{a11yCell(a11yByRun.get(r.id))}</td>
                 <td className="muted">
                   {r.startedAt ? new Date(r.startedAt).toLocaleString() : "—"}
                 </td>
@@ -70,7 +79,7 @@ export function RunsPage() {
               </tr>
             ))}
             {(runs?.items ?? []).length === 0 && !loading && (
-              <tr><td colSpan={5} className="muted">No runs yet.</td></tr>
+              <tr><td colSpan={7} className="muted">No runs yet.</td></tr>
             )}
           </tbody>
         </table>
@@ -78,3 +87,13 @@ export function RunsPage() {
     </>
   );
 }
+
+function a11yCell(counts: Record<string, number> | undefined) {
+  if (!counts) return <span className="muted">—</span>;
+  const severe = (counts.critical ?? 0) + (counts.serious ?? 0);
+  return (
+    <span className={severe > 0 ? "badge badge-fail" : "badge badge-pass"}>
+      {counts.critical ?? 0} / {counts.serious ?? 0} / {counts.total ?? 0}
+    </span>
+  );
+}
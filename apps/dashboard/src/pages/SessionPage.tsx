@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { api, type ReplayLine } from "../api/client";
+import { useFetch } from "../hooks/useFetch";
+import {
+  ReplayPlayer,
+  type ReplayEvent,
+  type ReplayMarker,
+  type ReplayPlayerHandle,
+} from "../components/ReplayPlayer";
+
+type Gap = Extract<ReplayLine, { type: "gap" }>;
+
+// Errors and clicks are the moments worth jumping to.
+function markerFor(e: any): ReplayMarker | null {
+  const at = new Date(e.occurredAt).getTime();
+  if (e.type === "ERROR") return { at, kind: "error", label: e.name };
+  if (e.type === "CUSTOM" && e.name === "click") {
+    return { at, kind: "click", label: String(e.attributes?.selector ?? "click") };
+  }
+  return null;
+}
+
+export function SessionPage() {
+  const { id = "" } = useParams();
+  const { data: session, error } = useFetch(() => api.rumSession(id), [id]);
+  const player = useRef<ReplayPlayerHandle>(null);
+
+  const [replay, setReplay] = useState<{
+    events: ReplayEvent[];
+    gaps: Gap[];
+    chunks: number;
+    done: boolean;
+    error?: string;
+  }>({ events: [], gaps: [], chunks: 0, done: false });
+
+  useEffect(() => {
+    let cancelled = false;
+    const events: ReplayEvent[] = [];
+    const gaps: Gap[] = [];
+    let chunks = 0;
+    setReplay({ events: [], gaps: [], chunks: 0, done: false });
+    api
+      .rumReplay(id, (line) => {
+        if (cancelled) return;
+        if (line.type === "chunk") {
+          events.push(...line.events);
+          chunks++;
+          setReplay((r) => ({ ...r, chunks }));
+        } else if (line.type === "gap") {
+          gaps.push(line);
+        }
+      })
+      .then(() => {
+        if (!cancelled) setReplay({ events, gaps, chunks, done: true });
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setReplay({ events, gaps, chunks, done: true, error: e.message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const timeline: any[] = session?.events ?? [];
+  const markers = useMemo(
+    () => timeline.map(markerFor).filter((m): m is ReplayMarker => m !== null),
+    [timeline],
+  );
+
+  return (
+    <>
+      <div className="header-row">
+        <h2>
+          Session <code style={{ fontSize: 16 }}>{id.slice(0, 8)}…</code>
+        </h2>
+        <Link to="/rum">← RUM</Link>
+      </div>
+      {error && <div className="error">{error.message}</div>}
+      {session && (
+        <div className="muted" style={{ marginBottom: 16 }}>
+          {session.siteId} · {session.deviceCategory ?? "unknown device"} ·{" "}
+          {session.country ?? "unknown country"} · {session.pageCount} pages · started{" "}
+          {new Date(session.startedAt).toLocaleString()}
+        </div>
+      )}
+
+      <div className="card">
+        <h3>Replay</h3>
+        {!replay.done && <div className="muted">Loading replay… {replay.chunks} chunks</div>}
+        {replay.error && <div className="error">{replay.error}</div>}
+        {replay.gaps.length > 0 && (
+          <div className="badge badge-warn" style={{ marginBottom: 12 }}>
+            {replay.gaps
+              .map((g) => `${g.from === g.to ? `chunk ${g.from}` : `chunks ${g.from}–${g.to}`} ${g.reason}`)
+              .join(", ")}{" "}
+            — playback skips over them
+          </div>
+        )}
+        {replay.done && <ReplayPlayer ref={player} events={replay.events} markers={markers} />}
+      </div>
+
+      <div className="card">
+        <h3>Timeline ({timeline.length})</h3>
+        <table>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Type</th>
+              <th>Name</th>
+              <th>URL</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.map((e) => {
+              const marker = markerFor(e);
+              return (
+                <tr key={e.id}>
+                  <td className="muted">{new Date(e.occurredAt).toLocaleTimeString()}</td>
+                  <td>
+                    <span className={e.type === "ERROR" ? "badge badge-fail" : "badge badge-info"}>
+                      {e.type}
+                    </span>
+                  </td>
+                  <td>{e.name}</td>
+                  <td className="muted">{e.url}</td>
+                  <td>
+                    {marker && replay.done && (
+                      <button onClick={() => player.current?.seek(marker.at)}>Jump</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
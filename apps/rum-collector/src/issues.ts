@@ -0,0 +1,46 @@
+import type { TenantContext } from "@insightview/core";
+import { RumEventType } from "@insightview/core";
+import type { RumEventInput, RumIssueOccurrence } from "@insightview/db";
+import { fingerprintError, type StackResolver } from "@insightview/rum-errors";
+
+/**
+ * Resolve and fingerprint a batch's ERROR events. With a release the
+ * stack goes through that release's source maps; the raw `stack` is
+ * kept and the event gains `frames` (raw and original position per
+ * frame, with source context) and, when anything resolved,
+ * `resolvedStack`. Grouping uses the resolved stack so minified names
+ * don't split or merge issues.
+ */
+export async function groupErrors(
+  ctx: TenantContext,
+  release: string | null,
+  rows: RumEventInput[],
+  stacks: StackResolver,
+): Promise<RumIssueOccurrence[]> {
+  const occurrences: RumIssueOccurrence[] = [];
+  for (const row of rows) {
+    if (row.type !== RumEventType.ERROR) continue;
+    const message = typeof row.attributes.message === "string" ? row.attributes.message : null;
+    const raw = typeof row.attributes.stack === "string" ? row.attributes.stack : "";
+    let stack = raw;
+    if (raw) {
+      const result = await stacks.resolve(ctx, release, raw);
+      row.attributes.frames = result.frames;
+      if (result.resolved > 0) {
+        row.attributes.resolvedStack = result.stack;
+        stack = result.stack;
+      }
+    }
+    const { fingerprint, title, culprit } = fingerprintError({ type: row.name, message, stack });
+    occurrences.push({
+      eventId: row.id,
+      sessionId: row.sessionId,
+      fingerprint,
+      title,
+      culprit,
+      release,
+      occurredAt: row.occurredAt,
+    });
+  }
+  return occurrences;
+}
@@ -1,9 +1,12 @@
 import Fastify from "fastify";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
+import { findRumSiteByKey } from "@insightview/db";
 import { createLogger, createRegistry } from "@insightview/observability";
+import { createStackResolver } from "@insightview/rum-errors";
 import { registerEventRoutes } from "./routes/events.js";
 import { registerReplayRoutes } from "./routes/replay.js";
+import { createSiteResolver } from "./sites.js";
 
 const log = createLogger({ service: "rum-collector" });
 const port = Number(process.env.PORT ?? 4400);
@@ -56,8 +59,33 @@ async function main() {
     return registry.metrics();
   });
 
-  await registerEventRoutes(app);
-  await registerReplayRoutes(app);
+  const sites = createSiteResolver({
+    lookup: findRumSiteByKey,
+    cacheTtlMs: Number(process.env.RUM_SITE_CACHE_TTL_MS ?? 60_000),
+    allowAnonymous: process.env.RUM_ALLOW_ANONYMOUS === "true",
+  });
+  if (process.env.RUM_ALLOW_ANONYMOUS === "true") {
+    log.warn("RUM_ALLOW_ANONYMOUS is set: beacons without an ingest key go to the default tenant");
+  }
+
+  // Key check for the edge worker, so it can drop bad beacons before
+  // they reach us. Only what the worker needs: keys are public anyway.
+  app.get<{ Params: { key: string } }>("/v1/sites/:key", async (req, reply) => {
+    const site = await sites.lookup(req.params.key);
+    if (!site) {
+      reply.status(404);
+      return { error: "unknown_ingest_key" };
+    }
+    return { siteId: site.siteId, allowedOrigins: site.allowedOrigins };
+  });
+
+  // Parsed source maps kept in memory for resolving error stacks.
+  const stacks = createStackResolver({
+    maxConsumers: Number(process.env.SOURCE_MAP_CACHE_SIZE ?? 50),
+  });
+
+  await registerEventRoutes(app, sites, stacks);
+  await registerReplayRoutes(app, sites);
 
   try {
     await app.listen({ port, host });
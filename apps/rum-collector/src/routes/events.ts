@@ -3,13 +3,19 @@ import { rumEventBatchSchema } from "@insightview/rum-sdk/schema";
 import {
   upsertSession,
   insertRumEvents,
+  recordRumIssues,
   type RumEventInput,
 } from "@insightview/db";
-import { defaultTenant, RumEventType } from "@insightview/core";
+import { RumEventType } from "@insightview/core";
+import type { StackResolver } from "@insightview/rum-errors";
 import { resolveGeo } from "../geo.js";
+import { groupErrors } from "../issues.js";
+import type { SiteResolver } from "../sites.js";
 
 export async function registerEventRoutes(
   app: FastifyInstance,
+  sites: SiteResolver,
+  stacks: StackResolver,
 ): Promise<void> {
   app.post("/v1/events", async (req, reply) => {
     const parseResult = rumEventBatchSchema.safeParse(req.body);
@@ -22,7 +28,18 @@ export async function registerEventRoutes(
     }
     const batch = parseResult.data;
 
-    const ctx = defaultTenant("rum");
+    const access = await sites.resolve({
+      ingestKey: batch.ingestKey,
+      siteId: batch.siteId,
+      origin: req.headers.origin,
+      kind: "events",
+      units: batch.events.length,
+    });
+    if (!access.ok) {
+      reply.status(access.status);
+      return { error: access.error };
+    }
+    const ctx = access.ctx;
     const userAgent = req.headers["user-agent"] ?? "unknown";
     const geo = resolveGeo(req.headers, req.ip);
 
@@ -47,6 +64,7 @@ export async function registerEventRoutes(
       occurredAt: new Date(ev.occurredAt),
       attributes: {
         ...(ev.attributes ?? {}),
+        ...(batch.release ? { release: batch.release } : {}),
         geo: {
           country: geo.country,
           region: geo.region,
@@ -55,6 +73,16 @@ export async function registerEventRoutes(
       },
     }));
 
+    // Issues first: the session count needs the issue's earlier events
+    // without this batch's.
+    const occurrences = await groupErrors(ctx, batch.release ?? null, rows, stacks);
+    const issueIds = await recordRumIssues(ctx, batch.siteId, occurrences);
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    for (const o of occurrences) {
+      const row = byId.get(o.eventId);
+      if (row) row.issueId = issueIds.get(o.fingerprint) ?? null;
+    }
+
     const count = await insertRumEvents(ctx, rows);
     reply.status(202);
     return { accepted: count };
@@ -1,7 +1,7 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { insertReplayChunks, upsertSession } from "@insightview/db";
-import { defaultTenant } from "@insightview/core";
+import type { SiteResolver } from "../sites.js";
 
 /**
  * Session replay ingest endpoint. Accepts base64/JSON rrweb event
@@ -12,6 +12,7 @@ import { defaultTenant } from "@insightview/core";
 
 const ChunkBody = z.object({
   siteId: z.string().min(1),
+  ingestKey: z.string().min(1).optional(),
   sessionId: z.string().min(1),
   sequence: z.number().int().nonnegative(),
   payload: z.string().min(1),
@@ -19,10 +20,22 @@ const ChunkBody = z.object({
 
 export async function registerReplayRoutes(
   app: FastifyInstance,
+  sites: SiteResolver,
 ): Promise<void> {
   app.post("/v1/replay", async (req, reply) => {
     const body = ChunkBody.parse(req.body);
-    const ctx = defaultTenant("rum-replay");
+    const access = await sites.resolve({
+      ingestKey: body.ingestKey,
+      siteId: body.siteId,
+      origin: req.headers.origin,
+      kind: "replay",
+      units: 1,
+    });
+    if (!access.ok) {
+      reply.status(access.status);
+      return { error: access.error };
+    }
+    const ctx = access.ctx;
 
     // Make sure we have a session row for this chunk (may arrive
     // before the first event batch if replay starts immediately).
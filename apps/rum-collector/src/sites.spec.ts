@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import type { RumSite } from "@insightview/db";
+import { createSiteResolver, originAllowed, type IngestRequest } from "./sites.js";
+
+function site(overrides: Partial<RumSite> = {}): RumSite {
+  const epoch = new Date(0);
+  return {
+    id: "site-1",
+    tenantId: "acme",
+    siteId: "shop",
+    name: null,
+    ingestKey: "rk_shop",
+    allowedOrigins: ["https://shop.example.com"],
+    eventsPerMinute: 10,
+    replayChunksPerMinute: 2,
+    enabled: true,
+    createdAt: epoch,
+    updatedAt: epoch,
+    ...overrides,
+  };
+}
+
+function request(overrides: Partial<IngestRequest> = {}): IngestRequest {
+  return {
+    ingestKey: "rk_shop",
+    siteId: "shop",
+    origin: "https://shop.example.com",
+    kind: "events",
+    units: 1,
+    ...overrides,
+  };
+}
+
+function resolverFor(sites: RumSite[], opts: { allowAnonymous?: boolean } = {}) {
+  let clock = 1_000_000;
+  const lookups: string[] = [];
+  const resolver = createSiteResolver({
+    lookup: async (key) => {
+      lookups.push(key);
+      return sites.find((s) => s.ingestKey === key) ?? null;
+    },
+    cacheTtlMs: 60_000,
+    allowAnonymous: opts.allowAnonymous,
+    now: () => clock,
+  });
+  return { resolver, lookups, advance: (ms: number) => (clock += ms) };
+}
+
+describe("originAllowed", () => {
+  it("matches exactly or through a subdomain wildcard", () => {
+    const allowed = ["https://example.com", "https://*.example.com"];
+    expect(originAllowed("https://example.com", allowed)).toBe(true);
+    expect(originAllowed("https://a.b.example.com", allowed)).toBe(true);
+    expect(originAllowed("http://shop.example.com", allowed)).toBe(false);
+    expect(originAllowed("https://evil-example.com", allowed)).toBe(false);
+    expect(originAllowed(undefined, allowed)).toBe(false);
+  });
+
+  it("allows anything, including no origin, when the list is empty", () => {
+    expect(originAllowed(undefined, [])).toBe(true);
+    expect(originAllowed("https://anywhere.test", [])).toBe(true);
+  });
+});
+
+describe("createSiteResolver", () => {
+  it("maps a valid key to its site's tenant", async () => {
+    const { resolver } = resolverFor([site()]);
+    const access = await resolver.resolve(request());
+    expect(access).toMatchObject({ ok: true, ctx: { tenantId: "acme", actor: "rum" } });
+  });
+
+  it("rejects missing, unknown, disabled and mismatched keys", async () => {
+    const { resolver } = resolverFor([site(), site({ id: "s2", ingestKey: "rk_off", enabled: false })]);
+    expect(await resolver.resolve(request({ ingestKey: undefined }))).toEqual({
+      ok: false,
+      status: 401,
+      error: "missing_ingest_key",
+    });
+    expect(await resolver.resolve(request({ ingestKey: "rk_nope" }))).toMatchObject({
+      status: 401,
+      error: "unknown_ingest_key",
+    });
+    expect(await resolver.resolve(request({ ingestKey: "rk_off" }))).toMatchObject({
+      status: 401,
+      error: "unknown_ingest_key",
+    });
+    expect(await resolver.resolve(request({ siteId: "blog" }))).toMatchObject({
+      status: 403,
+      error: "site_mismatch",
+    });
+    expect(await resolver.resolve(request({ origin: "https://evil.test" }))).toMatchObject({
+      status: 403,
+      error: "origin_not_allowed",
+    });
+  });
+
+  it("accepts key-less beacons into the default tenant only when anonymous is allowed", async () => {
+    const { resolver } = resolverFor([], { allowAnonymous: true });
+    const access = await resolver.resolve(request({ ingestKey: undefined }));
+    expect(access).toMatchObject({ ok: true, ctx: { tenantId: "default" } });
+  });
+
+  it("enforces per-site quotas in one-minute windows, per kind", async () => {
+    const { resolver, advance } = resolverFor([site()]);
+    expect((await resolver.resolve(request({ units: 8 }))).ok).toBe(true);
+    expect(await resolver.resolve(request({ units: 3 }))).toMatchObject({
+      status: 429,
+      error: "quota_exceeded",
+    });
+    expect((await resolver.resolve(request({ kind: "replay" }))).ok).toBe(true);
+    expect((await resolver.resolve(request({ kind: "replay" }))).ok).toBe(true);
+    expect((await resolver.resolve(request({ kind: "replay" }))).ok).toBe(false);
+    advance(60_000);
+    expect((await resolver.resolve(request({ units: 3 }))).ok).toBe(true);
+  });
+
+  it("caches lookups, misses included, until the TTL passes", async () => {
+    const { resolver, lookups, advance } = resolverFor([site()]);
+    await resolver.resolve(request());
+    await resolver.resolve(request());
+    await resolver.resolve(request({ ingestKey: "rk_nope" }));
+    await resolver.resolve(request({ ingestKey: "rk_nope" }));
+    expect(lookups).toEqual(["rk_shop", "rk_nope"]);
+    advance(60_001);
+    await resolver.lookup("rk_shop");
+    expect(lookups).toEqual(["rk_shop", "rk_nope", "rk_shop"]);
+  });
+});
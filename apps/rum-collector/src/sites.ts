@@ -0,0 +1,137 @@
+import type { TenantContext } from "@insightview/core";
+import { defaultTenant } from "@insightview/core";
+import type { RumSite } from "@insightview/db";
+
+/**
+ * Ingest key resolution for the collector. Every beacon carries the
+ * site's public `ingestKey`; it must exist and be enabled, match the
+ * batch's siteId, and come from an allowed Origin. The key decides the
+ * tenant the data lands in. Per-site quotas are counted here in
+ * fixed one-minute windows, per collector instance.
+ *
+ * Lookups are cached (misses included) so a flood of bogus keys costs
+ * one query per key per TTL rather than one per request.
+ */
+
+export type IngestKind = "events" | "replay";
+
+export type SiteAccess =
+  | { ok: true; ctx: TenantContext; site: RumSite }
+  | { ok: false; status: 401 | 403 | 429; error: string };
+
+export interface IngestRequest {
+  ingestKey: string | undefined;
+  siteId: string;
+  origin: string | undefined;
+  kind: IngestKind;
+  /** Quota units: events in the batch, or 1 per replay chunk. */
+  units: number;
+}
+
+export interface SiteResolverOptions {
+  lookup: (ingestKey: string) => Promise<RumSite | null>;
+  cacheTtlMs?: number;
+  /** Accept key-less beacons into the default tenant (local dev only). */
+  allowAnonymous?: boolean;
+  now?: () => number;
+}
+
+export interface SiteResolver {
+  resolve(req: IngestRequest): Promise<SiteAccess>;
+  /** Cached key lookup; null for unknown and disabled keys. */
+  lookup(ingestKey: string): Promise<RumSite | null>;
+}
+
+const MAX_CACHED_KEYS = 10_000;
+
+export function createSiteResolver(opts: SiteResolverOptions): SiteResolver {
+  const ttl = opts.cacheTtlMs ?? 60_000;
+  const now = opts.now ?? Date.now;
+  const cache = new Map<string, { site: RumSite | null; expiresAt: number }>();
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  async function lookup(key: string): Promise<RumSite | null> {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > now()) return hit.site;
+    const site = await opts.lookup(key);
+    // Bounded so random keys can't grow it forever; oldest goes first.
+    if (cache.size >= MAX_CACHED_KEYS) cache.delete(cache.keys().next().value as string);
+    cache.set(key, { site, expiresAt: now() + ttl });
+    return site;
+  }
+
+  function withinQuota(site: RumSite, kind: IngestKind, units: number): boolean {
+    const limit = kind === "events" ? site.eventsPerMinute : site.replayChunksPerMinute;
+    const key = `${site.id}:${kind}`;
+    const t = now();
+    let w = windows.get(key);
+    if (!w || w.resetAt <= t) {
+      w = { count: 0, resetAt: t + 60_000 };
+      windows.set(key, w);
+    }
+    if (w.count + units > limit) return false;
+    w.count += units;
+    return true;
+  }
+
+  return {
+    async lookup(key) {
+      const site = await lookup(key);
+      return site?.enabled ? site : null;
+    },
+    async resolve(req) {
+      if (!req.ingestKey) {
+        if (opts.allowAnonymous) {
+          return { ok: true, ctx: defaultTenant("rum"), site: anonymousSite(req.siteId) };
+        }
+        return { ok: false, status: 401, error: "missing_ingest_key" };
+      }
+      const site = await lookup(req.ingestKey);
+      if (!site || !site.enabled) return { ok: false, status: 401, error: "unknown_ingest_key" };
+      if (site.siteId !== req.siteId) return { ok: false, status: 403, error: "site_mismatch" };
+      if (!originAllowed(req.origin, site.allowedOrigins)) {
+        return { ok: false, status: 403, error: "origin_not_allowed" };
+      }
+      if (!withinQuota(site, req.kind, req.units)) {
+        return { ok: false, status: 429, error: "quota_exceeded" };
+      }
+      return { ok: true, ctx: { tenantId: site.tenantId, actor: "rum" }, site };
+    },
+  };
+}
+
+/**
+ * Exact origin match, or a `*.` wildcard for one or more subdomain
+ * labels (`https://*.example.com`). An empty list allows any origin,
+ * including none (native apps send no Origin); a non-empty list
+ * requires one.
+ */
+export function originAllowed(origin: string | undefined, allowed: string[]): boolean {
+  if (allowed.length === 0) return true;
+  if (!origin) return false;
+  return allowed.some((pattern) => {
+    if (pattern === origin) return true;
+    const star = pattern.indexOf("://*.");
+    if (star === -1) return false;
+    const scheme = pattern.slice(0, star + 3);
+    const suffix = pattern.slice(star + 4);
+    return origin.startsWith(scheme) && origin.endsWith(suffix) && origin.length > scheme.length + suffix.length;
+  });
+}
+
+function anonymousSite(siteId: string): RumSite {
+  const epoch = new Date(0);
+  return {
+    id: `anonymous:${siteId}`,
+    tenantId: defaultTenant().tenantId,
+    siteId,
+    name: null,
+    ingestKey: "",
+    allowedOrigins: [],
+    eventsPerMinute: Number.MAX_SAFE_INTEGER,
+    replayChunksPerMinute: Number.MAX_SAFE_INTEGER,
+    enabled: true,
+    createdAt: epoch,
+    updatedAt: epoch,
+  };
+}
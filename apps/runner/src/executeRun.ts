@@ -1,18 +1,30 @@
 import type { Logger } from "@insightview/observability";
 import {
   defaultTenant,
+  type CheckCompletedPayload,
   type CheckRunStatus,
+  type CheckType,
 } from "@insightview/core";
 import { insertResults, type ResultInput } from "@insightview/db";
-import { runCheck, type MonitorSpec } from "@insightview/synthetic-kit";
+import {
+  runMonitor,
+  type ApiRequestSpec,
+  type MonitorSpec,
+  type MonitorStep,
+  type TcpProbeSpec,
+} from "@insightview/synthetic-kit";
 
 /**
  * Platform-mode runner adapter. After ADR 0008 this module is a thin
  * wrapper around @insightview/synthetic-kit's runCheck — the same
  * library the Actions-native mode uses. The runner's only job is to:
  *
- *   1. Build a MonitorSpec from the BullMQ CheckScheduledPayload.
- *   2. Invoke synthetic-kit's runCheck with platform exporters wired in.
+ *   1. Build a MonitorSpec from the BullMQ CheckScheduledPayload,
+ *      including the check's stored browser journey (runSpec).
+ *   2. Invoke synthetic-kit's runMonitor with platform exporters wired
+ *      in. runMonitor picks the executor from the check type: BROWSER
+ *      goes through Chromium, API is a plain HTTP exchange, TCP is a
+ *      connect / handshake / banner probe.
  *   3. Translate the returned ResultEnvelope into CheckResult rows in
  *      Postgres and propagate the terminal status to the caller.
  *
@@ -29,12 +41,18 @@ export interface ExecuteRunParams {
   runId: string;
   checkId: string;
   checkName: string;
+  type: CheckType;
   targetUrl: string;
   scriptRef: string;
+  request?: Record<string, unknown> | null;
+  /** Browser journey from the YAML spec; see CheckScheduledPayload. */
+  runSpec?: Record<string, unknown> | null;
   timeoutMs: number;
   assertions: Array<{ type: string; value: string }>;
   tenantId: string;
   runnerId: string;
+  /** RUNNER_LOCATION; becomes the envelope's `location` label. */
+  location: string;
   log: Logger;
 }
 
@@ -46,30 +64,39 @@ export interface ExecuteRunOutcome {
     passedAssertions: number;
     failedAssertions: number;
     webVitals: Record<string, number>;
+    timings: Record<string, number>;
+    a11y?: Record<string, number>;
+    cert?: CheckCompletedPayload["summary"]["cert"];
   };
   errorMessage?: string;
 }
 
-export async function executeBrowserRun(
+export async function executeRun(
   params: ExecuteRunParams,
 ): Promise<ExecuteRunOutcome> {
   const ctx = defaultTenant(`runner:${params.runnerId}`);
 
+  const request = params.request ?? undefined;
+  const journey = (params.runSpec ?? {}) as Pick<
+    MonitorSpec,
+    "steps" | "auth" | "network" | "a11y"
+  > & { cookies?: MonitorSpec["preCookies"] };
   const spec: MonitorSpec = {
     name: params.checkName,
+    type: params.type === "API" ? "api" : params.type === "TCP" ? "tcp" : "browser",
     targetUrl: params.targetUrl,
+    // Module refs run relative to INSIGHTVIEW_SCRIPTS_DIR; bare legacy
+    // names (basic-homepage) fall back to default navigation.
+    scriptRef: params.scriptRef,
     timeoutMs: params.timeoutMs,
     assertions: params.assertions,
-    steps: [
-      {
-        name: "navigate",
-        url: params.targetUrl,
-        waitFor: {
-          networkIdle: false,
-          timeoutMs: Math.max(5_000, params.timeoutMs - 10_000),
-        },
-      },
-    ],
+    request: params.type === "API" ? (request as ApiRequestSpec | undefined) : undefined,
+    tcp: params.type === "TCP" ? (request as TcpProbeSpec | undefined) : undefined,
+    steps: journey.steps ?? [defaultStep(params)],
+    auth: journey.auth,
+    network: journey.network,
+    preCookies: journey.cookies,
+    a11y: journey.a11y,
     // Platform runner always emits the Pushgateway mirror + stdout.
     // S3 is opt-in via env vars; the healthchecks/platform exporters
     // are off here because they're the concern of the PLATFORM-side
@@ -83,9 +110,9 @@ export async function executeBrowserRun(
     ],
   };
 
-  const envelope = await runCheck(spec, {
+  const envelope = await runMonitor(spec, {
     tenantId: params.tenantId,
-    location: `platform-runner:${params.runnerId}`,
+    location: params.location,
     artifactsDir: `/tmp/insightview/runs/${params.runId}`,
   });
 
@@ -101,6 +128,8 @@ export async function executeBrowserRun(
     navigationStats: step.navigationTiming as unknown as Record<string, unknown>,
     assertionsPassed: step.assertions.filter((a) => a.passed).length,
     assertionsFailed: step.assertions.filter((a) => !a.passed).length,
+    a11y: step.a11y as unknown as Record<string, unknown> | undefined,
+    tls: step.tls as unknown as Record<string, unknown> | undefined,
     traceS3Key: null,
     screenshotS3Key: null,
   }));
@@ -135,7 +164,28 @@ export async function executeBrowserRun(
       passedAssertions: envelope.summary.passedAssertions,
       failedAssertions: envelope.summary.failedAssertions,
       webVitals: envelope.summary.webVitals as Record<string, number>,
+      timings: envelope.summary.timings,
+      a11y: envelope.summary.a11y,
+      cert: envelope.summary.cert,
     },
     errorMessage: envelope.errorMessage,
   };
 }
+
+function defaultStep(params: ExecuteRunParams): MonitorStep {
+  switch (params.type) {
+    case "API":
+      return { name: "request", url: params.targetUrl };
+    case "TCP":
+      return { name: "connect", url: params.targetUrl };
+    default:
+      return {
+        name: "navigate",
+        url: params.targetUrl,
+        waitFor: {
+          networkIdle: false,
+          timeoutMs: Math.max(5_000, params.timeoutMs - 10_000),
+        },
+      };
+  }
+}
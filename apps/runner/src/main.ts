@@ -2,8 +2,10 @@ import Fastify from "fastify";
 import { createLogger, createRegistry } from "@insightview/observability";
 import { createEventBus } from "@insightview/event-bus";
 import {
+  DEFAULT_LOCATION,
   Topics,
   envelope,
+  scheduledTopicFor,
   MessageTypes,
   defaultTenant,
   type CheckScheduledPayload,
@@ -11,29 +13,36 @@ import {
   type CheckCompletedPayload,
 } from "@insightview/core";
 import { markRunStarted, markRunCompleted, findRunById, createRun, getCheckByName, getCheckById } from "@insightview/db";
-import { executeBrowserRun } from "./executeRun.js";
+import { executeRun } from "./executeRun.js";
 
 const log = createLogger({ service: "runner" });
 const runnerId = process.env.RUNNER_ID ?? `runner-${Math.random().toString(36).slice(2, 8)}`;
+// Vantage point this runner executes from. Runners only consume the
+// scheduled-run topic for their own location.
+const runnerLocation = process.env.RUNNER_LOCATION ?? DEFAULT_LOCATION;
 const port = Number(process.env.PORT ?? 4200);
 const host = process.env.HOST ?? "0.0.0.0";
 
 async function main() {
   const app = Fastify({ logger: false });
   let healthy = true;
-  app.get("/healthz", async () => ({ ok: healthy, runner: runnerId }));
+  app.get("/healthz", async () => ({
+    ok: healthy,
+    runner: runnerId,
+    location: runnerLocation,
+  }));
   const registry = createRegistry("runner");
   app.get("/metrics", async (_req, reply) => {
     reply.header("Content-Type", registry.contentType);
     return registry.metrics();
   });
   await app.listen({ port, host });
-  log.info({ port, runnerId }, "runner health endpoint up");
+  log.info({ port, runnerId, location: runnerLocation }, "runner health endpoint up");
 
   const bus = createEventBus();
 
   const sub = await bus.subscribe<CheckScheduledPayload>(
-    Topics.ChecksScheduled,
+    scheduledTopicFor(runnerLocation),
     async (env) => {
       const msg = env.payload;
       const ctx = defaultTenant(`runner:${runnerId}`);
@@ -54,6 +63,7 @@ async function main() {
           checkId: check.id,
           scheduledAt: new Date(),
           triggeredBy: "SCHEDULE",
+          location: runnerLocation,
         });
       }
 
@@ -77,17 +87,21 @@ async function main() {
       );
 
       try {
-        const outcome = await executeBrowserRun({
+        const outcome = await executeRun({
           runId: effectiveRunId,
           checkId: msg.checkId,
           checkName: msg.checkName,
+          type: msg.type ?? "BROWSER",
           targetUrl: msg.targetUrl,
           scriptRef: msg.scriptRef ?? "basic-homepage",
+          request: msg.request,
+          runSpec: msg.runSpec,
           timeoutMs: msg.timeoutMs,
           assertions: msg.assertions ?? [],
           tenantId: env.tenantId,
           log,
           runnerId,
+          location: runnerLocation,
         });
 
         await markRunCompleted(
@@ -104,6 +118,7 @@ async function main() {
           completedAt: new Date().toISOString(),
           durationMs: outcome.durationMs,
           resultIds: outcome.resultIds,
+          location: runnerLocation,
           summary: outcome.summary,
           errorMessage: outcome.errorMessage,
         };
@@ -132,6 +147,7 @@ async function main() {
               completedAt: new Date().toISOString(),
               durationMs: 0,
               resultIds: [],
+              location: runnerLocation,
               summary: { passedAssertions: 0, failedAssertions: 0, webVitals: {} },
               errorMessage: (err as Error).message,
             },
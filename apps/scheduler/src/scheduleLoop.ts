@@ -1,11 +1,18 @@
 import type { Logger } from "@insightview/observability";
 import type { EventBus, RepeatingJobScheduler } from "@insightview/event-bus";
 import {
+  DEFAULT_LOCATION,
+  MaintenanceMode,
   Topics,
   defaultTenant,
+  scheduledTopicFor,
   type CheckScheduledPayload,
 } from "@insightview/core";
-import { listEnabledChecks } from "@insightview/db";
+import {
+  activeMaintenanceWindows,
+  listEnabledChecks,
+  windowCoversCheck,
+} from "@insightview/db";
 
 export interface ScheduleLoopOpts {
   bus: EventBus;
@@ -22,54 +29,106 @@ export interface ScheduleLoopOpts {
  * just keeps the scheduler's registry in sync with the source of truth.
  *
  * When a cron fires, BullMQ emits a CheckScheduled message to the
- * `checks.scheduled` topic which the runner consumes. We do NOT create a
- * CheckRun row in this loop — that happens in the runner's claim step,
- * using the envelope's payload.runId (generated by the cron wrapper below).
+ * `checks.scheduled.<location>` topic which the runners for that location
+ * consume. A check with N `locations` gets N schedules, so every fire
+ * fans out one run per location. We do NOT create a CheckRun row in this
+ * loop — that happens in the runner's claim step, using the envelope's
+ * payload.runId (generated by the cron wrapper below).
+ *
+ * Checks inside a `pause-runs` maintenance window are treated like
+ * disabled ones: their schedules are removed for the duration and
+ * re-added on the first tick after the window closes.
+ *
+ * Before per-location topics, each check had one repeatable keyed
+ * `check:<tenant>:<id>` on the bare `checks.scheduled` topic. BullMQ
+ * keeps those in Redis across deploys, so the first tick as leader
+ * removes whatever is still registered there.
  */
 export function startScheduleLoop(opts: ScheduleLoopOpts): () => void {
   const interval = opts.intervalMs ?? 15_000;
   let stopped = false;
   const knownSchedules = new Set<string>();
+  const paused = new Set<string>();
+  let legacyCleared = false;
 
   const tick = async () => {
     if (stopped) return;
     if (!opts.isLeader()) return;
 
+    if (!legacyCleared) {
+      try {
+        const removed = await opts.scheduler.removeSchedulesForTopic(Topics.ChecksScheduled);
+        legacyCleared = true;
+        if (removed > 0) {
+          opts.log.info({ removed, topic: Topics.ChecksScheduled }, "removed legacy schedules");
+        }
+      } catch (err) {
+        opts.log.warn({ err }, "failed to remove legacy schedules");
+      }
+    }
+
     try {
       const ctx = defaultTenant("scheduler");
       const checks = await listEnabledChecks(ctx);
+      const pauseWindows = await activeMaintenanceWindows(ctx, MaintenanceMode.PAUSE_RUNS);
       const seen = new Set<string>();
       for (const check of checks) {
-        const key = `check:${check.tenantId}:${check.id}`;
-        seen.add(key);
-        const payloadTemplate: CheckScheduledPayload = {
-          runId: "__TEMPLATE__", // The cron wrapper replaces this at fire time
-          checkId: check.id,
-          checkName: check.name,
-          scheduledAt: new Date(0).toISOString(),
-          targetUrl: check.targetUrl,
-          scriptRef: check.scriptRef,
-          timeoutMs: check.timeoutMs,
-          retries: check.retries,
-          triggeredBy: "SCHEDULE",
-          assertions:
-            (check.assertions as Array<{ type: string; value: string }>) ?? [],
-        };
-        try {
-          await opts.scheduler.upsertSchedule({
-            key,
-            topic: Topics.ChecksScheduled,
-            cron: check.schedule,
-            payload: payloadTemplate,
-            tenantId: check.tenantId,
-          });
-          knownSchedules.add(key);
-        } catch (err) {
-          opts.log.warn({ err, check: check.name }, "failed to upsert schedule");
+        const window = pauseWindows.find((w) => windowCoversCheck(w, check));
+        if (window) {
+          if (!paused.has(check.id)) {
+            paused.add(check.id);
+            opts.log.info(
+              { check: check.name, window: window.name },
+              "check paused for maintenance",
+            );
+          }
+          continue;
+        }
+        if (paused.delete(check.id)) {
+          opts.log.info({ check: check.name }, "maintenance over; check resumed");
+        }
+        const locations =
+          check.locations.length > 0 ? check.locations : [DEFAULT_LOCATION];
+        for (const location of locations) {
+          const key = `check:${check.tenantId}:${check.id}:${location}`;
+          seen.add(key);
+          const payloadTemplate: CheckScheduledPayload = {
+            runId: "__TEMPLATE__", // The cron wrapper replaces this at fire time
+            checkId: check.id,
+            checkName: check.name,
+            scheduledAt: new Date(0).toISOString(),
+            type: check.type,
+            targetUrl: check.targetUrl,
+            scriptRef: check.scriptRef,
+            request: check.request as Record<string, unknown> | null,
+            runSpec: check.runSpec as Record<string, unknown> | null,
+            timeoutMs: check.timeoutMs,
+            retries: check.retries,
+            triggeredBy: "SCHEDULE",
+            assertions:
+              (check.assertions as Array<{ type: string; value: string }>) ?? [],
+            location,
+          };
+          try {
+            await opts.scheduler.upsertSchedule({
+              key,
+              topic: scheduledTopicFor(location),
+              cron: check.schedule,
+              payload: payloadTemplate,
+              tenantId: check.tenantId,
+            });
+            knownSchedules.add(key);
+          } catch (err) {
+            opts.log.warn(
+              { err, check: check.name, location },
+              "failed to upsert schedule",
+            );
+          }
         }
       }
 
-      // Remove schedules whose checks are no longer enabled.
+      // Remove schedules whose checks are no longer enabled or whose
+      // location was dropped from the check.
       for (const key of knownSchedules) {
         if (!seen.has(key)) {
           try {
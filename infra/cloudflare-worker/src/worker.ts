@@ -6,10 +6,14 @@
  *      with sub-millisecond cold start — far closer to the user
  *      than the origin collector.
  *   2. Rate limits per-client to cap abuse.
- *   3. Enriches beacons with geo info from Cloudflare's request
+ *   3. Rejects beacons whose ingest key is unknown, belongs to another
+ *      site or comes from an Origin the site doesn't allow, so junk
+ *      never leaves the edge. The collector checks again (and applies
+ *      the per-site quotas); this is only the cheap first line.
+ *   4. Enriches beacons with geo info from Cloudflare's request
  *      context (`cf.country`, `cf.colo`, `cf.continent`) so the
  *      origin collector gets free geo without MaxMind.
- *   4. Forwards the enriched batch to the upstream collector.
+ *   5. Forwards the enriched batch to the upstream collector.
  *
  * Two routes:
  *   POST /v1/events  — standard RUM batch forwarding
@@ -26,6 +30,8 @@ export interface Env {
   UPSTREAM_URL: string;
   UPSTREAM_REPLAY_URL: string;
   RATE_LIMIT_PER_MINUTE: string;
+  /** Collector key lookup, `GET {UPSTREAM_SITES_URL}/{ingestKey}`. */
+  UPSTREAM_SITES_URL: string;
 }
 
 export default {
@@ -77,6 +83,14 @@ export default {
     } catch {
       return new Response("invalid json", { status: 400, headers: corsHeaders });
     }
+    const origin = request.headers.get("origin");
+    const denied = await checkIngestKey(body as Record<string, unknown>, origin, env);
+    if (denied) {
+      return new Response(JSON.stringify({ error: denied.error }), {
+        status: denied.status,
+        headers: { ...corsHeaders, "content-type": "application/json" },
+      });
+    }
     const cfContext = (request as unknown as {
       cf?: { country?: string; colo?: string; continent?: string };
     }).cf;
@@ -98,6 +112,9 @@ export default {
         "content-type": "application/json",
         "x-forwarded-for": request.headers.get("cf-connecting-ip") ?? "",
         "x-rum-edge-colo": cfContext?.colo ?? "",
+        // The collector repeats the Origin check against the browser's
+        // Origin, not ours.
+        ...(origin ? { origin } : {}),
       },
       body: JSON.stringify(enriched),
     }).catch(() => null);
@@ -151,3 +168,65 @@ async function checkInProcRateLimit(
   entry.count++;
   return { ok: true };
 }
+
+/**
+ * Ingest key check against the collector, cached per isolate for a
+ * minute (unknown keys included) so each PoP asks about a key once a
+ * minute at most. Returns why the beacon is refused, or null. If the
+ * collector can't be reached the beacon goes through and the
+ * collector decides.
+ */
+interface SiteInfo {
+  siteId: string;
+  allowedOrigins: string[];
+}
+const SITE_CACHE_TTL_MS = 60_000;
+const siteCache = new Map<string, { site: SiteInfo | null; expiresAt: number }>();
+
+async function checkIngestKey(
+  body: Record<string, unknown>,
+  origin: string | null,
+  env: Env,
+): Promise<{ status: 401 | 403; error: string } | null> {
+  if (!env.UPSTREAM_SITES_URL) return null;
+  const key = typeof body.ingestKey === "string" ? body.ingestKey : "";
+  if (!key) return { status: 401, error: "missing_ingest_key" };
+  const site = await lookupSite(key, env);
+  if (site === undefined) return null;
+  if (site === null) return { status: 401, error: "unknown_ingest_key" };
+  if (site.siteId !== body.siteId) return { status: 403, error: "site_mismatch" };
+  if (!originAllowed(origin, site.allowedOrigins)) {
+    return { status: 403, error: "origin_not_allowed" };
+  }
+  return null;
+}
+
+// undefined = couldn't tell (collector unreachable); null = unknown key.
+async function lookupSite(key: string, env: Env): Promise<SiteInfo | null | undefined> {
+  const now = Date.now();
+  const hit = siteCache.get(key);
+  if (hit && hit.expiresAt > now) return hit.site;
+  const res = await fetch(`${env.UPSTREAM_SITES_URL}/${encodeURIComponent(key)}`).catch(
+    () => null,
+  );
+  if (!res || (res.status !== 200 && res.status !== 404)) return undefined;
+  const site = res.status === 200 ? ((await res.json()) as SiteInfo) : null;
+  if (siteCache.size >= 10_000) siteCache.delete(siteCache.keys().next().value as string);
+  siteCache.set(key, { site, expiresAt: now + SITE_CACHE_TTL_MS });
+  return site;
+}
+
+// Same rules as the collector's originAllowed: exact match or a
+// `scheme://*.domain` wildcard; an empty list allows anything.
+function originAllowed(origin: string | null, allowed: string[]): boolean {
+  if (allowed.length === 0) return true;
+  if (!origin) return false;
+  return allowed.some((pattern) => {
+    if (pattern === origin) return true;
+    const star = pattern.indexOf("://*.");
+    if (star === -1) return false;
+    const scheme = pattern.slice(0, star + 3);
+    const suffix = pattern.slice(star + 4);
+    return origin.startsWith(scheme) && origin.endsWith(suffix) && origin.length > scheme.length + suffix.length;
+  });
+}
@@ -22,6 +22,10 @@ const API = process.env.API_URL ?? "http://localhost:4000";
 const PUSHGATEWAY = process.env.PUSHGATEWAY_URL ?? "http://localhost:9091";
 const TEST_SITE = process.env.TEST_SITE_URL ?? "http://localhost:8080";
 const MINIO_ENDPOINT = process.env.MINIO_ENDPOINT ?? "http://localhost:9000";
+// Deploying monitors needs the write role; must match the API's API_TOKEN.
+const AUTH: Record<string, string> = process.env.API_TOKEN
+  ? { Authorization: `Bearer ${process.env.API_TOKEN}` }
+  : {};
 
 const log = (msg: string, data?: unknown) => {
   if (data !== undefined) console.log(`[e2e] ${msg}`, data);
@@ -57,7 +61,7 @@ async function waitForHealth(url: string, timeoutMs = 90_000) {
 async function apiPost<T>(path: string, body: unknown): Promise<T> {
   const res = await fetch(`${API}${path}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...AUTH },
     body: JSON.stringify(body),
   });
   if (!res.ok) {
@@ -68,7 +72,7 @@ async function apiPost<T>(path: string, body: unknown): Promise<T> {
 }
 
 async function apiGet<T>(path: string): Promise<T> {
-  const res = await fetch(`${API}${path}`);
+  const res = await fetch(`${API}${path}`, { headers: AUTH });
   if (!res.ok) {
     const text = await res.text();
     fail(`GET ${path} failed: ${res.status} ${text}`);
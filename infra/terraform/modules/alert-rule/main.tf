@@ -22,7 +22,7 @@ variable "strategy" {
   type = string
   validation {
     condition = contains(
-      ["THRESHOLD", "CONSECUTIVE_FAILURES", "COMPOSITE", "ANOMALY_DETECTION", "RUM_METRIC"],
+      ["THRESHOLD", "CONSECUTIVE_FAILURES", "COMPOSITE", "ANOMALY_DETECTION", "RUM_METRIC", "CERT_EXPIRY"],
       var.strategy,
     )
     error_message = "strategy must be one of the registered alert strategies"
@@ -44,6 +44,17 @@ variable "cooldown_seconds" {
   type    = number
   default = 300
 }
+variable "renotify_seconds" {
+  type    = number
+  default = null
+}
+variable "escalation" {
+  type = list(object({
+    afterMinutes = number
+    channels     = list(string)
+  }))
+  default = []
+}
 
 locals {
   rule_yaml = yamlencode({
@@ -58,6 +69,8 @@ locals {
       expression      = var.expression
       severity        = var.severity
       cooldownSeconds = var.cooldown_seconds
+      renotifySeconds = var.renotify_seconds
+      escalation      = var.escalation
       channels        = var.channels
     }
   })
@@ -18,10 +18,13 @@ variable "type" {
   type = string
   validation {
     condition = contains(
-      ["SLACK_WEBHOOK", "GENERIC_WEBHOOK", "STDOUT"],
+      [
+        "SLACK_WEBHOOK", "GENERIC_WEBHOOK", "STDOUT", "PAGERDUTY",
+        "OPSGENIE", "TEAMS_WEBHOOK", "DISCORD_WEBHOOK", "EMAIL",
+      ],
       var.type,
     )
-    error_message = "type must be SLACK_WEBHOOK, GENERIC_WEBHOOK, or STDOUT"
+    error_message = "type must be one of the registered notification channel types"
   }
 }
 variable "config" {
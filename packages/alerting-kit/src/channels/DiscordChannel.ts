@@ -0,0 +1,30 @@
+import type { NotificationChannelImpl } from "./index.js";
+import { headline, incidentFacts, incidentReason, severityColor } from "./format.js";
+import { misconfigured, postJson } from "./http.js";
+
+/**
+ * Discord webhook with a single embed. Config:
+ *   { webhookUrl: string; username?: string }
+ */
+export const discordChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as { webhookUrl?: string; username?: string };
+    if (!config.webhookUrl) throw misconfigured("discord channel missing webhookUrl");
+    return postJson(config.webhookUrl, {
+      username: config.username ?? "InsightView",
+      embeds: [
+        {
+          title: headline(ruleName, incident, kind).slice(0, 256),
+          description: incidentReason(incident)?.slice(0, 4096),
+          color: parseInt(severityColor(incident, kind).slice(1), 16),
+          timestamp: (incident.resolvedAt ?? incident.openedAt).toISOString(),
+          fields: incidentFacts(incident).map((f) => ({
+            name: f.title,
+            value: f.value,
+            inline: true,
+          })),
+        },
+      ],
+    });
+  },
+};
@@ -0,0 +1,78 @@
+import nodemailer from "nodemailer";
+import type { NotificationChannelImpl } from "./index.js";
+import { headline, incidentFacts, incidentReason, severityColor } from "./format.js";
+import { NotificationDeliveryError, SEND_TIMEOUT_MS, misconfigured } from "./http.js";
+
+interface EmailConfig {
+  host?: string;
+  port?: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from?: string;
+  to?: string | string[];
+}
+
+/**
+ * SMTP email. Config:
+ *   { host, port?, secure?, user?, password?, from, to }
+ * `to` is one address or a list. Sends a plain-text part and a small
+ * HTML table of the incident facts.
+ */
+export const emailChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as EmailConfig;
+    if (!config.host || !config.from || !config.to || config.to.length === 0) {
+      throw misconfigured("email channel missing host, from or to");
+    }
+    const transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port ?? (config.secure ? 465 : 587),
+      secure: config.secure ?? false,
+      auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+      connectionTimeout: SEND_TIMEOUT_MS,
+      greetingTimeout: SEND_TIMEOUT_MS,
+      socketTimeout: SEND_TIMEOUT_MS,
+    });
+    const subject = `[InsightView] ${headline(ruleName, incident, kind)}`;
+    const reason = incidentReason(incident);
+    const facts = incidentFacts(incident);
+    try {
+      const info = await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject,
+        text: [subject, reason ?? "", "", ...facts.map((f) => `${f.title}: ${f.value}`)].join("\n"),
+        html:
+          `<h2 style="color:${severityColor(incident, kind)}">${escapeHtml(subject)}</h2>` +
+          (reason ? `<p>${escapeHtml(reason)}</p>` : "") +
+          `<table>${facts
+            .map((f) => `<tr><th align="left">${f.title}</th><td>${escapeHtml(f.value)}</td></tr>`)
+            .join("")}</table>`,
+      });
+      // Report the relay's reply code (250) as the receipt status.
+      const code = parseInt(String(info.response ?? ""), 10);
+      return { statusCode: Number.isNaN(code) ? undefined : code };
+    } catch (err) {
+      const code = (err as { responseCode?: number }).responseCode;
+      // 5xx SMTP replies are permanent (bad recipient, auth); 4xx and
+      // connection errors are worth another attempt.
+      throw new NotificationDeliveryError(
+        (err as Error).message,
+        code,
+        code === undefined || code < 500,
+      );
+    } finally {
+      transport.close();
+    }
+  },
+};
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
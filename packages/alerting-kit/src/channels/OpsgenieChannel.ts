@@ -0,0 +1,54 @@
+import type { NotificationChannelImpl } from "./index.js";
+import { headline, incidentReason } from "./format.js";
+import { misconfigured, postJson } from "./http.js";
+
+const API_URL = "https://api.opsgenie.com";
+
+const PRIORITY = { CRITICAL: "P1", WARNING: "P3", INFO: "P5" } as const;
+
+/**
+ * Opsgenie Alert API. The incident's dedupeKey is the alert alias:
+ * Opsgenie folds repeat creates for an open alias into one alert (a
+ * renotify bumps its count), and a recovery closes it. Config:
+ *   { apiKey: string; url?: string; responders?: object[]; tags?: string[] }
+ * `url` selects the region, e.g. https://api.eu.opsgenie.com.
+ */
+export const opsgenieChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as {
+      apiKey?: string;
+      url?: string;
+      responders?: unknown[];
+      tags?: string[];
+    };
+    if (!config.apiKey) throw misconfigured("opsgenie channel missing apiKey");
+    const base = (config.url ?? API_URL).replace(/\/$/, "");
+    const headers = { Authorization: `GenieKey ${config.apiKey}` };
+    if (kind === "resolved") {
+      return postJson(
+        `${base}/v2/alerts/${encodeURIComponent(incident.dedupeKey)}/close?identifierType=alias`,
+        { source: "insightview", note: `Resolved: ${ruleName}` },
+        headers,
+      );
+    }
+    return postJson(
+      `${base}/v2/alerts`,
+      {
+        message: headline(ruleName, incident, kind).slice(0, 130),
+        alias: incident.dedupeKey,
+        description: incidentReason(incident),
+        priority: PRIORITY[incident.severity],
+        source: "insightview",
+        entity: incident.checkId ?? undefined,
+        responders: config.responders,
+        tags: config.tags,
+        details: {
+          incidentId: incident.id,
+          rule: ruleName,
+          notification: kind ?? "initial",
+        },
+      },
+      headers,
+    );
+  },
+};
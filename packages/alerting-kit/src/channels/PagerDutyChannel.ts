@@ -0,0 +1,47 @@
+import type { NotificationChannelImpl } from "./index.js";
+import { headline, incidentReason } from "./format.js";
+import { misconfigured, postJson } from "./http.js";
+
+const EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+
+const SEVERITY = { CRITICAL: "critical", WARNING: "warning", INFO: "info" } as const;
+
+/**
+ * PagerDuty Events API v2. The incident's dedupeKey is the PagerDuty
+ * dedup_key, so re-notifications and escalations update the same
+ * PagerDuty incident and a recovery resolves it. Config:
+ *   { routingKey: string; url?: string }   (url overrides the endpoint)
+ */
+export const pagerDutyChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as { routingKey?: string; url?: string };
+    if (!config.routingKey) throw misconfigured("pagerduty channel missing routingKey");
+    const body =
+      kind === "resolved"
+        ? {
+            routing_key: config.routingKey,
+            event_action: "resolve",
+            dedup_key: incident.dedupeKey,
+          }
+        : {
+            routing_key: config.routingKey,
+            event_action: "trigger",
+            dedup_key: incident.dedupeKey,
+            payload: {
+              summary: `${headline(ruleName, incident, kind)}${
+                incidentReason(incident) ? ` — ${incidentReason(incident)}` : ""
+              }`.slice(0, 1024),
+              source: incident.checkId ?? "insightview",
+              severity: SEVERITY[incident.severity],
+              timestamp: incident.openedAt.toISOString(),
+              component: ruleName,
+              custom_details: {
+                incidentId: incident.id,
+                notification: kind ?? "initial",
+                ...(incident.payload as Record<string, unknown>),
+              },
+            },
+          };
+    return postJson(config.url ?? EVENTS_URL, body);
+  },
+};
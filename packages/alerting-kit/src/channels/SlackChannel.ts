@@ -0,0 +1,41 @@
+import type { NotificationChannelImpl } from "./index.js";
+import { misconfigured, postJson } from "./http.js";
+
+export const slackChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as { webhookUrl?: string };
+    if (!config.webhookUrl) throw misconfigured("slack channel missing webhookUrl");
+    const body =
+      kind === "resolved"
+        ? {
+            text: `:white_check_mark: *RESOLVED*: ${ruleName}`,
+            attachments: [
+              {
+                color: "good",
+                fields: [
+                  { title: "Incident", value: incident.id, short: true },
+                  { title: "Severity", value: incident.severity, short: true },
+                  ...(incident.resolvedRunId
+                    ? [{ title: "Recovered on run", value: incident.resolvedRunId, short: true }]
+                    : []),
+                ],
+              },
+            ],
+          }
+        : {
+            text: `:rotating_light: *${incident.severity}*: ${ruleName}${
+              kind === "renotify" ? " (still firing)" : kind === "escalation" ? " (escalated)" : ""
+            }`,
+            attachments: [
+              {
+                color: incident.severity === "CRITICAL" ? "danger" : "warning",
+                fields: [
+                  { title: "Incident", value: incident.id, short: true },
+                  { title: "Status", value: incident.status, short: true },
+                ],
+              },
+            ],
+          };
+    return postJson(config.webhookUrl, body);
+  },
+};
@@ -0,0 +1,55 @@
+import type { NotificationChannelImpl } from "./index.js";
+import { headline, incidentFacts, incidentReason } from "./format.js";
+import { misconfigured, postJson } from "./http.js";
+
+/**
+ * Microsoft Teams incoming webhook (or Workflows "post to a channel"
+ * webhook), rendered as an Adaptive Card. Config:
+ *   { webhookUrl: string; dashboardUrl?: string }
+ * `dashboardUrl` adds an "Open in InsightView" button.
+ */
+export const teamsChannel: NotificationChannelImpl = {
+  async send({ channel, incident, ruleName, kind }) {
+    const config = channel.config as { webhookUrl?: string; dashboardUrl?: string };
+    if (!config.webhookUrl) throw misconfigured("teams channel missing webhookUrl");
+    const reason = incidentReason(incident);
+    const card = {
+      $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+      type: "AdaptiveCard",
+      version: "1.4",
+      body: [
+        {
+          type: "TextBlock",
+          size: "Large",
+          weight: "Bolder",
+          wrap: true,
+          color:
+            kind === "resolved"
+              ? "Good"
+              : incident.severity === "CRITICAL"
+                ? "Attention"
+                : "Warning",
+          text: headline(ruleName, incident, kind),
+        },
+        ...(reason ? [{ type: "TextBlock", wrap: true, text: reason }] : []),
+        {
+          type: "FactSet",
+          facts: incidentFacts(incident).map((f) => ({ title: f.title, value: f.value })),
+        },
+      ],
+      actions: config.dashboardUrl
+        ? [
+            {
+              type: "Action.OpenUrl",
+              title: "Open in InsightView",
+              url: `${config.dashboardUrl.replace(/\/$/, "")}/alerts`,
+            },
+          ]
+        : [],
+    };
+    return postJson(config.webhookUrl, {
+      type: "message",
+      attachments: [{ contentType: "application/vnd.microsoft.card.adaptive", content: card }],
+    });
+  },
+};
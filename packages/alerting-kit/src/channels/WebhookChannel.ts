@@ -0,0 +1,101 @@
+import { createHmac } from "node:crypto";
+import type { NotificationChannelImpl, NotificationContext } from "./index.js";
+import { incidentReason } from "./format.js";
+import { misconfigured, post } from "./http.js";
+import { renderTemplate } from "./template.js";
+
+export const SIGNATURE_HEADER = "X-InsightView-Signature";
+export const TIMESTAMP_HEADER = "X-InsightView-Timestamp";
+
+interface WebhookConfig {
+  url?: string;
+  headers?: Record<string, string>;
+  /** Mustache-style body template; see template.ts. */
+  template?: string;
+  /** Content-Type for templated bodies. Default application/json. */
+  contentType?: string;
+  /** HMAC-SHA256 signing secret. */
+  secret?: string;
+}
+
+/**
+ * Generic webhook. Without a template the body is a fixed JSON
+ * document; with one, the template is rendered over `templateContext`.
+ *
+ * When `secret` is set every request carries
+ *   X-InsightView-Timestamp: <unix seconds>
+ *   X-InsightView-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ * Receivers should recompute the HMAC and reject stale timestamps
+ * (e.g. older than five minutes) to stop replays.
+ */
+export const webhookChannel: NotificationChannelImpl = {
+  async send(ctx) {
+    const config = ctx.channel.config as WebhookConfig;
+    if (!config.url) throw misconfigured("webhook channel missing url");
+    const body = config.template
+      ? renderTemplate(config.template, templateContext(ctx))
+      : JSON.stringify({
+          incidentId: ctx.incident.id,
+          ruleName: ctx.ruleName,
+          severity: ctx.incident.severity,
+          status: ctx.incident.status,
+          notification: ctx.kind ?? "initial",
+          resolvedAt: ctx.incident.resolvedAt?.toISOString() ?? null,
+          resolvedRunId: ctx.incident.resolvedRunId ?? null,
+          payload: ctx.incident.payload,
+        });
+    const headers: Record<string, string> = {
+      "Content-Type": config.template ? (config.contentType ?? "application/json") : "application/json",
+      ...(config.headers ?? {}),
+    };
+    if (config.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      headers[TIMESTAMP_HEADER] = timestamp;
+      headers[SIGNATURE_HEADER] = signWebhook(config.secret, timestamp, body);
+    }
+    return post(config.url, body, headers);
+  },
+};
+
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Fields a webhook template can reference. */
+export function templateContext(ctx: NotificationContext): Record<string, unknown> {
+  const { incident, rule, check } = ctx;
+  const latestRun = ((incident.payload as { latestRun?: Record<string, unknown> } | null)
+    ?.latestRun ?? {}) as Record<string, unknown>;
+  return {
+    notification: ctx.kind ?? "initial",
+    incident: {
+      id: incident.id,
+      status: incident.status,
+      severity: incident.severity,
+      openedAt: incident.openedAt,
+      resolvedAt: incident.resolvedAt,
+      resolvedRunId: incident.resolvedRunId,
+      dedupeKey: incident.dedupeKey,
+      escalationLevel: incident.escalationLevel,
+      reason: incidentReason(incident),
+      payload: incident.payload,
+    },
+    rule: {
+      id: rule?.id ?? incident.ruleId,
+      name: ctx.ruleName,
+      strategy: rule?.strategy,
+      severity: rule?.severity,
+    },
+    check: check
+      ? { id: check.id, name: check.name, type: check.type, targetUrl: check.targetUrl, tags: check.tags }
+      : { id: incident.checkId },
+    run: {
+      id: incident.runId,
+      status: latestRun.status,
+      durationMs: latestRun.durationMs,
+      location: latestRun.location,
+      errorMessage: latestRun.errorMessage,
+      completedAt: latestRun.completedAt,
+    },
+  };
+}
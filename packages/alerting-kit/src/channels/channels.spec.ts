@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer as createHttpServer, type Server as HttpServer } from "node:http";
+import { createServer as createTcpServer, type Server as TcpServer } from "node:net";
+import type { AddressInfo } from "node:net";
+import type { Logger } from "@insightview/observability";
+import type { AlertIncident, NotificationChannel } from "@insightview/db";
+import { channelFor, type NotificationKind } from "./index.js";
+import { NotificationDeliveryError } from "./http.js";
+import { signWebhook } from "./WebhookChannel.js";
+
+// Local stubs stand in for PagerDuty, Opsgenie, Teams, Discord and an
+// SMTP relay; each test asserts on what the channel put on the wire.
+
+interface Captured {
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  raw: string;
+  body: any;
+}
+
+let http: HttpServer;
+let httpBase: string;
+let requests: Captured[] = [];
+
+let smtp: TcpServer;
+let smtpPort: number;
+let mails: string[] = [];
+
+const log = { info() {}, warn() {}, error() {} } as unknown as Logger;
+
+beforeAll(async () => {
+  http = createHttpServer((req, res) => {
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => {
+      let body: unknown = null;
+      try {
+        body = JSON.parse(raw || "{}");
+      } catch {
+        // Templated bodies need not be JSON.
+      }
+      requests.push({ url: req.url ?? "", headers: req.headers, raw, body });
+      const status = req.url === "/broken" ? 503 : req.url === "/rejects" ? 400 : 202;
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+  httpBase = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+
+  // Just enough SMTP for one message per connection.
+  smtp = createTcpServer((socket) => {
+    socket.on("error", () => {});
+    let buffer = "";
+    let inData = false;
+    socket.write("220 stub ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        mails.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 queued\r\n");
+      }
+      let nl: number;
+      while (!inData && (nl = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, nl).toUpperCase();
+        buffer = buffer.slice(nl + 2);
+        if (line.startsWith("EHLO")) socket.write("250-stub\r\n250 8BITMIME\r\n");
+        else if (line.startsWith("DATA")) {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line.startsWith("QUIT")) socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => smtp.listen(0, "127.0.0.1", resolve));
+  smtpPort = (smtp.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => http.close(resolve));
+  await new Promise((resolve) => smtp.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  mails = [];
+});
+
+const incident = {
+  id: "inc_1",
+  tenantId: "default",
+  ruleId: "rule_1",
+  checkId: "check_1",
+  runId: "run_1",
+  status: "FIRING",
+  severity: "CRITICAL",
+  openedAt: new Date("2026-04-28T10:00:00Z"),
+  resolvedAt: null,
+  resolvedRunId: null,
+  dedupeKey: "abc123",
+  payload: { reason: "3 consecutive failures" },
+} as unknown as AlertIncident;
+
+const resolved = {
+  ...incident,
+  status: "RESOLVED",
+  resolvedAt: new Date("2026-04-28T10:30:00Z"),
+  resolvedRunId: "run_9",
+} as unknown as AlertIncident;
+
+async function send(
+  type: NotificationChannel["type"],
+  config: Record<string, unknown>,
+  kind: NotificationKind = "initial",
+  which: AlertIncident = incident,
+) {
+  const channel = { name: `test-${type}`, type, config } as unknown as NotificationChannel;
+  await channelFor(type).send({ channel, incident: which, ruleName: "checkout-down", kind, log });
+}
+
+describe("PagerDuty channel", () => {
+  it("triggers with the incident dedupeKey and resolves the same key", async () => {
+    await send("PAGERDUTY", { routingKey: "rk", url: `${httpBase}/pd` });
+    await send("PAGERDUTY", { routingKey: "rk", url: `${httpBase}/pd` }, "resolved", resolved);
+    expect(requests[0].body).toMatchObject({
+      routing_key: "rk",
+      event_action: "trigger",
+      dedup_key: "abc123",
+      payload: { severity: "critical", source: "check_1" },
+    });
+    expect(requests[0].body.payload.summary).toContain("3 consecutive failures");
+    expect(requests[1].body).toEqual({
+      routing_key: "rk",
+      event_action: "resolve",
+      dedup_key: "abc123",
+    });
+  });
+});
+
+describe("Opsgenie channel", () => {
+  it("creates an alert aliased by dedupeKey and closes it on recovery", async () => {
+    await send("OPSGENIE", { apiKey: "k", url: httpBase });
+    await send("OPSGENIE", { apiKey: "k", url: httpBase }, "resolved", resolved);
+    expect(requests[0].url).toBe("/v2/alerts");
+    expect(requests[0].headers.authorization).toBe("GenieKey k");
+    expect(requests[0].body).toMatchObject({ alias: "abc123", priority: "P1" });
+    expect(requests[1].url).toBe("/v2/alerts/abc123/close?identifierType=alias");
+  });
+});
+
+describe("Teams and Discord channels", () => {
+  it("posts an Adaptive Card to Teams", async () => {
+    await send("TEAMS_WEBHOOK", { webhookUrl: `${httpBase}/teams` }, "escalation");
+    const card = requests[0].body.attachments[0].content;
+    expect(card.type).toBe("AdaptiveCard");
+    expect(card.body[0].text).toBe("CRITICAL: checkout-down (escalated)");
+    expect(card.body[2].facts).toContainEqual({ title: "Incident", value: "inc_1" });
+  });
+
+  it("posts a green embed to Discord on recovery", async () => {
+    await send("DISCORD_WEBHOOK", { webhookUrl: `${httpBase}/discord` }, "resolved", resolved);
+    const embed = requests[0].body.embeds[0];
+    expect(embed.title).toBe("RESOLVED: checkout-down");
+    expect(embed.color).toBe(0x2eb67d);
+    expect(embed.fields).toContainEqual({ name: "Recovered on run", value: "run_9", inline: true });
+  });
+});
+
+describe("Email channel", () => {
+  it("delivers through SMTP", async () => {
+    await send("EMAIL", {
+      host: "127.0.0.1",
+      port: smtpPort,
+      from: "alerts@example.com",
+      to: ["oncall@example.com"],
+    });
+    expect(mails).toHaveLength(1);
+    expect(mails[0]).toContain("Subject: [InsightView] CRITICAL: checkout-down");
+    expect(mails[0]).toContain("3 consecutive failures");
+  });
+});
+
+describe("Generic webhook channel", () => {
+  it("renders a template over incident, rule, check and run fields", async () => {
+    await send("GENERIC_WEBHOOK", {
+      url: `${httpBase}/hook`,
+      template:
+        '{"text": "{{rule.name}} is {{incident.status}}: {{incident.reason}}", "run": "{{run.id}}", "payload": {{{incident.payload}}}}',
+    });
+    expect(requests[0].body).toEqual({
+      text: "checkout-down is FIRING: 3 consecutive failures",
+      run: "run_1",
+      payload: { reason: "3 consecutive failures" },
+    });
+  });
+
+  it("signs the body with HMAC-SHA256 over timestamp and body", async () => {
+    await send("GENERIC_WEBHOOK", { url: `${httpBase}/hook`, secret: "s3cr3t-s3cr3t-s3cr3t" });
+    const { headers, raw } = requests[0];
+    const timestamp = headers["x-insightview-timestamp"] as string;
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(headers["x-insightview-signature"]).toBe(
+      signWebhook("s3cr3t-s3cr3t-s3cr3t", timestamp, raw),
+    );
+  });
+
+  it("throws retryable errors for 5xx and permanent ones for 4xx", async () => {
+    const err503 = await send("GENERIC_WEBHOOK", { url: `${httpBase}/broken` }).catch((e) => e);
+    expect(err503).toBeInstanceOf(NotificationDeliveryError);
+    expect(err503).toMatchObject({ statusCode: 503, retryable: true });
+    const err400 = await send("GENERIC_WEBHOOK", { url: `${httpBase}/rejects` }).catch((e) => e);
+    expect(err400).toMatchObject({ statusCode: 400, retryable: false });
+  });
+});
+
+describe("secret references", () => {
+  it("resolves { secretRef } config values from the environment before sending", async () => {
+    process.env.INSIGHTVIEW_SECRET_TEST_HOOK_URL = `${httpBase}/from-env`;
+    process.env.INSIGHTVIEW_SECRET_TEST_HOOK_TOKEN = "Bearer t0k3n";
+    try {
+      await send("GENERIC_WEBHOOK", {
+        url: { secretRef: "INSIGHTVIEW_SECRET_TEST_HOOK_URL" },
+        headers: { Authorization: { secretRef: "INSIGHTVIEW_SECRET_TEST_HOOK_TOKEN" } },
+      });
+    } finally {
+      delete process.env.INSIGHTVIEW_SECRET_TEST_HOOK_URL;
+      delete process.env.INSIGHTVIEW_SECRET_TEST_HOOK_TOKEN;
+    }
+    expect(requests[0].url).toBe("/from-env");
+    expect(requests[0].headers.authorization).toBe("Bearer t0k3n");
+  });
+
+  it("fails permanently when the referenced variable is unset", async () => {
+    const err = await send("SLACK_WEBHOOK", { webhookUrl: { secretRef: "INSIGHTVIEW_SECRET_UNSET_SLACK_HOOK" } }).catch(
+      (e) => e,
+    );
+    expect(err).toMatchObject({ retryable: false });
+    expect(err.message).toMatch(/INSIGHTVIEW_SECRET_UNSET_SLACK_HOOK/);
+  });
+
+  it("refuses to resolve variables outside the secret prefix", async () => {
+    process.env.TEST_DATABASE_URL = "postgres://user:pw@db/app";
+    try {
+      const err = await send("GENERIC_WEBHOOK", {
+        url: `${httpBase}/from-env`,
+        headers: { "X-Leak": { secretRef: "TEST_DATABASE_URL" } },
+      }).catch((e) => e);
+      expect(err).toMatchObject({ retryable: false });
+    } finally {
+      delete process.env.TEST_DATABASE_URL;
+    }
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,52 @@
+import type { AlertIncident } from "@insightview/db";
+import type { NotificationKind } from "./index.js";
+
+/**
+ * Message pieces shared by the rich-card channels (Teams, Discord,
+ * email, PagerDuty / Opsgenie summaries) so every integration says
+ * the same thing about an incident.
+ */
+
+export function headline(
+  ruleName: string,
+  incident: AlertIncident,
+  kind: NotificationKind | undefined,
+): string {
+  if (kind === "resolved") return `RESOLVED: ${ruleName}`;
+  const suffix =
+    kind === "renotify" ? " (still firing)" : kind === "escalation" ? " (escalated)" : "";
+  return `${incident.severity}: ${ruleName}${suffix}`;
+}
+
+/** The strategy's explanation recorded when the incident fired. */
+export function incidentReason(incident: AlertIncident): string | undefined {
+  const reason = (incident.payload as { reason?: unknown } | null)?.reason;
+  return typeof reason === "string" ? reason : undefined;
+}
+
+export function incidentFacts(incident: AlertIncident): Array<{ title: string; value: string }> {
+  const facts = [
+    { title: "Incident", value: incident.id },
+    { title: "Severity", value: incident.severity },
+    { title: "Status", value: incident.status },
+    { title: "Opened", value: incident.openedAt.toISOString() },
+  ];
+  if (incident.checkId) facts.push({ title: "Check", value: incident.checkId });
+  if (incident.resolvedAt) {
+    facts.push({ title: "Resolved", value: incident.resolvedAt.toISOString() });
+  }
+  if (incident.resolvedRunId) {
+    facts.push({ title: "Recovered on run", value: incident.resolvedRunId });
+  }
+  return facts;
+}
+
+/** Hex colour per severity; green once resolved. */
+export function severityColor(incident: AlertIncident, kind: NotificationKind | undefined): string {
+  if (kind === "resolved") return "#2eb67d";
+  return incident.severity === "CRITICAL"
+    ? "#e01e5a"
+    : incident.severity === "WARNING"
+      ? "#ecb22e"
+      : "#36c5f0";
+}
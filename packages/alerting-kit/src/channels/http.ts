@@ -0,0 +1,65 @@
+import type { DeliveryReceipt } from "./index.js";
+
+/**
+ * Thrown by channel impls when a notification did not land. The
+ * dispatcher records the attempt and retries while `retryable`.
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+    readonly retryable = true,
+  ) {
+    super(message);
+    this.name = "NotificationDeliveryError";
+  }
+}
+
+/** A channel whose config can never work; retrying won't help. */
+export function misconfigured(message: string): NotificationDeliveryError {
+  return new NotificationDeliveryError(message, undefined, false);
+}
+
+// Sends run inside the alerting consumers; a receiver that accepts the
+// connection and never answers must not hold one indefinitely.
+export const SEND_TIMEOUT_MS = 10_000;
+
+/**
+ * POST a body and treat anything but 2xx as a failed delivery.
+ * 5xx, 408 and 429 (and network errors and timeouts) are retryable;
+ * other 4xx are not, since the receiver rejected the request itself.
+ */
+export async function post(
+  url: string,
+  body: string,
+  headers: Record<string, string> = { "Content-Type": "application/json" },
+): Promise<DeliveryReceipt> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+  } catch (err) {
+    throw new NotificationDeliveryError(`request failed: ${(err as Error).message}`);
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new NotificationDeliveryError(
+      `HTTP ${res.status}${text ? `: ${text.slice(0, 500)}` : ""}`,
+      res.status,
+      res.status >= 500 || res.status === 408 || res.status === 429,
+    );
+  }
+  return { statusCode: res.status };
+}
+
+export function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<DeliveryReceipt> {
+  return post(url, JSON.stringify(body), { "Content-Type": "application/json", ...headers });
+}
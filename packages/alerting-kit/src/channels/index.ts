@@ -0,0 +1,72 @@
+import type { Logger } from "@insightview/observability";
+import type { AlertIncident, AlertRule, Check, NotificationChannel } from "@insightview/db";
+import type { NotificationChannelType } from "@insightview/core";
+import { ValidationError } from "@insightview/core";
+import { slackChannel } from "./SlackChannel.js";
+import { webhookChannel } from "./WebhookChannel.js";
+import { stdoutChannel } from "./StdoutChannel.js";
+import { pagerDutyChannel } from "./PagerDutyChannel.js";
+import { opsgenieChannel } from "./OpsgenieChannel.js";
+import { teamsChannel } from "./TeamsChannel.js";
+import { discordChannel } from "./DiscordChannel.js";
+import { emailChannel } from "./EmailChannel.js";
+import { resolveChannelSecrets } from "./secrets.js";
+
+/**
+ * Why a notification is going out: the incident just fired, the
+ * sweep is reminding about a still-firing incident, it reached an
+ * escalation tier, or it recovered.
+ */
+export type NotificationKind = "initial" | "renotify" | "escalation" | "resolved";
+
+export interface NotificationContext {
+  channel: NotificationChannel;
+  incident: AlertIncident;
+  ruleName: string;
+  /** Absent = "initial". */
+  kind?: NotificationKind;
+  /** Rule and check for templates and cards, when the dispatcher has them. */
+  rule?: AlertRule;
+  check?: Check | null;
+  log: Logger;
+}
+
+/** What a receiver answered; recorded on the NotificationDelivery row. */
+export interface DeliveryReceipt {
+  statusCode?: number;
+}
+
+/**
+ * Channel implementations resolve when the notification landed and
+ * throw (preferably a NotificationDeliveryError, see http.ts) when it
+ * didn't; the dispatcher records and retries.
+ */
+export interface NotificationChannelImpl {
+  send(ctx: NotificationContext): Promise<DeliveryReceipt | void>;
+}
+
+const registry: Record<NotificationChannelType, NotificationChannelImpl> = {
+  SLACK_WEBHOOK: slackChannel,
+  GENERIC_WEBHOOK: webhookChannel,
+  STDOUT: stdoutChannel,
+  PAGERDUTY: pagerDutyChannel,
+  OPSGENIE: opsgenieChannel,
+  TEAMS_WEBHOOK: teamsChannel,
+  DISCORD_WEBHOOK: discordChannel,
+  EMAIL: emailChannel,
+};
+
+/**
+ * The impl for a channel type. Secret references in the channel's
+ * config are resolved before every send (secrets.ts), so impls only
+ * ever see plain values.
+ */
+export function channelFor(
+  type: NotificationChannelType,
+): NotificationChannelImpl {
+  const impl = registry[type];
+  if (!impl) throw new ValidationError(`Unknown channel type '${type}'`);
+  return {
+    send: async (ctx) => impl.send({ ...ctx, channel: resolveChannelSecrets(ctx.channel) }),
+  };
+}
@@ -0,0 +1,39 @@
+import { SECRET_REF_PREFIX } from "@insightview/core";
+import type { NotificationChannel } from "@insightview/db";
+import { misconfigured } from "./http.js";
+
+/**
+ * Channel config may hold `{ secretRef: NAME }` in place of a
+ * credential (monitors-as-code YAML requires it). References are
+ * resolved from the sending process's environment right before each
+ * send, so rotating a secret is an env change plus a restart, and the
+ * value is never stored.
+ *
+ * Only names under SECRET_REF_PREFIX resolve, so a channel row
+ * written before the schema enforced it cannot read other variables.
+ * A foreign or missing variable fails the delivery without retries.
+ */
+export function resolveChannelSecrets(
+  channel: NotificationChannel,
+  env: NodeJS.ProcessEnv = process.env,
+): NotificationChannel {
+  return { ...channel, config: resolveSecrets(channel.config, env) as NotificationChannel["config"] };
+}
+
+function resolveSecrets(value: unknown, env: NodeJS.ProcessEnv): unknown {
+  if (Array.isArray(value)) return value.map((v) => resolveSecrets(v, env));
+  if (!value || typeof value !== "object") return value;
+  const entries = Object.entries(value);
+  if (entries.length === 1 && entries[0][0] === "secretRef" && typeof entries[0][1] === "string") {
+    const name = entries[0][1];
+    if (!name.startsWith(SECRET_REF_PREFIX)) {
+      throw misconfigured(`secret '${name}' must be named ${SECRET_REF_PREFIX}*`);
+    }
+    const secret = env[name];
+    if (secret === undefined || secret === "") {
+      throw misconfigured(`secret '${name}' is not set in the environment`);
+    }
+    return secret;
+  }
+  return Object.fromEntries(entries.map(([k, v]) => [k, resolveSecrets(v, env)]));
+}
@@ -0,0 +1,36 @@
+/**
+ * Mustache-style payload templates for webhook channels. Deliberately
+ * tiny: variable substitution only, no sections or partials.
+ *
+ *   {{incident.id}}      value as a JSON-escaped string, for use
+ *                        inside quotes: "text": "{{rule.name}} fired"
+ *   {{{incident.payload}}} value as raw JSON (numbers, objects,
+ *                        quoted strings): "details": {{{incident.payload}}}
+ *
+ * Unknown paths render as an empty string ({{ }}) or null ({{{ }}}),
+ * so a template never fails because one field is missing.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(
+    /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*\}\}/g,
+    (_match, rawPath: string | undefined, path: string | undefined) => {
+      if (rawPath !== undefined) {
+        return JSON.stringify(lookup(context, rawPath) ?? null);
+      }
+      const value = lookup(context, path!);
+      if (value === undefined || value === null) return "";
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      // Escape for a JSON string literal without the surrounding quotes.
+      return JSON.stringify(text).slice(1, -1);
+    },
+  );
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
@@ -0,0 +1,77 @@
+import type { Logger } from "@insightview/observability";
+import type { TenantContext } from "@insightview/core";
+import { listResultsByRun, rumWebVitalPercentiles, type CheckRun } from "@insightview/db";
+import type { EvaluationContext } from "./strategies/index.js";
+
+/**
+ * The stored data strategies look at besides the run being judged,
+ * loaded the same way for live evaluation and for dry-runs.
+ */
+
+export type RumAggregates = NonNullable<EvaluationContext["rumAggregates"]>;
+
+/**
+ * Historical metric samples for anomaly detection: every web-vital
+ * measurement (plus a `duration` bucket from the step duration) of the
+ * given runs, skipping `excludeRunId` (the run being judged). One DB
+ * call per run is acceptable at a 20-run window; the query is indexed.
+ */
+export async function loadHistoricalValues(
+  ctx: TenantContext,
+  runs: CheckRun[],
+  excludeRunId: string,
+  log: Logger,
+): Promise<Record<string, number[]>> {
+  const historicalValues: Record<string, number[]> = {};
+  for (const run of runs) {
+    if (run.id === excludeRunId) continue;
+    try {
+      const results = await listResultsByRun(ctx, run.id);
+      for (const r of results) {
+        const vitals = (r.webVitals as Record<string, number>) ?? {};
+        for (const [k, v] of Object.entries(vitals)) {
+          if (typeof v === "number" && Number.isFinite(v)) {
+            (historicalValues[k] = historicalValues[k] ?? []).push(v);
+          }
+        }
+        if (typeof r.durationMs === "number") {
+          (historicalValues.duration = historicalValues.duration ?? []).push(r.durationMs);
+        }
+      }
+    } catch (err) {
+      log.warn({ err, runId: run.id }, "failed to load results for history");
+    }
+  }
+  return historicalValues;
+}
+
+/**
+ * RUM aggregates for RUM_METRIC rules over the last 15 minutes. Real
+ * percentiles are computed via Postgres `percentile_cont`.
+ *
+ * For MVP we treat the configured site-id env as the lookup key. In a
+ * production deployment the rule would carry its own siteId in
+ * `expression.siteId`; this keeps the wiring simple.
+ */
+export async function loadRumAggregates(
+  ctx: TenantContext,
+  log: Logger,
+): Promise<RumAggregates> {
+  const rumAggregates: RumAggregates = {};
+  const siteId = process.env.RUM_SITE_ID ?? "default";
+  try {
+    const distributions = await rumWebVitalPercentiles(ctx, siteId, 15 * 60 * 1000);
+    for (const row of distributions) {
+      rumAggregates[row.metric] = {
+        p50: row.p50,
+        p75: row.p75,
+        p95: row.p95,
+        count: row.count,
+        mean: row.mean,
+      };
+    }
+  } catch (err) {
+    log.warn({ err }, "failed to load RUM aggregate");
+  }
+  return rumAggregates;
+}
@@ -0,0 +1,13 @@
+/**
+ * Alert evaluation and notification building blocks, shared by the
+ * alerting service (live evaluation, dispatch, the notification sweep)
+ * and the API (channel test-fires and rule dry-runs): the strategy
+ * registry, the channel implementations with their message templates,
+ * the history loaders strategies read, and the side-effect-free
+ * previews.
+ */
+export * from "./strategies/index.js";
+export * from "./channels/index.js";
+export { NotificationDeliveryError } from "./channels/http.js";
+export * from "./history.js";
+export * from "./preview.js";
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import type { Logger } from "@insightview/observability";
+import type { CheckResult, CheckRun, NotificationChannel } from "@insightview/db";
+import { runFacts, testFireChannel } from "./preview.js";
+
+const log = { info() {}, warn() {}, error() {} } as unknown as Logger;
+const ctx = { tenantId: "default", actor: "tester" };
+
+function run(overrides: Partial<CheckRun> = {}): CheckRun {
+  return {
+    id: "run_1",
+    tenantId: "default",
+    checkId: "chk_1",
+    scheduledAt: new Date("2026-05-01T10:00:00Z"),
+    startedAt: new Date("2026-05-01T10:00:01Z"),
+    completedAt: new Date("2026-05-01T10:00:05Z"),
+    status: "FAILED",
+    triggeredBy: "SCHEDULE",
+    runnerId: null,
+    location: "eu-west",
+    attempt: 1,
+    errorMessage: "assertion failed",
+    createdAt: new Date("2026-05-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+function result(overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    id: "res_1",
+    tenantId: "default",
+    runId: "run_1",
+    stepName: "home",
+    url: "https://shop.example.com/",
+    durationMs: 1200,
+    status: "passed",
+    webVitals: {},
+    resourceStats: {},
+    navigationStats: {},
+    assertionsPassed: 0,
+    assertionsFailed: 0,
+    a11y: null,
+    tls: null,
+    traceS3Key: null,
+    screenshotS3Key: null,
+    createdAt: new Date("2026-05-01T10:00:02Z"),
+    ...overrides,
+  };
+}
+
+function channel(overrides: Partial<NotificationChannel> = {}): NotificationChannel {
+  return {
+    id: "ch_1",
+    tenantId: "default",
+    name: "ops",
+    type: "STDOUT",
+    config: {},
+    enabled: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as NotificationChannel;
+}
+
+describe("runFacts", () => {
+  it("rebuilds the completion summary from stored result rows", () => {
+    const facts = runFacts(run(), [
+      result({
+        webVitals: { LCP: 2100, CLS: 0.02 },
+        navigationStats: { ttfb: 180, note: "x" },
+        assertionsPassed: 2,
+        a11y: { counts: { critical: 1, serious: 0, moderate: 2, minor: 0 }, total: 3 },
+        tls: {
+          subject: "shop.example.com",
+          validTo: "2026-06-01T00:00:00.000Z",
+          daysUntilExpiry: 31,
+          chain: [{ subject: "Example CA", validTo: "2026-05-20T00:00:00.000Z", daysUntilExpiry: 19 }],
+        },
+      }),
+      result({
+        stepName: "checkout",
+        url: "https://pay.example.com/checkout",
+        webVitals: { LCP: 3400 },
+        assertionsPassed: 1,
+        assertionsFailed: 1,
+        tls: {
+          subject: "pay.example.com",
+          validTo: "2026-05-25T00:00:00.000Z",
+          daysUntilExpiry: 24,
+        },
+      }),
+    ]);
+    expect(facts).toEqual({
+      id: "run_1",
+      status: "FAILED",
+      durationMs: 4000,
+      summary: {
+        passedAssertions: 3,
+        failedAssertions: 1,
+        webVitals: { LCP: 3400, CLS: 0.02 },
+        timings: { ttfb: 180 },
+        a11y: { critical: 1, serious: 0, moderate: 2, minor: 0, total: 3 },
+        cert: {
+          host: "shop.example.com",
+          subject: "Example CA",
+          validTo: "2026-05-20T00:00:00.000Z",
+          daysUntilExpiry: 19,
+        },
+      },
+      errorMessage: "assertion failed",
+      location: "eu-west",
+    });
+  });
+
+  it("omits a11y and cert when no step captured them", () => {
+    const facts = runFacts(run({ startedAt: null }), [result(), result({ durationMs: 300 })]);
+    expect(facts.durationMs).toBe(1500);
+    expect(facts.summary).not.toHaveProperty("a11y");
+    expect(facts.summary).not.toHaveProperty("cert");
+  });
+});
+
+describe("testFireChannel", () => {
+  it("sends a synthetic incident through disabled channels too", async () => {
+    const res = await testFireChannel(ctx, channel(), { severity: "CRITICAL", log });
+    expect(res).toMatchObject({ channel: "ops", type: "STDOUT", ok: true });
+  });
+
+  it("reports the failure instead of throwing", async () => {
+    const res = await testFireChannel(ctx, channel({ type: "GENERIC_WEBHOOK" }), { log });
+    expect(res.ok).toBe(false);
+    expect(res.error).toMatch(/missing url/);
+  });
+});
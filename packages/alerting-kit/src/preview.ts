@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import type { Logger } from "@insightview/observability";
+import type {
+  AlertIncident,
+  AlertRule,
+  CheckResult,
+  CheckRun,
+  NotificationChannel,
+} from "@insightview/db";
+import { listResultsByRun, listRunsByCheck } from "@insightview/db";
+import {
+  ValidationError,
+  type CheckRunStatus,
+  type Severity,
+  type TenantContext,
+} from "@insightview/core";
+import { channelFor, type NotificationKind } from "./channels/index.js";
+import { NotificationDeliveryError } from "./channels/http.js";
+import { loadHistoricalValues, loadRumAggregates } from "./history.js";
+import { strategyFor, type Decision, type LatestRunFacts } from "./strategies/index.js";
+
+/**
+ * Side-effect-free previews of alerting config, for the API's
+ * `POST /v1/channels/:name/test` and `POST /v1/alert-rules/:id/dry-run`
+ * (and `insightview alert-test`). Nothing here writes incidents or
+ * delivery rows; the only thing that leaves the process is the
+ * test-fire message itself.
+ */
+
+export interface TestFireOptions {
+  severity?: Severity;
+  /** "resolved" previews the recovery message. Default "initial". */
+  kind?: Extract<NotificationKind, "initial" | "resolved">;
+  log: Logger;
+}
+
+export interface TestFireResult {
+  channel: string;
+  type: string;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Send one synthetic incident through the channel's implementation.
+ * A single attempt, no retries: the caller wants to see the failure.
+ * Disabled channels are tested too, so a channel can be verified
+ * before it is switched on.
+ */
+export async function testFireChannel(
+  ctx: TenantContext,
+  channel: NotificationChannel,
+  opts: TestFireOptions,
+): Promise<TestFireResult> {
+  const incident = syntheticIncident(ctx, opts.severity ?? "INFO", opts.kind ?? "initial");
+  const started = Date.now();
+  try {
+    const receipt = await channelFor(channel.type).send({
+      channel,
+      incident,
+      ruleName: TEST_RULE_NAME,
+      kind: opts.kind ?? "initial",
+      check: null,
+      log: opts.log,
+    });
+    return {
+      channel: channel.name,
+      type: channel.type,
+      ok: true,
+      statusCode: receipt?.statusCode,
+      durationMs: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      channel: channel.name,
+      type: channel.type,
+      ok: false,
+      statusCode: err instanceof NotificationDeliveryError ? err.statusCode : undefined,
+      error: (err as Error).message,
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+const TEST_RULE_NAME = "insightview-test-notification";
+
+function syntheticIncident(
+  ctx: TenantContext,
+  severity: Severity,
+  kind: NotificationKind,
+): AlertIncident {
+  const id = randomUUID();
+  const now = new Date();
+  return {
+    id: `test_${id}`,
+    tenantId: ctx.tenantId,
+    ruleId: "test",
+    checkId: null,
+    runId: null,
+    status: kind === "resolved" ? "RESOLVED" : "FIRING",
+    severity,
+    openedAt: now,
+    resolvedAt: kind === "resolved" ? now : null,
+    resolvedBy: kind === "resolved" ? (ctx.actor ?? "system") : null,
+    resolvedRunId: null,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    silencedUntil: null,
+    silenceReason: null,
+    lastNotifiedAt: null,
+    escalationLevel: 0,
+    payload: {
+      reason: "Test notification from InsightView; no action needed",
+      rule: TEST_RULE_NAME,
+      test: true,
+    },
+    dedupeKey: `test:${id}`,
+  };
+}
+
+export interface DryRunStep {
+  runId: string;
+  status: CheckRunStatus;
+  location: string;
+  completedAt: Date | null;
+  decision: Decision;
+}
+
+export interface DryRunOptions {
+  /** How many of the newest completed runs to replay. */
+  limit: number;
+  log: Logger;
+}
+
+/**
+ * Replay a rule's strategy over the last `limit` completed runs of its
+ * check, newest first, as if each run had just finished. History,
+ * anomaly baselines and run summaries are rebuilt from stored rows the
+ * way the evaluator sees them; RUM aggregates are the current window,
+ * since there is no stored history of them. The rule does not need to
+ * be enabled, which is the point: try it before turning it on.
+ */
+export async function dryRunRule(
+  ctx: TenantContext,
+  rule: AlertRule,
+  opts: DryRunOptions,
+): Promise<DryRunStep[]> {
+  if (!rule.checkId) {
+    throw new ValidationError(
+      `Alert rule '${rule.name}' is not bound to a check; dry-run replays stored check runs`,
+    );
+  }
+  const strategy = strategyFor(rule.strategy);
+  const historyDepth =
+    typeof (rule.expression as { quorum?: unknown } | null)?.quorum === "number" ? 100 : 20;
+  const runs = (await listRunsByCheck(ctx, rule.checkId, opts.limit + historyDepth)).filter(
+    (r) => r.completedAt !== null,
+  );
+  const rumAggregates =
+    rule.strategy === "RUM_METRIC" ? await loadRumAggregates(ctx, opts.log) : {};
+
+  const steps: DryRunStep[] = [];
+  for (let i = 0; i < Math.min(opts.limit, runs.length); i++) {
+    const run = runs[i];
+    const historicalValues =
+      rule.strategy === "ANOMALY_DETECTION"
+        ? await loadHistoricalValues(ctx, runs.slice(i + 1, i + 21), run.id, opts.log)
+        : {};
+    const decision = strategy.evaluate({
+      rule,
+      latestRun: runFacts(run, await listResultsByRun(ctx, run.id)),
+      history: runs.slice(i, i + historyDepth),
+      historicalValues,
+      rumAggregates,
+    });
+    steps.push({
+      runId: run.id,
+      status: run.status,
+      location: run.location,
+      completedAt: run.completedAt,
+      decision,
+    });
+  }
+  return steps;
+}
+
+interface StoredA11y {
+  counts?: Partial<Record<"critical" | "serious" | "moderate" | "minor", number>>;
+  total?: number;
+}
+
+interface StoredTls {
+  subject?: string;
+  validTo: string;
+  daysUntilExpiry: number;
+  chain?: Array<{ subject?: string; validTo: string; daysUntilExpiry: number }>;
+}
+
+/**
+ * Rebuild the `check.completed` facts of a stored run from its result
+ * rows, mirroring how synthetic-kit summarises an envelope: assertion
+ * counts summed, web vitals and timings last-step-wins, a11y counts
+ * summed over audited steps, and the soonest-expiring certificate.
+ *
+ * `daysUntilExpiry` is the value recorded at run time, so replaying an
+ * old run shows what CERT_EXPIRY would have decided back then.
+ */
+export function runFacts(run: CheckRun, results: CheckResult[]): LatestRunFacts {
+  const webVitals: Record<string, number> = {};
+  const timings: Record<string, number> = {};
+  let a11y: Record<string, number> | undefined;
+  let cert: LatestRunFacts["summary"]["cert"];
+  for (const r of results) {
+    copyNumbers(r.webVitals, webVitals);
+    copyNumbers(r.navigationStats, timings);
+    const audit = r.a11y as StoredA11y | null;
+    if (audit) {
+      a11y = a11y ?? { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 };
+      for (const k of ["critical", "serious", "moderate", "minor"] as const) {
+        a11y[k] += audit.counts?.[k] ?? 0;
+      }
+      a11y.total += audit.total ?? 0;
+    }
+    const tls = r.tls as StoredTls | null;
+    if (tls && typeof tls.daysUntilExpiry === "number") {
+      for (const c of [tls, ...(tls.chain ?? [])]) {
+        if (!cert || c.daysUntilExpiry < cert.daysUntilExpiry) {
+          cert = {
+            host: hostOf(r.url),
+            subject: c.subject,
+            validTo: c.validTo,
+            daysUntilExpiry: c.daysUntilExpiry,
+          };
+        }
+      }
+    }
+  }
+  const durationMs =
+    run.startedAt && run.completedAt
+      ? run.completedAt.getTime() - run.startedAt.getTime()
+      : results.reduce((sum, r) => sum + r.durationMs, 0);
+  return {
+    id: run.id,
+    status: run.status,
+    durationMs,
+    summary: {
+      passedAssertions: results.reduce((sum, r) => sum + r.assertionsPassed, 0),
+      failedAssertions: results.reduce((sum, r) => sum + r.assertionsFailed, 0),
+      webVitals,
+      timings,
+      ...(a11y ? { a11y } : {}),
+      ...(cert ? { cert } : {}),
+    },
+    errorMessage: run.errorMessage,
+    location: run.location,
+  };
+}
+
+function copyNumbers(from: unknown, into: Record<string, number>): void {
+  if (!from || typeof from !== "object") return;
+  for (const [k, v] of Object.entries(from)) {
+    if (typeof v === "number" && Number.isFinite(v)) into[k] = v;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
@@ -37,7 +37,7 @@ import type { Strategy, EvaluationContext, Decision } from "./index.js";
  *   direction  = "higher"  — most alerting cares about regressions
  *
  * NB: the history list already provided in the EvaluationContext
- * comes pre-populated by apps/alerting/src/evaluator.ts — we don't
+ * comes pre-populated by the evaluator (see history.ts) — we don't
  * re-fetch from the DB inside the strategy. This keeps the strategy
  * pure and testable without a database.
  */
@@ -0,0 +1,81 @@
+import type { Severity } from "@insightview/core";
+import type { Strategy } from "./index.js";
+
+/**
+ * CERT_EXPIRY strategy. Expression shape:
+ *   { thresholds?: Array<number | { days: number; severity?: Severity }> }
+ *
+ * Default thresholds: 30 days INFO, 14 days WARNING, 7 days CRITICAL.
+ * A bare number inherits the rule's severity.
+ *
+ * Reads the soonest-expiring certificate (leaf or chain) the run
+ * reported and ignores the run's pass/fail status, so a monitor whose
+ * assertions are failing still warns about its certificate. Runs that
+ * captured no certificate (http targets, failed handshakes) leave any
+ * open incident alone.
+ *
+ * Each crossed threshold is its own tier: the decision carries the
+ * tier's severity and dedupe scope, so dropping from 30 to 14 days
+ * opens a fresh incident (and notification) instead of being
+ * swallowed by the 30-day one.
+ */
+
+interface Tier {
+  days: number;
+  severity: Severity;
+}
+
+const DEFAULT_TIERS: Tier[] = [
+  { days: 30, severity: "INFO" },
+  { days: 14, severity: "WARNING" },
+  { days: 7, severity: "CRITICAL" },
+];
+
+export const certExpiryStrategy: Strategy = {
+  evaluate(ctx) {
+    const expr = (ctx.rule.expression ?? {}) as {
+      thresholds?: Array<number | { days?: number; severity?: Severity }>;
+    };
+    const tiers = Array.isArray(expr.thresholds)
+      ? expr.thresholds
+          .map((t): Tier | null => {
+            const days = typeof t === "number" ? t : t?.days;
+            if (typeof days !== "number" || Number.isNaN(days)) return null;
+            const severity = (typeof t === "object" && t.severity) || ctx.rule.severity;
+            return { days, severity };
+          })
+          .filter((t): t is Tier => t !== null)
+      : DEFAULT_TIERS;
+    if (tiers.length === 0) {
+      return { shouldFire: false, shouldResolve: false, reason: "invalid expression" };
+    }
+
+    const cert = ctx.latestRun.summary.cert;
+    if (!cert) {
+      return { shouldFire: false, shouldResolve: false, reason: "no certificate reported" };
+    }
+
+    // Tightest crossed threshold wins.
+    const crossed = tiers
+      .filter((t) => cert.daysUntilExpiry <= t.days)
+      .sort((a, b) => a.days - b.days)[0];
+    const who = `${cert.subject ?? cert.host} (${cert.host})`;
+    if (!crossed) {
+      return {
+        shouldFire: false,
+        shouldResolve: true,
+        reason: `certificate ${who} valid for ${cert.daysUntilExpiry} more days`,
+      };
+    }
+    return {
+      shouldFire: true,
+      shouldResolve: false,
+      severity: crossed.severity,
+      dedupeScope: `${cert.host}:${crossed.days}d`,
+      reason:
+        cert.daysUntilExpiry < 0
+          ? `certificate ${who} expired on ${cert.validTo}`
+          : `certificate ${who} expires in ${cert.daysUntilExpiry} days (<= ${crossed.days}) on ${cert.validTo}`,
+    };
+  },
+};
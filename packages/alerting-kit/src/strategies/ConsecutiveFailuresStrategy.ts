@@ -0,0 +1,146 @@
+import type { CheckRun } from "@insightview/db";
+import { DEFAULT_LOCATION } from "@insightview/core";
+import type { Decision, EvaluationContext, Strategy } from "./index.js";
+
+/**
+ * CONSECUTIVE_FAILURES strategy. Expression shape:
+ *   { threshold: number, quorum?: number, windowSeconds?: number }
+ *
+ * Without `quorum`: fires when the latest N runs (including the
+ * current one) from the current run's location are all non-PASSED.
+ * Resolves once a PASSED run appears and no other location's most
+ * recent run is still failing. Streaks are counted per location so a
+ * check fanned out to several locations doesn't have one healthy
+ * vantage point break another's streak.
+ *
+ * With `quorum`: fires only when at least `quorum` locations are
+ * failing at the same time — each location's most recent run inside
+ * the last `windowSeconds` (default 600) must start a streak of
+ * `threshold` non-PASSED runs. Resolves once fewer than `quorum`
+ * locations are failing. This is the "2 of 3 locations" rule that
+ * filters out single-vantage-point network blips.
+ */
+const DEFAULT_QUORUM_WINDOW_SECONDS = 600;
+
+interface ConsecutiveFailuresExpression {
+  threshold?: number;
+  quorum?: number;
+  windowSeconds?: number;
+}
+
+export const consecutiveFailuresStrategy: Strategy = {
+  evaluate(ctx) {
+    const expr = (ctx.rule.expression ?? {}) as ConsecutiveFailuresExpression;
+    const threshold = typeof expr.threshold === "number" ? expr.threshold : 1;
+    if (typeof expr.quorum === "number") {
+      return evaluateQuorum(ctx, threshold, expr.quorum, expr.windowSeconds);
+    }
+
+    const location = ctx.latestRun.location ?? DEFAULT_LOCATION;
+    if (ctx.latestRun.status === "PASSED") {
+      const stillFailing = latestStatusByLocation(ctx)
+        .filter(([loc, status]) => loc !== location && status !== "PASSED")
+        .map(([loc]) => loc);
+      if (stillFailing.length > 0) {
+        return {
+          shouldFire: false,
+          shouldResolve: false,
+          reason: `latest run passed; still failing at ${stillFailing.join(", ")}`,
+        };
+      }
+      return {
+        shouldFire: false,
+        shouldResolve: true,
+        reason: "latest run passed",
+      };
+    }
+
+    // Count consecutive non-PASSED runs ending at the most recent run.
+    // The history list is ordered newest-first; the latest run may or
+    // may not yet appear in it (it was just written by the runner), so
+    // treat it as an additional +1 failure counted here.
+    let streak = 1;
+    for (const run of ctx.history) {
+      if (run.id === ctx.latestRun.id) continue;
+      if (locationOf(run) !== location || isPending(run)) continue;
+      if (run.status === "PASSED") break;
+      streak++;
+      if (streak > threshold) break;
+    }
+
+    if (streak >= threshold) {
+      return {
+        shouldFire: true,
+        shouldResolve: false,
+        reason: `${streak} consecutive non-passing runs (threshold=${threshold})`,
+      };
+    }
+    return {
+      shouldFire: false,
+      shouldResolve: false,
+      reason: `streak=${streak} below threshold=${threshold}`,
+    };
+  },
+};
+
+function evaluateQuorum(
+  ctx: EvaluationContext,
+  threshold: number,
+  quorum: number,
+  windowSeconds = DEFAULT_QUORUM_WINDOW_SECONDS,
+): Decision {
+  const since = Date.now() - windowSeconds * 1000;
+
+  // Newest-first status list per location, with the latest run (which
+  // may not be in history yet) at the head of its location.
+  const byLocation = new Map<string, string[]>();
+  byLocation.set(ctx.latestRun.location ?? DEFAULT_LOCATION, [ctx.latestRun.status]);
+  for (const run of ctx.history) {
+    if (run.id === ctx.latestRun.id || isPending(run)) continue;
+    const location = locationOf(run);
+    const statuses = byLocation.get(location);
+    if (statuses) {
+      statuses.push(run.status);
+    } else if (run.scheduledAt.getTime() >= since) {
+      // A location only counts when it reported inside the window.
+      byLocation.set(location, [run.status]);
+    }
+  }
+
+  const failing: string[] = [];
+  for (const [location, statuses] of byLocation) {
+    const head = statuses.slice(0, threshold);
+    if (head.length >= threshold && head.every((s) => s !== "PASSED")) {
+      failing.push(location);
+    }
+  }
+
+  const summary = `${failing.length}/${byLocation.size} locations failing (quorum=${quorum})`;
+  if (failing.length >= quorum) {
+    return {
+      shouldFire: true,
+      shouldResolve: false,
+      reason: `${summary}: ${failing.sort().join(", ")}`,
+    };
+  }
+  return { shouldFire: false, shouldResolve: true, reason: summary };
+}
+
+function latestStatusByLocation(ctx: EvaluationContext): Array<[string, string]> {
+  const latest = new Map<string, string>();
+  for (const run of ctx.history) {
+    if (run.id === ctx.latestRun.id || isPending(run)) continue;
+    const location = locationOf(run);
+    if (!latest.has(location)) latest.set(location, run.status);
+  }
+  return [...latest];
+}
+
+/** Fan-out siblings still QUEUED/RUNNING say nothing about health yet. */
+function isPending(run: CheckRun): boolean {
+  return run.status === "QUEUED" || run.status === "RUNNING";
+}
+
+function locationOf(run: CheckRun): string {
+  return run.location ?? DEFAULT_LOCATION;
+}
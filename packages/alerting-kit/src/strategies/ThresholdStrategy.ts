@@ -6,6 +6,13 @@ import type { Strategy } from "./index.js";
  *
  * Example: { metric: "LCP", operator: ">", value: 2500 } fires when the
  * latest run reports an LCP above 2.5 seconds.
+ *
+ * Metrics that aren't web vitals fall back to the run's connection
+ * timings, so API / TCP checks can alert on
+ * { metric: "tcpConnect", operator: ">", value: 200 }.
+ *
+ * `a11y.<impact>` / `a11y.total` read the axe-core violation counts of
+ * audited runs: { metric: "a11y.critical", operator: ">", value: 0 }.
  */
 export const thresholdStrategy: Strategy = {
   evaluate(ctx) {
@@ -24,7 +31,10 @@ export const thresholdStrategy: Strategy = {
     const observed =
       metric === "duration"
         ? ctx.latestRun.durationMs
-        : ctx.latestRun.summary.webVitals[metric];
+        : metric.startsWith("a11y.")
+          ? ctx.latestRun.summary.a11y?.[metric.slice("a11y.".length)]
+          : ctx.latestRun.summary.webVitals[metric] ??
+            ctx.latestRun.summary.timings?.[metric];
     if (typeof observed !== "number") {
       return { shouldFire: false, shouldResolve: false, reason: `metric '${metric}' not reported` };
     }
@@ -1,11 +1,17 @@
 import type { AlertRule, CheckRun } from "@insightview/db";
-import type { AlertStrategy, CheckRunStatus } from "@insightview/core";
+import type {
+  AlertStrategy,
+  CheckCompletedPayload,
+  CheckRunStatus,
+  Severity,
+} from "@insightview/core";
 import { ValidationError } from "@insightview/core";
 import { thresholdStrategy } from "./ThresholdStrategy.js";
 import { consecutiveFailuresStrategy } from "./ConsecutiveFailuresStrategy.js";
 import { compositeStrategy } from "./CompositeStrategy.js";
 import { anomalyDetectionStrategy } from "./AnomalyDetectionStrategy.js";
 import { rumMetricStrategy } from "./RumMetricStrategy.js";
+import { certExpiryStrategy } from "./CertExpiryStrategy.js";
 
 export interface LatestRunFacts {
   id: string;
@@ -15,8 +21,13 @@ export interface LatestRunFacts {
     passedAssertions: number;
     failedAssertions: number;
     webVitals: Record<string, number>;
+    timings?: Record<string, number>;
+    a11y?: Record<string, number>;
+    cert?: CheckCompletedPayload["summary"]["cert"];
   };
   errorMessage: string | null;
+  /** Location the run executed from. Absent = DEFAULT_LOCATION. */
+  location?: string;
 }
 
 export interface EvaluationContext {
@@ -44,6 +55,13 @@ export interface Decision {
   shouldFire: boolean;
   shouldResolve: boolean;
   reason: string;
+  /** Overrides the rule's severity for this firing (tiered strategies). */
+  severity?: Severity;
+  /**
+   * Extra dedupe discriminator. A firing with a new scope opens a new
+   * incident and supersedes the rule's open ones.
+   */
+  dedupeScope?: string;
 }
 
 export interface Strategy {
@@ -59,6 +77,7 @@ const registry: Record<AlertStrategy, Strategy> = {
   COMPOSITE: compositeStrategy,
   ANOMALY_DETECTION: anomalyDetectionStrategy,
   RUM_METRIC: rumMetricStrategy,
+  CERT_EXPIRY: certExpiryStrategy,
 };
 
 export function strategyFor(name: AlertStrategy): Strategy {
@@ -0,0 +1,383 @@
+import { describe, it, expect } from "vitest";
+import { strategyFor } from "./index.js";
+import type { AlertRule, CheckRun } from "@insightview/db";
+
+function rule(
+  strategy: "THRESHOLD" | "CONSECUTIVE_FAILURES" | "COMPOSITE" | "CERT_EXPIRY",
+  expression: Record<string, unknown>,
+): AlertRule {
+  return {
+    id: "rule_1",
+    tenantId: "default",
+    name: "test-rule",
+    checkId: "check_1",
+    enabled: true,
+    strategy,
+    expression,
+    severity: "WARNING",
+    cooldownSeconds: 0,
+    channelIds: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as unknown as AlertRule;
+}
+
+function run(status: "PASSED" | "FAILED" | "ERROR", id: string): CheckRun {
+  return {
+    id,
+    tenantId: "default",
+    checkId: "check_1",
+    scheduledAt: new Date(),
+    startedAt: new Date(),
+    completedAt: new Date(),
+    status,
+    triggeredBy: "API",
+    runnerId: "r",
+    attempt: 1,
+    errorMessage: null,
+    createdAt: new Date(),
+  } as unknown as CheckRun;
+}
+
+describe("ThresholdStrategy", () => {
+  it("falls back to connection timings for non-vital metrics", () => {
+    const s = strategyFor("THRESHOLD");
+    const decision = s.evaluate({
+      rule: rule("THRESHOLD", { metric: "tcpConnect", operator: ">", value: 200 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 400,
+        summary: {
+          passedAssertions: 0,
+          failedAssertions: 0,
+          webVitals: {},
+          timings: { dnsLookup: 3, tcpConnect: 350 },
+        },
+        errorMessage: null,
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+    expect(decision.reason).toMatch(/observed=350/);
+  });
+
+  it("fires when the observed metric exceeds the threshold", () => {
+    const s = strategyFor("THRESHOLD");
+    const decision = s.evaluate({
+      rule: rule("THRESHOLD", { metric: "LCP", operator: ">", value: 2500 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 1000,
+        summary: {
+          passedAssertions: 0,
+          failedAssertions: 0,
+          webVitals: { LCP: 3200 },
+        },
+        errorMessage: null,
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+    expect(decision.reason).toMatch(/LCP/);
+  });
+
+  it("does not fire when the observed metric is within bounds", () => {
+    const s = strategyFor("THRESHOLD");
+    const decision = s.evaluate({
+      rule: rule("THRESHOLD", { metric: "LCP", operator: ">", value: 2500 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 1000,
+        summary: { passedAssertions: 0, failedAssertions: 0, webVitals: { LCP: 1500 } },
+        errorMessage: null,
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.shouldResolve).toBe(true);
+  });
+
+  it("returns no-fire when the metric isn't reported", () => {
+    const s = strategyFor("THRESHOLD");
+    const decision = s.evaluate({
+      rule: rule("THRESHOLD", { metric: "LCP", operator: ">", value: 2500 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 1000,
+        summary: { passedAssertions: 0, failedAssertions: 0, webVitals: {} },
+        errorMessage: null,
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.reason).toMatch(/not reported/);
+  });
+
+  it("reads a11y.<impact> from the run's accessibility counts", () => {
+    const s = strategyFor("THRESHOLD");
+    const decision = s.evaluate({
+      rule: rule("THRESHOLD", { metric: "a11y.critical", operator: ">", value: 0 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 1000,
+        summary: {
+          passedAssertions: 0,
+          failedAssertions: 0,
+          webVitals: {},
+          a11y: { critical: 2, serious: 1, moderate: 0, minor: 4, total: 7 },
+        },
+        errorMessage: null,
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+    expect(decision.reason).toMatch(/a11y.critical > 0 \(observed=2\)/);
+  });
+});
+
+describe("ConsecutiveFailuresStrategy", () => {
+  it("fires on the first failure when threshold=1", () => {
+    const s = strategyFor("CONSECUTIVE_FAILURES");
+    const decision = s.evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { threshold: 1 }),
+      latestRun: {
+        id: "r1",
+        status: "FAILED",
+        durationMs: 0,
+        summary: { passedAssertions: 0, failedAssertions: 1, webVitals: {} },
+        errorMessage: "assertion",
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+  });
+
+  it("does not fire when the latest run passed", () => {
+    const s = strategyFor("CONSECUTIVE_FAILURES");
+    const decision = s.evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { threshold: 1 }),
+      latestRun: {
+        id: "r1",
+        status: "PASSED",
+        durationMs: 0,
+        summary: { passedAssertions: 1, failedAssertions: 0, webVitals: {} },
+        errorMessage: null,
+      },
+      history: [run("FAILED", "r0")],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.shouldResolve).toBe(true);
+  });
+
+  it("requires threshold=3 consecutive failures before firing", () => {
+    const s = strategyFor("CONSECUTIVE_FAILURES");
+    // Only 2 consecutive failures, threshold needs 3.
+    const decision = s.evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { threshold: 3 }),
+      latestRun: {
+        id: "r2",
+        status: "FAILED",
+        durationMs: 0,
+        summary: { passedAssertions: 0, failedAssertions: 1, webVitals: {} },
+        errorMessage: "x",
+      },
+      history: [run("FAILED", "r1"), run("PASSED", "r0")],
+    });
+    expect(decision.shouldFire).toBe(false);
+  });
+});
+
+describe("CompositeStrategy", () => {
+  it("AND: fires only when every sub-rule fires", () => {
+    const s = strategyFor("COMPOSITE");
+    const decision = s.evaluate({
+      rule: rule("COMPOSITE", {
+        all: [
+          { strategy: "THRESHOLD", expression: { metric: "LCP", operator: ">", value: 2500 } },
+          { strategy: "CONSECUTIVE_FAILURES", expression: { threshold: 1 } },
+        ],
+      }),
+      latestRun: {
+        id: "r1",
+        status: "FAILED",
+        durationMs: 1000,
+        summary: { passedAssertions: 0, failedAssertions: 1, webVitals: { LCP: 3200 } },
+        errorMessage: "x",
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+  });
+
+  it("AND: does not fire when any sub-rule doesn't fire", () => {
+    const s = strategyFor("COMPOSITE");
+    const decision = s.evaluate({
+      rule: rule("COMPOSITE", {
+        all: [
+          { strategy: "THRESHOLD", expression: { metric: "LCP", operator: ">", value: 2500 } },
+          { strategy: "CONSECUTIVE_FAILURES", expression: { threshold: 3 } },
+        ],
+      }),
+      latestRun: {
+        id: "r1",
+        status: "FAILED",
+        durationMs: 1000,
+        summary: { passedAssertions: 0, failedAssertions: 1, webVitals: { LCP: 3200 } },
+        errorMessage: "x",
+      },
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(false);
+  });
+});
+
+describe("ConsecutiveFailuresStrategy — locations", () => {
+  function at(
+    status: "PASSED" | "FAILED" | "RUNNING",
+    id: string,
+    location: string,
+    minutesAgo = 1,
+  ): CheckRun {
+    return {
+      ...run(status === "RUNNING" ? "PASSED" : status, id),
+      status,
+      location,
+      scheduledAt: new Date(Date.now() - minutesAgo * 60_000),
+    } as unknown as CheckRun;
+  }
+
+  function latest(status: "PASSED" | "FAILED", location: string) {
+    return {
+      id: "latest",
+      status,
+      durationMs: 0,
+      summary: { passedAssertions: 0, failedAssertions: 0, webVitals: {} },
+      errorMessage: null,
+      location,
+    };
+  }
+
+  it("counts streaks per location", () => {
+    const decision = strategyFor("CONSECUTIVE_FAILURES").evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { threshold: 2 }),
+      latestRun: latest("FAILED", "eu-west"),
+      history: [at("PASSED", "a", "us-east"), at("FAILED", "b", "eu-west")],
+    });
+    expect(decision.shouldFire).toBe(true);
+  });
+
+  it("does not resolve while another location is still failing", () => {
+    const decision = strategyFor("CONSECUTIVE_FAILURES").evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { threshold: 1 }),
+      latestRun: latest("PASSED", "us-east"),
+      history: [at("FAILED", "a", "eu-west")],
+    });
+    expect(decision.shouldResolve).toBe(false);
+    expect(decision.reason).toMatch(/still failing at eu-west/);
+  });
+
+  it("quorum: a single failing location does not fire", () => {
+    const decision = strategyFor("CONSECUTIVE_FAILURES").evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { quorum: 2 }),
+      latestRun: latest("FAILED", "eu-west"),
+      history: [at("PASSED", "a", "us-east"), at("PASSED", "b", "ap-south")],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.reason).toMatch(/1\/3 locations failing/);
+  });
+
+  it("quorum: fires when N of M locations fail inside the window", () => {
+    const decision = strategyFor("CONSECUTIVE_FAILURES").evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { quorum: 2, windowSeconds: 300 }),
+      latestRun: latest("FAILED", "eu-west"),
+      history: [
+        at("RUNNING", "r", "ap-south"),
+        at("FAILED", "a", "us-east"),
+        at("PASSED", "b", "ap-south", 2),
+      ],
+    });
+    expect(decision.shouldFire).toBe(true);
+    expect(decision.reason).toMatch(/2\/3 locations failing.*eu-west, us-east/);
+  });
+
+  it("quorum: ignores locations whose last report is outside the window", () => {
+    const decision = strategyFor("CONSECUTIVE_FAILURES").evaluate({
+      rule: rule("CONSECUTIVE_FAILURES", { quorum: 2, windowSeconds: 300 }),
+      latestRun: latest("FAILED", "eu-west"),
+      history: [at("FAILED", "a", "us-east", 30)],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.shouldResolve).toBe(true);
+  });
+});
+
+describe("CertExpiryStrategy", () => {
+  function latest(daysUntilExpiry: number | null, status: "PASSED" | "FAILED" = "PASSED") {
+    return {
+      id: "r1",
+      status,
+      durationMs: 100,
+      summary: {
+        passedAssertions: 0,
+        failedAssertions: 0,
+        webVitals: {},
+        ...(daysUntilExpiry === null
+          ? {}
+          : {
+              cert: {
+                host: "example.com",
+                subject: "example.com",
+                daysUntilExpiry,
+                validTo: "2026-11-01T00:00:00.000Z",
+              },
+            }),
+      },
+      errorMessage: null,
+    };
+  }
+
+  it("picks the tightest crossed default tier and its severity", () => {
+    const s = strategyFor("CERT_EXPIRY");
+    const at = (days: number) =>
+      s.evaluate({ rule: rule("CERT_EXPIRY", {}), latestRun: latest(days), history: [] });
+    expect(at(45).shouldResolve).toBe(true);
+    expect(at(20)).toMatchObject({ shouldFire: true, severity: "INFO", dedupeScope: "example.com:30d" });
+    expect(at(10)).toMatchObject({ shouldFire: true, severity: "WARNING" });
+    expect(at(3)).toMatchObject({ shouldFire: true, severity: "CRITICAL" });
+    expect(at(-1).reason).toMatch(/expired/);
+  });
+
+  it("fires regardless of the run status", () => {
+    const decision = strategyFor("CERT_EXPIRY").evaluate({
+      rule: rule("CERT_EXPIRY", {}),
+      latestRun: latest(5, "FAILED"),
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(true);
+  });
+
+  it("bare-number thresholds inherit the rule severity", () => {
+    const decision = strategyFor("CERT_EXPIRY").evaluate({
+      rule: rule("CERT_EXPIRY", { thresholds: [21, 10] }),
+      latestRun: latest(15),
+      history: [],
+    });
+    expect(decision).toMatchObject({ shouldFire: true, severity: "WARNING" });
+    expect(decision.reason).toMatch(/expires in 15 days \(<= 21\)/);
+  });
+
+  it("leaves incidents alone when the run reported no certificate", () => {
+    const decision = strategyFor("CERT_EXPIRY").evaluate({
+      rule: rule("CERT_EXPIRY", {}),
+      latestRun: latest(null),
+      history: [],
+    });
+    expect(decision.shouldFire).toBe(false);
+    expect(decision.shouldResolve).toBe(false);
+  });
+});
@@ -35,6 +35,7 @@ export const AlertStrategy = {
   COMPOSITE: "COMPOSITE",
   ANOMALY_DETECTION: "ANOMALY_DETECTION",
   RUM_METRIC: "RUM_METRIC",
+  CERT_EXPIRY: "CERT_EXPIRY",
 } as const;
 export type AlertStrategy = (typeof AlertStrategy)[keyof typeof AlertStrategy];
 
@@ -56,10 +57,21 @@ export const NotificationChannelType = {
   SLACK_WEBHOOK: "SLACK_WEBHOOK",
   GENERIC_WEBHOOK: "GENERIC_WEBHOOK",
   STDOUT: "STDOUT",
+  PAGERDUTY: "PAGERDUTY",
+  OPSGENIE: "OPSGENIE",
+  TEAMS_WEBHOOK: "TEAMS_WEBHOOK",
+  DISCORD_WEBHOOK: "DISCORD_WEBHOOK",
+  EMAIL: "EMAIL",
 } as const;
 export type NotificationChannelType =
   (typeof NotificationChannelType)[keyof typeof NotificationChannelType];
 
+/**
+ * Channel `{ secretRef: NAME }` values only resolve env vars with this
+ * prefix, keeping the rest of the sender's environment out of reach.
+ */
+export const SECRET_REF_PREFIX = "INSIGHTVIEW_SECRET_";
+
 export const RumEventType = {
   WEB_VITAL: "WEB_VITAL",
   ERROR: "ERROR",
@@ -68,3 +80,21 @@ export const RumEventType = {
   CUSTOM: "CUSTOM",
 } as const;
 export type RumEventType = (typeof RumEventType)[keyof typeof RumEventType];
+
+export const RumIssueStatus = {
+  OPEN: "OPEN",
+  RESOLVED: "RESOLVED",
+  IGNORED: "IGNORED",
+  REGRESSED: "REGRESSED",
+} as const;
+export type RumIssueStatus = (typeof RumIssueStatus)[keyof typeof RumIssueStatus];
+
+/**
+ * What a maintenance window suppresses. Stored as a plain string
+ * column (like ApiToken.role), so the values are the wire form.
+ */
+export const MaintenanceMode = {
+  PAUSE_RUNS: "pause-runs",
+  MUTE_ALERTS: "mute-alerts",
+} as const;
+export type MaintenanceMode = (typeof MaintenanceMode)[keyof typeof MaintenanceMode];
@@ -1,4 +1,10 @@
-import type { CheckRunStatus, Severity, TriggerSource, RumEventType } from "./enums.js";
+import type {
+  CheckRunStatus,
+  CheckType,
+  Severity,
+  TriggerSource,
+  RumEventType,
+} from "./enums.js";
 
 /**
  * Event bus message envelope. Every message published on the bus is
@@ -26,6 +32,19 @@ export const Topics = {
   RumEventsIngested: "rum.events.ingested",
 } as const;
 
+/** Location used when a check or runner doesn't name one. */
+export const DEFAULT_LOCATION = "local";
+
+/**
+ * Scheduled runs fan out one message per location onto a
+ * location-scoped topic (`checks.scheduled.eu-west`), so each runner
+ * consumes only the work for its own vantage point instead of
+ * filtering — and dropping — messages meant for other locations.
+ */
+export function scheduledTopicFor(location: string): string {
+  return `${Topics.ChecksScheduled}.${location}`;
+}
+
 // ---- Message type strings (for envelope.type) ----
 
 export const MessageTypes = {
@@ -44,12 +63,20 @@ export interface CheckScheduledPayload {
   checkId: string;
   checkName: string;
   scheduledAt: string;
+  /** Which executor the runner should use. Absent = BROWSER. */
+  type?: CheckType;
   targetUrl: string;
   scriptRef?: string | null;
+  /** Executor request definition: HTTP request (API) or probe (TCP). */
+  request?: Record<string, unknown> | null;
+  /** Browser journey (steps, auth, network, cookies, a11y). Absent = one default step. */
+  runSpec?: Record<string, unknown> | null;
   timeoutMs: number;
   retries: number;
   triggeredBy: TriggerSource;
   assertions: Array<{ type: string; value: string }>;
+  /** Location this run is for. Absent = DEFAULT_LOCATION. */
+  location?: string;
 }
 
 export interface CheckStartedPayload {
@@ -66,10 +93,23 @@ export interface CheckCompletedPayload {
   completedAt: string;
   durationMs: number;
   resultIds: string[];
+  /** Location the run executed from. Absent = DEFAULT_LOCATION. */
+  location?: string;
   summary: {
     passedAssertions: number;
     failedAssertions: number;
     webVitals: Record<string, number>;
+    /** Connection-phase timings (dnsLookup, tcpConnect, tlsTime, ttfb, ...). */
+    timings?: Record<string, number>;
+    /** axe-core violation counts by impact, plus `total`. Audited runs only. */
+    a11y?: Record<string, number>;
+    /** Soonest-expiring certificate across the run's https steps. */
+    cert?: {
+      host: string;
+      subject?: string;
+      daysUntilExpiry: number;
+      validTo: string;
+    };
   };
   errorMessage?: string | null;
 }
@@ -88,7 +128,15 @@ export interface AlertTriggeredPayload {
 export interface AlertResolvedPayload {
   incidentId: string;
   ruleId: string;
+  ruleName?: string;
+  checkId?: string | null;
+  severity?: Severity;
+  openedAt?: string;
   resolvedAt: string;
+  /** Run whose result recovered the rule. Absent for manual resolves. */
+  resolvedRunId?: string | null;
+  /** Actor behind a manual resolve. */
+  resolvedBy?: string | null;
 }
 
 export interface RumEventIngestedPayload {
@@ -54,10 +54,22 @@ export interface CheckSpec {
 export interface AlertRuleSpec {
   name: string;
   checkName?: string;
-  strategy: "THRESHOLD" | "CONSECUTIVE_FAILURES" | "COMPOSITE";
+  strategy: "THRESHOLD" | "CONSECUTIVE_FAILURES" | "COMPOSITE" | "CERT_EXPIRY";
   expression: Record<string, unknown>;
   severity: "INFO" | "WARNING" | "CRITICAL";
   cooldownSeconds?: number;
+  /** Repeat the notification while the incident stays unacknowledged. */
+  renotifySeconds?: number;
+  escalation?: EscalationTier[];
   channels?: string[];
   enabled?: boolean;
 }
+
+/**
+ * Escalation step: when an incident is still firing and unacknowledged
+ * `afterMinutes` after it opened, these channels are notified too.
+ */
+export interface EscalationTier {
+  afterMinutes: number;
+  channels: string[];
+}
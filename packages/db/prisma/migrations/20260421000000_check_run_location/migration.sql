@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CheckRun" ADD COLUMN     "location" TEXT NOT NULL DEFAULT 'local';
+
+-- CreateIndex
+CREATE INDEX "CheckRun_tenantId_checkId_location_scheduledAt_idx" ON "CheckRun"("tenantId", "checkId", "location", "scheduledAt");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AlertStrategy" ADD VALUE 'CERT_EXPIRY';
+
+-- AlterTable
+ALTER TABLE "CheckResult" ADD COLUMN     "tls" JSONB;
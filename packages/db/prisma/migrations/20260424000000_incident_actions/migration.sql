@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "AlertIncident" ADD COLUMN     "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN     "acknowledgedBy" TEXT,
+ADD COLUMN     "resolvedBy" TEXT,
+ADD COLUMN     "silenceReason" TEXT,
+ADD COLUMN     "silencedUntil" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN     "escalation" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "renotifySeconds" INTEGER;
+
+-- AlterTable
+ALTER TABLE "AlertIncident" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AlertIncident" ADD COLUMN     "resolvedRunId" TEXT;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "MaintenanceWindow" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "cron" TEXT,
+    "durationMinutes" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "checkNames" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenanceWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceWindow_tenantId_mode_idx" ON "MaintenanceWindow"("tenantId", "mode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MaintenanceWindow_tenantId_name_key" ON "MaintenanceWindow"("tenantId", "name");
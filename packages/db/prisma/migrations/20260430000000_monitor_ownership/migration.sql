@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Check" ADD COLUMN     "managedBy" TEXT,
+ADD COLUMN     "appliedSpec" JSONB;
+
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN     "managedBy" TEXT,
+ADD COLUMN     "sourceYamlHash" TEXT,
+ADD COLUMN     "appliedSpec" JSONB;
+
+-- AlterTable
+ALTER TABLE "NotificationChannel" ADD COLUMN     "managedBy" TEXT,
+ADD COLUMN     "sourceYamlHash" TEXT,
+ADD COLUMN     "appliedSpec" JSONB;
+
+-- AlterTable
+ALTER TABLE "MaintenanceWindow" ADD COLUMN     "managedBy" TEXT,
+ADD COLUMN     "sourceYamlHash" TEXT,
+ADD COLUMN     "appliedSpec" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "MonitorDeployment" ADD COLUMN     "yaml" TEXT,
+ADD COLUMN     "rollbackOf" TEXT;
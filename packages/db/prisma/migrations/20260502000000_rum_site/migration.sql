@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "RumSite" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "siteId" TEXT NOT NULL,
+    "name" TEXT,
+    "ingestKey" TEXT NOT NULL,
+    "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "eventsPerMinute" INTEGER NOT NULL DEFAULT 6000,
+    "replayChunksPerMinute" INTEGER NOT NULL DEFAULT 600,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RumSite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RumSite_ingestKey_key" ON "RumSite"("ingestKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RumSite_tenantId_siteId_key" ON "RumSite"("tenantId", "siteId");
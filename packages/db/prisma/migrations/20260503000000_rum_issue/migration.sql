@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "RumIssueStatus" AS ENUM ('OPEN', 'RESOLVED', 'IGNORED', 'REGRESSED');
+
+-- AlterTable
+ALTER TABLE "RumEvent" ADD COLUMN     "issueId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RumIssue" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL DEFAULT 'default',
+    "siteId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "culprit" TEXT,
+    "status" "RumIssueStatus" NOT NULL DEFAULT 'OPEN',
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "eventCount" INTEGER NOT NULL DEFAULT 0,
+    "sessionCount" INTEGER NOT NULL DEFAULT 0,
+    "releases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "firstRelease" TEXT,
+    "lastRelease" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedInRelease" TEXT,
+    "regressedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RumIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RumEvent_issueId_occurredAt_idx" ON "RumEvent"("issueId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "RumIssue_tenantId_siteId_status_lastSeenAt_idx" ON "RumIssue"("tenantId", "siteId", "status", "lastSeenAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RumIssue_tenantId_siteId_fingerprint_key" ON "RumIssue"("tenantId", "siteId", "fingerprint");
@@ -62,6 +62,19 @@ async function main() {
     update: {},
   });
 
+  // 4. RUM site for the test-site pages. A fixed key so the HTML can
+  // hard-code it; real sites get random keys from the API.
+  await prisma.rumSite.upsert({
+    where: { tenantId_siteId: { tenantId, siteId: "test-site-home" } },
+    create: {
+      tenantId,
+      siteId: "test-site-home",
+      name: "docker-compose test-site",
+      ingestKey: "rk_test_site_home_dev",
+    },
+    update: {},
+  });
+
   console.log("Seed completed for tenant=default");
 }
 
@@ -6,12 +6,17 @@ export * from "./repositories/alerts.js";
 export * from "./repositories/rum.js";
 export * from "./repositories/watchdog.js";
 export * from "./repositories/channels.js";
+export * from "./repositories/deliveries.js";
 export * from "./repositories/deployments.js";
 export * from "./repositories/sourceMaps.js";
 export * from "./repositories/replay.js";
 export * from "./repositories/outbox.js";
 export * from "./repositories/apiTokens.js";
 export * from "./repositories/audit.js";
+export * from "./repositories/maintenance.js";
+export * from "./repositories/managed.js";
+export * from "./repositories/rumSites.js";
+export * from "./repositories/rumIssues.js";
 export {
   Prisma,
   PrismaClient,
@@ -23,6 +28,7 @@ export type {
   AlertRule,
   AlertIncident,
   NotificationChannel,
+  NotificationDelivery,
   RumSession,
   RumEvent,
   WatchdogHeartbeat,
@@ -32,4 +38,7 @@ export type {
   DomainEvent,
   ApiToken,
   AuditLog,
+  MaintenanceWindow,
+  RumSite,
+  RumIssue,
 } from "./generated/client/index.js";
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import type { TenantContext } from "@insightview/core";
+import { openIncidentScope } from "./alerts.js";
+
+const ctx = { tenantId: "t1" } as TenantContext;
+
+// Applies the scalar and `in` filters a scope uses to in-memory rows.
+function matches(where: Record<string, unknown>, row: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([field, cond]) =>
+    cond && typeof cond === "object" && "in" in cond
+      ? (cond as { in: unknown[] }).in.includes(row[field])
+      : row[field] === cond,
+  );
+}
+
+describe("openIncidentScope", () => {
+  it("keeps a global rule's incidents on different checks apart", () => {
+    // One CERT_EXPIRY-style rule with checkId null, firing on two checks.
+    const incidents = [
+      { id: "inc-a", tenantId: "t1", ruleId: "rule-global", checkId: "check-a", status: "FIRING" },
+      { id: "inc-b", tenantId: "t1", ruleId: "rule-global", checkId: "check-b", status: "FIRING" },
+      { id: "inc-b-ack", tenantId: "t1", ruleId: "rule-global", checkId: "check-b", status: "ACKNOWLEDGED" },
+      { id: "inc-a-old", tenantId: "t1", ruleId: "rule-global", checkId: "check-a", status: "RESOLVED" },
+    ];
+    const scoped = (checkId: string) =>
+      incidents
+        .filter((i) => matches(openIncidentScope(ctx, "rule-global", checkId) as Record<string, unknown>, i))
+        .map((i) => i.id);
+
+    expect(scoped("check-a")).toEqual(["inc-a"]);
+    expect(scoped("check-b")).toEqual(["inc-b", "inc-b-ack"]);
+  });
+});
@@ -1,7 +1,8 @@
 import type { TenantContext } from "@insightview/core";
-import { NotFoundError } from "@insightview/core";
+import { ConflictError, NotFoundError } from "@insightview/core";
 import type {
   AlertStrategy as CoreStrategy,
+  EscalationTier,
   Severity as CoreSeverity,
 } from "@insightview/core";
 import { prisma } from "../client.js";
@@ -19,6 +20,8 @@ export interface AlertRuleInput {
   expression: Record<string, unknown>;
   severity: CoreSeverity;
   cooldownSeconds?: number;
+  renotifySeconds?: number | null;
+  escalation?: EscalationTier[];
   channelIds?: string[];
 }
 
@@ -57,6 +60,8 @@ export async function upsertAlertRule(
     expression: input.expression as unknown as Prisma.InputJsonValue,
     severity: input.severity,
     cooldownSeconds: input.cooldownSeconds ?? 300,
+    renotifySeconds: input.renotifySeconds ?? null,
+    escalation: (input.escalation ?? []) as unknown as Prisma.InputJsonValue,
     channelIds: input.channelIds ?? [],
   };
 
@@ -80,6 +85,17 @@ export async function getAlertRuleByName(
   return rule;
 }
 
+export async function getAlertRuleById(
+  ctx: TenantContext,
+  id: string,
+): Promise<AlertRule> {
+  const rule = await prisma.alertRule.findFirst({
+    where: { tenantId: ctx.tenantId, id },
+  });
+  if (!rule) throw new NotFoundError("AlertRule", id);
+  return rule;
+}
+
 export interface IncidentInput {
   id: string;
   ruleId: string;
@@ -90,12 +106,20 @@ export interface IncidentInput {
   payload: Record<string, unknown>;
 }
 
+/** Incidents still open: firing, or acknowledged and being handled. */
+const OPEN_STATUSES = ["FIRING", "ACKNOWLEDGED"] as const;
+
+/**
+ * Open incident for a dedupe key. Acknowledged incidents count as
+ * open so the evaluator doesn't open (and notify) a fresh one while
+ * on-call is already handling it.
+ */
 export async function findFiringIncident(
   ctx: TenantContext,
   dedupeKey: string,
 ): Promise<AlertIncident | null> {
   return prisma.alertIncident.findFirst({
-    where: { tenantId: ctx.tenantId, dedupeKey, status: "FIRING" },
+    where: { tenantId: ctx.tenantId, dedupeKey, status: { in: [...OPEN_STATUSES] } },
   });
 }
 
@@ -118,22 +142,53 @@ export async function createIncident(
   });
 }
 
+/**
+ * Open incidents of one rule on one check. Global rules (checkId
+ * null) apply to every check, so the check has to be part of the
+ * scope or one check's recovery would close another's incidents.
+ */
+export function openIncidentScope(
+  ctx: TenantContext,
+  ruleId: string,
+  checkId: string,
+): Prisma.AlertIncidentWhereInput {
+  return {
+    tenantId: ctx.tenantId,
+    ruleId,
+    checkId,
+    status: { in: [...OPEN_STATUSES] },
+  };
+}
+
+/**
+ * Resolve the open incidents a rule has on a check and return the
+ * ones this call resolved. Each incident is flipped with a
+ * status-guarded update, so when two evaluations race only one of
+ * them reports (and announces) the resolution. `runId` records the run
+ * that recovered.
+ */
 export async function resolveIncidentsForRule(
   ctx: TenantContext,
   ruleId: string,
-): Promise<number> {
-  const result = await prisma.alertIncident.updateMany({
-    where: {
-      tenantId: ctx.tenantId,
-      ruleId,
-      status: "FIRING",
-    },
-    data: {
-      status: "RESOLVED",
-      resolvedAt: new Date(),
-    },
+  opts: { checkId: string; runId?: string },
+): Promise<AlertIncident[]> {
+  const open = await prisma.alertIncident.findMany({
+    where: openIncidentScope(ctx, ruleId, opts.checkId),
   });
-  return result.count;
+  const resolved: AlertIncident[] = [];
+  for (const incident of open) {
+    const data = {
+      status: "RESOLVED" as const,
+      resolvedAt: new Date(),
+      resolvedRunId: opts.runId ?? null,
+    };
+    const result = await prisma.alertIncident.updateMany({
+      where: { id: incident.id, status: { in: [...OPEN_STATUSES] } },
+      data,
+    });
+    if (result.count === 1) resolved.push({ ...incident, ...data });
+  }
+  return resolved;
 }
 
 export async function markIncidentNotified(
@@ -145,6 +200,75 @@ export async function markIncidentNotified(
   });
 }
 
+/**
+ * Most recent notification sent for a dedupe key, across every
+ * incident that ever carried it. Cooldown is measured from here so a
+ * flapping check (fire, resolve, fire, ...) notifies once per window.
+ */
+export async function lastNotifiedAtForDedupeKey(
+  ctx: TenantContext,
+  dedupeKey: string,
+): Promise<Date | null> {
+  const row = await prisma.alertIncident.findFirst({
+    where: { tenantId: ctx.tenantId, dedupeKey, lastNotifiedAt: { not: null } },
+    orderBy: { lastNotifiedAt: "desc" },
+    select: { lastNotifiedAt: true },
+  });
+  return row?.lastNotifiedAt ?? null;
+}
+
+export type IncidentWithRule = AlertIncident & { rule: AlertRule };
+
+/**
+ * Firing, unsilenced incidents across all tenants, for the alerting
+ * service's notification sweep. Acknowledged incidents are excluded:
+ * once someone owns an incident it stops re-notifying and escalating.
+ * Walks every match a page at a time, oldest first, so a backlog of
+ * old incidents can't keep newer ones from ever being swept.
+ */
+export async function* iterateIncidentsForSweep(
+  pageSize = 500,
+): AsyncGenerator<IncidentWithRule> {
+  const now = new Date();
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await prisma.alertIncident.findMany({
+      where: {
+        status: "FIRING",
+        OR: [{ silencedUntil: null }, { silencedUntil: { lte: now } }],
+      },
+      include: { rule: true },
+      orderBy: [{ openedAt: "asc" }, { id: "asc" }],
+      take: pageSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    yield* page;
+    if (page.length < pageSize) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Optimistically claim a notification for an incident. Succeeds only
+ * if nobody else notified it since it was read, so several alerting
+ * replicas can run the sweep without double-sending.
+ */
+export async function claimIncidentNotification(
+  incident: Pick<AlertIncident, "id" | "lastNotifiedAt" | "escalationLevel">,
+  escalationLevel: number,
+): Promise<boolean> {
+  const result = await prisma.alertIncident.updateMany({
+    where: {
+      id: incident.id,
+      status: "FIRING",
+      lastNotifiedAt: incident.lastNotifiedAt,
+      escalationLevel: incident.escalationLevel,
+    },
+    data: { lastNotifiedAt: new Date(), escalationLevel },
+  });
+  return result.count === 1;
+}
+
 export async function listIncidents(
   ctx: TenantContext,
   limit = 50,
@@ -155,3 +279,75 @@ export async function listIncidents(
     take: limit,
   });
 }
+
+export async function getIncident(
+  ctx: TenantContext,
+  id: string,
+): Promise<AlertIncident> {
+  const incident = await prisma.alertIncident.findFirst({
+    where: { tenantId: ctx.tenantId, id },
+  });
+  if (!incident) throw new NotFoundError("AlertIncident", id);
+  return incident;
+}
+
+async function getOpenIncident(
+  ctx: TenantContext,
+  id: string,
+): Promise<AlertIncident> {
+  const incident = await getIncident(ctx, id);
+  if (incident.status === "RESOLVED") {
+    throw new ConflictError(`Incident '${id}' is already resolved`);
+  }
+  return incident;
+}
+
+export async function acknowledgeIncident(
+  ctx: TenantContext,
+  id: string,
+  actor: string,
+): Promise<AlertIncident> {
+  const incident = await getOpenIncident(ctx, id);
+  if (incident.status === "ACKNOWLEDGED") return incident;
+  return prisma.alertIncident.update({
+    where: { id },
+    data: { status: "ACKNOWLEDGED", acknowledgedAt: new Date(), acknowledgedBy: actor },
+  });
+}
+
+export async function resolveIncident(
+  ctx: TenantContext,
+  id: string,
+  actor: string,
+): Promise<AlertIncident> {
+  await getOpenIncident(ctx, id);
+  return prisma.alertIncident.update({
+    where: { id },
+    data: { status: "RESOLVED", resolvedAt: new Date(), resolvedBy: actor },
+  });
+}
+
+/**
+ * Mute notifications for an open incident until `until`. The status
+ * is left alone: a silenced incident still dedupes and still resolves
+ * when its rule recovers.
+ */
+export async function silenceIncident(
+  ctx: TenantContext,
+  id: string,
+  input: { until: Date; reason: string },
+): Promise<AlertIncident> {
+  await getOpenIncident(ctx, id);
+  return prisma.alertIncident.update({
+    where: { id },
+    data: { silencedUntil: input.until, silenceReason: input.reason },
+  });
+}
+
+/** Whether channels should stay quiet for this incident right now. */
+export function isIncidentMuted(incident: AlertIncident, now = new Date()): boolean {
+  return (
+    incident.status !== "FIRING" ||
+    (incident.silencedUntil !== null && incident.silencedUntil > now)
+  );
+}
@@ -1,5 +1,6 @@
 import type { TenantContext } from "@insightview/core";
 import type { NotificationChannelType } from "@insightview/core";
+import { NotFoundError } from "@insightview/core";
 import { prisma } from "../client.js";
 import type {
   NotificationChannel,
@@ -49,3 +50,15 @@ export async function findChannelsByNames(
     where: { tenantId: ctx.tenantId, name: { in: names }, enabled: true },
   });
 }
+
+/** Any channel by name, disabled ones included (for test-fires). */
+export async function getChannelByName(
+  ctx: TenantContext,
+  name: string,
+): Promise<NotificationChannel> {
+  const channel = await prisma.notificationChannel.findFirst({
+    where: { tenantId: ctx.tenantId, name },
+  });
+  if (!channel) throw new NotFoundError("NotificationChannel", name);
+  return channel;
+}
@@ -12,6 +12,8 @@ export interface CreateRunInput {
   checkId: string;
   scheduledAt: Date;
   triggeredBy: TriggerSource;
+  /** Vantage point the run executes from. Defaults to "local". */
+  location?: string;
 }
 
 export async function createRun(
@@ -25,6 +27,7 @@ export async function createRun(
       checkId: input.checkId,
       scheduledAt: input.scheduledAt,
       triggeredBy: input.triggeredBy,
+      location: input.location ?? "local",
       status: "QUEUED",
     },
   });
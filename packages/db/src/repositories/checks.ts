@@ -1,7 +1,7 @@
 import type { TenantContext } from "@insightview/core";
 import { NotFoundError } from "@insightview/core";
 import { prisma } from "../client.js";
-import type { Check, Prisma } from "../generated/client/index.js";
+import { Prisma, type Check } from "../generated/client/index.js";
 
 export interface CheckInput {
   name: string;
@@ -14,6 +14,10 @@ export interface CheckInput {
   retries?: number;
   locations?: string[];
   scriptRef?: string | null;
+  /** Executor request definition: HTTP request for API checks, probe for TCP checks. */
+  request?: Record<string, unknown> | null;
+  /** Browser journey fields (steps, auth, network, cookies, a11y); null = default step. */
+  runSpec?: Record<string, unknown> | null;
   assertions?: Array<{ type: string; value: string }>;
   tags?: string[];
   sourceYaml?: string | null;
@@ -80,6 +84,12 @@ export async function upsertCheck(
     retries: input.retries ?? 0,
     locations: input.locations ?? ["local"],
     scriptRef: input.scriptRef ?? null,
+    request: input.request
+      ? (input.request as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull,
+    runSpec: input.runSpec
+      ? (input.runSpec as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull,
     assertions: (input.assertions ?? []) as unknown as Prisma.InputJsonValue,
     tags: input.tags ?? [],
     sourceYaml: input.sourceYaml ?? null,
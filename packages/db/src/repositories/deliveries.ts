@@ -0,0 +1,46 @@
+import type { NotificationChannelType, TenantContext } from "@insightview/core";
+import { prisma } from "../client.js";
+import type { NotificationDelivery } from "../generated/client/index.js";
+
+export interface DeliveryInput {
+  incidentId: string;
+  channelName: string;
+  channelType: NotificationChannelType;
+  kind: string;
+  attempt: number;
+  status: "SUCCEEDED" | "FAILED";
+  statusCode?: number | null;
+  error?: string | null;
+  durationMs: number;
+}
+
+export async function recordNotificationDelivery(
+  ctx: TenantContext,
+  input: DeliveryInput,
+): Promise<NotificationDelivery> {
+  return prisma.notificationDelivery.create({
+    data: {
+      tenantId: ctx.tenantId,
+      incidentId: input.incidentId,
+      channelName: input.channelName,
+      channelType: input.channelType,
+      kind: input.kind,
+      attempt: input.attempt,
+      status: input.status,
+      statusCode: input.statusCode ?? null,
+      // Receivers can echo large bodies; keep the log row small.
+      error: input.error ? input.error.slice(0, 2000) : null,
+      durationMs: input.durationMs,
+    },
+  });
+}
+
+export async function listDeliveriesForIncident(
+  ctx: TenantContext,
+  incidentId: string,
+): Promise<NotificationDelivery[]> {
+  return prisma.notificationDelivery.findMany({
+    where: { tenantId: ctx.tenantId, incidentId },
+    orderBy: { createdAt: "asc" },
+  });
+}
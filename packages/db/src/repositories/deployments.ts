@@ -1,4 +1,5 @@
 import type { TenantContext } from "@insightview/core";
+import { NotFoundError } from "@insightview/core";
 import { prisma } from "../client.js";
 import type { MonitorDeployment, Prisma } from "../generated/client/index.js";
 
@@ -7,8 +8,14 @@ export interface DeploymentInput {
   source: "ACTION" | "API" | "CLI";
   yamlHash: string;
   diff: Record<string, unknown>;
+  /** Full applied YAML, kept so the deployment can be rolled back to. */
+  yaml: string;
+  rollbackOf?: string | null;
 }
 
+/** Deployment row without its YAML snapshot, for listings. */
+export type DeploymentSummary = Omit<MonitorDeployment, "yaml">;
+
 export async function recordDeployment(
   ctx: TenantContext,
   input: DeploymentInput,
@@ -20,6 +27,8 @@ export async function recordDeployment(
       source: input.source,
       yamlHash: input.yamlHash,
       diff: input.diff as unknown as Prisma.InputJsonValue,
+      yaml: input.yaml,
+      rollbackOf: input.rollbackOf ?? null,
     },
   });
 }
@@ -27,10 +36,36 @@ export async function recordDeployment(
 export async function listDeployments(
   ctx: TenantContext,
   limit = 20,
-): Promise<MonitorDeployment[]> {
+  owner?: string,
+): Promise<DeploymentSummary[]> {
   return prisma.monitorDeployment.findMany({
-    where: { tenantId: ctx.tenantId },
+    where: {
+      tenantId: ctx.tenantId,
+      // The deploy owner is recorded in the diff (see applyMonitors).
+      ...(owner ? { diff: { path: ["owner"], equals: owner } } : {}),
+    },
     orderBy: { createdAt: "desc" },
     take: limit,
+    select: {
+      id: true,
+      tenantId: true,
+      actor: true,
+      source: true,
+      yamlHash: true,
+      diff: true,
+      rollbackOf: true,
+      createdAt: true,
+    },
+  });
+}
+
+export async function getDeployment(
+  ctx: TenantContext,
+  id: string,
+): Promise<MonitorDeployment> {
+  const deployment = await prisma.monitorDeployment.findFirst({
+    where: { id, tenantId: ctx.tenantId },
   });
+  if (!deployment) throw new NotFoundError("MonitorDeployment", id);
+  return deployment;
 }
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { currentOccurrence, nextOccurrence, windowCoversCheck } from "./maintenance.js";
+
+const oneOff = {
+  startsAt: new Date("2026-05-01T02:00:00Z"),
+  endsAt: new Date("2026-05-01T02:30:00Z"),
+  cron: null,
+  durationMinutes: null,
+  timezone: "UTC",
+};
+
+const nightly = {
+  startsAt: null,
+  endsAt: null,
+  cron: "0 3 * * *",
+  durationMinutes: 20,
+  timezone: "UTC",
+};
+
+describe("maintenance occurrences", () => {
+  it("covers a one-off window from startsAt (inclusive) to endsAt (exclusive)", () => {
+    expect(currentOccurrence(oneOff, new Date("2026-05-01T01:59:59Z"))).toBeNull();
+    expect(currentOccurrence(oneOff, new Date("2026-05-01T02:00:00Z"))).not.toBeNull();
+    expect(currentOccurrence(oneOff, new Date("2026-05-01T02:30:00Z"))).toBeNull();
+    expect(nextOccurrence(oneOff, new Date("2026-04-30T00:00:00Z"))?.startsAt).toEqual(
+      oneOff.startsAt,
+    );
+    expect(nextOccurrence(oneOff, new Date("2026-05-02T00:00:00Z"))).toBeNull();
+  });
+
+  it("opens a recurring window at each cron start for durationMinutes", () => {
+    expect(currentOccurrence(nightly, new Date("2026-05-01T03:00:00Z"))).toEqual({
+      startsAt: new Date("2026-05-01T03:00:00Z"),
+      endsAt: new Date("2026-05-01T03:20:00Z"),
+    });
+    expect(currentOccurrence(nightly, new Date("2026-05-01T03:19:00Z"))).not.toBeNull();
+    expect(currentOccurrence(nightly, new Date("2026-05-01T03:20:00Z"))).toBeNull();
+    expect(nextOccurrence(nightly, new Date("2026-05-01T03:20:00Z"))?.startsAt).toEqual(
+      new Date("2026-05-02T03:00:00Z"),
+    );
+  });
+
+  it("evaluates cron in the window's timezone", () => {
+    const berlin = { ...nightly, timezone: "Europe/Berlin" };
+    // 03:00 CEST is 01:00 UTC.
+    expect(currentOccurrence(berlin, new Date("2026-05-01T01:10:00Z"))).not.toBeNull();
+    expect(currentOccurrence(berlin, new Date("2026-05-01T03:10:00Z"))).toBeNull();
+  });
+});
+
+describe("windowCoversCheck", () => {
+  const check = { name: "checkout-flow", tags: ["checkout", "critical"] };
+
+  it("matches by name or tag, and an empty scope covers everything", () => {
+    expect(windowCoversCheck({ checkNames: ["checkout-flow"], tags: [] }, check)).toBe(true);
+    expect(windowCoversCheck({ checkNames: [], tags: ["critical"] }, check)).toBe(true);
+    expect(windowCoversCheck({ checkNames: [], tags: [] }, check)).toBe(true);
+    expect(windowCoversCheck({ checkNames: ["homepage"], tags: ["search"] }, check)).toBe(false);
+  });
+});
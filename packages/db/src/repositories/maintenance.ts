@@ -0,0 +1,190 @@
+import type { MaintenanceMode, TenantContext } from "@insightview/core";
+import { NotFoundError } from "@insightview/core";
+import parser from "cron-parser";
+import { prisma } from "../client.js";
+import type { MaintenanceWindow } from "../generated/client/index.js";
+
+export interface MaintenanceWindowInput {
+  name: string;
+  mode: MaintenanceMode;
+  /** One-off windows. */
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  /** Recurring windows: cron start time + duration. */
+  cron?: string | null;
+  durationMinutes?: number | null;
+  timezone?: string;
+  checkNames?: string[];
+  tags?: string[];
+  reason?: string | null;
+}
+
+export interface MaintenanceOccurrence {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export async function listMaintenanceWindows(
+  ctx: TenantContext,
+): Promise<MaintenanceWindow[]> {
+  return prisma.maintenanceWindow.findMany({
+    where: { tenantId: ctx.tenantId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function getMaintenanceWindow(
+  ctx: TenantContext,
+  id: string,
+): Promise<MaintenanceWindow> {
+  const window = await prisma.maintenanceWindow.findFirst({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (!window) throw new NotFoundError("MaintenanceWindow", id);
+  return window;
+}
+
+export async function upsertMaintenanceWindow(
+  ctx: TenantContext,
+  input: MaintenanceWindowInput,
+): Promise<MaintenanceWindow> {
+  const data = {
+    tenantId: ctx.tenantId,
+    name: input.name,
+    mode: input.mode,
+    startsAt: input.startsAt ?? null,
+    endsAt: input.endsAt ?? null,
+    cron: input.cron ?? null,
+    durationMinutes: input.durationMinutes ?? null,
+    timezone: input.timezone ?? "UTC",
+    checkNames: input.checkNames ?? [],
+    tags: input.tags ?? [],
+    reason: input.reason ?? null,
+  };
+  return prisma.maintenanceWindow.upsert({
+    where: { tenantId_name: { tenantId: ctx.tenantId, name: input.name } },
+    create: data,
+    update: data,
+  });
+}
+
+export async function deleteMaintenanceWindow(
+  ctx: TenantContext,
+  id: string,
+): Promise<void> {
+  const result = await prisma.maintenanceWindow.deleteMany({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (result.count === 0) throw new NotFoundError("MaintenanceWindow", id);
+}
+
+/**
+ * Windows of `mode` in effect right now. Callers pair this with
+ * `windowCoversCheck` per check, so one query serves a whole tick.
+ */
+export async function activeMaintenanceWindows(
+  ctx: TenantContext,
+  mode: MaintenanceMode,
+  now = new Date(),
+): Promise<MaintenanceWindow[]> {
+  const windows = await prisma.maintenanceWindow.findMany({
+    where: { tenantId: ctx.tenantId, mode },
+  });
+  return windows.filter((w) => currentOccurrence(w, now) !== null);
+}
+
+/**
+ * Occurrences that are in progress or start within `horizonMs`,
+ * soonest first. One entry per window (its next occurrence).
+ */
+export async function upcomingMaintenance(
+  ctx: TenantContext,
+  horizonMs: number,
+  now = new Date(),
+): Promise<Array<{ window: MaintenanceWindow; occurrence: MaintenanceOccurrence }>> {
+  const windows = await prisma.maintenanceWindow.findMany({
+    where: { tenantId: ctx.tenantId },
+  });
+  return windows
+    .map((window) => ({
+      window,
+      occurrence: currentOccurrence(window, now) ?? nextOccurrence(window, now),
+    }))
+    .filter(
+      (u): u is { window: MaintenanceWindow; occurrence: MaintenanceOccurrence } =>
+        u.occurrence !== null && u.occurrence.startsAt.getTime() <= now.getTime() + horizonMs,
+    )
+    .sort((a, b) => a.occurrence.startsAt.getTime() - b.occurrence.startsAt.getTime());
+}
+
+type WindowTiming = Pick<
+  MaintenanceWindow,
+  "startsAt" | "endsAt" | "cron" | "durationMinutes" | "timezone"
+>;
+
+/** The occurrence containing `now`, or null outside the window. */
+export function currentOccurrence(
+  window: WindowTiming,
+  now = new Date(),
+): MaintenanceOccurrence | null {
+  if (window.cron) {
+    if (!window.durationMinutes) return null;
+    // The latest start at or before now; a start exactly at `now`
+    // counts, so step a millisecond past it before looking back.
+    const start = cronStep(window, new Date(now.getTime() + 1), "prev");
+    if (!start) return null;
+    const endsAt = new Date(start.getTime() + window.durationMinutes * 60_000);
+    return now < endsAt ? { startsAt: start, endsAt } : null;
+  }
+  if (window.startsAt && window.endsAt && window.startsAt <= now && now < window.endsAt) {
+    return { startsAt: window.startsAt, endsAt: window.endsAt };
+  }
+  return null;
+}
+
+/** The first occurrence starting after `now`, or null if none. */
+export function nextOccurrence(
+  window: WindowTiming,
+  now = new Date(),
+): MaintenanceOccurrence | null {
+  if (window.cron) {
+    if (!window.durationMinutes) return null;
+    const start = cronStep(window, now, "next");
+    return start
+      ? { startsAt: start, endsAt: new Date(start.getTime() + window.durationMinutes * 60_000) }
+      : null;
+  }
+  if (window.startsAt && window.endsAt && window.startsAt > now) {
+    return { startsAt: window.startsAt, endsAt: window.endsAt };
+  }
+  return null;
+}
+
+/** Whether a window's scope includes the check. Empty scope = whole tenant. */
+export function windowCoversCheck(
+  window: Pick<MaintenanceWindow, "checkNames" | "tags">,
+  check: { name: string; tags: string[] },
+): boolean {
+  if (window.checkNames.length === 0 && window.tags.length === 0) return true;
+  return (
+    window.checkNames.includes(check.name) ||
+    window.tags.some((t) => check.tags.includes(t))
+  );
+}
+
+/** Throws the parser's message for an invalid expression or timezone. */
+export function validateMaintenanceCron(cron: string, timezone = "UTC"): void {
+  parser.parseExpression(cron, { tz: timezone });
+}
+
+function cronStep(window: WindowTiming, from: Date, dir: "prev" | "next"): Date | null {
+  try {
+    const expr = parser.parseExpression(window.cron!, {
+      currentDate: from,
+      tz: window.timezone,
+    });
+    return (dir === "prev" ? expr.prev() : expr.next()).toDate();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+import type { TenantContext } from "@insightview/core";
+import { prisma } from "../client.js";
+import { Prisma } from "../generated/client/index.js";
+
+/** Resource kinds monitors-as-code can own. */
+export type ManagedKind = "Check" | "AlertRule" | "NotificationChannel" | "MaintenanceWindow";
+
+export interface Ownership {
+  /** Deploy owner, e.g. the repository the YAML lives in. */
+  managedBy: string;
+  sourceYamlHash: string;
+  /** Normalised spec as applied; drift detection compares against it. */
+  appliedSpec: Record<string, unknown>;
+}
+
+/**
+ * Stamp ownership on a row after a monitors-as-code upsert. The REST
+ * upserts never write these columns, so editing a managed resource in
+ * the UI leaves it managed and shows up as drift.
+ */
+export async function markManaged(
+  ctx: TenantContext,
+  kind: ManagedKind,
+  name: string,
+  ownership: Ownership,
+): Promise<void> {
+  const where = { tenantId: ctx.tenantId, name };
+  const data = {
+    managedBy: ownership.managedBy,
+    sourceYamlHash: ownership.sourceYamlHash,
+    appliedSpec: ownership.appliedSpec as unknown as Prisma.InputJsonValue,
+  };
+  switch (kind) {
+    case "Check":
+      await prisma.check.updateMany({ where, data });
+      return;
+    case "AlertRule":
+      await prisma.alertRule.updateMany({ where, data });
+      return;
+    case "NotificationChannel":
+      await prisma.notificationChannel.updateMany({ where, data });
+      return;
+    case "MaintenanceWindow":
+      await prisma.maintenanceWindow.updateMany({ where, data });
+      return;
+  }
+}
+
+export type PruneMode = "delete" | "disable";
+
+/**
+ * Remove a managed resource that disappeared from its owner's YAML.
+ * "disable" keeps the row (and a check's run history), switches it off
+ * and releases ownership, so later deploys leave it alone until the
+ * YAML declares it again. Maintenance windows have no enabled flag and
+ * are deleted in both modes.
+ */
+export async function pruneManaged(
+  ctx: TenantContext,
+  kind: ManagedKind,
+  name: string,
+  mode: PruneMode,
+): Promise<void> {
+  const where = { tenantId: ctx.tenantId, name };
+  const release = { enabled: false, managedBy: null, appliedSpec: Prisma.JsonNull };
+  switch (kind) {
+    case "Check":
+      if (mode === "disable") await prisma.check.updateMany({ where, data: release });
+      else await prisma.check.deleteMany({ where });
+      return;
+    case "AlertRule":
+      if (mode === "disable") await prisma.alertRule.updateMany({ where, data: release });
+      else await prisma.alertRule.deleteMany({ where });
+      return;
+    case "NotificationChannel":
+      if (mode === "disable") {
+        await prisma.notificationChannel.updateMany({ where, data: release });
+      } else {
+        await prisma.notificationChannel.deleteMany({ where });
+      }
+      return;
+    case "MaintenanceWindow":
+      await prisma.maintenanceWindow.deleteMany({ where });
+      return;
+  }
+}
@@ -44,6 +44,30 @@ export async function listReplayChunks(
   });
 }
 
+/**
+ * Walk a session's chunks in sequence order a page at a time, so a
+ * long recording can be streamed without loading every payload at
+ * once. Duplicate sequences come out in arrival order.
+ */
+export async function* iterateReplayChunks(
+  ctx: TenantContext,
+  sessionId: string,
+  pageSize = 50,
+): AsyncGenerator<RumReplayChunk> {
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await prisma.rumReplayChunk.findMany({
+      where: { tenantId: ctx.tenantId, sessionId },
+      orderBy: [{ sequence: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      take: pageSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    yield* page;
+    if (page.length < pageSize) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
 export async function countReplayChunksForSite(
   ctx: TenantContext,
   siteId: string,
@@ -13,6 +13,10 @@ export interface ResultInput {
   navigationStats: Record<string, unknown>;
   assertionsPassed: number;
   assertionsFailed: number;
+  /** axe-core audit for the step; absent when the audit didn't run. */
+  a11y?: Record<string, unknown> | null;
+  /** Certificate of the step's origin, https steps only. */
+  tls?: Record<string, unknown> | null;
   traceS3Key?: string | null;
   screenshotS3Key?: string | null;
 }
@@ -37,6 +41,8 @@ export async function insertResults(
         navigationStats: input.navigationStats as unknown as Prisma.InputJsonValue,
         assertionsPassed: input.assertionsPassed,
         assertionsFailed: input.assertionsFailed,
+        a11y: (input.a11y ?? undefined) as unknown as Prisma.InputJsonValue | undefined,
+        tls: (input.tls ?? undefined) as unknown as Prisma.InputJsonValue | undefined,
         traceS3Key: input.traceS3Key ?? null,
         screenshotS3Key: input.screenshotS3Key ?? null,
       },
@@ -55,3 +61,43 @@ export async function listResultsByRun(
     orderBy: { createdAt: "asc" },
   });
 }
+
+export interface A11yTrendPoint {
+  runId: string;
+  createdAt: Date;
+  /** Violation counts by impact plus `total`, summed over the run's steps. */
+  counts: Record<string, number>;
+}
+
+/**
+ * Per-run accessibility violation counts for a check, newest first.
+ * Only runs with at least one audited step appear.
+ */
+export async function a11yTrendByCheck(
+  ctx: TenantContext,
+  checkId: string,
+  limit = 50,
+): Promise<A11yTrendPoint[]> {
+  const rows = await prisma.checkResult.findMany({
+    where: { tenantId: ctx.tenantId, run: { checkId } },
+    orderBy: { createdAt: "desc" },
+    select: { runId: true, createdAt: true, a11y: true },
+    take: limit * 10,
+  });
+  const byRun = new Map<string, A11yTrendPoint>();
+  for (const row of rows) {
+    const audit = row.a11y as { counts?: Record<string, number>; total?: number } | null;
+    if (!audit?.counts) continue;
+    let point = byRun.get(row.runId);
+    if (!point) {
+      if (byRun.size >= limit) continue;
+      point = { runId: row.runId, createdAt: row.createdAt, counts: { total: 0 } };
+      byRun.set(row.runId, point);
+    }
+    for (const [impact, n] of Object.entries(audit.counts)) {
+      point.counts[impact] = (point.counts[impact] ?? 0) + n;
+    }
+    point.counts.total += audit.total ?? 0;
+  }
+  return [...byRun.values()];
+}
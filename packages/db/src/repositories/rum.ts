@@ -1,5 +1,6 @@
 import type { TenantContext } from "@insightview/core";
 import type { RumEventType } from "@insightview/core";
+import { NotFoundError } from "@insightview/core";
 import { prisma } from "../client.js";
 import type {
   RumEvent,
@@ -18,6 +19,7 @@ export interface RumEventInput {
   url: string;
   occurredAt: Date;
   attributes: Record<string, unknown>;
+  issueId?: string | null;
 }
 
 export interface RumSessionUpsertInput {
@@ -69,6 +71,7 @@ export async function insertRumEvents(
       url: e.url,
       occurredAt: e.occurredAt,
       attributes: e.attributes as unknown as Prisma.InputJsonValue,
+      issueId: e.issueId ?? null,
     })),
     skipDuplicates: true,
   });
@@ -112,6 +115,30 @@ export async function listRumSessions(
   });
 }
 
+export async function getRumSession(
+  ctx: TenantContext,
+  id: string,
+): Promise<RumSession> {
+  const session = await prisma.rumSession.findFirst({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (!session) throw new NotFoundError("RumSession", id);
+  return session;
+}
+
+/** A session's events in the order they happened, for its timeline. */
+export async function listSessionEvents(
+  ctx: TenantContext,
+  sessionId: string,
+  limit = 1000,
+): Promise<RumEvent[]> {
+  return prisma.rumEvent.findMany({
+    where: { tenantId: ctx.tenantId, sessionId },
+    orderBy: { occurredAt: "asc" },
+    take: limit,
+  });
+}
+
 export async function rumWebVitalSummary(
   ctx: TenantContext,
   siteId: string,
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { compareReleases, statusAfterOccurrence } from "./rumIssues.js";
+
+describe("compareReleases", () => {
+  it("orders by numeric version after the last @", () => {
+    expect(compareReleases("app@1.10.0", "app@1.9.2")).toBe(1);
+    expect(compareReleases("v2", "v1.9")).toBe(1);
+    expect(compareReleases("app@1.2", "app@1.2.0")).toBe(0);
+    expect(compareReleases("web@2.0.0-rc.1", "web@2.0.0")).toBe(0);
+    expect(compareReleases("a1b2c3d", "app@1.0.0")).toBeNull();
+  });
+
+  it("never orders commit SHAs, even ones that start with digits", () => {
+    expect(compareReleases("1a2b3c4", "0ffe123")).toBeNull();
+    expect(compareReleases("app@9f8e7d6", "app@1.0.0")).toBeNull();
+    expect(compareReleases("v2.1.0", "2e4a9c1")).toBeNull();
+  });
+});
+
+describe("statusAfterOccurrence", () => {
+  const resolved = {
+    status: "RESOLVED" as const,
+    resolvedInRelease: "app@1.3.0",
+    releases: ["app@1.1.0", "app@1.2.0"],
+  };
+
+  it("leaves anything but RESOLVED alone", () => {
+    for (const status of ["OPEN", "IGNORED", "REGRESSED"] as const) {
+      expect(statusAfterOccurrence({ ...resolved, status }, "app@9.0.0")).toBe(status);
+    }
+  });
+
+  it("regresses in the fix release or later, not in older ones", () => {
+    expect(statusAfterOccurrence(resolved, "app@1.3.0")).toBe("REGRESSED");
+    expect(statusAfterOccurrence(resolved, "app@1.4.0")).toBe("REGRESSED");
+    expect(statusAfterOccurrence(resolved, "app@1.2.0")).toBe("RESOLVED");
+  });
+
+  it("without a fix release, regresses only in a release newer than any seen", () => {
+    const issue = { ...resolved, resolvedInRelease: null };
+    expect(statusAfterOccurrence(issue, "app@1.2.0")).toBe("RESOLVED");
+    expect(statusAfterOccurrence(issue, "app@1.1.5")).toBe("RESOLVED");
+    expect(statusAfterOccurrence(issue, "app@1.2.1")).toBe("REGRESSED");
+    expect(statusAfterOccurrence({ ...issue, releases: ["3f9c2e1"] }, "8ab01d4")).toBe("REGRESSED");
+  });
+
+  it("treats any recurrence without release information as a regression", () => {
+    expect(statusAfterOccurrence(resolved, null)).toBe("REGRESSED");
+  });
+});
@@ -0,0 +1,249 @@
+import type { TenantContext } from "@insightview/core";
+import { NotFoundError, RumIssueStatus } from "@insightview/core";
+import { prisma } from "../client.js";
+import { Prisma, type RumEvent, type RumIssue } from "../generated/client/index.js";
+
+/**
+ * RUM issues: ERROR events grouped by fingerprint (computed by
+ * `@insightview/rum-errors` at ingest). Counts are kept on the issue
+ * row so listing issues never scans events; the collector records a
+ * batch's occurrences before inserting the events so an event's
+ * session can be checked against the issue's earlier events.
+ */
+
+export interface RumIssueOccurrence {
+  eventId: string;
+  sessionId: string;
+  fingerprint: string;
+  title: string;
+  culprit: string | null;
+  release: string | null;
+  occurredAt: Date;
+}
+
+export interface RumIssueQuery {
+  siteId?: string;
+  status?: RumIssueStatus;
+  limit?: number;
+}
+
+/** Releases remembered per issue, most recent last. */
+const MAX_RELEASES = 50;
+
+export async function listRumIssues(
+  ctx: TenantContext,
+  query: RumIssueQuery = {},
+): Promise<RumIssue[]> {
+  return prisma.rumIssue.findMany({
+    where: { tenantId: ctx.tenantId, siteId: query.siteId, status: query.status },
+    orderBy: { lastSeenAt: "desc" },
+    take: query.limit ?? 100,
+  });
+}
+
+export async function getRumIssue(ctx: TenantContext, id: string): Promise<RumIssue> {
+  const issue = await prisma.rumIssue.findFirst({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (!issue) throw new NotFoundError("RumIssue", id);
+  return issue;
+}
+
+/** The issue's latest events, newest first. */
+export async function listIssueEvents(
+  ctx: TenantContext,
+  issueId: string,
+  limit = 20,
+): Promise<RumEvent[]> {
+  return prisma.rumEvent.findMany({
+    where: { tenantId: ctx.tenantId, issueId },
+    orderBy: { occurredAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Triage. Resolving may name the release the fix ships in; events
+ * from that release or later then reopen the issue as REGRESSED.
+ * Reopening or ignoring clears the resolution.
+ */
+export async function updateRumIssueStatus(
+  ctx: TenantContext,
+  id: string,
+  status: Exclude<RumIssueStatus, "REGRESSED">,
+  resolvedInRelease?: string | null,
+): Promise<RumIssue> {
+  await getRumIssue(ctx, id);
+  const resolved = status === RumIssueStatus.RESOLVED;
+  return prisma.rumIssue.update({
+    where: { id },
+    data: {
+      status,
+      resolvedAt: resolved ? new Date() : null,
+      resolvedInRelease: resolved ? (resolvedInRelease ?? null) : null,
+    },
+  });
+}
+
+/**
+ * Fold a batch's error occurrences into their issues and return the
+ * issue id for each fingerprint. Occurrences whose event is already
+ * stored (a retried beacon) map to their issue but aren't counted again.
+ */
+export async function recordRumIssues(
+  ctx: TenantContext,
+  siteId: string,
+  occurrences: RumIssueOccurrence[],
+): Promise<Map<string, string>> {
+  const issueIds = new Map<string, string>();
+  if (occurrences.length === 0) return issueIds;
+  const stored = await prisma.rumEvent.findMany({
+    where: { tenantId: ctx.tenantId, id: { in: occurrences.map((o) => o.eventId) } },
+    select: { id: true },
+  });
+  const seen = new Set(stored.map((e) => e.id));
+
+  const groups = new Map<string, RumIssueOccurrence[]>();
+  for (const o of occurrences) {
+    const group = groups.get(o.fingerprint) ?? [];
+    group.push(o);
+    groups.set(o.fingerprint, group);
+  }
+  for (const [fingerprint, group] of groups) {
+    const fresh = group
+      .filter((o) => !seen.has(o.eventId))
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    const where = {
+      tenantId_siteId_fingerprint: { tenantId: ctx.tenantId, siteId, fingerprint },
+    };
+    const issue =
+      fresh.length > 0
+        ? await recordOccurrences(ctx, siteId, fresh)
+        : await prisma.rumIssue.findUnique({ where });
+    if (issue) issueIds.set(fingerprint, issue.id);
+  }
+  return issueIds;
+}
+
+async function recordOccurrences(
+  ctx: TenantContext,
+  siteId: string,
+  fresh: RumIssueOccurrence[],
+): Promise<RumIssue> {
+  const first = fresh[0];
+  const last = fresh[fresh.length - 1];
+  const releases = [...new Set(fresh.flatMap((o) => (o.release ? [o.release] : [])))];
+  const sessions = [...new Set(fresh.map((o) => o.sessionId))];
+  const where = {
+    tenantId_siteId_fingerprint: {
+      tenantId: ctx.tenantId,
+      siteId,
+      fingerprint: first.fingerprint,
+    },
+  };
+
+  let existing = await prisma.rumIssue.findUnique({ where });
+  if (!existing) {
+    try {
+      return await prisma.rumIssue.create({
+        data: {
+          tenantId: ctx.tenantId,
+          siteId,
+          fingerprint: first.fingerprint,
+          title: first.title,
+          culprit: first.culprit,
+          firstSeenAt: first.occurredAt,
+          lastSeenAt: last.occurredAt,
+          eventCount: fresh.length,
+          sessionCount: sessions.length,
+          releases: releases.slice(-MAX_RELEASES),
+          firstRelease: releases[0] ?? null,
+          lastRelease: last.release ?? releases[releases.length - 1] ?? null,
+        },
+      });
+    } catch (err) {
+      // Another collector created it first; count against theirs.
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) {
+        throw err;
+      }
+      existing = await prisma.rumIssue.findUniqueOrThrow({ where });
+    }
+  }
+
+  const known = await prisma.rumEvent.findMany({
+    where: { tenantId: ctx.tenantId, issueId: existing.id, sessionId: { in: sessions } },
+    distinct: ["sessionId"],
+    select: { sessionId: true },
+  });
+  let status: RumIssueStatus = existing.status;
+  let knownReleases = existing.releases;
+  for (const o of fresh) {
+    status = statusAfterOccurrence({ ...existing, status, releases: knownReleases }, o.release);
+    if (o.release && !knownReleases.includes(o.release)) knownReleases = [...knownReleases, o.release];
+  }
+  const regressed = status === RumIssueStatus.REGRESSED && existing.status !== status;
+  return prisma.rumIssue.update({
+    where: { id: existing.id },
+    data: {
+      status,
+      lastSeenAt: last.occurredAt > existing.lastSeenAt ? last.occurredAt : existing.lastSeenAt,
+      eventCount: { increment: fresh.length },
+      sessionCount: { increment: sessions.length - known.length },
+      releases: knownReleases.slice(-MAX_RELEASES),
+      firstRelease: existing.firstRelease ?? releases[0] ?? null,
+      lastRelease: last.release ?? existing.lastRelease,
+      ...(regressed ? { regressedAt: new Date() } : {}),
+    },
+  });
+}
+
+/**
+ * Status after one more event from `release`. Only RESOLVED moves: it
+ * becomes REGRESSED when the error shows up in the fix release or a
+ * later one, or, with no fix release named, in a release newer than
+ * any the issue was seen in. Events from older releases are clients
+ * still running the old code. Without release information every
+ * recurrence counts as a regression.
+ */
+export function statusAfterOccurrence(
+  issue: Pick<RumIssue, "status" | "resolvedInRelease" | "releases">,
+  release: string | null,
+): RumIssueStatus {
+  if (issue.status !== RumIssueStatus.RESOLVED) return issue.status;
+  if (!release) return RumIssueStatus.REGRESSED;
+  const fixedIn = issue.resolvedInRelease;
+  if (fixedIn) {
+    const order = compareReleases(release, fixedIn);
+    if (order !== null || release === fixedIn) {
+      return (order ?? 0) >= 0 ? RumIssueStatus.REGRESSED : RumIssueStatus.RESOLVED;
+    }
+  }
+  if (issue.releases.includes(release)) return RumIssueStatus.RESOLVED;
+  // Unseen and newer than every comparable release seen so far.
+  const newer = issue.releases.every((r) => (compareReleases(release, r) ?? 1) > 0);
+  return newer ? RumIssueStatus.REGRESSED : RumIssueStatus.RESOLVED;
+}
+
+/**
+ * Order two release names by their version (`app@1.10.0` > `app@1.9.2`,
+ * `v2` > `v1.9`); null unless both are versions after the last `@`
+ * (an optional semver pre-release or build suffix is ignored). Commit
+ * SHAs never compare, even ones that start with digits.
+ */
+export function compareReleases(a: string, b: string): number | null {
+  const va = versionOf(a);
+  const vb = versionOf(b);
+  if (!va || !vb) return null;
+  for (let i = 0; i < Math.max(va.length, vb.length); i++) {
+    const d = (va[i] ?? 0) - (vb[i] ?? 0);
+    if (d !== 0) return Math.sign(d);
+  }
+  return 0;
+}
+
+function versionOf(release: string): number[] | null {
+  const match = /^v?(\d+(?:\.\d+)*)(?:[-+][0-9A-Za-z.-]+)?$/.exec(
+    release.slice(release.lastIndexOf("@") + 1),
+  );
+  return match ? match[1].split(".").map(Number) : null;
+}
@@ -0,0 +1,97 @@
+import { randomBytes } from "node:crypto";
+import type { TenantContext } from "@insightview/core";
+import { ConflictError, NotFoundError } from "@insightview/core";
+import { prisma } from "../client.js";
+import { Prisma, type RumSite } from "../generated/client/index.js";
+
+/**
+ * RUM sites and their public ingest keys. Unlike API tokens the key
+ * is not a secret (it ships in every page that loads the SDK), so it
+ * is stored as-is and can be shown again; what protects ingest is the
+ * Origin allow-list and the quotas. Rotate a key that is being abused.
+ */
+
+export interface RumSiteInput {
+  siteId: string;
+  name?: string | null;
+  allowedOrigins?: string[];
+  eventsPerMinute?: number;
+  replayChunksPerMinute?: number;
+  enabled?: boolean;
+}
+
+function newIngestKey(): string {
+  return `rk_${randomBytes(18).toString("base64url")}`;
+}
+
+export async function listRumSites(ctx: TenantContext): Promise<RumSite[]> {
+  return prisma.rumSite.findMany({
+    where: { tenantId: ctx.tenantId },
+    orderBy: { siteId: "asc" },
+  });
+}
+
+export async function getRumSite(ctx: TenantContext, id: string): Promise<RumSite> {
+  const site = await prisma.rumSite.findFirst({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (!site) throw new NotFoundError("RumSite", id);
+  return site;
+}
+
+export async function createRumSite(
+  ctx: TenantContext,
+  input: RumSiteInput,
+): Promise<RumSite> {
+  try {
+    return await prisma.rumSite.create({
+      data: {
+        tenantId: ctx.tenantId,
+        siteId: input.siteId,
+        name: input.name ?? null,
+        ingestKey: newIngestKey(),
+        allowedOrigins: input.allowedOrigins ?? [],
+        eventsPerMinute: input.eventsPerMinute,
+        replayChunksPerMinute: input.replayChunksPerMinute,
+        enabled: input.enabled ?? true,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new ConflictError(`RUM site '${input.siteId}' already exists`);
+    }
+    throw err;
+  }
+}
+
+export async function updateRumSite(
+  ctx: TenantContext,
+  id: string,
+  patch: Partial<Omit<RumSiteInput, "siteId">>,
+): Promise<RumSite> {
+  await getRumSite(ctx, id);
+  return prisma.rumSite.update({ where: { id }, data: patch });
+}
+
+/** Issue a new key; the old one stops working once collector caches expire. */
+export async function rotateRumSiteKey(ctx: TenantContext, id: string): Promise<RumSite> {
+  await getRumSite(ctx, id);
+  return prisma.rumSite.update({ where: { id }, data: { ingestKey: newIngestKey() } });
+}
+
+export async function deleteRumSite(ctx: TenantContext, id: string): Promise<void> {
+  const result = await prisma.rumSite.deleteMany({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (result.count === 0) throw new NotFoundError("RumSite", id);
+}
+
+/**
+ * Tenant-less lookup for the collector: the key is what tells it
+ * which tenant a beacon belongs to. Disabled sites come back too so
+ * the caller can say why it rejected them.
+ */
+export async function findRumSiteByKey(ingestKey: string): Promise<RumSite | null> {
+  if (!ingestKey) return null;
+  return prisma.rumSite.findUnique({ where: { ingestKey } });
+}
@@ -1,5 +1,6 @@
 import { createHash } from "node:crypto";
 import type { TenantContext } from "@insightview/core";
+import { NotFoundError } from "@insightview/core";
 import { prisma } from "../client.js";
 import type { SourceMap } from "../generated/client/index.js";
 
@@ -7,6 +8,8 @@ import type { SourceMap } from "../generated/client/index.js";
  * Source map repository. Uploaded source maps are keyed by
  * (tenantId, release, bundleUrl) so the error enrichment pipeline
  * can look up the correct map for a given frame URL + app version.
+ * A release's age is when its first map was uploaded; retention keeps
+ * the newest releases and drops the rest.
  */
 
 export interface SourceMapInput {
@@ -67,3 +70,67 @@ export async function listSourceMapsByRelease(
     orderBy: { createdAt: "desc" },
   });
 }
+
+export interface SourceMapRelease {
+  release: string;
+  maps: number;
+  firstUploadedAt: Date;
+  lastUploadedAt: Date;
+}
+
+/** Releases with uploaded maps, newest first. */
+export async function listSourceMapReleases(
+  ctx: TenantContext,
+  limit = 50,
+): Promise<SourceMapRelease[]> {
+  const rows = await prisma.sourceMap.groupBy({
+    by: ["release"],
+    where: { tenantId: ctx.tenantId },
+    _count: { _all: true },
+    _min: { createdAt: true },
+    _max: { createdAt: true },
+    orderBy: { _min: { createdAt: "desc" } },
+    take: limit,
+  });
+  return rows.map((r) => ({
+    release: r.release,
+    maps: r._count._all,
+    firstUploadedAt: r._min.createdAt ?? new Date(0),
+    lastUploadedAt: r._max.createdAt ?? new Date(0),
+  }));
+}
+
+export async function deleteSourceMap(ctx: TenantContext, id: string): Promise<void> {
+  const result = await prisma.sourceMap.deleteMany({
+    where: { id, tenantId: ctx.tenantId },
+  });
+  if (result.count === 0) throw new NotFoundError("SourceMap", id);
+}
+
+/** Delete every map of a release; returns how many there were. */
+export async function deleteSourceMapsByRelease(
+  ctx: TenantContext,
+  release: string,
+): Promise<number> {
+  const result = await prisma.sourceMap.deleteMany({
+    where: { tenantId: ctx.tenantId, release },
+  });
+  return result.count;
+}
+
+/**
+ * Retention: keep the maps of the `keep` newest releases and delete
+ * the rest. Returns the releases removed.
+ */
+export async function pruneSourceMapReleases(
+  ctx: TenantContext,
+  keep: number,
+): Promise<Array<{ release: string; maps: number }>> {
+  const releases = await listSourceMapReleases(ctx, 10_000);
+  const stale = releases.slice(Math.max(0, keep));
+  if (stale.length === 0) return [];
+  await prisma.sourceMap.deleteMany({
+    where: { tenantId: ctx.tenantId, release: { in: stale.map((r) => r.release) } },
+  });
+  return stale.map((r) => ({ release: r.release, maps: r.maps }));
+}
@@ -76,6 +76,15 @@ export class BullMqScheduler implements RepeatingJobScheduler {
     }
   }
 
+  async removeSchedulesForTopic(topic: string): Promise<number> {
+    const queue = this.getQueue(topic);
+    const repeatables = await queue.getRepeatableJobs();
+    for (const r of repeatables) {
+      await queue.removeRepeatableByKey(r.key);
+    }
+    return repeatables.length;
+  }
+
   async listSchedules(): Promise<Array<{ key: string; cron: string }>> {
     const all: Array<{ key: string; cron: string }> = [];
     for (const queue of this.queues.values()) {
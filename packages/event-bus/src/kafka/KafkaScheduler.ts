@@ -80,6 +80,17 @@ export class KafkaScheduler implements RepeatingJobScheduler {
     }
   }
 
+  async removeSchedulesForTopic(topic: string): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.schedules) {
+      if (entry.topic !== topic) continue;
+      entry.task.stop();
+      this.schedules.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
   async listSchedules(): Promise<Array<{ key: string; cron: string }>> {
     return [...this.schedules.entries()].map(([key, entry]) => ({
       key,
@@ -62,6 +62,9 @@ export interface RepeatingJobScheduler {
   }): Promise<void>;
   /** Remove a schedule registered by key. */
   removeSchedule(key: string): Promise<void>;
+  /** Remove every schedule publishing to `topic`, including ones
+   *  registered by an earlier process. Returns how many went. */
+  removeSchedulesForTopic(topic: string): Promise<number>;
   /** List all registered schedules. */
   listSchedules(): Promise<Array<{ key: string; cron: string }>>;
   close(): Promise<void>;
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { AlertStrategy, Severity } from "@insightview/core";
+
+// Expression shape per strategy, mirroring what each strategy in
+// packages/alerting-kit/src/strategies reads. Strict, so a misspelt
+// key fails validation instead of leaving a rule that silently never
+// fires.
+const Comparison = z.enum([">", ">=", "<", "<=", "=="]);
+
+const ThresholdExpression = z
+  .object({ metric: z.string().min(1), operator: Comparison.optional(), value: z.number() })
+  .strict();
+
+const ConsecutiveFailuresExpression = z
+  .object({
+    threshold: z.number().int().positive().optional(),
+    quorum: z.number().int().positive().optional(),
+    windowSeconds: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const CompositeSubRule = z.discriminatedUnion("strategy", [
+  z.object({ strategy: z.literal("THRESHOLD"), expression: ThresholdExpression }).strict(),
+  z
+    .object({
+      strategy: z.literal("CONSECUTIVE_FAILURES"),
+      expression: ConsecutiveFailuresExpression.default({}),
+    })
+    .strict(),
+]);
+
+export const AlertExpressionSchemas: Record<AlertStrategy, z.ZodTypeAny> = {
+  THRESHOLD: ThresholdExpression,
+  CONSECUTIVE_FAILURES: ConsecutiveFailuresExpression,
+  COMPOSITE: z
+    .object({
+      all: z.array(CompositeSubRule).min(1).optional(),
+      any: z.array(CompositeSubRule).min(1).optional(),
+    })
+    .strict()
+    .refine((e) => !e.all !== !e.any, "exactly one of `all` or `any` is required"),
+  ANOMALY_DETECTION: z
+    .object({
+      metric: z.string().min(1),
+      threshold: z.number().positive().optional(),
+      window: z.number().int().positive().optional(),
+      minSamples: z.number().int().min(2).optional(),
+      direction: z.enum(["higher", "lower", "both"]).optional(),
+      consecutiveBreaches: z.number().int().positive().optional(),
+    })
+    .strict(),
+  RUM_METRIC: z
+    .object({
+      metric: z.string().min(1),
+      percentile: z.enum(["p50", "p75", "p95", "mean"]).optional(),
+      operator: z.enum([">", ">=", "<", "<="]).optional(),
+      value: z.number(),
+      minSampleCount: z.number().int().min(0).optional(),
+    })
+    .strict(),
+  CERT_EXPIRY: z
+    .object({
+      thresholds: z
+        .array(
+          z.union([
+            z.number(),
+            z.object({ days: z.number(), severity: z.nativeEnum(Severity).optional() }).strict(),
+          ]),
+        )
+        .min(1)
+        .optional(),
+    })
+    .strict(),
+};
+
+/** Checks `expression` against its strategy's schema. Shared with /v1/alert-rules. */
+export function refineAlertExpression(
+  rule: { strategy: AlertStrategy; expression: Record<string, unknown> },
+  ctx: z.RefinementCtx,
+): void {
+  const result = AlertExpressionSchemas[rule.strategy].safeParse(rule.expression);
+  for (const issue of result.error?.issues ?? []) {
+    ctx.addIssue({ ...issue, path: ["expression", ...issue.path] });
+  }
+}
+
+/**
+ * AlertRule spec minus the check reference, which is the one field
+ * that differs between apiVersions (`checkName` in v1, `check` in v2).
+ */
+export const AlertRuleSpecBase = z.object({
+  enabled: z.boolean().optional(),
+  strategy: z.nativeEnum(AlertStrategy),
+  expression: z.record(z.unknown()).default({}),
+  severity: z.nativeEnum(Severity),
+  cooldownSeconds: z.number().int().positive().optional(),
+  channels: z.array(z.string()).optional(),
+  renotifySeconds: z.number().int().positive().optional(),
+  escalation: z
+    .array(
+      z.object({
+        afterMinutes: z.number().int().positive(),
+        channels: z.array(z.string()).min(1),
+      }),
+    )
+    .optional(),
+});
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { NotificationChannelType, SECRET_REF_PREFIX } from "@insightview/core";
+
+/**
+ * `{ secretRef: NAME }` stands in for a credential in channel config.
+ * The service that sends reads NAME from its environment at send time
+ * (packages/alerting-kit/src/channels/secrets.ts), so the value never
+ * lands in YAML, the database or a deploy payload.
+ *
+ * NAME must carry SECRET_REF_PREFIX. Anyone who can write a channel
+ * picks the header or URL a ref is sent to, so an unprefixed name
+ * would hand them DATABASE_URL or any other variable of the sender.
+ */
+export const SecretRefSchema = z
+  .object({
+    secretRef: z
+      .string()
+      .regex(
+        new RegExp(`^${SECRET_REF_PREFIX}[A-Z0-9_]+$`),
+        `must be an env var name starting with ${SECRET_REF_PREFIX}`,
+      ),
+  })
+  .strict();
+
+/** True when `value` is, or contains, a `{ secretRef }` object. */
+function containsSecretRef(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsSecretRef);
+  if (!value || typeof value !== "object") return false;
+  return "secretRef" in value || Object.values(value).some(containsSecretRef);
+}
+
+// Non-credential config values; refs there would be sent verbatim.
+const plainValue = z
+  .unknown()
+  .refine((v) => !containsSecretRef(v), "secret refs are only allowed in credential fields");
+
+/**
+ * Required config per channel type; extra keys pass through as long as
+ * they hold no secret refs. Mirrors what each impl in
+ * packages/alerting-kit/src/channels reads. `secret` wraps the
+ * credential-bearing fields.
+ */
+function channelConfigSchemas(
+  secret: (plain: z.ZodTypeAny) => z.ZodTypeAny,
+): Record<NotificationChannelType, z.ZodTypeAny> {
+  const url = z.string().url();
+  return {
+    STDOUT: z.object({}).catchall(plainValue),
+    SLACK_WEBHOOK: z.object({ webhookUrl: secret(url) }).catchall(plainValue),
+    GENERIC_WEBHOOK: z
+      .object({
+        url: z.union([url, SecretRefSchema]),
+        headers: z.record(z.union([z.string(), SecretRefSchema])).optional(),
+        template: z.string().min(1).optional(),
+        contentType: z.string().optional(),
+        secret: secret(z.string().min(16)).optional(),
+      })
+      .catchall(plainValue),
+    PAGERDUTY: z
+      .object({ routingKey: secret(z.string().min(1)), url: url.optional() })
+      .catchall(plainValue),
+    OPSGENIE: z
+      .object({
+        apiKey: secret(z.string().min(1)),
+        url: url.optional(),
+        responders: z.array(z.record(plainValue)).optional(),
+        tags: z.array(z.string()).optional(),
+      })
+      .catchall(plainValue),
+    TEAMS_WEBHOOK: z
+      .object({ webhookUrl: secret(url), dashboardUrl: url.optional() })
+      .catchall(plainValue),
+    DISCORD_WEBHOOK: z
+      .object({ webhookUrl: secret(url), username: z.string().optional() })
+      .catchall(plainValue),
+    EMAIL: z
+      .object({
+        host: z.string().min(1),
+        port: z.number().int().positive().optional(),
+        secure: z.boolean().optional(),
+        user: z.string().optional(),
+        password: secret(z.string()).optional(),
+        from: z.string().min(1),
+        to: z.union([z.string().email(), z.array(z.string().email()).min(1)]),
+      })
+      .catchall(plainValue),
+  };
+}
+
+/** REST callers may send credentials inline or as secret refs. */
+export const ChannelConfigSchemas = channelConfigSchemas((plain) =>
+  z.union([plain, SecretRefSchema]),
+);
+
+// YAML lives in git, so credentials there must be secret refs.
+export const YamlChannelConfigSchemas = channelConfigSchemas(() => SecretRefSchema);
+
+// Any channel may override its retry policy (apps/alerting/src/delivery.ts).
+const RetryConfig = z
+  .object({
+    maxAttempts: z.number().int().min(1).max(6).optional(),
+    backoffMs: z.number().int().min(0).max(60_000).optional(),
+  })
+  .optional();
+
+/** Validates `config` for the channel's type, plus `config.retry`. */
+export function refineChannelConfig(schemas: Record<NotificationChannelType, z.ZodTypeAny>) {
+  return (
+    channel: { type: NotificationChannelType; config?: Record<string, unknown> },
+    ctx: z.RefinementCtx,
+  ): void => {
+    const config = channel.config ?? {};
+    const issues = [
+      ...(schemas[channel.type].safeParse(config).error?.issues ?? []),
+      ...(RetryConfig.safeParse(config.retry).error?.issues.map((i) => ({
+        ...i,
+        path: ["retry", ...i.path],
+      })) ?? []),
+    ];
+    for (const issue of issues) {
+      ctx.addIssue({ ...issue, path: ["config", ...issue.path] });
+    }
+  };
+}
+
+export const NotificationChannelSpecSchema = z
+  .object({
+    type: z.nativeEnum(NotificationChannelType),
+    enabled: z.boolean().optional(),
+    config: z.record(z.unknown()).optional(),
+  })
+  .superRefine(refineChannelConfig(YamlChannelConfigSchemas));
+
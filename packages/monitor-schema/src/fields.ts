@@ -0,0 +1,145 @@
+import { z } from "zod";
+
+/**
+ * Building blocks of a `Check` document shared by every apiVersion.
+ * Both modes read the same fields: the platform runner executes
+ * `targetUrl` / `request` / `tcp`, native-run additionally runs
+ * `steps` and the auth / network / exporter settings.
+ */
+
+export const AssertionSchema = z.object({
+  type: z.string(),
+  value: z.string(),
+});
+
+export const RequestSchema = z.object({
+  method: z
+    .enum(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"])
+    .optional(),
+  headers: z.record(z.string()).optional(),
+  body: z
+    .union([z.string(), z.record(z.unknown()), z.array(z.unknown())])
+    .optional(),
+  redirect: z.enum(["follow", "manual", "error"]).optional(),
+  maxRedirects: z.number().int().min(0).optional(),
+  expectedStatus: z.array(z.number().int().min(100).max(599)).optional(),
+  verifyTls: z.boolean().optional(),
+});
+
+export const TcpSchema = z.object({
+  tls: z.boolean().optional(),
+  servername: z.string().optional(),
+  verifyTls: z.boolean().optional(),
+  send: z.string().optional(),
+  expect: z.string().optional(),
+});
+
+const timeoutMs = z.number().int().positive().optional();
+
+export const ActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("goto"), url: z.string().min(1), timeoutMs }),
+  z.object({ action: z.literal("click"), selector: z.string().min(1), timeoutMs }),
+  z.object({
+    action: z.literal("fill"),
+    selector: z.string().min(1),
+    value: z.string().optional(),
+    valueEnv: z.string().optional(),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal("select"),
+    selector: z.string().min(1),
+    value: z.union([z.string(), z.array(z.string())]),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal("press"),
+    key: z.string().min(1),
+    selector: z.string().optional(),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal("waitForSelector"),
+    selector: z.string().min(1),
+    state: z.enum(["attached", "detached", "visible", "hidden"]).optional(),
+    timeoutMs,
+  }),
+  z.object({ action: z.literal("waitForURL"), url: z.string().min(1), timeoutMs }),
+  z.object({
+    action: z.literal("upload"),
+    selector: z.string().min(1),
+    files: z.array(z.string().min(1)).min(1),
+    timeoutMs,
+  }),
+  z.object({ action: z.literal("evaluate"), script: z.string().min(1), timeoutMs }),
+]);
+
+export const StepSchema = z
+  .object({
+    name: z.string().min(1),
+    url: z.string().min(1).optional(),
+    waitFor: z
+      .object({
+        selector: z.string().optional(),
+        networkIdle: z.boolean().optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .optional(),
+    assertions: z.array(AssertionSchema).optional(),
+    request: RequestSchema.optional(),
+    actions: z.array(ActionSchema).optional(),
+  })
+  .refine((s) => s.url !== undefined || (s.actions?.length ?? 0) > 0, {
+    message: "step needs a url, actions, or both",
+  });
+
+export const AuthSchema = z.object({
+  strategy: z.enum([
+    "none",
+    "storage-state",
+    "form-login",
+    "totp",
+    "oauth-client-credentials",
+    "vault-oidc",
+  ]),
+  config: z.record(z.unknown()).default({}),
+});
+
+export const NetworkSchema = z.object({
+  profile: z.enum(["direct", "proxy", "mtls", "tailscale", "wireguard"]),
+  config: z.record(z.unknown()).optional(),
+});
+
+export const ExporterSchema = z.object({
+  type: z.enum([
+    "stdout",
+    "pushgateway",
+    "s3",
+    "github-artifact",
+    "healthchecks",
+    "platform",
+  ]),
+  config: z.record(z.unknown()).optional(),
+});
+
+export const CookieSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  domain: z.string().optional(),
+  path: z.string().optional(),
+});
+
+export const A11ySchema = z.union([
+  z.boolean(),
+  z.object({
+    tags: z.array(z.string()).optional(),
+    disableRules: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+  }),
+]);
+
+export const MetadataSchema = z.object({
+  name: z.string().min(1).max(120),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
@@ -0,0 +1,14 @@
+/**
+ * Monitors-as-code schema shared by the API (`/v1/monitors/*`), the
+ * CLI (`insightview validate` / `deploy`) and synthetic-kit
+ * (`native-run`), so the same YAML means the same thing everywhere.
+ */
+export * from "./fields.js";
+export * from "./alertRule.js";
+export * from "./channel.js";
+export * from "./maintenance.js";
+export * from "./v1.js";
+export * from "./v2.js";
+export * from "./migrate.js";
+export * from "./parse.js";
+export * from "./jsonSchema.js";
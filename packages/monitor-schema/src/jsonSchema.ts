@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { MonitorDocV1Schema } from "./v1.js";
+import { MonitorDocV2Schema } from "./v2.js";
+
+/**
+ * JSON Schema for editors (yaml-language-server, IntelliJ), covering
+ * every supported apiVersion. Generated from the zod schemas and
+ * committed as schema/monitors.schema.json; regenerate with
+ * `pnpm --filter @insightview/monitor-schema json-schema`.
+ *
+ * Refinements (cron syntax, per-strategy expressions, secret refs)
+ * only partly survive the conversion; `insightview validate` is the
+ * authority.
+ */
+export function monitorsJsonSchema(): Record<string, unknown> {
+  return {
+    ...zodToJsonSchema(z.union([MonitorDocV2Schema, MonitorDocV1Schema]), {
+      name: "InsightViewMonitor",
+    }),
+    title: "InsightView monitors-as-code document",
+  };
+}
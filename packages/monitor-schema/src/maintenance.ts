@@ -0,0 +1,70 @@
+import { z } from "zod";
+import parser from "cron-parser";
+import { MaintenanceMode } from "@insightview/core";
+
+/**
+ * A window is either one-off (`startsAt` + `endsAt`) or recurring
+ * (`cron` start + `durationMinutes`). Scope by `checks` and/or `tags`;
+ * neither means every check in the tenant. Shared with the
+ * /v1/maintenance-windows route.
+ */
+export const MaintenanceWindowSpecObject = z.object({
+  mode: z.nativeEnum(MaintenanceMode),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+  cron: z.string().optional(),
+  durationMinutes: z.number().int().positive().optional(),
+  timezone: z.string().optional(),
+  checks: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export function refineMaintenanceTiming(
+  spec: z.infer<typeof MaintenanceWindowSpecObject>,
+  ctx: z.RefinementCtx,
+): void {
+  if (spec.cron) {
+    if (spec.startsAt || spec.endsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "use either cron + durationMinutes or startsAt + endsAt, not both",
+      });
+    }
+    if (!spec.durationMinutes) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["durationMinutes"],
+        message: "recurring windows need durationMinutes",
+      });
+    }
+    try {
+      // Same parser (and UTC default) the scheduler uses.
+      parser.parseExpression(spec.cron, { tz: spec.timezone ?? "UTC" });
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cron"],
+        message: `invalid cron or timezone: ${(err as Error).message}`,
+      });
+    }
+    return;
+  }
+  if (!spec.startsAt || !spec.endsAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "one-off windows need startsAt and endsAt",
+    });
+  } else if (spec.endsAt <= spec.startsAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["endsAt"],
+      message: "endsAt must be after startsAt",
+    });
+  }
+}
+
+export const MaintenanceWindowSpecSchema = MaintenanceWindowSpecObject.superRefine(
+  refineMaintenanceTiming,
+);
+
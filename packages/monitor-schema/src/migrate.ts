@@ -0,0 +1,50 @@
+import type { MonitorDocV1 } from "./v1.js";
+import { V2_API_VERSION, type MonitorDocV2 } from "./v2.js";
+
+/**
+ * Rewrite a validated v1 document as v2 (see v2.ts for what changed).
+ * Lossless: every v1 field has a v2 home.
+ */
+export function migrateV1ToV2(doc: MonitorDocV1): MonitorDocV2 {
+  const apiVersion = V2_API_VERSION;
+  switch (doc.kind) {
+    case "Check": {
+      const { tags, native, ...spec } = doc.spec;
+      // v1 allowed tags in both places; keep all of them.
+      const merged = [...new Set([...(doc.metadata.tags ?? []), ...(tags ?? [])])];
+      return {
+        apiVersion,
+        kind: "Check",
+        metadata: defined({
+          ...doc.metadata,
+          tags: merged.length > 0 ? merged : doc.metadata.tags,
+        }),
+        spec: defined({
+          ...spec,
+          auth: native?.auth,
+          network: native?.network,
+          exporters: native?.exporters,
+          cookies: native?.preCookies,
+          a11y: native?.a11y,
+          native: native?.location ? { location: native.location } : undefined,
+        }),
+      };
+    }
+    case "AlertRule": {
+      const { checkName, ...spec } = doc.spec;
+      return {
+        apiVersion,
+        kind: "AlertRule",
+        metadata: doc.metadata,
+        spec: defined({ ...spec, check: checkName }),
+      };
+    }
+    default:
+      return { ...doc, apiVersion };
+  }
+}
+
+/** Drop undefined keys so migrated docs serialise like hand-written ones. */
+function defined<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
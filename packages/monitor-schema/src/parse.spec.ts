@@ -0,0 +1,144 @@
+import { readFileSync } from "node:fs";
+import { describe, it, expect } from "vitest";
+import { parseMonitorDoc } from "./parse.js";
+import { monitorsJsonSchema } from "./jsonSchema.js";
+
+describe("parseMonitorDoc", () => {
+  it("migrates a v1 Check, hoisting spec.native and spec.tags", () => {
+    const result = parseMonitorDoc({
+      apiVersion: "insightview.io/v1",
+      kind: "Check",
+      metadata: { name: "login" },
+      spec: {
+        schedule: "*/5 * * * *",
+        targetUrl: "https://example.com/login",
+        tags: ["auth"],
+        steps: [{ name: "open", url: "https://example.com/login" }],
+        native: {
+          auth: { strategy: "form-login", config: { usernameEnv: "APP_USER" } },
+          preCookies: [{ name: "consent", value: "yes" }],
+          location: "gha-eu",
+          a11y: true,
+        },
+      },
+    });
+    expect(result).toEqual({
+      success: true,
+      apiVersion: "insightview.io/v1",
+      data: {
+        apiVersion: "insightview.io/v2",
+        kind: "Check",
+        metadata: { name: "login", tags: ["auth"] },
+        spec: {
+          type: "browser",
+          schedule: "*/5 * * * *",
+          targetUrl: "https://example.com/login",
+          steps: [{ name: "open", url: "https://example.com/login" }],
+          auth: { strategy: "form-login", config: { usernameEnv: "APP_USER" } },
+          cookies: [{ name: "consent", value: "yes" }],
+          a11y: true,
+          native: { location: "gha-eu" },
+        },
+      },
+    });
+  });
+
+  it("merges v1 metadata.tags and spec.tags without duplicates", () => {
+    const parsed = parseMonitorDoc({
+      apiVersion: "insightview.io/v1",
+      kind: "Check",
+      metadata: { name: "login", tags: ["auth", "smoke"] },
+      spec: { targetUrl: "https://example.com/login", tags: ["smoke", "eu"] },
+    });
+    expect(parsed.success && parsed.data.metadata.tags).toEqual(["auth", "smoke", "eu"]);
+  });
+
+  it("keeps the native-run location label out of platform locations", () => {
+    const v1 = (spec: Record<string, unknown>) =>
+      parseMonitorDoc({
+        apiVersion: "insightview.io/v1",
+        kind: "Check",
+        metadata: { name: "product" },
+        spec: { targetUrl: "https://shop.example.com", ...spec },
+      });
+    const labelOnly = v1({ native: { location: "github-actions-us-east" } });
+    expect(labelOnly.success && labelOnly.data.kind === "Check" && labelOnly.data.spec).toEqual({
+      type: "browser",
+      targetUrl: "https://shop.example.com",
+      native: { location: "github-actions-us-east" },
+    });
+    const both = v1({ locations: ["eu-west"], native: { location: "github-actions-us-east" } });
+    expect(both.success && both.data.kind === "Check" && both.data.spec.locations).toEqual([
+      "eu-west",
+    ]);
+  });
+
+  it("renames AlertRule checkName to check", () => {
+    const result = parseMonitorDoc({
+      apiVersion: "insightview.io/v1",
+      kind: "AlertRule",
+      metadata: { name: "login-down" },
+      spec: {
+        checkName: "login",
+        strategy: "CONSECUTIVE_FAILURES",
+        expression: { threshold: 2 },
+        severity: "CRITICAL",
+      },
+    });
+    expect(result.success && result.data.kind === "AlertRule" && result.data.spec).toEqual({
+      check: "login",
+      strategy: "CONSECUTIVE_FAILURES",
+      expression: { threshold: 2 },
+      severity: "CRITICAL",
+    });
+  });
+
+  it("accepts v2 documents as written", () => {
+    const doc = {
+      apiVersion: "insightview.io/v2",
+      kind: "Check",
+      metadata: { name: "api-health" },
+      spec: { type: "api", targetUrl: "https://example.com/health", cookies: [] },
+    };
+    expect(parseMonitorDoc(doc)).toEqual({ success: true, apiVersion: doc.apiVersion, data: doc });
+  });
+
+  it("rejects v1-only fields in v2 and unknown apiVersions", () => {
+    const v2WithCheckName = parseMonitorDoc({
+      apiVersion: "insightview.io/v2",
+      kind: "AlertRule",
+      metadata: { name: "r" },
+      spec: {
+        checkName: "x",
+        strategy: "THRESHOLD",
+        expression: { metric: "LCP", value: 1 },
+        severity: "INFO",
+      },
+    });
+    expect(v2WithCheckName.success).toBe(false);
+    if (!v2WithCheckName.success) {
+      expect(v2WithCheckName.error.issues[0]).toMatchObject({
+        code: "unrecognized_keys",
+        keys: ["checkName"],
+        path: ["spec"],
+      });
+    }
+
+    const unknown = parseMonitorDoc({ apiVersion: "insightview.io/v9", kind: "Check" });
+    expect(unknown.success).toBe(false);
+    if (!unknown.success) {
+      expect(unknown.error.issues[0].path).toEqual(["apiVersion"]);
+      expect(unknown.error.issues[0].message).toMatch(/insightview\.io\/v1, insightview\.io\/v2/);
+    }
+  });
+});
+
+describe("monitorsJsonSchema", () => {
+  it("matches the committed schema/monitors.schema.json", () => {
+    const committed = JSON.parse(
+      readFileSync(new URL("../schema/monitors.schema.json", import.meta.url), "utf8"),
+    );
+    // Out of date? Run `pnpm --filter @insightview/monitor-schema json-schema`.
+    expect(committed).toEqual(monitorsJsonSchema());
+  });
+});
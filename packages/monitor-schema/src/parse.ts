@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { MonitorDocV1Schema, V1_API_VERSION } from "./v1.js";
+import { MonitorDocV2Schema, V2_API_VERSION, type MonitorDocV2 } from "./v2.js";
+import { migrateV1ToV2 } from "./migrate.js";
+
+/** The shape every consumer works with: the latest apiVersion. */
+export type MonitorDoc = MonitorDocV2;
+
+export const LATEST_API_VERSION = V2_API_VERSION;
+
+/**
+ * Each supported apiVersion validates against its own schema, then
+ * upgrades one version at a time until it is the latest. Adding v3 is
+ * one schema module, one migration and one entry below.
+ */
+const versions: Record<string, SchemaVersion> = {
+  [V1_API_VERSION]: schemaVersion(MonitorDocV1Schema, migrateV1ToV2),
+  [V2_API_VERSION]: schemaVersion(MonitorDocV2Schema, (doc) => doc),
+};
+
+export const SUPPORTED_API_VERSIONS = Object.keys(versions);
+
+export type ParseMonitorDocResult =
+  | { success: true; data: MonitorDoc; /** apiVersion as written. */ apiVersion: string }
+  | { success: false; error: z.ZodError };
+
+/**
+ * Validate one already-parsed YAML document (any supported apiVersion)
+ * and return it as the latest version. Issue paths refer to the
+ * document as written, so errors point at the user's own YAML.
+ */
+export function parseMonitorDoc(json: unknown): ParseMonitorDocResult {
+  const apiVersion = (json as { apiVersion?: unknown } | null)?.apiVersion;
+  const version = typeof apiVersion === "string" ? versions[apiVersion] : undefined;
+  if (!version) {
+    return {
+      success: false,
+      error: new z.ZodError([
+        {
+          code: z.ZodIssueCode.custom,
+          path: ["apiVersion"],
+          message: `unsupported apiVersion ${JSON.stringify(apiVersion)}; expected one of ${SUPPORTED_API_VERSIONS.join(", ")}`,
+        },
+      ]),
+    };
+  }
+  const result = version.parse(json);
+  if (!result.success) return result;
+  return { ...result, apiVersion: apiVersion as string };
+}
+
+interface SchemaVersion {
+  parse(json: unknown): { success: true; data: MonitorDoc } | { success: false; error: z.ZodError };
+}
+
+/** Pairs a schema with the upgrade for its output, so each is typed against the other. */
+function schemaVersion<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  upgrade: (doc: T) => MonitorDoc,
+): SchemaVersion {
+  return {
+    parse(json) {
+      const result = schema.safeParse(json);
+      return result.success
+        ? { success: true, data: upgrade(result.data) }
+        : { success: false, error: result.error };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import {
+  A11ySchema,
+  AssertionSchema,
+  AuthSchema,
+  CookieSchema,
+  ExporterSchema,
+  MetadataSchema,
+  NetworkSchema,
+  RequestSchema,
+  StepSchema,
+  TcpSchema,
+} from "./fields.js";
+import { AlertRuleSpecBase, refineAlertExpression } from "./alertRule.js";
+import { NotificationChannelSpecSchema } from "./channel.js";
+import { MaintenanceWindowSpecSchema } from "./maintenance.js";
+
+/**
+ * insightview.io/v1. Still accepted everywhere; parseMonitorDoc
+ * migrates it to the latest version (migrate.ts) so consumers only
+ * ever handle one shape.
+ *
+ * v1 kept native-run settings under `spec.native`, allowed `tags` on
+ * both metadata and spec, and named an AlertRule's check `checkName`.
+ */
+export const V1_API_VERSION = "insightview.io/v1";
+
+const CheckSpecV1 = z.object({
+  type: z.enum(["browser", "api", "tcp"]).default("browser"),
+  enabled: z.boolean().optional(),
+  schedule: z.string().optional(),
+  targetUrl: z.string().min(1),
+  timeoutMs: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).optional(),
+  locations: z.array(z.string()).optional(),
+  scriptRef: z.string().optional(),
+  assertions: z.array(AssertionSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  steps: z.array(StepSchema).optional(),
+  request: RequestSchema.optional(),
+  tcp: TcpSchema.optional(),
+  native: z
+    .object({
+      auth: AuthSchema.optional(),
+      network: NetworkSchema.optional(),
+      exporters: z.array(ExporterSchema).optional(),
+      preCookies: z.array(CookieSchema).optional(),
+      location: z.string().optional(),
+      a11y: A11ySchema.optional(),
+    })
+    .optional(),
+});
+
+const apiVersion = z.literal(V1_API_VERSION);
+
+export const MonitorDocV1Schema = z.discriminatedUnion("kind", [
+  z.object({ apiVersion, kind: z.literal("Check"), metadata: MetadataSchema, spec: CheckSpecV1 }),
+  z.object({
+    apiVersion,
+    kind: z.literal("AlertRule"),
+    metadata: MetadataSchema,
+    spec: AlertRuleSpecBase.extend({ checkName: z.string().optional() }).superRefine(
+      refineAlertExpression,
+    ),
+  }),
+  z.object({
+    apiVersion,
+    kind: z.literal("NotificationChannel"),
+    metadata: MetadataSchema,
+    spec: NotificationChannelSpecSchema,
+  }),
+  z.object({
+    apiVersion,
+    kind: z.literal("MaintenanceWindow"),
+    metadata: MetadataSchema,
+    spec: MaintenanceWindowSpecSchema,
+  }),
+]);
+
+export type MonitorDocV1 = z.infer<typeof MonitorDocV1Schema>;
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import {
+  A11ySchema,
+  AssertionSchema,
+  AuthSchema,
+  CookieSchema,
+  ExporterSchema,
+  MetadataSchema,
+  NetworkSchema,
+  RequestSchema,
+  StepSchema,
+  TcpSchema,
+} from "./fields.js";
+import { AlertRuleSpecBase, refineAlertExpression } from "./alertRule.js";
+import { NotificationChannelSpecSchema } from "./channel.js";
+import { MaintenanceWindowSpecSchema } from "./maintenance.js";
+
+/**
+ * insightview.io/v2, the current version. One flat Check spec for
+ * both modes, and both run the same journey (steps, auth, network,
+ * cookies, a11y). Only mode-specific settings are skipped: native-run
+ * ignores `schedule`, the platform ignores `exporters` and `native`.
+ *
+ * Changes from v1:
+ *   - `spec.native.{auth,network,exporters,a11y}` move up to `spec`
+ *     and `spec.native.preCookies` becomes `spec.cookies`.
+ *     `spec.native.location` stays put: it only labels native-run
+ *     results and is not a platform scheduling location.
+ *   - `spec.tags` is gone; tags live on `metadata` only.
+ *   - AlertRule `spec.checkName` is renamed `spec.check`.
+ */
+export const V2_API_VERSION = "insightview.io/v2";
+
+export const CheckSpecSchema = z.object({
+  type: z.enum(["browser", "api", "tcp"]).default("browser"),
+  enabled: z.boolean().optional(),
+  /** Cron; required by the platform, ignored by native-run (the workflow schedules). */
+  schedule: z.string().optional(),
+  targetUrl: z.string().min(1),
+  timeoutMs: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).optional(),
+  locations: z.array(z.string()).optional(),
+  scriptRef: z.string().optional(),
+  assertions: z.array(AssertionSchema).optional(),
+  steps: z.array(StepSchema).optional(),
+  request: RequestSchema.optional(),
+  tcp: TcpSchema.optional(),
+  auth: AuthSchema.optional(),
+  network: NetworkSchema.optional(),
+  /** Native-run only; platform runs report to the platform. */
+  exporters: z.array(ExporterSchema).optional(),
+  cookies: z.array(CookieSchema).optional(),
+  a11y: A11ySchema.optional(),
+  /** Native-run only; the platform ignores it. */
+  native: z.object({ location: z.string().optional() }).strict().optional(),
+})
+  // Strict so v1 leftovers (tags, moved native fields) fail loudly instead of vanishing.
+  .strict();
+
+export const AlertRuleSpecSchema = AlertRuleSpecBase.extend({
+  check: z.string().optional(),
+})
+  .strict()
+  .superRefine(refineAlertExpression);
+
+const apiVersion = z.literal(V2_API_VERSION);
+
+export const MonitorDocV2Schema = z.discriminatedUnion("kind", [
+  z.object({ apiVersion, kind: z.literal("Check"), metadata: MetadataSchema, spec: CheckSpecSchema }),
+  z.object({
+    apiVersion,
+    kind: z.literal("AlertRule"),
+    metadata: MetadataSchema,
+    spec: AlertRuleSpecSchema,
+  }),
+  z.object({
+    apiVersion,
+    kind: z.literal("NotificationChannel"),
+    metadata: MetadataSchema,
+    spec: NotificationChannelSpecSchema,
+  }),
+  z.object({
+    apiVersion,
+    kind: z.literal("MaintenanceWindow"),
+    metadata: MetadataSchema,
+    spec: MaintenanceWindowSpecSchema,
+  }),
+]);
+
+export type MonitorDocV2 = z.infer<typeof MonitorDocV2Schema>;
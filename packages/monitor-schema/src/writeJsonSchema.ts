@@ -0,0 +1,7 @@
+import { writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { monitorsJsonSchema } from "./jsonSchema.js";
+
+const target = fileURLToPath(new URL("../schema/monitors.schema.json", import.meta.url));
+writeFileSync(target, JSON.stringify(monitorsJsonSchema(), null, 2) + "\n");
+console.log(`wrote ${target}`);
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { SourceMapGenerator } from "source-map";
+import type { TenantContext } from "@insightview/core";
+import { createStackResolver } from "./deobfuscate.js";
+
+const ctx = { tenantId: "t1" } as TenantContext;
+
+const source = [
+  "export function loadCart(cart) {",
+  "  const items = cart.items;",
+  "  return items.map((item) => item.id);",
+  "}",
+  "",
+  "export function checkout() {",
+  "  return loadCart(undefined);",
+  "}",
+].join("\n");
+
+/** A map for a one-line bundle: column 100 is src/cart.ts line 2, col 16. */
+function bundleMap(file: string): string {
+  const gen = new SourceMapGenerator({ file });
+  gen.addMapping({
+    generated: { line: 1, column: 100 },
+    original: { line: 2, column: 16 },
+    source: "src/cart.ts",
+    name: "loadCart",
+  });
+  gen.setSourceContent("src/cart.ts", source);
+  return gen.toString();
+}
+
+const stackFor = (bundle: string) =>
+  [
+    "TypeError: Cannot read properties of undefined (reading 'items')",
+    `    at a (https://cdn.test/${bundle}:1:101)`,
+    "    at https://cdn.test/vendor.js:1:5",
+  ].join("\n");
+
+function countingLookup(maps: Record<string, string>) {
+  const calls: string[] = [];
+  const lookup = async (_ctx: TenantContext, release: string, url: string) => {
+    calls.push(`${release} ${url}`);
+    return maps[url] ?? null;
+  };
+  return { calls, lookup };
+}
+
+describe("createStackResolver", () => {
+  it("maps frames to the original source with context lines", async () => {
+    const { lookup } = countingLookup({ "https://cdn.test/app.js": bundleMap("app.js") });
+    const resolver = createStackResolver({ lookup, contextLines: 1 });
+    const result = await resolver.resolve(ctx, "1.0.0", stackFor("app.js"));
+
+    expect(result.resolved).toBe(1);
+    expect(result.frames).toHaveLength(2);
+    expect(result.frames[0]).toEqual({
+      func: "a",
+      url: "https://cdn.test/app.js",
+      line: 1,
+      col: 101,
+      original: {
+        func: "loadCart",
+        source: "src/cart.ts",
+        line: 2,
+        col: 17,
+        context: {
+          pre: ["export function loadCart(cart) {"],
+          line: "  const items = cart.items;",
+          post: ["  return items.map((item) => item.id);"],
+        },
+      },
+    });
+    // No map for the vendor bundle: kept as reported.
+    expect(result.frames[1].original).toBeUndefined();
+    expect(result.stack.split("\n")[1]).toBe("    at loadCart (src/cart.ts:2:17)");
+    expect(result.stack.split("\n")[2]).toBe("    at https://cdn.test/vendor.js:1:5");
+  });
+
+  it("leaves frames raw without a release", async () => {
+    const { calls, lookup } = countingLookup({ "https://cdn.test/app.js": bundleMap("app.js") });
+    const resolver = createStackResolver({ lookup });
+    const result = await resolver.resolve(ctx, null, stackFor("app.js"));
+    expect(result.resolved).toBe(0);
+    expect(result.stack).toBe(stackFor("app.js"));
+    expect(calls).toEqual([]);
+  });
+
+  it("keeps parsed maps cached and remembers misses outside the LRU", async () => {
+    const { calls, lookup } = countingLookup({ "https://cdn.test/app.js": bundleMap("app.js") });
+    const resolver = createStackResolver({ lookup });
+    await resolver.resolve(ctx, "1.0.0", stackFor("app.js"));
+    await resolver.resolve(ctx, "1.0.0", stackFor("app.js"));
+    expect(calls).toEqual(["1.0.0 https://cdn.test/app.js", "1.0.0 https://cdn.test/vendor.js"]);
+    expect(resolver.cachedMaps()).toBe(1);
+  });
+
+  it("keeps hot maps when unknown bundles flood in", async () => {
+    const { calls, lookup } = countingLookup({ "https://cdn.test/a.js": bundleMap("a.js") });
+    const resolver = createStackResolver({ lookup, maxConsumers: 1, maxMisses: 2 });
+    const single = (bundle: string) => `Error: x\n    at f (https://cdn.test/${bundle}:1:101)`;
+    for (const bundle of ["a.js", "x1.js", "x2.js", "x3.js", "a.js", "x1.js"]) {
+      await resolver.resolve(ctx, "1.0.0", single(bundle));
+    }
+    // a.js stayed parsed; x1.js fell out of the two-entry miss set.
+    expect(calls.filter((c) => c.endsWith("/a.js"))).toHaveLength(1);
+    expect(calls.filter((c) => c.endsWith("/x1.js"))).toHaveLength(2);
+    expect(resolver.cachedMaps()).toBe(1);
+  });
+
+  it("stops resolving after the frame cap", async () => {
+    const { calls, lookup } = countingLookup({});
+    const resolver = createStackResolver({ lookup });
+    const lines = Array.from({ length: 80 }, (_, i) => `    at f (https://cdn.test/b${i}.js:1:1)`);
+    const stack = ["RangeError: Maximum call stack size exceeded", ...lines].join("\n");
+    const result = await resolver.resolve(ctx, "1.0.0", stack);
+    expect(result.frames).toHaveLength(50);
+    expect(calls).toHaveLength(50);
+    expect(result.stack).toBe(stack);
+  });
+
+  it("evicts the least recently used map past the limit", async () => {
+    const { calls, lookup } = countingLookup({
+      "https://cdn.test/a.js": bundleMap("a.js"),
+      "https://cdn.test/b.js": bundleMap("b.js"),
+    });
+    const resolver = createStackResolver({ lookup, maxConsumers: 1 });
+    const single = (bundle: string) => `Error: x\n    at f (https://cdn.test/${bundle}:1:101)`;
+    for (const bundle of ["a.js", "a.js", "b.js", "a.js"]) {
+      const result = await resolver.resolve(ctx, "1.0.0", single(bundle));
+      expect(result.resolved).toBe(1);
+    }
+    expect(calls).toEqual([
+      "1.0.0 https://cdn.test/a.js",
+      "1.0.0 https://cdn.test/b.js",
+      "1.0.0 https://cdn.test/a.js",
+    ]);
+    expect(resolver.cachedMaps()).toBe(1);
+  });
+
+  it("shares one load between concurrent lookups of the same map", async () => {
+    const { calls, lookup } = countingLookup({ "https://cdn.test/a.js": bundleMap("a.js") });
+    const resolver = createStackResolver({ lookup, maxConsumers: 1 });
+    const stack = "Error: x\n    at f (https://cdn.test/a.js:1:101)";
+    const results = await Promise.all([1, 2, 3].map(() => resolver.resolve(ctx, "1.0.0", stack)));
+    expect(results.map((r) => r.resolved)).toEqual([1, 1, 1]);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("does not cache lookup failures", async () => {
+    let fail = true;
+    const resolver = createStackResolver({
+      lookup: async () => {
+        if (fail) throw new Error("db down");
+        return bundleMap("a.js");
+      },
+    });
+    const stack = "Error: x\n    at f (https://cdn.test/a.js:1:101)";
+    expect((await resolver.resolve(ctx, "1.0.0", stack)).resolved).toBe(0);
+    fail = false;
+    expect((await resolver.resolve(ctx, "1.0.0", stack)).resolved).toBe(1);
+  });
+});
@@ -0,0 +1,159 @@
+import type { TenantContext } from "@insightview/core";
+import { findSourceMap } from "@insightview/db";
+import { createSourceMapCache, type CachedSourceMap } from "./sourceMapCache.js";
+import { parseFrame, type StackFrame } from "./stack.js";
+
+/**
+ * Source map resolver. Given an obfuscated stack trace like
+ *
+ *   at https://cdn.example.com/app.1a2b.js:1:4567
+ *
+ * looks up the stored source map for each frame's URL in the given
+ * release and maps the frame back to the original source, function
+ * and line, with the surrounding source lines when the map embeds
+ * `sourcesContent`. Frames without a map, or that the map doesn't
+ * cover, are kept as they were.
+ */
+
+export interface SourceContext {
+  pre: string[];
+  line: string;
+  post: string[];
+}
+
+export interface ResolvedFrame {
+  /** As the browser reported it; columns are 1-based. */
+  func?: string;
+  url?: string;
+  line?: number;
+  col?: number;
+  original?: {
+    func?: string;
+    source: string;
+    line: number;
+    col: number;
+    context?: SourceContext;
+  };
+}
+
+export interface ResolvedStack {
+  /** The stack text with resolved frames rewritten. */
+  stack: string;
+  frames: ResolvedFrame[];
+  /** How many frames a source map resolved. */
+  resolved: number;
+}
+
+export interface StackResolverOptions {
+  /** Source map JSON for a bundle; defaults to the SourceMap table. */
+  lookup?: (ctx: TenantContext, release: string, bundleUrl: string) => Promise<string | null>;
+  /** Parsed maps kept in memory. */
+  maxConsumers?: number;
+  /** Bundles remembered as having no map. */
+  maxMisses?: number;
+  ttlMs?: number;
+  /** Source lines kept either side of a resolved frame. */
+  contextLines?: number;
+}
+
+export interface StackResolver {
+  resolve(ctx: TenantContext, release: string | null, stack: string): Promise<ResolvedStack>;
+  cachedMaps(): number;
+}
+
+/**
+ * Frames resolved and kept per stack; recursion can produce thousands.
+ * Lines past the cap are left as reported without a lookup.
+ */
+const MAX_FRAMES = 50;
+const MAX_CONTEXT_LINE = 300;
+
+export function createStackResolver(opts: StackResolverOptions = {}): StackResolver {
+  const lookup =
+    opts.lookup ??
+    (async (ctx, release, bundleUrl) => (await findSourceMap(ctx, release, bundleUrl))?.content ?? null);
+  const contextLines = opts.contextLines ?? 5;
+  const cache = createSourceMapCache({
+    maxEntries: opts.maxConsumers,
+    maxMisses: opts.maxMisses,
+    ttlMs: opts.ttlMs,
+  });
+
+  function original(map: CachedSourceMap, frame: StackFrame): ResolvedFrame["original"] {
+    const pos = map.consumer.originalPositionFor({
+      line: frame.line ?? 0,
+      column: (frame.col ?? 1) - 1,
+    });
+    if (!pos.source || pos.line === null) return undefined;
+    const lines = contextLines > 0 ? map.sourceLines(pos.source) : null;
+    return {
+      func: pos.name ?? frame.func,
+      source: pos.source,
+      line: pos.line,
+      col: (pos.column ?? 0) + 1,
+      ...(lines && pos.line <= lines.length ? { context: contextAt(lines, pos.line, contextLines) } : {}),
+    };
+  }
+
+  return {
+    async resolve(ctx, release, stack) {
+      const out: string[] = [];
+      const frames: ResolvedFrame[] = [];
+      let resolved = 0;
+      for (const line of stack.split("\n")) {
+        const frame = frames.length < MAX_FRAMES ? parseFrame(line) : null;
+        if (!frame) {
+          out.push(line);
+          continue;
+        }
+        const entry: ResolvedFrame = {
+          func: frame.func,
+          url: frame.url,
+          line: frame.line,
+          col: frame.col,
+        };
+        const url = frame.url;
+        if (release && url && frame.line !== undefined && frame.col !== undefined) {
+          entry.original = await cache
+            .use(
+              `${ctx.tenantId}\u0000${release}\u0000${url}`,
+              () => lookup(ctx, release, url),
+              (map) => (map ? original(map, frame) : undefined),
+            )
+            .catch(() => undefined);
+        }
+        if (entry.original) {
+          resolved++;
+          const o = entry.original;
+          out.push(`    at ${o.func ?? "?"} (${o.source}:${o.line}:${o.col})`);
+        } else {
+          out.push(line);
+        }
+        frames.push(entry);
+      }
+      return { stack: out.join("\n"), frames, resolved };
+    },
+    cachedMaps: () => cache.size(),
+  };
+}
+
+function contextAt(lines: string[], lineNo: number, n: number): SourceContext {
+  const clip = (l: string) => l.slice(0, MAX_CONTEXT_LINE);
+  return {
+    pre: lines.slice(Math.max(0, lineNo - 1 - n), lineNo - 1).map(clip),
+    line: clip(lines[lineNo - 1]),
+    post: lines.slice(lineNo, lineNo + n).map(clip),
+  };
+}
+
+let shared: StackResolver | undefined;
+
+/** Resolve a stack to text with a process-wide resolver. */
+export async function deobfuscateStack(
+  ctx: TenantContext,
+  release: string,
+  stack: string,
+): Promise<string> {
+  shared ??= createStackResolver();
+  return (await shared.resolve(ctx, release, stack)).stack;
+}
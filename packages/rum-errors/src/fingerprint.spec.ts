@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { fingerprintError, normalizeMessage } from "./fingerprint.js";
+import { parseStack } from "./stack.js";
+
+const v8Stack = (bundle: string, line: number) =>
+  [
+    "TypeError: Cannot read properties of undefined (reading 'id')",
+    `    at loadCart (https://cdn.example.com/assets/${bundle}:${line}:120)`,
+    `    at https://cdn.example.com/assets/${bundle}:${line + 40}:8`,
+    "    at dispatch (https://cdn.example.com/node_modules/react-dom/index.js:1:900)",
+  ].join("\n");
+
+describe("parseStack", () => {
+  it("reads V8 and Firefox/Safari frames and skips the rest", () => {
+    const frames = parseStack(
+      [
+        "Error: boom",
+        "    at handler (https://a.test/app.js:1:2)",
+        "render@https://a.test/app.js:3:4",
+        "@https://a.test/app.js:5:6",
+        "    at <anonymous>",
+      ].join("\n"),
+    );
+    expect(frames.map((f) => [f.func, f.line, f.col])).toEqual([
+      ["handler", 1, 2],
+      ["render", 3, 4],
+      [undefined, 5, 6],
+    ]);
+  });
+});
+
+describe("normalizeMessage", () => {
+  it("masks the parts that differ between occurrences", () => {
+    expect(normalizeMessage(`Order 1234 not found at https://api.test/o/1234?x=1`)).toBe(
+      "Order <n> not found at <url>",
+    );
+    expect(normalizeMessage(`Unknown user "bob" (9b2f1c3e-58a1-4c1e-9a0b-1e2f3a4b5c6d)`)).toBe(
+      "Unknown user <str> (<uuid>)",
+    );
+  });
+});
+
+describe("fingerprintError", () => {
+  it("groups the same bug across builds, deploys and values", () => {
+    const a = fingerprintError({
+      type: "TypeError",
+      message: "Cannot read properties of undefined (reading 'id')",
+      stack: v8Stack("app.1a2b3c4d.js", 10),
+    });
+    const b = fingerprintError({
+      type: "TypeError",
+      message: "Cannot read properties of undefined (reading 'sku')",
+      stack: v8Stack("app.9f8e7d6c.js", 57),
+    });
+    expect(a.fingerprint).toBe(b.fingerprint);
+    expect(a.culprit).toBe("loadCart (/assets/app.js)");
+    expect(a.title).toBe("TypeError: Cannot read properties of undefined (reading 'id')");
+  });
+
+  it("splits on type, message shape and in-app frames", () => {
+    const base = { type: "TypeError", message: "x is not a function", stack: v8Stack("app.js", 1) };
+    const fp = fingerprintError(base).fingerprint;
+    expect(fingerprintError({ ...base, type: "RangeError" }).fingerprint).not.toBe(fp);
+    expect(fingerprintError({ ...base, message: "y is undefined" }).fingerprint).not.toBe(fp);
+    expect(
+      fingerprintError({ ...base, stack: base.stack.replace("loadCart", "saveCart") }).fingerprint,
+    ).not.toBe(fp);
+  });
+
+  it("ignores dependency frames", () => {
+    const base = { type: "Error", message: "boom", stack: v8Stack("app.js", 1) };
+    const other = base.stack.replace("react-dom/index.js", "react-dom/client.js");
+    expect(fingerprintError({ ...base, stack: other }).fingerprint).toBe(
+      fingerprintError(base).fingerprint,
+    );
+  });
+});
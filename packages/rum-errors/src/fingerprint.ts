@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto";
+import { parseStack, type StackFrame } from "./stack.js";
+
+/**
+ * Error grouping. Two errors belong to the same issue when they have
+ * the same type, the same message once the variable parts are masked,
+ * and the same top in-app frames. Frames are compared by function and
+ * file only: line numbers move with every deploy, and build hashes in
+ * bundle names change with every build, so neither may split an issue.
+ * Run the stack through `deobfuscateStack` first when a release is
+ * known, so grouping sees original names rather than minified ones.
+ */
+
+/** How many in-app frames take part in the fingerprint. */
+export const FINGERPRINT_FRAMES = 3;
+
+export interface ErrorInput {
+  /** Error name, e.g. `TypeError`. */
+  type: string;
+  message?: string | null;
+  stack?: string | null;
+}
+
+export interface ErrorFingerprint {
+  fingerprint: string;
+  /** `TypeError: Cannot read properties of undefined (reading 'id')` */
+  title: string;
+  /** Top in-app frame, e.g. `loadCart (src/cart.ts)`; null without one. */
+  culprit: string | null;
+}
+
+export function fingerprintError(input: ErrorInput): ErrorFingerprint {
+  const message = (input.message ?? "").trim();
+  const frames = parseStack(input.stack ?? "").filter(isInAppFrame).slice(0, FINGERPRINT_FRAMES);
+  const parts = [input.type, normalizeMessage(message), ...frames.map(frameKey)];
+  const fingerprint = createHash("sha256").update(parts.join("\n")).digest("hex").slice(0, 32);
+  const title = (message ? `${input.type}: ${message}` : input.type).slice(0, 300);
+  const top = frames[0];
+  const culprit = top ? `${top.func ?? "?"} (${stableFile(top.url ?? "")})` : null;
+  return { fingerprint, title, culprit };
+}
+
+/**
+ * Mask the parts of a message that vary between occurrences of the
+ * same bug: URLs, quoted values, UUIDs, hex ids and numbers.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, "<url>")
+    .replace(/(["'`])(?:(?!\1).){0,200}\1/g, "<str>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{12,}\b/gi, "<hex>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Frames from the site's own code. Dependencies, browser extensions
+ * and frames without a source location say nothing about which bug
+ * this is.
+ */
+export function isInAppFrame(frame: StackFrame): boolean {
+  const url = frame.url ?? "";
+  if (!url || url === "<anonymous>" || url === "native") return false;
+  if (/^(chrome|moz|safari(-web)?)-extension:/.test(url)) return false;
+  return !/\/node_modules\/|\/webpack\/bootstrap|\/~\//.test(url);
+}
+
+function frameKey(frame: StackFrame): string {
+  return `${frame.func ?? "?"}|${stableFile(frame.url ?? "")}`;
+}
+
+// Path without origin, query or build hash: `app.1a2b3c4d.js` and
+// `app-1a2b3c4d.js` are both `app.js`.
+function stableFile(url: string): string {
+  const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "").replace(/[?#].*$/, "");
+  return path.replace(/[.-][0-9a-f]{6,}(?=\.[a-z]+$)/i, "");
+}
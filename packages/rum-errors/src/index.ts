@@ -0,0 +1,10 @@
+/**
+ * Server-side processing of RUM error events, shared by the collector
+ * (resolving and grouping at ingest) and the API
+ * (`/v1/source-maps/resolve`): stack parsing, source-map deobfuscation
+ * with a cache of parsed maps, and fingerprinting.
+ */
+export * from "./stack.js";
+export * from "./sourceMapCache.js";
+export * from "./deobfuscate.js";
+export * from "./fingerprint.js";
@@ -0,0 +1,177 @@
+import { SourceMapConsumer, type RawSourceMap } from "source-map";
+
+/**
+ * LRU of parsed source maps. Parsing a multi-MB map is the expensive
+ * part of resolving a stack, and errors cluster on the current
+ * release, so the consumers for hot bundles stay parsed. Consumers
+ * hold WebAssembly memory that is only freed by `destroy()`; an
+ * evicted consumer still in use is destroyed when its last user is
+ * done with it. Misses (no map uploaded) are remembered in a separate
+ * bounded set, so a flood of unknown bundle URLs can't push hot maps
+ * out of the LRU. Both expire after `ttlMs` so a map uploaded or
+ * replaced later is picked up.
+ */
+
+export interface SourceMapCacheOptions {
+  maxEntries?: number;
+  /** Bundle keys remembered as having no map. */
+  maxMisses?: number;
+  ttlMs?: number;
+  now?: () => number;
+}
+
+export interface CachedSourceMap {
+  consumer: SourceMapConsumer;
+  /** Lines of an embedded source (`sourcesContent`), split once. */
+  sourceLines(source: string): string[] | null;
+}
+
+export interface SourceMapCache {
+  /**
+   * Run `fn` with the parsed map for `key`, loading it with `load`
+   * (which returns the map's JSON, or null) when it isn't cached.
+   */
+  use<T>(
+    key: string,
+    load: () => Promise<string | null>,
+    fn: (map: CachedSourceMap | null) => T,
+  ): Promise<T>;
+  size(): number;
+  clear(): void;
+}
+
+interface Entry {
+  map: CachedSourceMap | null;
+  expiresAt: number;
+  users: number;
+  evicted: boolean;
+}
+
+interface Pending {
+  waiters: number;
+  promise: Promise<Entry>;
+}
+
+export function createSourceMapCache(opts: SourceMapCacheOptions = {}): SourceMapCache {
+  const max = Math.max(1, opts.maxEntries ?? 50);
+  const maxMisses = Math.max(0, opts.maxMisses ?? 1000);
+  const ttl = opts.ttlMs ?? 10 * 60_000;
+  const now = opts.now ?? Date.now;
+  const entries = new Map<string, Entry>();
+  const loading = new Map<string, Pending>();
+  /** Key -> expiry, oldest first. */
+  const misses = new Map<string, number>();
+
+  function destroy(entry: Entry): void {
+    try {
+      entry.map?.consumer.destroy();
+    } catch {
+      /* already gone */
+    }
+  }
+
+  function evict(key: string, entry: Entry): void {
+    entries.delete(key);
+    entry.evicted = true;
+    if (entry.users === 0) destroy(entry);
+  }
+
+  // Never in `entries`; marked evicted so releasing it is a no-op.
+  const missEntry = (users: number): Entry => ({ map: null, expiresAt: 0, users, evicted: true });
+
+  function rememberMiss(key: string): void {
+    misses.delete(key);
+    misses.set(key, now() + ttl);
+    for (const k of misses.keys()) {
+      if (misses.size <= maxMisses) break;
+      misses.delete(k);
+    }
+  }
+
+  function acquire(key: string, load: () => Promise<string | null>): Promise<Entry> {
+    const missUntil = misses.get(key);
+    if (missUntil !== undefined) {
+      if (missUntil > now()) return Promise.resolve(missEntry(1));
+      misses.delete(key);
+    }
+    const hit = entries.get(key);
+    if (hit && hit.expiresAt > now()) {
+      // Re-insert so Map order stays least-recently-used first.
+      entries.delete(key);
+      entries.set(key, hit);
+      hit.users++;
+      return Promise.resolve(hit);
+    }
+    if (hit) evict(key, hit);
+    let pending = loading.get(key);
+    if (!pending) {
+      const record = { waiters: 0 } as Pending;
+      // Waiters are counted as users in the same tick the entry goes
+      // in, so nothing can evict and destroy it before they run.
+      record.promise = parse(load).then(
+        (map) => {
+          loading.delete(key);
+          if (!map) {
+            rememberMiss(key);
+            return missEntry(record.waiters);
+          }
+          const entry: Entry = { map, expiresAt: now() + ttl, users: record.waiters, evicted: false };
+          entries.set(key, entry);
+          for (const [k, e] of entries) {
+            if (entries.size <= max) break;
+            evict(k, e);
+          }
+          return entry;
+        },
+        (err: unknown) => {
+          loading.delete(key);
+          throw err;
+        },
+      );
+      pending = record;
+      loading.set(key, record);
+    }
+    pending.waiters++;
+    return pending.promise;
+  }
+
+  return {
+    async use(key, load, fn) {
+      const entry = await acquire(key, load);
+      try {
+        return fn(entry.map);
+      } finally {
+        entry.users--;
+        if (entry.evicted && entry.users === 0) destroy(entry);
+      }
+    },
+    size: () => entries.size,
+    clear() {
+      for (const [k, e] of entries) evict(k, e);
+      misses.clear();
+    },
+  };
+}
+
+// A lookup failure rejects (and isn't cached); a map that doesn't
+// parse is remembered as a miss like a missing one.
+async function parse(load: () => Promise<string | null>): Promise<CachedSourceMap | null> {
+  const content = await load();
+  if (!content) return null;
+  let consumer: SourceMapConsumer;
+  try {
+    consumer = await new SourceMapConsumer(JSON.parse(content) as RawSourceMap);
+  } catch {
+    return null;
+  }
+  const split = new Map<string, string[] | null>();
+  return {
+    consumer,
+    sourceLines(source) {
+      if (!split.has(source)) {
+        split.set(source, consumer.sourceContentFor(source, true)?.split(/\r?\n/) ?? null);
+      }
+      return split.get(source) ?? null;
+    },
+  };
+}
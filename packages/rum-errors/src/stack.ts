@@ -0,0 +1,62 @@
+/**
+ * Stack trace parsing for the two shapes browsers produce:
+ *
+ *   V8:                at handler (https://cdn.example.com/app.1a2b.js:1:4567)
+ *                      at https://cdn.example.com/app.1a2b.js:1:4567
+ *   Firefox / Safari:  handler@https://cdn.example.com/app.1a2b.js:1:4567
+ *
+ * Lines that match neither (the message line, "at <anonymous>", native
+ * frames) come back as null and are left untouched by callers.
+ */
+
+export interface StackFrame {
+  raw: string;
+  func?: string;
+  url?: string;
+  line?: number;
+  col?: number;
+}
+
+export function parseFrame(line: string): StackFrame | null {
+  const trimmed = line.trim();
+  const withFunc = /^at\s+(?<func>[^(]*)\s*\((?<url>.+?):(?<line>\d+):(?<col>\d+)\)$/.exec(
+    trimmed,
+  );
+  if (withFunc?.groups) {
+    return {
+      raw: line,
+      func: withFunc.groups.func.trim() || undefined,
+      url: withFunc.groups.url,
+      line: parseInt(withFunc.groups.line, 10),
+      col: parseInt(withFunc.groups.col, 10),
+    };
+  }
+  const urlOnly = /^at\s+(?<url>.+?):(?<line>\d+):(?<col>\d+)$/.exec(trimmed);
+  if (urlOnly?.groups) {
+    return {
+      raw: line,
+      url: urlOnly.groups.url,
+      line: parseInt(urlOnly.groups.line, 10),
+      col: parseInt(urlOnly.groups.col, 10),
+    };
+  }
+  const gecko = /^(?<func>[^@]*)@(?<url>.+?):(?<line>\d+):(?<col>\d+)$/.exec(trimmed);
+  if (gecko?.groups) {
+    return {
+      raw: line,
+      func: gecko.groups.func.trim() || undefined,
+      url: gecko.groups.url,
+      line: parseInt(gecko.groups.line, 10),
+      col: parseInt(gecko.groups.col, 10),
+    };
+  }
+  return null;
+}
+
+/** Every line of `stack` that parses as a frame, top of stack first. */
+export function parseStack(stack: string): StackFrame[] {
+  return stack
+    .split("\n")
+    .map(parseFrame)
+    .filter((f): f is StackFrame => f !== null);
+}
@@ -48,6 +48,8 @@ export interface MobileEvent {
 export interface MobileInitOptions {
   endpoint: string;
   siteId: string;
+  /** The site's public ingest key. Use a site with no allowed origins: apps send no Origin. */
+  ingestKey: string;
   platform: "ios" | "android" | "react-native";
   appVersion?: string;
   deviceModel?: string;
@@ -136,6 +138,7 @@ export function init(opts: MobileInitOptions): MobileRumClient {
     if (events.length === 0) return;
     const payload = {
       siteId: opts.siteId,
+      ingestKey: opts.ingestKey,
       sessionId,
       sdkVersion: SDK_VERSION,
       sentAt: new Date().toISOString(),
@@ -11,6 +11,8 @@ import { sendBatch } from "./transport.js";
 export interface InitOptions {
   endpoint: string;
   siteId: string;
+  /** The site's public ingest key (`rk_...`), from the dashboard or `POST /v1/rum/sites`. */
+  ingestKey: string;
   sampleRate?: number;
   release?: string;
   environment?: string;
@@ -70,6 +72,7 @@ export function init(opts: InitOptions): RumClient {
     if (events.length === 0) return;
     const payload = {
       siteId: opts.siteId,
+      ingestKey: opts.ingestKey,
       sessionId,
       sdkVersion: SDK_VERSION,
       sentAt: new Date().toISOString(),
@@ -115,6 +118,7 @@ export function init(opts: InitOptions): RumClient {
           opts.endpoint.replace(/\/v1\/events$/, "/v1/replay") ??
           opts.endpoint,
         siteId: opts.siteId,
+        ingestKey: opts.ingestKey,
         sessionId,
         sampleRate: opts.replaySampleRate ?? 0.05,
       },
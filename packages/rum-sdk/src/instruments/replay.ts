@@ -23,6 +23,7 @@ type Recorder = (() => void) | undefined;
 export interface ReplayOptions {
   endpoint: string;
   siteId: string;
+  ingestKey: string;
   sessionId: string;
   flushIntervalMs?: number;
   maxEventsPerChunk?: number;
@@ -36,6 +37,28 @@ export interface ReplayHandle {
 
 type Push = (ev: RumEventInput) => void;
 
+const SEQUENCE_KEY = "__insightview_replay_seq";
+
+// Chunk sequences run per session rather than per page, so every chunk
+// a session sends is one gap-free series and the viewer can tell when
+// some never arrived. Stored as `<sessionId>:<next>`.
+function loadSequence(sessionId: string): number {
+  try {
+    const [owner, next] = (sessionStorage.getItem(SEQUENCE_KEY) ?? "").split(":");
+    return owner === sessionId ? Number(next) || 0 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function saveSequence(sessionId: string, next: number): void {
+  try {
+    sessionStorage.setItem(SEQUENCE_KEY, `${sessionId}:${next}`);
+  } catch {
+    /* storage blocked — sequences restart on the next page */
+  }
+}
+
 export function installReplay(
   opts: ReplayOptions,
   _push: Push,
@@ -47,7 +70,12 @@ export function installReplay(
   }
 
   const buffer: RrwebEvent[] = [];
-  let sequence = 0;
+  let sequence = loadSequence(opts.sessionId);
+  const nextSequence = () => {
+    const n = sequence++;
+    saveSequence(opts.sessionId, sequence);
+    return n;
+  };
   let stopped = false;
 
   // Dynamically import rrweb so sites that don't enable replay
@@ -92,8 +120,9 @@ export function installReplay(
           [
             JSON.stringify({
               siteId: opts.siteId,
+              ingestKey: opts.ingestKey,
               sessionId: opts.sessionId,
-              sequence: sequence++,
+              sequence: nextSequence(),
               payload,
             }),
           ],
@@ -106,8 +135,9 @@ export function installReplay(
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             siteId: opts.siteId,
+            ingestKey: opts.ingestKey,
             sessionId: opts.sessionId,
-            sequence: sequence++,
+            sequence: nextSequence(),
             payload,
           }),
           keepalive: true,
@@ -17,6 +17,8 @@ export const rumEventSchema = z.object({
 
 export const rumEventBatchSchema = z.object({
   siteId: z.string().min(1),
+  /** Public per-site key; the collector answers 401 without one. */
+  ingestKey: z.string().min(1).optional(),
   sessionId: z.string().min(1),
   sdkVersion: z.string(),
   sentAt: z.string(),
@@ -14,6 +14,7 @@ import {
  *   createApp(App).use(InsightViewRum, {
  *     endpoint: "https://rum.example.com/v1/events",
  *     siteId: "my-site",
+ *     ingestKey: "rk_...",
  *     autoInstrument: { webVitals: true, errors: true },
  *   });
  *
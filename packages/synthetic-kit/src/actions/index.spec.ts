@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import type { Page } from "playwright";
+import { actionsAreIdempotent, runActions } from "./index.js";
+
+describe("runActions", () => {
+  it("fails an evaluate that outlives its timeout", async () => {
+    const page = { evaluate: () => new Promise(() => {}) } as unknown as Page;
+    const outcome = await runActions(page, [
+      { action: "evaluate", script: "new Promise(() => {})", timeoutMs: 20 },
+      { action: "waitForSelector", selector: "#done" },
+    ]);
+    expect(outcome.results.map((r) => r.status)).toEqual(["failed", "skipped"]);
+    expect(outcome.error?.message).toMatch(/evaluate timed out after 20ms/);
+  });
+});
+
+describe("actionsAreIdempotent", () => {
+  it("allows navigation and waits but not input", () => {
+    expect(actionsAreIdempotent(undefined)).toBe(true);
+    expect(
+      actionsAreIdempotent([
+        { action: "goto", url: "https://a.test/" },
+        { action: "waitForURL", url: "**/a" },
+      ]),
+    ).toBe(true);
+    expect(actionsAreIdempotent([{ action: "click", selector: "#buy" }])).toBe(false);
+    expect(actionsAreIdempotent([{ action: "fill", selector: "#q", value: "x" }])).toBe(false);
+  });
+});
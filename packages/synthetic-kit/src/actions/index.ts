@@ -0,0 +1,167 @@
+import type { Page } from "playwright";
+import type {
+  ActionResult,
+  MonitorAction,
+  MonitorActionType,
+} from "../types.js";
+
+/**
+ * Journey action handlers. Each entry executes one declarative
+ * `actions:` item against the shared page; the runner times it and
+ * records an ActionResult. Handlers throw on failure — the first
+ * failing action stops the step and the remaining ones are reported
+ * as `skipped`.
+ *
+ * Adding an action is one handler below plus its schema entry in
+ * @insightview/monitor-schema (src/fields.ts).
+ */
+type ActionHandler<A extends MonitorAction = MonitorAction> = (
+  page: Page,
+  action: A,
+  timeout: number,
+) => Promise<void>;
+
+type HandlerMap = {
+  [K in MonitorActionType]: ActionHandler<Extract<MonitorAction, { action: K }>>;
+};
+
+const handlers: HandlerMap = {
+  async goto(page, a, timeout) {
+    await page.goto(a.url, { waitUntil: "load", timeout });
+  },
+  async click(page, a, timeout) {
+    await page.click(a.selector, { timeout });
+  },
+  async fill(page, a, timeout) {
+    let value = a.value;
+    if (value === undefined && !a.valueEnv) {
+      throw new Error("fill needs value or valueEnv");
+    }
+    if (a.valueEnv) {
+      value = process.env[a.valueEnv];
+      if (value === undefined) {
+        throw new Error(`fill: env ${a.valueEnv} is not set`);
+      }
+    }
+    await page.fill(a.selector, value ?? "", { timeout });
+  },
+  async select(page, a, timeout) {
+    await page.selectOption(a.selector, a.value, { timeout });
+  },
+  async press(page, a, timeout) {
+    if (a.selector) {
+      await page.press(a.selector, a.key, { timeout });
+    } else {
+      await page.keyboard.press(a.key);
+    }
+  },
+  async waitForSelector(page, a, timeout) {
+    await page.waitForSelector(a.selector, { state: a.state ?? "visible", timeout });
+  },
+  async waitForURL(page, a, timeout) {
+    await page.waitForURL(toUrlMatcher(a.url), { timeout });
+  },
+  async upload(page, a, timeout) {
+    await page.setInputFiles(a.selector, a.files, { timeout });
+  },
+  async evaluate(page, a, timeout) {
+    // page.evaluate has no timeout of its own; a script that never
+    // settles would otherwise hold the step until the run's deadline.
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        page.evaluate(a.script),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`evaluate timed out after ${timeout}ms`)),
+            timeout,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
+
+/**
+ * Actions that leave the page as they found it, so a step made only
+ * of these can be re-run after a failure. Anything that types, clicks
+ * or runs script may already have changed the page (or the backend)
+ * before it failed, and repeating it would act on that state.
+ */
+const IDEMPOTENT_ACTIONS = new Set<MonitorActionType>(["goto", "waitForSelector", "waitForURL"]);
+
+export function actionsAreIdempotent(actions: MonitorAction[] | undefined): boolean {
+  return (actions ?? []).every((a) => IDEMPOTENT_ACTIONS.has(a.action));
+}
+
+/** Default per-action timeout when neither the action nor the step sets one. */
+const DEFAULT_ACTION_TIMEOUT_MS = 15_000;
+
+export interface RunActionsOutcome {
+  results: ActionResult[];
+  /** Set when an action failed; the message names the action. */
+  error?: Error;
+}
+
+export async function runActions(
+  page: Page,
+  actions: MonitorAction[],
+  defaultTimeoutMs = DEFAULT_ACTION_TIMEOUT_MS,
+): Promise<RunActionsOutcome> {
+  const results: ActionResult[] = [];
+  let error: Error | undefined;
+  for (const action of actions) {
+    const target = describeTarget(action);
+    if (error) {
+      results.push({ action: action.action, target, durationMs: 0, status: "skipped" });
+      continue;
+    }
+    const start = Date.now();
+    try {
+      const handler = handlers[action.action] as ActionHandler;
+      if (!handler) throw new Error(`unknown action '${action.action}'`);
+      await handler(page, action, action.timeoutMs ?? defaultTimeoutMs);
+      results.push({
+        action: action.action,
+        target,
+        durationMs: Date.now() - start,
+        status: "passed",
+      });
+    } catch (err) {
+      const message = (err as Error).message ?? String(err);
+      results.push({
+        action: action.action,
+        target,
+        durationMs: Date.now() - start,
+        status: "failed",
+        errorMessage: message,
+      });
+      error = new Error(
+        `action ${action.action}${target ? ` '${target}'` : ""} failed: ${message}`,
+      );
+    }
+  }
+  return { results, error };
+}
+
+function describeTarget(action: MonitorAction): string | undefined {
+  switch (action.action) {
+    case "goto":
+    case "waitForURL":
+      return action.url;
+    case "press":
+      return action.selector ? `${action.selector} ${action.key}` : action.key;
+    case "evaluate":
+      return undefined;
+    default:
+      return action.selector;
+  }
+}
+
+/** `/pattern/flags` strings become RegExps; anything else is a Playwright glob. */
+function toUrlMatcher(url: string): string | RegExp {
+  const m = /^\/(.+)\/([gimsuy]*)$/.exec(url);
+  return m ? new RegExp(m[1], m[2]) : url;
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import type { Page } from "playwright";
 import { runAssertions } from "./assertions.js";
 
 const ctx = {
@@ -10,14 +11,14 @@ const ctx = {
 };
 
 describe("assertions.runAssertions", () => {
-  it("passes a status=passed assertion on a 200 response", () => {
-    const out = runAssertions([{ type: "status", value: "passed" }], ctx);
+  it("passes a status=passed assertion on a 200 response", async () => {
+    const out = await runAssertions([{ type: "status", value: "passed" }], ctx);
     expect(out.passed).toBe(1);
     expect(out.failed).toBe(0);
   });
 
-  it("fails a status=passed assertion on a 500 response", () => {
-    const out = runAssertions(
+  it("fails a status=passed assertion on a 500 response", async () => {
+    const out = await runAssertions(
       [{ type: "status", value: "passed" }],
       { ...ctx, statusCode: 500 },
     );
@@ -26,16 +27,16 @@ describe("assertions.runAssertions", () => {
     expect(out.failureReasons[0]).toMatch(/code=500/);
   });
 
-  it("body-contains match", () => {
-    const out = runAssertions(
+  it("body-contains match", async () => {
+    const out = await runAssertions(
       [{ type: "body-contains", value: "Hello" }],
       ctx,
     );
     expect(out.passed).toBe(1);
   });
 
-  it("body-contains mismatch", () => {
-    const out = runAssertions(
+  it("body-contains mismatch", async () => {
+    const out = await runAssertions(
       [{ type: "body-contains", value: "Goodbye" }],
       ctx,
     );
@@ -43,16 +44,16 @@ describe("assertions.runAssertions", () => {
     expect(out.failureReasons[0]).toMatch(/does not contain/);
   });
 
-  it("max-lcp-ms passes when LCP is under budget", () => {
-    const out = runAssertions(
+  it("max-lcp-ms passes when LCP is under budget", async () => {
+    const out = await runAssertions(
       [{ type: "max-lcp-ms", value: "2500" }],
       ctx,
     );
     expect(out.passed).toBe(1);
   });
 
-  it("max-lcp-ms fails when LCP is over budget", () => {
-    const out = runAssertions(
+  it("max-lcp-ms fails when LCP is over budget", async () => {
+    const out = await runAssertions(
       [{ type: "max-lcp-ms", value: "1000" }],
       ctx,
     );
@@ -60,8 +61,8 @@ describe("assertions.runAssertions", () => {
     expect(out.failureReasons[0]).toMatch(/LCP/);
   });
 
-  it("max-lcp-ms skips (passes) when LCP is not collected", () => {
-    const out = runAssertions(
+  it("max-lcp-ms skips (passes) when LCP is not collected", async () => {
+    const out = await runAssertions(
       [{ type: "max-lcp-ms", value: "1000" }],
       { ...ctx, webVitals: {} },
     );
@@ -69,16 +70,16 @@ describe("assertions.runAssertions", () => {
     expect(out.results[0].detail).toMatch(/skipped/);
   });
 
-  it("max-cls passes when CLS is within budget", () => {
-    const out = runAssertions(
+  it("max-cls passes when CLS is within budget", async () => {
+    const out = await runAssertions(
       [{ type: "max-cls", value: "0.1" }],
       ctx,
     );
     expect(out.passed).toBe(1);
   });
 
-  it("unknown assertion type is reported as failure", () => {
-    const out = runAssertions(
+  it("unknown assertion type is reported as failure", async () => {
+    const out = await runAssertions(
       [{ type: "unknown-type", value: "nope" }],
       ctx,
     );
@@ -86,8 +87,8 @@ describe("assertions.runAssertions", () => {
     expect(out.failureReasons[0]).toMatch(/unknown/);
   });
 
-  it("aggregates multiple assertion outcomes", () => {
-    const out = runAssertions(
+  it("aggregates multiple assertion outcomes", async () => {
+    const out = await runAssertions(
       [
         { type: "status", value: "passed" },
         { type: "body-contains", value: "nope" },
@@ -98,4 +99,248 @@ describe("assertions.runAssertions", () => {
     expect(out.passed).toBe(2);
     expect(out.failed).toBe(1);
   });
+
+  it("header-equals and header-contains match case-insensitively by name", async () => {
+    const out = await runAssertions(
+      [
+        { type: "header-equals", value: "Content-Type: application/json" },
+        { type: "header-contains", value: "cache-control: max-age" },
+        { type: "header-equals", value: "x-missing: 1" },
+      ],
+      {
+        ...ctx,
+        headers: {
+          "content-type": "application/json",
+          "cache-control": "public, max-age=60",
+        },
+      },
+    );
+    expect(out.passed).toBe(2);
+    expect(out.failureReasons[0]).toMatch(/x-missing' missing/);
+  });
+
+  it("json-path-exists and json-path-equals read the JSON body", async () => {
+    const out = await runAssertions(
+      [
+        { type: "json-path-exists", value: "$.data.items[0].id" },
+        { type: "json-path-equals", value: "$.status == ok" },
+        { type: "json-path-equals", value: "$.data.items.length == 2" },
+        { type: "json-path-equals", value: "$.healthy == false" },
+      ],
+      {
+        ...ctx,
+        bodyHtml: JSON.stringify({
+          status: "ok",
+          healthy: true,
+          data: { items: [{ id: 1 }, { id: 2 }] },
+        }),
+      },
+    );
+    expect(out.passed).toBe(3);
+    expect(out.failureReasons[0]).toMatch(/\$\.healthy is true, expected false/);
+  });
+
+  it("json-path assertions fail cleanly on a non-JSON body", async () => {
+    const out = await runAssertions(
+      [{ type: "json-path-exists", value: "$.status" }],
+      ctx,
+    );
+    expect(out.failed).toBe(1);
+    expect(out.failureReasons[0]).toMatch(/json-path/);
+  });
+});
+
+describe("assertions visual-diff", () => {
+  it("uses the pre-computed browser outcome", async () => {
+    const out = await runAssertions([{ type: "visual-diff", value: "0.5%" }], {
+      ...ctx,
+      visualDiffs: {
+        "0.5%": { type: "visual-diff", value: "0.5%", passed: false, detail: "visual-diff 2.00%" },
+      },
+    });
+    expect(out.failed).toBe(1);
+    expect(out.failureReasons[0]).toMatch(/2.00%/);
+  });
+
+  it("fails where no screenshot was compared (api/tcp steps)", async () => {
+    const out = await runAssertions([{ type: "visual-diff", value: "0.5%" }], ctx);
+    expect(out.failureReasons[0]).toMatch(/needs a browser step screenshot/);
+  });
+});
+
+describe("assertions max-a11y-*", () => {
+  const a11y = {
+    counts: { critical: 1, serious: 0, moderate: 3, minor: 0 },
+    total: 4,
+    violations: [],
+  };
+
+  it("compares violation counts by impact", async () => {
+    const out = await runAssertions(
+      [
+        { type: "max-a11y-critical", value: "0" },
+        { type: "max-a11y-serious", value: "0" },
+        { type: "max-a11y-violations", value: "5" },
+      ],
+      { ...ctx, a11y },
+    );
+    expect(out.passed).toBe(2);
+    expect(out.failed).toBe(1);
+    expect(out.failureReasons[0]).toMatch(/critical/);
+  });
+
+  it("skips when the step wasn't audited", async () => {
+    const out = await runAssertions([{ type: "max-a11y-critical", value: "0" }], ctx);
+    expect(out.passed).toBe(1);
+  });
+});
+
+describe("assertions body, header and vitals vocabulary", () => {
+  it("not-body-contains and body-matches", async () => {
+    const out = await runAssertions(
+      [
+        { type: "not-body-contains", value: "Internal Server Error" },
+        { type: "body-matches", value: "/hello\\s+WORLD/i" },
+        { type: "body-matches", value: "^Goodbye" },
+      ],
+      ctx,
+    );
+    expect(out.passed).toBe(2);
+    expect(out.failureReasons).toEqual(["body does not match /^Goodbye/"]);
+  });
+
+  it("reports an invalid regex as a failure", async () => {
+    const out = await runAssertions([{ type: "body-matches", value: "/(/" }], ctx);
+    expect(out.failureReasons[0]).toMatch(/invalid regex/);
+  });
+
+  it("header-exists and header-matches", async () => {
+    const out = await runAssertions(
+      [
+        { type: "header-exists", value: "ETag" },
+        { type: "header-matches", value: "etag: /^W\\//" },
+        { type: "header-exists", value: "strict-transport-security" },
+      ],
+      { ...ctx, headers: { etag: 'W/"abc"' } },
+    );
+    expect(out.passed).toBe(2);
+    expect(out.failureReasons[0]).toMatch(/strict-transport-security' missing/);
+  });
+
+  it("max-ttfb-ms / max-inp-ms / max-fcp-ms budget the matching vital", async () => {
+    const out = await runAssertions(
+      [
+        { type: "max-ttfb-ms", value: "200" },
+        { type: "max-inp-ms", value: "100" },
+        { type: "max-fcp-ms", value: "1000" },
+      ],
+      { ...ctx, webVitals: { TTFB: 150, INP: 240 } },
+    );
+    expect(out.passed).toBe(2);
+    expect(out.failureReasons).toEqual(["INP 240ms > budget 100ms"]);
+    expect(out.results[2].detail).toMatch(/FCP not collected/);
+  });
+});
+
+describe("assertions element-*", () => {
+  // Minimal stand-in for the Playwright locator API.
+  function fakePage(dom: Record<string, { visible: boolean; text: string }[]>): Page {
+    return {
+      locator: (selector: string) => {
+        const matches = dom[selector] ?? [];
+        return {
+          count: async () => matches.length,
+          first: () => ({
+            count: async () => Math.min(matches.length, 1),
+            isVisible: async () => matches[0]?.visible ?? false,
+            innerText: async () => matches[0]?.text ?? "",
+          }),
+        };
+      },
+    } as unknown as Page;
+  }
+
+  const page = fakePage({
+    h1: [{ visible: true, text: "  Welcome back " }],
+    ".result": [
+      { visible: true, text: "a" },
+      { visible: true, text: "b" },
+    ],
+    "#spinner": [{ visible: false, text: "" }],
+  });
+
+  it("checks visibility, counts and text", async () => {
+    const out = await runAssertions(
+      [
+        { type: "element-visible", value: "h1" },
+        { type: "element-hidden", value: "#spinner" },
+        { type: "element-hidden", value: "#missing" },
+        { type: "element-count", value: ".result == 2" },
+        { type: "element-count", value: ".result" },
+        { type: "element-text-equals", value: "h1 == Welcome back" },
+      ],
+      { ...ctx, page },
+    );
+    expect(out.failed).toBe(0);
+    expect(out.passed).toBe(6);
+  });
+
+  it("explains element mismatches", async () => {
+    const out = await runAssertions(
+      [
+        { type: "element-visible", value: "#spinner" },
+        { type: "element-count", value: ".result >= 10" },
+        { type: "element-text-equals", value: "h1 == Hello" },
+        { type: "element-text-equals", value: "h2 == Hello" },
+      ],
+      { ...ctx, page },
+    );
+    expect(out.failureReasons).toEqual([
+      "'#spinner' is hidden or missing",
+      "'.result' matched 2, expected >= 10",
+      "'h1' text is 'Welcome back', expected 'Hello'",
+      "'h2' not found",
+    ]);
+  });
+
+  it("fails outside browser steps", async () => {
+    const out = await runAssertions([{ type: "element-visible", value: "h1" }], ctx);
+    expect(out.failureReasons[0]).toMatch(/needs a browser step/);
+  });
+});
+
+describe("assertions min-cert-days", () => {
+  const tls = {
+    subject: "example.com",
+    issuer: "Example CA",
+    subjectAltNames: ["example.com"],
+    validFrom: "2026-01-01T00:00:00.000Z",
+    validTo: "2027-01-01T00:00:00.000Z",
+    daysUntilExpiry: 60,
+    authorized: true,
+    chain: [
+      {
+        subject: "Example Intermediate",
+        validTo: "2026-11-01T00:00:00.000Z",
+        daysUntilExpiry: 9,
+      },
+    ],
+  };
+
+  it("checks the soonest-expiring certificate in the chain", async () => {
+    const out = await runAssertions(
+      [
+        { type: "min-cert-days", value: "7" },
+        { type: "min-cert-days", value: "14" },
+      ],
+      { ...ctx, tls },
+    );
+    expect(out.passed).toBe(1);
+    expect(out.failureReasons[0]).toMatch(/'Example Intermediate' expires in 9 days/);
+  });
+
+  it("skips when no certificate was captured", async () => {
+    const out = await runAssertions([{ type: "min-cert-days", value: "14" }], ctx);
+    expect(out.passed).toBe(1);
+  });
 });
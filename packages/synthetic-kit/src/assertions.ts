@@ -1,4 +1,13 @@
-import type { AssertionResult, WebVitals } from "./types.js";
+import type { Page, Response } from "playwright";
+import type {
+  A11yImpact,
+  A11yResult,
+  AssertionResult,
+  TlsCertificateInfo,
+  WebVitals,
+} from "./types.js";
+import { resolveJsonPath } from "./jsonPath.js";
+import { soonestExpiry } from "./tlsCert.js";
 
 /**
  * Assertion evaluator. Takes a list of declarative assertions plus
@@ -16,6 +25,12 @@ import type { AssertionResult, WebVitals } from "./types.js";
  *   { type: "body-contains", value: "Welcome" }
  *       bodyHtml.includes(value)
  *
+ *   { type: "not-body-contains", value: "Internal Server Error" }
+ *       !bodyHtml.includes(value)
+ *
+ *   { type: "body-matches", value: "/order #\d+ confirmed/i" }
+ *       body matches the regex; `/.../flags` or a bare pattern
+ *
  *   { type: "title-contains", value: "Home" }
  *       page.title().includes(value)
  *
@@ -27,6 +42,53 @@ import type { AssertionResult, WebVitals } from "./types.js";
  *
  *   { type: "max-cls", value: "0.1" }
  *       web vitals CLS <= value
+ *
+ *   { type: "max-fcp-ms" | "max-ttfb-ms" | "max-inp-ms", value: "800" }
+ *       web vitals FCP / TTFB / INP <= value (skipped when not collected)
+ *
+ *   { type: "header-equals", value: "content-type: application/json" }
+ *       response header (case-insensitive name) equals value
+ *
+ *   { type: "header-contains", value: "cache-control: max-age" }
+ *       response header contains value
+ *
+ *   { type: "header-matches", value: "etag: /^W\//" }
+ *       response header matches the regex
+ *
+ *   { type: "header-exists", value: "strict-transport-security" }
+ *       response header is present
+ *
+ *   { type: "json-path-exists", value: "$.data.id" }
+ *       JSON response body has the path
+ *
+ *   { type: "json-path-equals", value: "$.status == ok" }
+ *       JSON response body value at path equals the right-hand side
+ *
+ *   { type: "element-visible" | "element-hidden", value: "#checkout" }
+ *       first element matching the selector is (not) visible; a
+ *       missing element counts as hidden
+ *
+ *   { type: "element-count", value: ".search-result >= 10" }
+ *       number of matching elements; ==, !=, >=, <=, >, <
+ *
+ *   { type: "element-text-equals", value: "h1 == Welcome back" }
+ *       trimmed innerText of the first match equals the right-hand side
+ *
+ *   Element assertions need the live page, so they only work in
+ *   browser steps.
+ *
+ *   { type: "max-a11y-critical", value: "0" }
+ *       axe-core violations of that impact <= value; also
+ *       max-a11y-serious / -moderate / -minor, and max-a11y-violations
+ *       for the total (enables the a11y collector)
+ *
+ *   { type: "min-cert-days", value: "14" }
+ *       every certificate in the origin's chain is valid for at least
+ *       value more days (https steps; skipped when none was captured)
+ *
+ *   { type: "visual-diff", value: "0.5%; mask=.ad-slot" }
+ *       step screenshot matches the stored baseline within the
+ *       threshold (browser steps only; see visual/diff.ts)
  */
 
 export interface AssertionContext {
@@ -35,6 +97,26 @@ export interface AssertionContext {
   title: string;
   durationMs: number;
   webVitals: WebVitals;
+  /** Lower-cased response headers, when the executor captured them. */
+  headers?: Record<string, string>;
+  /** Live page of a browser step, for element assertions. */
+  page?: Page;
+  /**
+   * Main-frame navigation response of a browser step. Supplies the
+   * headers and the raw body (JSON endpoints opened in a browser are
+   * wrapped in HTML by page.content()).
+   */
+  response?: Response | null;
+  /** Certificate of the step's origin (https only). */
+  tls?: TlsCertificateInfo;
+  /** axe-core audit of the step, when the a11y collector ran. */
+  a11y?: A11yResult;
+  /**
+   * Pre-computed `visual-diff` outcomes keyed by assertion value. The
+   * comparison is async (baseline fetch, mask lookup), so the browser
+   * runner evaluates it up front and hands the results in here.
+   */
+  visualDiffs?: Record<string, AssertionResult>;
 }
 
 export interface AssertionOutcome {
@@ -44,17 +126,17 @@ export interface AssertionOutcome {
   failureReasons: string[];
 }
 
-export function runAssertions(
+export async function runAssertions(
   assertions: Array<{ type: string; value: string }>,
   ctx: AssertionContext,
-): AssertionOutcome {
+): Promise<AssertionOutcome> {
   const results: AssertionResult[] = [];
   const reasons: string[] = [];
   let passed = 0;
   let failed = 0;
 
   for (const a of assertions) {
-    const outcome = evaluate(a, ctx);
+    const outcome = await evaluate(a, ctx);
     results.push(outcome);
     if (outcome.passed) {
       passed++;
@@ -67,10 +149,10 @@ export function runAssertions(
   return { results, passed, failed, failureReasons: reasons };
 }
 
-function evaluate(
+async function evaluate(
   a: { type: string; value: string },
   ctx: AssertionContext,
-): AssertionResult {
+): Promise<AssertionResult> {
   switch (a.type) {
     case "status": {
       const expected = a.value.toLowerCase();
@@ -104,6 +186,30 @@ function evaluate(
         detail: passed ? undefined : `body does not contain '${a.value}'`,
       };
     }
+    case "not-body-contains": {
+      const passed = !ctx.bodyHtml.includes(a.value);
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `body contains '${a.value}'`,
+      };
+    }
+    case "body-matches": {
+      let re: RegExp;
+      try {
+        re = parseRegex(a.value);
+      } catch (err) {
+        return { type: a.type, value: a.value, passed: false, detail: (err as Error).message };
+      }
+      const passed = re.test(ctx.bodyHtml);
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `body does not match ${re}`,
+      };
+    }
     case "title-contains": {
       const passed = ctx.title.includes(a.value);
       return {
@@ -125,17 +231,22 @@ function evaluate(
           : `duration ${ctx.durationMs}ms > budget ${budget}ms`,
       };
     }
-    case "max-lcp-ms": {
+    case "max-lcp-ms":
+    case "max-fcp-ms":
+    case "max-ttfb-ms":
+    case "max-inp-ms":
+    case "max-cls": {
+      const { metric, unit, digits } = VITAL_BUDGETS[a.type];
       const budget = parseFloat(a.value);
-      const observed = ctx.webVitals.LCP;
+      const observed = ctx.webVitals[metric];
       if (typeof observed !== "number") {
-        // LCP not captured — don't fail on it (partial collection is
+        // Not captured — don't fail on it (partial collection is
         // reported separately).
         return {
           type: a.type,
           value: a.value,
           passed: true,
-          detail: "LCP not collected; assertion skipped",
+          detail: `${metric} not collected; assertion skipped`,
         };
       }
       const passed = observed <= budget;
@@ -145,28 +256,165 @@ function evaluate(
         passed,
         detail: passed
           ? undefined
-          : `LCP ${observed.toFixed(0)}ms > budget ${budget}ms`,
+          : `${metric} ${observed.toFixed(digits)}${unit} > budget ${budget}${unit}`,
       };
     }
-    case "max-cls": {
+    case "header-exists": {
+      const name = a.value.trim().toLowerCase();
+      const passed = responseHeaders(ctx)[name] !== undefined;
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `header '${name}' missing`,
+      };
+    }
+    case "header-equals":
+    case "header-contains":
+    case "header-matches": {
+      const { name, expected } = splitHeaderAssertion(a.value);
+      const actual = responseHeaders(ctx)[name];
+      if (actual === undefined) {
+        return { type: a.type, value: a.value, passed: false, detail: `header '${name}' missing` };
+      }
+      if (a.type === "header-matches") {
+        let re: RegExp;
+        try {
+          re = parseRegex(expected);
+        } catch (err) {
+          return { type: a.type, value: a.value, passed: false, detail: (err as Error).message };
+        }
+        const passed = re.test(actual);
+        return {
+          type: a.type,
+          value: a.value,
+          passed,
+          detail: passed ? undefined : `header '${name}' is '${actual}', expected to match ${re}`,
+        };
+      }
+      const passed = a.type === "header-equals" ? actual === expected : actual.includes(expected);
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed
+          ? undefined
+          : `header '${name}' is '${actual}', expected ${a.type === "header-equals" ? "" : "to contain "}'${expected}'`,
+      };
+    }
+    case "json-path-exists":
+    case "json-path-equals": {
+      const [path, expected] =
+        a.type === "json-path-equals" ? splitOnce(a.value, /\s*==\s*/) : [a.value.trim(), ""];
+      let resolved;
+      try {
+        resolved = resolveJsonPath(JSON.parse(await rawBody(ctx)), path);
+      } catch (err) {
+        return {
+          type: a.type,
+          value: a.value,
+          passed: false,
+          detail: `json-path: ${(err as Error).message}`,
+        };
+      }
+      if (!resolved.found) {
+        return { type: a.type, value: a.value, passed: false, detail: `${path} not found` };
+      }
+      if (a.type === "json-path-exists") {
+        return { type: a.type, value: a.value, passed: true };
+      }
+      const actual =
+        typeof resolved.value === "string" ? resolved.value : JSON.stringify(resolved.value);
+      const passed = actual === expected;
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `${path} is ${actual}, expected ${expected}`,
+      };
+    }
+    case "max-a11y-critical":
+    case "max-a11y-serious":
+    case "max-a11y-moderate":
+    case "max-a11y-minor":
+    case "max-a11y-violations": {
       const budget = parseFloat(a.value);
-      const observed = ctx.webVitals.CLS;
-      if (typeof observed !== "number") {
+      if (!ctx.a11y) {
         return {
           type: a.type,
           value: a.value,
           passed: true,
-          detail: "CLS not collected; assertion skipped",
+          detail: "a11y audit not collected; assertion skipped",
         };
       }
-      const passed = observed <= budget;
+      const level = a.type.slice("max-a11y-".length);
+      const observed =
+        level === "violations" ? ctx.a11y.total : ctx.a11y.counts[level as A11yImpact];
+      const passed = Number.isFinite(budget) && observed <= budget;
+      const rules = ctx.a11y.violations
+        .filter((v) => level === "violations" || v.impact === level)
+        .map((v) => v.id);
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed
+          ? undefined
+          : `${observed} ${level === "violations" ? "" : `${level} `}a11y violations > budget ${budget} (${rules.join(", ")})`,
+      };
+    }
+    case "min-cert-days": {
+      const min = parseFloat(a.value);
+      if (!ctx.tls) {
+        return {
+          type: a.type,
+          value: a.value,
+          passed: true,
+          detail: "no TLS certificate captured; assertion skipped",
+        };
+      }
+      const soonest = soonestExpiry(ctx.tls);
+      const passed = Number.isFinite(min) && soonest.daysUntilExpiry >= min;
       return {
         type: a.type,
         value: a.value,
         passed,
         detail: passed
           ? undefined
-          : `CLS ${observed.toFixed(3)} > budget ${budget}`,
+          : `certificate '${soonest.subject ?? "unknown"}' expires in ${soonest.daysUntilExpiry} days (${soonest.validTo}), minimum ${min}`,
+      };
+    }
+    case "element-visible":
+    case "element-hidden":
+    case "element-count":
+    case "element-text-equals": {
+      if (!ctx.page) {
+        return {
+          type: a.type,
+          value: a.value,
+          passed: false,
+          detail: `${a.type} needs a browser step`,
+        };
+      }
+      try {
+        return await evaluateElement(a, ctx.page);
+      } catch (err) {
+        return {
+          type: a.type,
+          value: a.value,
+          passed: false,
+          detail: `${a.type}: ${(err as Error).message.split("\n")[0]}`,
+        };
+      }
+    }
+    case "visual-diff": {
+      const outcome = ctx.visualDiffs?.[a.value];
+      if (outcome) return outcome;
+      return {
+        type: a.type,
+        value: a.value,
+        passed: false,
+        detail: "visual-diff needs a browser step screenshot",
       };
     }
     default:
@@ -178,3 +426,104 @@ function evaluate(
       };
   }
 }
+
+const VITAL_BUDGETS: Record<
+  string,
+  { metric: keyof WebVitals; unit: string; digits: number }
+> = {
+  "max-lcp-ms": { metric: "LCP", unit: "ms", digits: 0 },
+  "max-fcp-ms": { metric: "FCP", unit: "ms", digits: 0 },
+  "max-ttfb-ms": { metric: "TTFB", unit: "ms", digits: 0 },
+  "max-inp-ms": { metric: "INP", unit: "ms", digits: 0 },
+  "max-cls": { metric: "CLS", unit: "", digits: 3 },
+};
+
+const COUNT_COMPARISON = /\s*(==|!=|>=|<=|>|<)\s*(\d+)\s*$/;
+
+async function evaluateElement(
+  a: { type: string; value: string },
+  page: Page,
+): Promise<AssertionResult> {
+  switch (a.type) {
+    case "element-visible":
+    case "element-hidden": {
+      const selector = a.value.trim();
+      const visible = await page.locator(selector).first().isVisible();
+      const passed = a.type === "element-visible" ? visible : !visible;
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed
+          ? undefined
+          : `'${selector}' is ${visible ? "visible" : "hidden or missing"}`,
+      };
+    }
+    case "element-count": {
+      const m = COUNT_COMPARISON.exec(a.value);
+      const selector = (m ? a.value.slice(0, m.index) : a.value).trim();
+      const op = m?.[1] ?? ">=";
+      const expected = m ? parseInt(m[2], 10) : 1;
+      const count = await page.locator(selector).count();
+      const passed =
+        (op === "==" && count === expected) ||
+        (op === "!=" && count !== expected) ||
+        (op === ">=" && count >= expected) ||
+        (op === "<=" && count <= expected) ||
+        (op === ">" && count > expected) ||
+        (op === "<" && count < expected);
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `'${selector}' matched ${count}, expected ${op} ${expected}`,
+      };
+    }
+    default: {
+      const [selector, expected] = splitOnce(a.value, /\s*==\s*/);
+      const el = page.locator(selector).first();
+      if ((await el.count()) === 0) {
+        return { type: a.type, value: a.value, passed: false, detail: `'${selector}' not found` };
+      }
+      const actual = (await el.innerText({ timeout: 5_000 })).trim();
+      const passed = actual === expected;
+      return {
+        type: a.type,
+        value: a.value,
+        passed,
+        detail: passed ? undefined : `'${selector}' text is '${actual}', expected '${expected}'`,
+      };
+    }
+  }
+}
+
+function responseHeaders(ctx: AssertionContext): Record<string, string> {
+  return ctx.headers ?? ctx.response?.headers() ?? {};
+}
+
+/** Body as served; falls back to bodyHtml when there's no response to read. */
+async function rawBody(ctx: AssertionContext): Promise<string> {
+  if (!ctx.response) return ctx.bodyHtml;
+  return ctx.response.text().catch(() => ctx.bodyHtml);
+}
+
+/** `/pattern/flags` or a bare pattern. */
+function parseRegex(value: string): RegExp {
+  const literal = /^\/(.*)\/([dgimsuy]*)$/s.exec(value.trim());
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+  } catch (err) {
+    throw new Error(`invalid regex '${value}': ${(err as Error).message}`);
+  }
+}
+
+function splitOnce(value: string, sep: RegExp): [string, string] {
+  const m = sep.exec(value);
+  if (!m) return [value.trim(), ""];
+  return [value.slice(0, m.index).trim(), value.slice(m.index + m[0].length).trim()];
+}
+
+function splitHeaderAssertion(value: string): { name: string; expected: string } {
+  const [name, expected] = splitOnce(value, /:\s*/);
+  return { name: name.toLowerCase(), expected };
+}
@@ -0,0 +1,45 @@
+import type { CdnCacheInfo } from "./types.js";
+
+/**
+ * Detect CDN cache hit/miss from response headers. The header
+ * conventions we cover:
+ *
+ *   cf-cache-status: HIT | MISS | BYPASS | DYNAMIC | EXPIRED | REVALIDATED
+ *   x-cache:        HIT | MISS | HIT-from-cloudfront | ...
+ *   x-cache-status: HIT | MISS
+ *   x-vercel-cache: HIT | MISS
+ *   x-served-by:    usually Fastly — treat presence as UNKNOWN
+ *   age:            cache age in seconds, indicates edge-cached
+ */
+export function classifyCacheHeaders(
+  headers: Record<string, string>,
+): CdnCacheInfo {
+  const check = (name: string) => {
+    const v = headers[name.toLowerCase()];
+    if (!v) return null;
+    return { source: name, raw: v };
+  };
+  const sources = [
+    check("cf-cache-status"),
+    check("x-cache"),
+    check("x-cache-status"),
+    check("x-vercel-cache"),
+  ].filter((x): x is { source: string; raw: string } => x !== null);
+  if (sources.length === 0) {
+    return { status: "UNKNOWN" };
+  }
+  const first = sources[0];
+  const upper = first.raw.toUpperCase();
+  const status: "HIT" | "MISS" | "UNKNOWN" = upper.includes("HIT")
+    ? "HIT"
+    : upper.includes("MISS")
+      ? "MISS"
+      : "UNKNOWN";
+  const ageHeader = headers["age"];
+  return {
+    status,
+    source: first.source,
+    raw: first.raw,
+    age: ageHeader ? parseInt(ageHeader, 10) : undefined,
+  };
+}
@@ -0,0 +1,117 @@
+import { createRequire } from "node:module";
+import { readFileSync } from "node:fs";
+import type { Page } from "playwright";
+import type {
+  A11yImpact,
+  A11yOptions,
+  A11yResult,
+  A11yViolation,
+  MonitorSpec,
+} from "../types.js";
+
+/**
+ * Accessibility audit via axe-core. Opt-in: it adds a few hundred ms
+ * per step, so runCheck only calls it when the spec sets `a11y` or
+ * asserts on `max-a11y-*`.
+ *
+ * Like the web-vitals collector, the axe bundle is read from
+ * node_modules at process start and injected with page.evaluate, so
+ * CSP and offline runners are not a problem. Never throws — a failed
+ * audit returns undefined and the step reports no a11y data.
+ */
+
+function loadAxe(): string | null {
+  try {
+    const require = createRequire(import.meta.url);
+    return readFileSync(require.resolve("axe-core/axe.min.js"), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+const AXE_SOURCE = loadAxe();
+
+/** Offending selectors kept per violation. */
+const MAX_TARGETS = 5;
+
+interface AxeViolation {
+  id: string;
+  impact?: string | null;
+  help: string;
+  helpUrl?: string;
+  nodes: Array<{ target: unknown[] }>;
+}
+
+export async function collectA11y(
+  page: Page,
+  options: A11yOptions = {},
+): Promise<A11yResult | undefined> {
+  if (!AXE_SOURCE || page.isClosed()) return undefined;
+  try {
+    const loaded = await page.evaluate(() => typeof (window as any).axe === "object");
+    if (!loaded) await page.evaluate(AXE_SOURCE);
+    const violations = await page.evaluate(
+      async (opts) => {
+        const axe = (window as any).axe;
+        const context = opts.exclude?.length
+          ? { include: [document], exclude: opts.exclude.map((s: string) => [s]) }
+          : document;
+        const runOptions: Record<string, unknown> = { resultTypes: ["violations"] };
+        if (opts.tags?.length) {
+          runOptions.runOnly = { type: "tag", values: opts.tags };
+        }
+        if (opts.disableRules?.length) {
+          runOptions.rules = Object.fromEntries(
+            opts.disableRules.map((id: string) => [id, { enabled: false }]),
+          );
+        }
+        const res = await axe.run(context, runOptions);
+        return res.violations as unknown[];
+      },
+      { tags: options.tags, disableRules: options.disableRules, exclude: options.exclude },
+    );
+    return summarizeViolations(violations as AxeViolation[]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Audit settings for a monitor, or undefined when the audit is off.
+ * `a11y: true` / `a11y: {...}` enables it explicitly; a `max-a11y-*`
+ * assertion anywhere in the spec enables it with defaults.
+ */
+export function a11yOptionsFor(spec: MonitorSpec): A11yOptions | undefined {
+  if (spec.a11y === false) return undefined;
+  if (spec.a11y === true) return {};
+  if (spec.a11y) return spec.a11y;
+  const assertions = [
+    ...(spec.assertions ?? []),
+    ...(spec.steps ?? []).flatMap((s) => s.assertions ?? []),
+  ];
+  return assertions.some((a) => a.type.startsWith("max-a11y-")) ? {} : undefined;
+}
+
+const IMPACTS: A11yImpact[] = ["critical", "serious", "moderate", "minor"];
+
+export function summarizeViolations(raw: AxeViolation[]): A11yResult {
+  const counts: Record<A11yImpact, number> = {
+    critical: 0,
+    serious: 0,
+    moderate: 0,
+    minor: 0,
+  };
+  const violations: A11yViolation[] = raw.map((v) => {
+    const impact = IMPACTS.includes(v.impact as A11yImpact) ? (v.impact as A11yImpact) : null;
+    if (impact) counts[impact]++;
+    return {
+      id: v.id,
+      impact,
+      help: v.help,
+      helpUrl: v.helpUrl,
+      nodes: v.nodes.length,
+      targets: v.nodes.slice(0, MAX_TARGETS).map((n) => n.target.map(String).join(" ")),
+    };
+  });
+  return { counts, total: violations.length, violations };
+}
@@ -4,3 +4,4 @@
 export { collectNavigationTiming as collectNavigationTimingFn } from "./navigationTiming.js";
 export { collectResourceStats as collectResourceStatsFn } from "./resourceStats.js";
 export { collectCdpMetrics as collectCdpMetricsFn } from "./cdpMetrics.js";
+export { collectA11y as collectA11yFn } from "./a11y.js";
@@ -1,9 +1,16 @@
 import type { Page } from "playwright";
-import type { WebVitals, NavigationTiming, ResourceStats, CdpMetrics } from "../types.js";
+import type {
+  WebVitals,
+  NavigationTiming,
+  ResourceStats,
+  CdpMetrics,
+  A11yResult,
+} from "../types.js";
 import { collectWebVitals } from "./webVitals.js";
 import { collectNavigationTiming } from "./navigationTiming.js";
 import { collectResourceStats } from "./resourceStats.js";
 import { collectCdpMetrics } from "./cdpMetrics.js";
+import { collectA11y } from "./a11y.js";
 
 /**
  * Collector strategy interface. Each collector is a pure function
@@ -49,7 +56,14 @@ export const cdpMetricsCollector: Collector<CdpMetrics> = {
   collect: collectCdpMetrics,
 };
 
+/** Opt-in; runCheck calls it only when the spec enables a11y. */
+export const a11yCollector: Collector<A11yResult | undefined> = {
+  name: "a11y",
+  collect: (page) => collectA11y(page),
+};
+
 registerCollector(webVitalsCollector as Collector<unknown>);
 registerCollector(navigationTimingCollector as Collector<unknown>);
 registerCollector(resourceStatsCollector as Collector<unknown>);
 registerCollector(cdpMetricsCollector as Collector<unknown>);
+registerCollector(a11yCollector as Collector<unknown>);
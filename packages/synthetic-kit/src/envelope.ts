@@ -0,0 +1,183 @@
+import {
+  ErrorCategory,
+  RunStatus,
+  type CertSummary,
+  type MonitorSpec,
+  type ResultEnvelope,
+  type StepResult,
+  type WebVitals,
+} from "./types.js";
+import { exporterFor } from "./exporters/index.js";
+import { soonestExpiry } from "./tlsCert.js";
+
+/**
+ * Envelope assembly shared by every executor (browser, api, tcp). Whatever
+ * produced the steps, the envelope shape, status roll-up and exporter
+ * fan-out are identical so downstream consumers never need to know
+ * which executor ran the monitor.
+ */
+
+export interface BuildEnvelopeArgs {
+  runId: string;
+  spec: MonitorSpec;
+  tenantId: string;
+  location: string;
+  startedAt: Date;
+  steps: StepResult[];
+  completedAt?: Date;
+  errorCategory?: ErrorCategory;
+  errorMessage?: string;
+}
+
+export function buildEnvelope(args: BuildEnvelopeArgs): ResultEnvelope {
+  const completedAt = args.completedAt ?? new Date();
+  const durationMs = completedAt.getTime() - args.startedAt.getTime();
+  const passedSteps = args.steps.filter((s) => s.status === "passed").length;
+  const failedSteps = args.steps.filter(
+    (s) => s.status === "failed" || s.status === "error",
+  ).length;
+  const partialSteps = args.steps.filter((s) => s.status === "partial").length;
+  const totalAssertionsPassed = args.steps.reduce(
+    (acc, s) => acc + s.assertions.filter((a) => a.passed).length,
+    0,
+  );
+  const totalAssertionsFailed = args.steps.reduce(
+    (acc, s) => acc + s.assertions.filter((a) => !a.passed).length,
+    0,
+  );
+
+  const webVitals: WebVitals = {};
+  for (const step of args.steps) {
+    for (const [k, v] of Object.entries(step.webVitals)) {
+      if (typeof v === "number") {
+        (webVitals as Record<string, number>)[k] = v;
+      }
+    }
+  }
+
+  const timings: Record<string, number> = {};
+  for (const step of args.steps) {
+    for (const [k, v] of Object.entries(step.navigationTiming)) {
+      if (typeof v === "number") timings[k] = v;
+    }
+  }
+
+  // a11y counts only appear when at least one step was audited.
+  const audited = args.steps.filter((s) => s.a11y);
+  const a11y = audited.length
+    ? audited.reduce(
+        (acc, s) => {
+          for (const k of ["critical", "serious", "moderate", "minor"] as const) {
+            acc[k] += s.a11y!.counts[k];
+          }
+          acc.total += s.a11y!.total;
+          return acc;
+        },
+        { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 },
+      )
+    : undefined;
+
+  let cert: CertSummary | undefined;
+  for (const step of args.steps) {
+    if (!step.tls) continue;
+    const soonest = soonestExpiry(step.tls);
+    if (!cert || soonest.daysUntilExpiry < cert.daysUntilExpiry) {
+      cert = { host: hostOf(step.url), ...soonest };
+    }
+  }
+
+  const totalRequests = args.steps.reduce(
+    (a, s) => a + s.resourceStats.totalRequests,
+    0,
+  );
+  const failedRequests = args.steps.reduce(
+    (a, s) => a + s.resourceStats.failedRequests,
+    0,
+  );
+
+  let status: RunStatus;
+  if (args.errorCategory === ErrorCategory.INFRA_FAILURE) {
+    status = RunStatus.ERROR;
+  } else if (failedSteps > 0) {
+    status = RunStatus.FAILED;
+  } else if (partialSteps > 0 || args.steps.length === 0) {
+    status = RunStatus.PARTIAL;
+  } else {
+    status = RunStatus.PASSED;
+  }
+
+  return {
+    runId: args.runId,
+    monitor: args.spec.name,
+    tenantId: args.tenantId,
+    location: args.location,
+    status,
+    startedAt: args.startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs,
+    steps: args.steps,
+    summary: {
+      totalSteps: args.steps.length,
+      passedSteps,
+      failedSteps,
+      webVitals,
+      timings,
+      ...(a11y ? { a11y } : {}),
+      ...(cert ? { cert } : {}),
+      totalRequests,
+      failedRequests,
+      passedAssertions: totalAssertionsPassed,
+      failedAssertions: totalAssertionsFailed,
+    },
+    errorCategory: args.errorCategory,
+    errorMessage: args.errorMessage,
+  };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+export function markTimeout(envelope: ResultEnvelope): ResultEnvelope {
+  return {
+    ...envelope,
+    status: RunStatus.TIMEOUT,
+    errorCategory: ErrorCategory.INFRA_FAILURE,
+    errorMessage: "Run exceeded safety timeout",
+  };
+}
+
+export function readGithubContext(): ResultEnvelope["githubContext"] {
+  return {
+    runId: process.env.GITHUB_RUN_ID,
+    runAttempt: process.env.GITHUB_RUN_ATTEMPT,
+    repository: process.env.GITHUB_REPOSITORY,
+    workflow: process.env.GITHUB_WORKFLOW,
+    actor: process.env.GITHUB_ACTOR,
+    ref: process.env.GITHUB_REF,
+    sha: process.env.GITHUB_SHA,
+  };
+}
+
+/**
+ * Fire every configured exporter, plus stdout by default so the
+ * Actions log always has the envelope even if the others fail.
+ */
+export async function exportEnvelope(
+  envelope: ResultEnvelope,
+  exporters: MonitorSpec["exporters"],
+  logPrefix: string,
+): Promise<void> {
+  for (const cfg of exporters ?? [{ type: "stdout" }]) {
+    try {
+      const exporter = exporterFor(cfg.type);
+      await exporter.export(envelope, cfg.config ?? {});
+    } catch (err) {
+      console.warn(`[${logPrefix}] exporter ${cfg.type} failed: ${(err as Error).message}`);
+    }
+  }
+}
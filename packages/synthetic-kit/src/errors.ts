@@ -30,6 +30,7 @@ const INFRA_PATTERNS = [
   /browser closed/i,
   /page\.evaluate/i,
   /spawn .* enoent/i,
+  /scriptref .* could not be loaded/i,
 ];
 
 export function isTransientError(err: unknown): boolean {
@@ -2,15 +2,45 @@ import { readFileSync, existsSync } from "node:fs";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import type { Exporter } from "./index.js";
 
+/**
+ * S3 client from exporter config + env, shared by the artifact
+ * exporter and the visual-diff baseline store. Credentials come from
+ * the standard AWS env vars (which aws-actions/configure-aws-credentials
+ * sets under GitHub Actions OIDC), with MinIO-style fallbacks kept for
+ * existing InsightView deployments.
+ */
+export function createS3Client(config: Record<string, unknown> = {}): S3Client {
+  const region =
+    (config.region as string) ?? process.env.AWS_REGION ?? "us-east-1";
+  const endpoint =
+    (config.endpoint as string) ??
+    process.env.S3_ENDPOINT ??
+    process.env.MINIO_ENDPOINT;
+  const forcePathStyle =
+    (config.forcePathStyle as boolean | undefined) ??
+    process.env.S3_FORCE_PATH_STYLE !== "false";
+  return new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    credentials: {
+      accessKeyId:
+        process.env.MINIO_ACCESS_KEY ??
+        process.env.MINIO_ROOT_USER ??
+        process.env.AWS_ACCESS_KEY_ID ??
+        "minioadmin",
+      secretAccessKey:
+        process.env.MINIO_SECRET_KEY ??
+        process.env.MINIO_ROOT_PASSWORD ??
+        process.env.AWS_SECRET_ACCESS_KEY ??
+        "minioadmin",
+    },
+  });
+}
+
 /**
  * S3/MinIO artifact exporter. Uploads the JSON envelope plus any
- * screenshots and traces referenced by the steps. Credentials are
- * pulled from standard AWS env vars, with MinIO-style fallbacks
- * preserved for the existing InsightView deployments.
- *
- * When running under GitHub Actions with OIDC, the AWS credentials
- * action (aws-actions/configure-aws-credentials@v4) sets these env
- * vars for us — no static keys required.
+ * screenshots and traces referenced by the steps.
  */
 export const s3Exporter: Exporter = {
   name: "s3",
@@ -19,36 +49,11 @@ export const s3Exporter: Exporter = {
       (config.bucket as string) ??
       process.env.S3_BUCKET ??
       "insightview-synthetic";
-    const region =
-      (config.region as string) ?? process.env.AWS_REGION ?? "us-east-1";
-    const endpoint =
-      (config.endpoint as string) ??
-      process.env.S3_ENDPOINT ??
-      process.env.MINIO_ENDPOINT;
-    const forcePathStyle =
-      (config.forcePathStyle as boolean | undefined) ??
-      process.env.S3_FORCE_PATH_STYLE !== "false";
     const prefix =
       (config.prefix as string) ?? `synthetic/${envelope.monitor}`;
 
     try {
-      const client = new S3Client({
-        region,
-        endpoint,
-        forcePathStyle,
-        credentials: {
-          accessKeyId:
-            process.env.MINIO_ACCESS_KEY ??
-            process.env.MINIO_ROOT_USER ??
-            process.env.AWS_ACCESS_KEY_ID ??
-            "minioadmin",
-          secretAccessKey:
-            process.env.MINIO_SECRET_KEY ??
-            process.env.MINIO_ROOT_PASSWORD ??
-            process.env.AWS_SECRET_ACCESS_KEY ??
-            "minioadmin",
-        },
-      });
+      const client = createS3Client(config);
 
       const timestamp = new Date()
         .toISOString()
@@ -2,7 +2,11 @@ export * from "./types.js";
 export * from "./errors.js";
 export * from "./runCheck.js";
 export * from "./runCheckBatch.js";
-export * from "./spec/schema.js";
+export * from "./runApiCheck.js";
+export * from "./runTcpCheck.js";
+export * from "./runMonitor.js";
+export * from "./script.js";
+export * from "./jsonPath.js";
 export * from "./spec/parse.js";
 export {
   type Collector,
@@ -20,3 +24,5 @@ export {
   registerExporter,
 } from "./exporters/index.js";
 export { type NetworkProfile, networkProfileFor } from "./network/index.js";
+export { type RunActionsOutcome, runActions } from "./actions/index.js";
+export * from "./visual/index.js";
@@ -0,0 +1,63 @@
+/**
+ * Minimal JSON-path resolver for API assertions. Supports the subset
+ * that covers health-check payloads without pulling in a full
+ * JSONPath engine:
+ *
+ *   $.status
+ *   $.data.items[0].id
+ *   $['weird key'].value
+ *   $.items.length        (array / string length)
+ *
+ * Returns `{ found: false }` when any segment is missing so callers
+ * can distinguish "absent" from "present but null".
+ */
+
+export type JsonPathResult = { found: true; value: unknown } | { found: false };
+
+export function parseJsonPath(path: string): Array<string | number> {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`JSON path must start with '$': ${path}`);
+  }
+  const segments: Array<string | number> = [];
+  const re = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[['"]([^'"]*)['"]\]/y;
+  let i = 1;
+  while (i < trimmed.length) {
+    re.lastIndex = i;
+    const m = re.exec(trimmed);
+    if (!m) {
+      throw new Error(`Invalid JSON path '${path}' at offset ${i}`);
+    }
+    if (m[1] !== undefined) segments.push(m[1]);
+    else if (m[2] !== undefined) segments.push(parseInt(m[2], 10));
+    else segments.push(m[3]);
+    i = re.lastIndex;
+  }
+  return segments;
+}
+
+export function resolveJsonPath(root: unknown, path: string): JsonPathResult {
+  let current: unknown = root;
+  for (const segment of parseJsonPath(path)) {
+    if (segment === "length" && (Array.isArray(current) || typeof current === "string")) {
+      current = current.length;
+      continue;
+    }
+    if (current === null || typeof current !== "object") {
+      return { found: false };
+    }
+    if (Array.isArray(current)) {
+      if (typeof segment !== "number" || segment >= current.length) {
+        return { found: false };
+      }
+      current = current[segment];
+      continue;
+    }
+    const key = String(segment);
+    if (!Object.prototype.hasOwnProperty.call(current, key)) {
+      return { found: false };
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
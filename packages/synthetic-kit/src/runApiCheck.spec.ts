@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { runApiCheck } from "./runApiCheck.js";
+
+let server: Server;
+let base: string;
+// A second origin for cross-origin redirects.
+let other: Server;
+let otherBase: string;
+let otherHeaders: IncomingHttpHeaders | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/health") {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", method: req.method }));
+    } else if (req.url === "/old") {
+      res.writeHead(301, { location: "/health" });
+      res.end();
+    } else if (req.url === "/same-origin") {
+      res.writeHead(302, { location: "/headers" });
+      res.end();
+    } else if (req.url === "/cross-origin") {
+      res.writeHead(302, { location: `${otherBase}/headers` });
+      res.end();
+    } else if (req.url === "/headers") {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(req.headers));
+    } else if (req.url === "/missing") {
+      res.writeHead(404);
+      res.end("not here");
+    } else {
+      res.writeHead(503);
+      res.end("down");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  other = createServer((req, res) => {
+    otherHeaders = req.headers;
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(req.headers));
+  });
+  await new Promise<void>((resolve) => other.listen(0, "127.0.0.1", resolve));
+  otherBase = `http://127.0.0.1:${(other.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await new Promise((resolve) => other.close(resolve));
+});
+
+describe("runApiCheck", () => {
+  it("passes a 2xx response and records timings and headers", async () => {
+    const env = await runApiCheck(
+      {
+        name: "health",
+        type: "api",
+        targetUrl: `${base}/health`,
+        assertions: [
+          { type: "header-equals", value: "content-type: application/json" },
+          { type: "json-path-equals", value: "$.status == ok" },
+        ],
+        exporters: [],
+      },
+      { location: "test" },
+    );
+    expect(env.status).toBe("PASSED");
+    expect(env.steps[0].statusCode).toBe(200);
+    expect(env.steps[0].navigationTiming.ttfb).toBeGreaterThanOrEqual(0);
+    expect(env.summary.passedAssertions).toBe(3);
+  });
+
+  it("follows redirects by default and fails on them with redirect: error", async () => {
+    const followed = await runApiCheck({
+      name: "redirect",
+      type: "api",
+      targetUrl: `${base}/old`,
+      exporters: [],
+    });
+    expect(followed.status).toBe("PASSED");
+    expect(followed.steps[0].url).toBe(`${base}/health`);
+    expect(followed.steps[0].resourceStats.totalRequests).toBe(2);
+
+    const rejected = await runApiCheck({
+      name: "redirect",
+      type: "api",
+      targetUrl: `${base}/old`,
+      request: { redirect: "error" },
+      exporters: [],
+    });
+    expect(rejected.status).toBe("FAILED");
+    expect(rejected.steps[0].errorMessage).toMatch(/redirect 301/);
+  });
+
+  it("fails on an unexpected status and honors expectedStatus", async () => {
+    const failed = await runApiCheck({
+      name: "down",
+      type: "api",
+      targetUrl: `${base}/down`,
+      exporters: [],
+    });
+    expect(failed.status).toBe("FAILED");
+    expect(failed.steps[0].errorMessage).toMatch(/status 503/);
+
+    const accepted = await runApiCheck({
+      name: "down",
+      type: "api",
+      targetUrl: `${base}/down`,
+      request: { expectedStatus: [503] },
+      exporters: [],
+    });
+    expect(accepted.status).toBe("PASSED");
+  });
+
+  it("drops credentials on cross-origin redirects only", async () => {
+    const request = { headers: { Authorization: "Bearer secret", Cookie: "sid=1", "x-check": "yes" } };
+    const same = await runApiCheck({
+      name: "same",
+      type: "api",
+      targetUrl: `${base}/same-origin`,
+      request,
+      assertions: [
+        { type: "json-path-equals", value: "$.authorization == Bearer secret" },
+        { type: "json-path-equals", value: "$.cookie == sid=1" },
+      ],
+      exporters: [],
+    });
+    expect(same.status).toBe("PASSED");
+
+    const cross = await runApiCheck({
+      name: "cross",
+      type: "api",
+      targetUrl: `${base}/cross-origin`,
+      request,
+      exporters: [],
+    });
+    expect(cross.status).toBe("PASSED");
+    expect(otherHeaders?.["x-check"]).toBe("yes");
+    expect(otherHeaders?.authorization).toBeUndefined();
+    expect(otherHeaders?.cookie).toBeUndefined();
+  });
+
+  it("lets status assertions replace the implicit 2xx expectation", async () => {
+    const env = await runApiCheck({
+      name: "gone",
+      type: "api",
+      targetUrl: `${base}/missing`,
+      assertions: [{ type: "status-code", value: "404" }],
+      exporters: [],
+    });
+    expect(env.status).toBe("PASSED");
+    expect(env.steps[0].assertions.map((a) => a.type)).toEqual(["status-code"]);
+  });
+});
@@ -0,0 +1,420 @@
+import { randomUUID } from "node:crypto";
+import http, { type IncomingMessage } from "node:http";
+import https from "node:https";
+import type { TLSSocket } from "node:tls";
+import {
+  ErrorCategory,
+  type ApiRequestSpec,
+  type AssertionResult,
+  type MonitorSpec,
+  type MonitorStep,
+  type ResultEnvelope,
+  type StepResult,
+  type TlsCertificateInfo,
+} from "./types.js";
+import { classifyError } from "./errors.js";
+import { runAssertions } from "./assertions.js";
+import { classifyCacheHeaders } from "./cdnCache.js";
+import { describeCertificate } from "./tlsCert.js";
+import { runStepWithRetries } from "./stepRetry.js";
+import {
+  buildEnvelope,
+  exportEnvelope,
+  readGithubContext,
+} from "./envelope.js";
+import type { RunCheckOptions } from "./runCheck.js";
+
+/** Response bodies beyond this are truncated before assertions run. */
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * Orchestrate one run of a `type: api` monitor. Same contract as
+ * runCheck — one StepResult per step, ALWAYS an envelope, every
+ * exporter fired — but each step is a plain HTTP exchange over
+ * node:http / node:https instead of a Chromium navigation, so a
+ * health check costs a socket rather than a browser launch.
+ *
+ * Per step we record:
+ *   - status code, response headers (for header assertions) and body
+ *     (for body-contains / json-path assertions)
+ *   - DNS, TCP connect, TLS handshake and TTFB timings of the final hop
+ *     in `navigationTiming`, with TTFB mirrored into `webVitals` so
+ *     THRESHOLD rules on TTFB work for both executors
+ *   - the peer certificate of the final hop when it was https
+ *
+ * Browser-only options (auth strategies, network profiles, consent
+ * cookies) are ignored; put credentials in `request.headers`.
+ */
+export async function runApiCheck(
+  spec: MonitorSpec,
+  opts: RunCheckOptions = {},
+): Promise<ResultEnvelope> {
+  const runId = randomUUID();
+  const startedAt = new Date();
+  const location = opts.location ?? process.env.INSIGHTVIEW_LOCATION ?? "github-actions";
+  const tenantId = opts.tenantId ?? "default";
+  const timeoutMs = spec.timeoutMs ?? 30_000;
+  const traceHeaders = await resolveTraceHeaders();
+
+  const steps: StepResult[] = [];
+  let envelope: ResultEnvelope;
+  try {
+    const effectiveSteps: MonitorStep[] = spec.steps ?? [
+      { name: "request", url: spec.targetUrl },
+    ];
+    for (const step of effectiveSteps) {
+      const request: ApiRequestSpec = {
+        ...spec.request,
+        ...step.request,
+        headers: {
+          ...traceHeaders,
+          ...spec.request?.headers,
+          ...step.request?.headers,
+        },
+      };
+      const result = await runStepWithRetries(1 + (spec.retries ?? 0), () =>
+        runApiStep({
+          step,
+          url: step.url ?? spec.targetUrl,
+          request,
+          assertions: step.assertions ?? spec.assertions ?? [],
+          timeoutMs,
+        }),
+      );
+      steps.push(result);
+    }
+    envelope = buildEnvelope({
+      runId,
+      spec,
+      tenantId,
+      location,
+      startedAt,
+      steps,
+      completedAt: new Date(),
+    });
+  } catch (err) {
+    const classified = classifyError(err);
+    envelope = buildEnvelope({
+      runId,
+      spec,
+      tenantId,
+      location,
+      startedAt,
+      steps,
+      completedAt: new Date(),
+      errorCategory: classified.category,
+      errorMessage: classified.reason,
+    });
+  }
+
+  envelope.githubContext = readGithubContext();
+  await exportEnvelope(envelope, spec.exporters, "runApiCheck");
+  return envelope;
+}
+
+interface ApiStepArgs {
+  step: MonitorStep;
+  url: string;
+  request: ApiRequestSpec;
+  assertions: Array<{ type: string; value: string }>;
+  timeoutMs: number;
+}
+
+async function runApiStep({
+  step,
+  url: stepUrl,
+  request,
+  assertions,
+  timeoutMs,
+}: ApiStepArgs): Promise<StepResult> {
+  const stepStart = Date.now();
+  const stepResult: StepResult = {
+    name: step.name,
+    url: stepUrl,
+    durationMs: 0,
+    status: "passed",
+    webVitals: {},
+    navigationTiming: {},
+    resourceStats: { totalRequests: 0, failedRequests: 0, totalBytes: 0 },
+    cdpMetrics: {},
+    assertions: [],
+  };
+
+  try {
+    const deadline = stepStart + timeoutMs;
+    const policy = request.redirect ?? "follow";
+    const maxRedirects = request.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    let method = (request.method ?? "GET").toUpperCase();
+    let body = encodeBody(request);
+    let url = new URL(stepUrl);
+    let headers: Record<string, string> = { ...request.headers };
+    let exchange: HttpExchange;
+    let redirects = 0;
+
+    for (;;) {
+      exchange = await performRequest(url, {
+        method,
+        headers: body.contentType ? { "content-type": body.contentType, ...headers } : { ...headers },
+        body: body.payload,
+        verifyTls: request.verifyTls ?? true,
+        timeoutMs: Math.max(1, deadline - Date.now()),
+      });
+      stepResult.resourceStats.totalRequests++;
+      stepResult.resourceStats.totalBytes += exchange.bytes;
+      if (exchange.statusCode >= 400) stepResult.resourceStats.failedRequests++;
+
+      const location = exchange.headers["location"];
+      if (!isRedirect(exchange.statusCode) || !location || policy === "manual") {
+        break;
+      }
+      if (policy === "error") {
+        throw new RedirectNotAllowedError(exchange.statusCode, location);
+      }
+      if (++redirects > maxRedirects) {
+        throw new RedirectNotAllowedError(
+          exchange.statusCode,
+          location,
+          `exceeded ${maxRedirects} redirects`,
+        );
+      }
+      const next = new URL(location, url);
+      // Like fetch, don't hand the check's credentials to another origin.
+      if (next.origin !== url.origin) headers = withoutCredentials(headers);
+      url = next;
+      // 303 always, and 301/302 for non-GET by browser convention,
+      // downgrade to a body-less GET.
+      if (
+        exchange.statusCode === 303 ||
+        ((exchange.statusCode === 301 || exchange.statusCode === 302) &&
+          method !== "GET" &&
+          method !== "HEAD")
+      ) {
+        method = "GET";
+        body = {};
+      }
+    }
+
+    stepResult.url = url.toString();
+    stepResult.statusCode = exchange.statusCode;
+    stepResult.cdnCache = classifyCacheHeaders(exchange.headers);
+    stepResult.navigationTiming = exchange.timing;
+    if (exchange.timing.ttfb !== undefined) {
+      stepResult.webVitals = { TTFB: exchange.timing.ttfb };
+    }
+    if (exchange.tls) stepResult.tls = exchange.tls;
+
+    // The implicit 2xx expectation gives way to the check's own status
+    // assertions, so `status-code: 404` can pass.
+    const statusResult =
+      request.expectedStatus || !assertions.some((a) => STATUS_ASSERTIONS.has(a.type))
+        ? expectedStatusResult(exchange.statusCode, request.expectedStatus)
+        : null;
+    const aResult = await runAssertions(assertions, {
+      statusCode: exchange.statusCode,
+      bodyHtml: exchange.body,
+      title: "",
+      durationMs: Date.now() - stepStart,
+      webVitals: stepResult.webVitals,
+      headers: exchange.headers,
+      tls: exchange.tls,
+    });
+    stepResult.assertions = statusResult ? [statusResult, ...aResult.results] : aResult.results;
+    const reasons = [
+      ...(!statusResult || statusResult.passed ? [] : [statusResult.detail!]),
+      ...aResult.failureReasons,
+    ];
+    if (reasons.length > 0) {
+      stepResult.status = "failed";
+      stepResult.errorCategory = ErrorCategory.TARGET_ERROR;
+      stepResult.errorMessage = reasons.join("; ");
+    }
+  } catch (err) {
+    if (err instanceof RedirectNotAllowedError) {
+      stepResult.status = "failed";
+      stepResult.errorCategory = ErrorCategory.TARGET_ERROR;
+      stepResult.errorMessage = err.message;
+    } else {
+      const classified = classifyError(err);
+      stepResult.status = "error";
+      stepResult.errorCategory = classified.category;
+      stepResult.errorMessage = classified.reason;
+    }
+  } finally {
+    stepResult.durationMs = Date.now() - stepStart;
+  }
+  return stepResult;
+}
+
+class RedirectNotAllowedError extends Error {
+  constructor(statusCode: number, location: string, why = "redirects disabled") {
+    super(`redirect ${statusCode} -> ${location} rejected: ${why}`);
+    this.name = "RedirectNotAllowedError";
+  }
+}
+
+const STATUS_ASSERTIONS = new Set(["status", "status-code"]);
+
+const CREDENTIAL_HEADERS = new Set(["authorization", "cookie", "proxy-authorization"]);
+
+function withoutCredentials(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.has(name.toLowerCase())),
+  );
+}
+
+function isRedirect(statusCode: number): boolean {
+  return [301, 302, 303, 307, 308].includes(statusCode);
+}
+
+function expectedStatusResult(
+  statusCode: number,
+  expected: number[] | undefined,
+): AssertionResult {
+  const passed = expected && expected.length > 0
+    ? expected.includes(statusCode)
+    : statusCode >= 200 && statusCode < 300;
+  const value = expected && expected.length > 0 ? expected.join(",") : "2xx";
+  return {
+    type: "expected-status",
+    value,
+    passed,
+    detail: passed ? undefined : `status ${statusCode} not in expected ${value}`,
+  };
+}
+
+function encodeBody(request: ApiRequestSpec): { payload?: string; contentType?: string } {
+  if (request.body === undefined) return {};
+  if (typeof request.body === "string") return { payload: request.body };
+  return { payload: JSON.stringify(request.body), contentType: "application/json" };
+}
+
+interface HttpExchange {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  bytes: number;
+  timing: StepResult["navigationTiming"];
+  tls?: TlsCertificateInfo;
+}
+
+interface PerformRequestArgs {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  verifyTls: boolean;
+  timeoutMs: number;
+}
+
+/**
+ * One HTTP exchange on a dedicated socket (no keep-alive agent) so
+ * the lookup / connect / secureConnect events reflect this request
+ * alone.
+ */
+function performRequest(url: URL, args: PerformRequestArgs): Promise<HttpExchange> {
+  return new Promise((resolve, reject) => {
+    const isHttps = url.protocol === "https:";
+    const start = performance.now();
+    const marks: { lookup?: number; connect?: number; secure?: number; firstByte?: number } = {};
+    let tls: TlsCertificateInfo | undefined;
+
+    const req = (isHttps ? https : http).request(url, {
+      method: args.method,
+      headers: args.headers,
+      agent: false,
+      rejectUnauthorized: args.verifyTls,
+      servername: isHttps ? url.hostname : undefined,
+    });
+
+    const timer = setTimeout(() => {
+      req.destroy(new Error(`request timed out after ${args.timeoutMs}ms`));
+    }, args.timeoutMs);
+
+    req.on("socket", (socket) => {
+      socket.once("lookup", () => (marks.lookup = performance.now()));
+      socket.once("connect", () => (marks.connect = performance.now()));
+      socket.once("secureConnect", () => {
+        marks.secure = performance.now();
+        tls = describeCertificate(socket as TLSSocket);
+      });
+    });
+
+    req.on("response", (res: IncomingMessage) => {
+      marks.firstByte = performance.now();
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      res.on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes <= MAX_BODY_BYTES) chunks.push(chunk);
+      });
+      res.on("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      res.on("end", () => {
+        clearTimeout(timer);
+        const connectStart = marks.lookup ?? start;
+        resolve({
+          statusCode: res.statusCode ?? 0,
+          headers: flattenHeaders(res.headers),
+          body: Buffer.concat(chunks).toString("utf8"),
+          bytes,
+          tls,
+          timing: {
+            dnsLookup: marks.lookup !== undefined ? round(marks.lookup - start) : undefined,
+            tcpConnect:
+              marks.connect !== undefined ? round(marks.connect - connectStart) : undefined,
+            tlsTime:
+              marks.secure !== undefined && marks.connect !== undefined
+                ? round(marks.secure - marks.connect)
+                : undefined,
+            ttfb: round(marks.firstByte! - start),
+            pageLoad: round(performance.now() - start),
+            transferSize: bytes,
+            protocol: `http/${res.httpVersion}`,
+          },
+        });
+      });
+    });
+
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    if (args.body !== undefined) req.write(args.body);
+    req.end();
+  });
+}
+
+function flattenHeaders(headers: IncomingMessage["headers"]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) {
+    if (v === undefined) continue;
+    out[k.toLowerCase()] = Array.isArray(v) ? v.join(", ") : v;
+  }
+  return out;
+}
+
+/**
+ * W3C traceparent propagation, resolved lazily exactly like the
+ * browser executor so synthetic-kit doesn't hard-depend on OTel.
+ */
+async function resolveTraceHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  try {
+    const { injectTraceHeaders } = await import(
+      "@insightview/observability"
+    ).catch(() => ({ injectTraceHeaders: null }) as any);
+    if (typeof injectTraceHeaders === "function") {
+      injectTraceHeaders(headers);
+    }
+  } catch {
+    /* tracing optional */
+  }
+  return headers;
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
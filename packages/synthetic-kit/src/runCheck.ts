@@ -1,29 +1,47 @@
 import { randomUUID } from "node:crypto";
 import { mkdirSync } from "node:fs";
 import { join } from "node:path";
-import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
+import { chromium, type Browser, type BrowserContext, type Page, type Response } from "playwright";
 import {
   ErrorCategory,
-  RunStatus,
   type ResultEnvelope,
   type StepResult,
   type MonitorSpec,
   type WebVitals,
+  type A11yOptions,
+  type TlsCertificateInfo,
 } from "./types.js";
 import { classifyError } from "./errors.js";
+import { classifyCacheHeaders } from "./cdnCache.js";
 import { runAssertions } from "./assertions.js";
 import {
   collectNavigationTimingFn,
   collectResourceStatsFn,
   collectCdpMetricsFn,
+  collectA11yFn,
 } from "./collectors/fns.js";
+import { a11yOptionsFor } from "./collectors/a11y.js";
 import {
   installWebVitalsCollector,
   collectWebVitals,
 } from "./collectors/webVitals.js";
 import { authStrategyFor } from "./auth/index.js";
+import { actionsAreIdempotent, runActions } from "./actions/index.js";
+import { defaultBaselineLocation, evaluateVisualDiffs } from "./visual/index.js";
+import {
+  isScriptRef,
+  loadJourneyScript,
+  type JourneyScript,
+  type ScriptHelpers,
+} from "./script.js";
 import { networkProfileFor } from "./network/index.js";
-import { exporterFor } from "./exporters/index.js";
+import { certificateFromSecurityDetails, probeCertificate } from "./tlsCert.js";
+import {
+  buildEnvelope,
+  exportEnvelope,
+  markTimeout,
+  readGithubContext,
+} from "./envelope.js";
 
 export interface RunCheckOptions {
   location?: string;
@@ -35,6 +53,14 @@ export interface RunCheckOptions {
   externalBrowser?: Browser;
   /** Emulate a throttled network profile. See NetworkEmulation below. */
   networkEmulation?: NetworkEmulation;
+  /** Base directory for relative `scriptRef` paths. See script.ts. */
+  scriptsDir?: string;
+  /**
+   * Where `visual-diff` baselines live: a directory or
+   * `s3://bucket/prefix`. Defaults to INSIGHTVIEW_VISUAL_BASELINES,
+   * then `./visual-baselines`.
+   */
+  visualBaselines?: string;
 }
 
 /**
@@ -75,8 +101,11 @@ const EMULATION_PRESETS: Record<
  *   3. Installs the Web Vitals collector on the context BEFORE the
  *      first navigation, so the library is present when page
  *      scripts execute.
- *   4. Walks the declared steps, navigating with app-type-aware
- *      wait strategies, running assertions, and collecting metrics.
+ *   4. Walks the declared steps on ONE shared page, navigating with
+ *      app-type-aware wait strategies, running scripted actions,
+ *      running assertions, and collecting metrics. When `scriptRef`
+ *      names a journey module, the module drives the page instead
+ *      and each `helpers.step` becomes a step.
  *   5. ALWAYS emits an envelope — if collection fails partially we
  *      still report what we have and mark the run PARTIAL.
  *   6. Ships the envelope through every configured exporter.
@@ -90,6 +119,12 @@ export async function runCheck(
   const artifactsDir = opts.artifactsDir ?? "artifacts";
   const runArtifactsDir = join(artifactsDir, spec.name, runId);
   mkdirSync(runArtifactsDir, { recursive: true });
+  const audits: StepAudits = {
+    monitor: spec.name,
+    baselines: opts.visualBaselines ?? defaultBaselineLocation(),
+    a11y: a11yOptionsFor(spec),
+    certs: new Map(),
+  };
 
   const location = opts.location ?? process.env.INSIGHTVIEW_LOCATION ?? "github-actions";
   const tenantId = opts.tenantId ?? "default";
@@ -119,6 +154,12 @@ export async function runCheck(
   let browser: Browser | undefined;
   const ownsBrowser = !opts.externalBrowser;
   try {
+    // Load the journey module before launching anything so a bad
+    // scriptRef fails fast as INFRA_FAILURE.
+    const script = isScriptRef(spec.scriptRef)
+      ? await loadJourneyScript(spec.scriptRef, opts.scriptsDir)
+      : undefined;
+
     if (opts.externalBrowser) {
       browser = opts.externalBrowser;
     } else {
@@ -187,9 +228,25 @@ export async function runCheck(
       await context.setExtraHTTPHeaders(traceHeaders);
     }
 
-    const effectiveSteps = spec.steps ?? [
-      { name: "navigate", url: spec.targetUrl },
-    ];
+    // Every step drives the same page so scripted journeys (login ->
+    // cart -> checkout) keep their DOM, storage and history between
+    // steps.
+    const journey = await openJourneyPage(context);
+
+    const effectiveSteps = script
+      ? []
+      : (spec.steps ?? [{ name: "navigate", url: spec.targetUrl }]);
+    if (script) {
+      await runJourneyScript({
+        script,
+        journey,
+        context,
+        steps,
+        assertions: spec.assertions ?? [],
+        runArtifactsDir,
+        audits,
+      });
+    }
     for (const step of effectiveSteps) {
       // Merge: per-step assertions override monitor-level ones.
       const effectiveStep = {
@@ -198,10 +255,13 @@ export async function runCheck(
       };
       const result = await runStepWithRetry({
         step: effectiveStep,
-        context,
+        journey,
         runArtifactsDir,
+        audits,
         timeoutMs,
-        maxAttempts: 1 + (spec.retries ?? 0),
+        // Steps that click or type aren't retried: the failed attempt
+        // has already acted on the shared page.
+        maxAttempts: actionsAreIdempotent(step.actions) ? 1 + (spec.retries ?? 0) : 1,
       });
       steps.push(result);
     }
@@ -243,25 +303,27 @@ export async function runCheck(
 
   envelope.githubContext = readGithubContext();
 
-  // Fire every configured exporter, plus stdout by default so the
-  // Actions log always has the envelope even if the others fail.
-  const exporters = spec.exporters ?? [{ type: "stdout" }];
-  for (const cfg of exporters) {
-    try {
-      const exporter = exporterFor(cfg.type);
-      await exporter.export(envelope, cfg.config ?? {});
-    } catch (err) {
-      console.warn(`[runCheck] exporter ${cfg.type} failed: ${(err as Error).message}`);
-    }
-  }
+  await exportEnvelope(envelope, spec.exporters, "runCheck");
 
   return envelope;
 }
 
+/** Per-run settings for the opt-in step audits (visual-diff, a11y). */
+interface StepAudits {
+  monitor: string;
+  /** visual-diff baseline location. */
+  baselines: string;
+  /** Set when the axe-core audit is enabled. */
+  a11y?: A11yOptions;
+  /** Certificate probes by origin, so each origin is probed once per run. */
+  certs: Map<string, Promise<TlsCertificateInfo | undefined>>;
+}
+
 interface RunStepArgs {
   step: NonNullable<MonitorSpec["steps"]>[number];
-  context: import("playwright").BrowserContext;
+  journey: JourneyPage;
   runArtifactsDir: string;
+  audits: StepAudits;
   timeoutMs: number;
 }
 
@@ -280,6 +342,9 @@ interface RunStepWithRetryArgs extends RunStepArgs {
  * `flaky: true` on the result so alert rules can surface flakiness
  * without hard-failing. This implements the `--fail-on-flaky-tests`
  * semantic from the research plan.
+ *
+ * Callers pass `maxAttempts: 1` for steps with non-idempotent
+ * actions (see actionsAreIdempotent).
  */
 async function runStepWithRetry(
   args: RunStepWithRetryArgs,
@@ -288,8 +353,9 @@ async function runStepWithRetry(
   for (let attempt = 1; attempt <= args.maxAttempts; attempt++) {
     const result = await runStep({
       step: args.step,
-      context: args.context,
+      journey: args.journey,
       runArtifactsDir: args.runArtifactsDir,
+      audits: args.audits,
       timeoutMs: args.timeoutMs,
     });
     result.attempts = attempt;
@@ -310,51 +376,81 @@ async function runStepWithRetry(
   }
   return (
     lastResult ?? {
-      name: args.step.name,
-      url: args.step.url,
-      durationMs: 0,
+      ...emptyStepResult(args.step.name, args.step.url ?? ""),
       status: "error",
-      webVitals: {},
-      navigationTiming: {},
-      resourceStats: { totalRequests: 0, failedRequests: 0, totalBytes: 0 },
-      cdpMetrics: {},
-      assertions: [],
     }
   );
 }
 
+/**
+ * The page shared by every step of a run, plus the response, status
+ * and headers of its latest main-frame navigation. Tracking navigations
+ * via the response event (rather than page.goto's return value) means
+ * a step that only clicks a link still reports the status code of
+ * the page it landed on.
+ */
+interface JourneyPage {
+  page: Page;
+  lastResponse: Response | null;
+  lastStatus: number;
+  lastHeaders: Record<string, string>;
+}
+
+async function openJourneyPage(context: BrowserContext): Promise<JourneyPage> {
+  const page = await context.newPage();
+  const journey: JourneyPage = {
+    page,
+    lastResponse: null,
+    lastStatus: 0,
+    lastHeaders: {},
+  };
+  page.on("response", (response) => {
+    if (
+      response.request().isNavigationRequest() &&
+      response.frame() === page.mainFrame()
+    ) {
+      journey.lastResponse = response;
+      journey.lastStatus = response.status();
+      journey.lastHeaders = response.headers();
+    }
+  });
+  return journey;
+}
+
 async function runStep({
   step,
-  context,
+  journey,
   runArtifactsDir,
+  audits,
   timeoutMs,
 }: RunStepArgs): Promise<StepResult> {
   const stepStart = Date.now();
-  const page = await context.newPage();
-  const stepResult: StepResult = {
-    name: step.name,
-    url: step.url,
-    durationMs: 0,
-    status: "passed",
-    webVitals: {},
-    navigationTiming: {},
-    resourceStats: { totalRequests: 0, failedRequests: 0, totalBytes: 0 },
-    cdpMetrics: {},
-    assertions: [],
-  };
+  const { page } = journey;
+  const stepResult = emptyStepResult(step.name, step.url ?? page.url());
 
   try {
-    const response = await page.goto(step.url, {
-      waitUntil: step.waitFor?.networkIdle ? "networkidle" : "load",
-      timeout: step.waitFor?.timeoutMs ?? Math.max(5_000, timeoutMs - 10_000),
-    });
-    stepResult.statusCode = response?.status() ?? 0;
+    if (step.url) {
+      await page.goto(step.url, {
+        waitUntil: step.waitFor?.networkIdle ? "networkidle" : "load",
+        timeout: step.waitFor?.timeoutMs ?? Math.max(5_000, timeoutMs - 10_000),
+      });
+    }
+
+    // Scripted journey actions run after the (optional) navigation,
+    // each timed individually. The first failure aborts the step.
+    if (step.actions && step.actions.length > 0) {
+      const outcome = await runActions(page, step.actions, step.waitFor?.timeoutMs);
+      stepResult.actions = outcome.results;
+      stepResult.url = page.url();
+      if (outcome.error) throw outcome.error;
+    }
+
+    stepResult.statusCode = journey.lastStatus;
 
     // Capture CDN cache hit/miss from response headers. The set of
     // headers we look for covers the major CDNs: Cloudflare, Fastly,
     // Akamai, CloudFront, Vercel.
-    const headers = response?.headers() ?? {};
-    stepResult.cdnCache = classifyCacheHeaders(headers);
+    stepResult.cdnCache = classifyCacheHeaders(journey.lastHeaders);
 
     if (step.waitFor?.selector) {
       await page
@@ -369,119 +465,263 @@ async function runStep({
       await page.waitForTimeout(500);
     }
 
-    // Collect every metric, best-effort.
-    stepResult.webVitals = await collectWebVitals(page);
-    stepResult.navigationTiming = await collectNavigationTimingFn(page);
-    stepResult.resourceStats = await collectResourceStatsFn(page);
-    stepResult.cdpMetrics = await collectCdpMetricsFn(page);
-
-    // Assertions
-    const body = await page.content().catch(() => "");
-    const title = (await page.title().catch(() => "")) || "";
-    const assertions = step.assertions ?? [];
-    const aResult = runAssertions(assertions, {
-      statusCode: stepResult.statusCode ?? 0,
-      bodyHtml: body,
-      title,
-      durationMs: Date.now() - stepStart,
-      webVitals: stepResult.webVitals as WebVitals,
+    await completeStep({
+      page,
+      response: journey.lastResponse,
+      stepResult,
+      assertions: step.assertions ?? [],
+      stepStart,
+      runArtifactsDir,
+      audits,
     });
-    stepResult.assertions = aResult.results;
-    if (aResult.failed > 0) {
-      stepResult.status = "failed";
-      stepResult.errorCategory = ErrorCategory.TARGET_ERROR;
-      stepResult.errorMessage = aResult.failureReasons.join("; ");
-    } else if (
-      Object.keys(stepResult.webVitals).length === 0 &&
-      (!stepResult.navigationTiming.ttfb || stepResult.navigationTiming.ttfb === 0)
-    ) {
-      // We collected nothing useful; flag as partial so alerting knows.
-      stepResult.status = "partial";
-      stepResult.errorCategory = ErrorCategory.PARTIAL;
-      stepResult.errorMessage = "no metrics collected";
-    }
-
-    // Capture screenshot on pass OR fail — monitoring wants artifacts both ways.
-    try {
-      const screenshotPath = join(
-        runArtifactsDir,
-        `${sanitize(step.name)}.png`,
-      );
-      await page.screenshot({ path: screenshotPath, fullPage: false });
-      stepResult.screenshotPath = screenshotPath;
-    } catch {
-      /* ignore */
-    }
   } catch (err) {
-    const classified = classifyError(err);
-    stepResult.status = "error";
-    stepResult.errorCategory = classified.category;
-    stepResult.errorMessage = classified.reason;
-    try {
-      const screenshotPath = join(
-        runArtifactsDir,
-        `${sanitize(step.name)}-error.png`,
-      );
-      await page.screenshot({ path: screenshotPath }).catch(() => {});
-      stepResult.screenshotPath = screenshotPath;
-    } catch {
-      /* ignore */
-    }
+    await failStep(page, stepResult, err, runArtifactsDir);
   } finally {
     stepResult.durationMs = Date.now() - stepStart;
-    await page.close().catch(() => {});
   }
   return stepResult;
 }
 
-function sanitize(name: string): string {
-  return name.replace(/[^a-zA-Z0-9_.-]/g, "_");
+interface RunJourneyScriptArgs {
+  script: JourneyScript;
+  journey: JourneyPage;
+  context: BrowserContext;
+  steps: StepResult[];
+  assertions: Array<{ type: string; value: string }>;
+  runArtifactsDir: string;
+  audits: StepAudits;
 }
 
 /**
- * Detect CDN cache hit/miss from response headers. The header
- * conventions we cover:
- *
- *   cf-cache-status: HIT | MISS | BYPASS | DYNAMIC | EXPIRED | REVALIDATED
- *   x-cache:        HIT | MISS | HIT-from-cloudfront | ...
- *   x-cache-status: HIT | MISS
- *   x-vercel-cache: HIT | MISS
- *   x-served-by:    usually Fastly — treat presence as UNKNOWN
- *   age:            cache age in seconds, indicates edge-cached
+ * Execute a scriptRef journey. Each helpers.step is measured exactly
+ * like a declarative step; a throw inside a step is recorded on that
+ * step and then propagates so the journey stops. A throw outside any
+ * step, or a script that never calls helpers.step, is reported as a
+ * single "script" step so the envelope never comes back empty.
  */
-function classifyCacheHeaders(
-  headers: Record<string, string>,
-): import("./types.js").CdnCacheInfo {
-  const check = (name: string) => {
-    const v = headers[name.toLowerCase()];
-    if (!v) return null;
-    return { source: name, raw: v };
+async function runJourneyScript(args: RunJourneyScriptArgs): Promise<void> {
+  const { page } = args.journey;
+  const recorded = new WeakSet<object>();
+  const helpers: ScriptHelpers = {
+    async step(name, fn, opts) {
+      const stepStart = Date.now();
+      const stepResult = emptyStepResult(name, page.url());
+      args.steps.push(stepResult);
+      try {
+        const value = await fn();
+        stepResult.url = page.url();
+        stepResult.statusCode = args.journey.lastStatus;
+        stepResult.cdnCache = classifyCacheHeaders(args.journey.lastHeaders);
+        await completeStep({
+          page,
+          response: args.journey.lastResponse,
+          stepResult,
+          assertions: opts?.assertions ?? args.assertions,
+          stepStart,
+          runArtifactsDir: args.runArtifactsDir,
+          audits: args.audits,
+        });
+        return value;
+      } catch (err) {
+        await failStep(page, stepResult, err, args.runArtifactsDir);
+        if (err && typeof err === "object") recorded.add(err);
+        throw err;
+      } finally {
+        stepResult.durationMs = Date.now() - stepStart;
+      }
+    },
   };
-  const sources = [
-    check("cf-cache-status"),
-    check("x-cache"),
-    check("x-cache-status"),
-    check("x-vercel-cache"),
-  ].filter((x): x is { source: string; raw: string } => x !== null);
-  if (sources.length === 0) {
-    return { status: "UNKNOWN" };
+
+  const scriptStart = Date.now();
+  const stepsBefore = args.steps.length;
+  try {
+    await args.script(page, args.context, helpers);
+    if (args.steps.length === stepsBefore) {
+      const stepResult = emptyStepResult("script", page.url());
+      stepResult.statusCode = args.journey.lastStatus;
+      stepResult.cdnCache = classifyCacheHeaders(args.journey.lastHeaders);
+      await completeStep({
+        page,
+        response: args.journey.lastResponse,
+        stepResult,
+        assertions: args.assertions,
+        stepStart: scriptStart,
+        runArtifactsDir: args.runArtifactsDir,
+        audits: args.audits,
+      });
+      stepResult.durationMs = Date.now() - scriptStart;
+      args.steps.push(stepResult);
+    }
+  } catch (err) {
+    if (err && typeof err === "object" && recorded.has(err)) return;
+    const stepResult = emptyStepResult("script", page.url());
+    await failStep(page, stepResult, err, args.runArtifactsDir);
+    stepResult.durationMs = Date.now() - scriptStart;
+    args.steps.push(stepResult);
+  }
+}
+
+/**
+ * Certificate of the step's origin: a direct probe (full chain and
+ * SANs), or Playwright's securityDetails() when the probe can't reach
+ * the origin. Undefined for plain http.
+ */
+async function certificateFor(
+  url: string,
+  response: Response | null,
+  cache: Map<string, Promise<TlsCertificateInfo | undefined>>,
+): Promise<TlsCertificateInfo | undefined> {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+  if (!origin.startsWith("https:")) return undefined;
+  let probe = cache.get(origin);
+  if (!probe) {
+    probe = probeCertificate(origin);
+    cache.set(origin, probe);
   }
-  const first = sources[0];
-  const upper = first.raw.toUpperCase();
-  const status: "HIT" | "MISS" | "UNKNOWN" = upper.includes("HIT")
-    ? "HIT"
-    : upper.includes("MISS")
-      ? "MISS"
-      : "UNKNOWN";
-  const ageHeader = headers["age"];
+  const probed = await probe;
+  if (probed) return probed;
+  const details = await response?.securityDetails().catch(() => null);
+  return details ? certificateFromSecurityDetails(details) : undefined;
+}
+
+function emptyStepResult(name: string, url: string): StepResult {
   return {
-    status,
-    source: first.source,
-    raw: first.raw,
-    age: ageHeader ? parseInt(ageHeader, 10) : undefined,
+    name,
+    url,
+    durationMs: 0,
+    status: "passed",
+    webVitals: {},
+    navigationTiming: {},
+    resourceStats: { totalRequests: 0, failedRequests: 0, totalBytes: 0 },
+    cdpMetrics: {},
+    assertions: [],
   };
 }
 
+interface CompleteStepArgs {
+  page: Page;
+  /** Latest main-frame navigation response, for header / body assertions. */
+  response: Response | null;
+  stepResult: StepResult;
+  assertions: Array<{ type: string; value: string }>;
+  stepStart: number;
+  runArtifactsDir: string;
+  audits: StepAudits;
+}
+
+/**
+ * Second half of every browser step, declarative or scripted: collect
+ * metrics, take the screenshot, run assertions (visual-diff compares
+ * that screenshot) and settle the step status.
+ */
+async function completeStep({
+  page,
+  response,
+  stepResult,
+  assertions,
+  stepStart,
+  runArtifactsDir,
+  audits,
+}: CompleteStepArgs): Promise<void> {
+  // Collect every metric, best-effort.
+  stepResult.webVitals = await collectWebVitals(page);
+  stepResult.navigationTiming = await collectNavigationTimingFn(page);
+  stepResult.resourceStats = await collectResourceStatsFn(page);
+  stepResult.cdpMetrics = await collectCdpMetricsFn(page);
+  if (audits.a11y) {
+    stepResult.a11y = await collectA11yFn(page, audits.a11y);
+  }
+  // Measured before the screenshot so max-duration-ms budgets don't
+  // pay for artifact capture.
+  const durationMs = Date.now() - stepStart;
+
+  stepResult.tls = await certificateFor(page.url(), response, audits.certs);
+
+  // Capture screenshot on pass OR fail — monitoring wants artifacts both ways.
+  try {
+    const screenshotPath = join(
+      runArtifactsDir,
+      `${sanitize(stepResult.name)}.png`,
+    );
+    await page.screenshot({ path: screenshotPath, fullPage: false });
+    stepResult.screenshotPath = screenshotPath;
+  } catch {
+    /* ignore */
+  }
+
+  // Assertions
+  const body = await page.content().catch(() => "");
+  const title = (await page.title().catch(() => "")) || "";
+  const visualDiffs =
+    stepResult.screenshotPath && assertions.some((a) => a.type === "visual-diff")
+      ? await evaluateVisualDiffs(assertions, {
+          page,
+          monitor: audits.monitor,
+          step: stepResult.name,
+          baselines: audits.baselines,
+          screenshotPath: stepResult.screenshotPath,
+          runArtifactsDir,
+        })
+      : undefined;
+  const aResult = await runAssertions(assertions, {
+    statusCode: stepResult.statusCode ?? 0,
+    bodyHtml: body,
+    title,
+    durationMs,
+    webVitals: stepResult.webVitals as WebVitals,
+    page,
+    response,
+    tls: stepResult.tls,
+    a11y: stepResult.a11y,
+    visualDiffs,
+  });
+  stepResult.assertions = aResult.results;
+  if (aResult.failed > 0) {
+    stepResult.status = "failed";
+    stepResult.errorCategory = ErrorCategory.TARGET_ERROR;
+    stepResult.errorMessage = aResult.failureReasons.join("; ");
+  } else if (
+    Object.keys(stepResult.webVitals).length === 0 &&
+    (!stepResult.navigationTiming.ttfb || stepResult.navigationTiming.ttfb === 0)
+  ) {
+    // We collected nothing useful; flag as partial so alerting knows.
+    stepResult.status = "partial";
+    stepResult.errorCategory = ErrorCategory.PARTIAL;
+    stepResult.errorMessage = "no metrics collected";
+  }
+}
+
+async function failStep(
+  page: Page,
+  stepResult: StepResult,
+  err: unknown,
+  runArtifactsDir: string,
+): Promise<void> {
+  const classified = classifyError(err);
+  stepResult.status = "error";
+  stepResult.errorCategory = classified.category;
+  stepResult.errorMessage = classified.reason;
+  try {
+    const screenshotPath = join(
+      runArtifactsDir,
+      `${sanitize(stepResult.name)}-error.png`,
+    );
+    await page.screenshot({ path: screenshotPath }).catch(() => {});
+    stepResult.screenshotPath = screenshotPath;
+  } catch {
+    /* ignore */
+  }
+}
+
+function sanitize(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_.-]/g, "_");
+}
+
 /**
  * Apply Chrome DevTools network throttling to a context. Uses the
  * CDP Network.emulateNetworkConditions command on a fresh session.
@@ -514,107 +754,3 @@ async function applyNetworkEmulation(
     );
   }
 }
-
-interface BuildEnvelopeArgs {
-  runId: string;
-  spec: MonitorSpec;
-  tenantId: string;
-  location: string;
-  startedAt: Date;
-  steps: StepResult[];
-  completedAt?: Date;
-  errorCategory?: ErrorCategory;
-  errorMessage?: string;
-}
-
-function buildEnvelope(args: BuildEnvelopeArgs): ResultEnvelope {
-  const completedAt = args.completedAt ?? new Date();
-  const durationMs = completedAt.getTime() - args.startedAt.getTime();
-  const passedSteps = args.steps.filter((s) => s.status === "passed").length;
-  const failedSteps = args.steps.filter(
-    (s) => s.status === "failed" || s.status === "error",
-  ).length;
-  const partialSteps = args.steps.filter((s) => s.status === "partial").length;
-  const totalAssertionsPassed = args.steps.reduce(
-    (acc, s) => acc + s.assertions.filter((a) => a.passed).length,
-    0,
-  );
-  const totalAssertionsFailed = args.steps.reduce(
-    (acc, s) => acc + s.assertions.filter((a) => !a.passed).length,
-    0,
-  );
-
-  const webVitals: WebVitals = {};
-  for (const step of args.steps) {
-    for (const [k, v] of Object.entries(step.webVitals)) {
-      if (typeof v === "number") {
-        (webVitals as Record<string, number>)[k] = v;
-      }
-    }
-  }
-
-  const totalRequests = args.steps.reduce(
-    (a, s) => a + s.resourceStats.totalRequests,
-    0,
-  );
-  const failedRequests = args.steps.reduce(
-    (a, s) => a + s.resourceStats.failedRequests,
-    0,
-  );
-
-  let status: RunStatus;
-  if (args.errorCategory === ErrorCategory.INFRA_FAILURE) {
-    status = RunStatus.ERROR;
-  } else if (failedSteps > 0) {
-    status = RunStatus.FAILED;
-  } else if (partialSteps > 0 || args.steps.length === 0) {
-    status = RunStatus.PARTIAL;
-  } else {
-    status = RunStatus.PASSED;
-  }
-
-  return {
-    runId: args.runId,
-    monitor: args.spec.name,
-    tenantId: args.tenantId,
-    location: args.location,
-    status,
-    startedAt: args.startedAt.toISOString(),
-    completedAt: completedAt.toISOString(),
-    durationMs,
-    steps: args.steps,
-    summary: {
-      totalSteps: args.steps.length,
-      passedSteps,
-      failedSteps,
-      webVitals,
-      totalRequests,
-      failedRequests,
-      passedAssertions: totalAssertionsPassed,
-      failedAssertions: totalAssertionsFailed,
-    },
-    errorCategory: args.errorCategory,
-    errorMessage: args.errorMessage,
-  };
-}
-
-function markTimeout(envelope: ResultEnvelope): ResultEnvelope {
-  return {
-    ...envelope,
-    status: RunStatus.TIMEOUT,
-    errorCategory: ErrorCategory.INFRA_FAILURE,
-    errorMessage: "Run exceeded safety timeout",
-  };
-}
-
-function readGithubContext(): ResultEnvelope["githubContext"] {
-  return {
-    runId: process.env.GITHUB_RUN_ID,
-    runAttempt: process.env.GITHUB_RUN_ATTEMPT,
-    repository: process.env.GITHUB_REPOSITORY,
-    workflow: process.env.GITHUB_WORKFLOW,
-    actor: process.env.GITHUB_ACTOR,
-    ref: process.env.GITHUB_REF,
-    sha: process.env.GITHUB_SHA,
-  };
-}
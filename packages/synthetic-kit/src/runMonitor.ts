@@ -0,0 +1,28 @@
+import type { MonitorSpec, ResultEnvelope } from "./types.js";
+import { runCheck, type RunCheckOptions } from "./runCheck.js";
+import { runApiCheck } from "./runApiCheck.js";
+import { runTcpCheck } from "./runTcpCheck.js";
+
+/**
+ * Type-aware entry point: routes a spec to the executor for its
+ * `type`. Browser monitors (the default) go through Chromium via
+ * runCheck; `api` monitors are plain HTTP exchanges via runApiCheck;
+ * `tcp` monitors are connect / handshake / banner probes via
+ * runTcpCheck.
+ * Callers that don't care which executor runs should use this.
+ */
+export async function runMonitor(
+  spec: MonitorSpec,
+  opts: RunCheckOptions = {},
+): Promise<ResultEnvelope> {
+  switch (spec.type ?? "browser") {
+    case "api":
+      return runApiCheck(spec, opts);
+    case "tcp":
+      return runTcpCheck(spec, opts);
+    case "browser":
+      return runCheck(spec, opts);
+    default:
+      throw new Error(`Unsupported monitor type '${spec.type}'`);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:net";
+import type { AddressInfo } from "node:net";
+import { parseTcpTarget, runTcpCheck } from "./runTcpCheck.js";
+
+let server: Server;
+let target: string;
+
+beforeAll(async () => {
+  // Minimal SMTP-ish peer: greets on connect, answers PING with PONG.
+  server = createServer((socket) => {
+    socket.on("error", () => {});
+    socket.write("220 insightview-test ready\r\n");
+    socket.on("data", (chunk) => {
+      if (chunk.toString().startsWith("PING")) socket.write("PONG\r\n");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  target = `tcp://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("runTcpCheck", () => {
+  it("connects and records connect timing", async () => {
+    const env = await runTcpCheck({ name: "port", type: "tcp", targetUrl: target, exporters: [] });
+    expect(env.status).toBe("PASSED");
+    expect(env.steps[0].navigationTiming.tcpConnect).toBeGreaterThanOrEqual(0);
+    expect(env.summary.timings.tcpConnect).toBeGreaterThanOrEqual(0);
+  });
+
+  it("passes a send/expect exchange and fails on a wrong banner", async () => {
+    const ok = await runTcpCheck({
+      name: "banner",
+      type: "tcp",
+      targetUrl: target,
+      tcp: { send: "PING\r\n", expect: "PONG" },
+      exporters: [],
+    });
+    expect(ok.status).toBe("PASSED");
+    expect(ok.steps[0].navigationTiming.ttfb).toBeGreaterThanOrEqual(0);
+
+    const bad = await runTcpCheck({
+      name: "banner",
+      type: "tcp",
+      targetUrl: target,
+      timeoutMs: 500,
+      tcp: { expect: "SSH-2.0" },
+      exporters: [],
+    });
+    expect(bad.status).not.toBe("PASSED");
+  });
+
+  it("reports a closed port as TARGET_DOWN", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const env = await runTcpCheck({
+      name: "closed",
+      type: "tcp",
+      targetUrl: `tcp://127.0.0.1:${port}`,
+      exporters: [],
+    });
+    expect(env.status).toBe("FAILED");
+    expect(env.steps[0].errorCategory).toBe("TARGET_DOWN");
+  });
+});
+
+describe("parseTcpTarget", () => {
+  it("parses tcp, tls and bracketed IPv6 targets", () => {
+    expect(parseTcpTarget("tcp://db.internal:5432")).toEqual({
+      host: "db.internal",
+      port: 5432,
+      tls: false,
+    });
+    expect(parseTcpTarget("tls://[::1]:465").tls).toBe(true);
+    expect(() => parseTcpTarget("https://example.com")).toThrow(/tcp:\/\/host:port/);
+  });
+});
@@ -0,0 +1,294 @@
+import { randomUUID } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { once } from "node:events";
+import { isIP, connect as netConnect, type Socket } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import {
+  ErrorCategory,
+  type MonitorSpec,
+  type MonitorStep,
+  type ResultEnvelope,
+  type StepResult,
+  type TcpProbeSpec,
+} from "./types.js";
+import { classifyError } from "./errors.js";
+import { runAssertions } from "./assertions.js";
+import { describeCertificate } from "./tlsCert.js";
+import { runStepWithRetries } from "./stepRetry.js";
+import {
+  buildEnvelope,
+  exportEnvelope,
+  readGithubContext,
+} from "./envelope.js";
+import type { RunCheckOptions } from "./runCheck.js";
+
+/** Bytes of peer output kept for `expect` matching and assertions. */
+const MAX_BANNER_BYTES = 64 * 1024;
+
+/**
+ * Orchestrate one run of a `type: tcp` monitor: "is port X open and
+ * does it speak the protocol we expect". Each step:
+ *
+ *   1. Resolves the host (skipped for IP literals)  -> dnsLookup
+ *   2. Opens a TCP connection                        -> tcpConnect
+ *   3. Optionally performs a TLS handshake           -> tlsTime (+ tls cert)
+ *   4. Optionally writes `send` and waits for the peer to send back
+ *      `expect` (banner exchange)                    -> ttfb
+ *
+ * Timings land in `navigationTiming` and therefore in the envelope's
+ * `summary.timings`, which THRESHOLD rules can target by name
+ * (`{ metric: "tcpConnect", operator: ">", value: 200 }`).
+ *
+ * The received bytes are exposed to assertions as the body, so
+ * `body-contains` and `max-duration-ms` work; status-code assertions
+ * do not apply.
+ */
+export async function runTcpCheck(
+  spec: MonitorSpec,
+  opts: RunCheckOptions = {},
+): Promise<ResultEnvelope> {
+  const runId = randomUUID();
+  const startedAt = new Date();
+  const location = opts.location ?? process.env.INSIGHTVIEW_LOCATION ?? "github-actions";
+  const tenantId = opts.tenantId ?? "default";
+  const timeoutMs = spec.timeoutMs ?? 10_000;
+
+  const steps: StepResult[] = [];
+  let envelope: ResultEnvelope;
+  try {
+    const effectiveSteps: MonitorStep[] = spec.steps ?? [
+      { name: "connect", url: spec.targetUrl },
+    ];
+    for (const step of effectiveSteps) {
+      const result = await runStepWithRetries(1 + (spec.retries ?? 0), () =>
+        runTcpStep({
+          step,
+          url: step.url ?? spec.targetUrl,
+          probe: spec.tcp ?? {},
+          assertions: step.assertions ?? spec.assertions ?? [],
+          timeoutMs,
+        }),
+      );
+      steps.push(result);
+    }
+    envelope = buildEnvelope({
+      runId,
+      spec,
+      tenantId,
+      location,
+      startedAt,
+      steps,
+      completedAt: new Date(),
+    });
+  } catch (err) {
+    const classified = classifyError(err);
+    envelope = buildEnvelope({
+      runId,
+      spec,
+      tenantId,
+      location,
+      startedAt,
+      steps,
+      completedAt: new Date(),
+      errorCategory: classified.category,
+      errorMessage: classified.reason,
+    });
+  }
+
+  envelope.githubContext = readGithubContext();
+  await exportEnvelope(envelope, spec.exporters, "runTcpCheck");
+  return envelope;
+}
+
+/**
+ * Parse `tcp://host:port` / `tls://host:port`. IPv6 literals use the
+ * usual bracket form (`tcp://[::1]:5432`).
+ */
+export function parseTcpTarget(target: string): { host: string; port: number; tls: boolean } {
+  const m = /^(tcp|tls):\/\/(\[[^\]]+\]|[^:/]+):(\d{1,5})\/?$/i.exec(target.trim());
+  if (!m) {
+    throw new Error(`tcp target must look like tcp://host:port or tls://host:port, got '${target}'`);
+  }
+  const port = parseInt(m[3], 10);
+  if (port < 1 || port > 65535) {
+    throw new Error(`tcp target port out of range: ${port}`);
+  }
+  return {
+    host: m[2].replace(/^\[|\]$/g, ""),
+    port,
+    tls: m[1].toLowerCase() === "tls",
+  };
+}
+
+interface TcpStepArgs {
+  step: MonitorStep;
+  url: string;
+  probe: TcpProbeSpec;
+  assertions: Array<{ type: string; value: string }>;
+  timeoutMs: number;
+}
+
+async function runTcpStep({
+  step,
+  url,
+  probe,
+  assertions,
+  timeoutMs,
+}: TcpStepArgs): Promise<StepResult> {
+  const stepStart = Date.now();
+  const stepResult: StepResult = {
+    name: step.name,
+    url,
+    durationMs: 0,
+    status: "passed",
+    webVitals: {},
+    navigationTiming: {},
+    resourceStats: { totalRequests: 0, failedRequests: 0, totalBytes: 0 },
+    cdpMetrics: {},
+    assertions: [],
+  };
+
+  // Every phase races the step deadline so a black-holed port or a
+  // silent peer can't hang the run.
+  let socket: Socket | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`request timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+  deadline.catch(() => {});
+  const within = <T>(p: Promise<T>): Promise<T> => Promise.race([p, deadline]);
+
+  try {
+    const target = parseTcpTarget(url);
+    const useTls = probe.tls ?? target.tls;
+    const timing = stepResult.navigationTiming;
+    const t0 = performance.now();
+
+    let address = target.host;
+    if (!isIP(target.host)) {
+      address = (await within(lookup(target.host))).address;
+      timing.dnsLookup = round(performance.now() - t0);
+    }
+
+    const tConnect = performance.now();
+    socket = netConnect({ host: address, port: target.port });
+    // Phase promises below observe errors; this keeps a late RST from
+    // surfacing as an uncaught exception between phases.
+    socket.on("error", () => {});
+    await within(once(socket, "connect"));
+    timing.tcpConnect = round(performance.now() - tConnect);
+    stepResult.resourceStats.totalRequests = 1;
+
+    if (useTls) {
+      const tTls = performance.now();
+      const secure = tlsConnect({
+        socket,
+        servername: probe.servername ?? (isIP(target.host) ? undefined : target.host),
+        rejectUnauthorized: probe.verifyTls ?? true,
+      });
+      socket = secure;
+      secure.on("error", () => {});
+      await within(once(secure, "secureConnect")).catch((err: Error) => {
+        throw new Error(`tls handshake failed: ${err.message}`);
+      });
+      timing.tlsTime = round(performance.now() - tTls);
+      timing.protocol = secure.getProtocol() ?? undefined;
+      stepResult.tls = describeCertificate(secure);
+    }
+
+    let received = "";
+    if (probe.send !== undefined || probe.expect !== undefined) {
+      const tExchange = performance.now();
+      const exchange = await within(bannerExchange(socket, probe.send, probe.expect));
+      received = exchange.received;
+      stepResult.resourceStats.totalBytes = exchange.bytes;
+      if (exchange.firstByteAt !== undefined) {
+        timing.ttfb = round(exchange.firstByteAt - tExchange);
+      }
+    }
+    timing.pageLoad = round(performance.now() - t0);
+
+    const expectResult =
+      probe.expect !== undefined
+        ? [
+            {
+              type: "expect",
+              value: probe.expect,
+              passed: received.includes(probe.expect),
+              detail: received.includes(probe.expect)
+                ? undefined
+                : `peer did not send '${probe.expect}' (received ${JSON.stringify(received.slice(0, 200))})`,
+            },
+          ]
+        : [];
+    const aResult = await runAssertions(assertions, {
+      statusCode: 0,
+      bodyHtml: received,
+      title: "",
+      durationMs: Date.now() - stepStart,
+      webVitals: {},
+      tls: stepResult.tls,
+    });
+    stepResult.assertions = [...expectResult, ...aResult.results];
+    const reasons = [
+      ...expectResult.filter((r) => !r.passed).map((r) => r.detail!),
+      ...aResult.failureReasons,
+    ];
+    if (reasons.length > 0) {
+      stepResult.status = "failed";
+      stepResult.errorCategory = ErrorCategory.TARGET_ERROR;
+      stepResult.errorMessage = reasons.join("; ");
+    }
+  } catch (err) {
+    const classified = classifyError(err);
+    stepResult.status = "error";
+    stepResult.errorCategory = classified.category;
+    stepResult.errorMessage = classified.reason;
+    stepResult.resourceStats.failedRequests = 1;
+  } finally {
+    clearTimeout(timer);
+    socket?.destroy();
+    stepResult.durationMs = Date.now() - stepStart;
+  }
+  return stepResult;
+}
+
+/**
+ * Write `send` (if any) and read until `expect` shows up, the peer
+ * closes, or — with nothing to expect — the first chunk arrives.
+ */
+function bannerExchange(
+  socket: Socket,
+  send: string | undefined,
+  expect: string | undefined,
+): Promise<{ received: string; bytes: number; firstByteAt?: number }> {
+  return new Promise((resolve, reject) => {
+    let received = "";
+    let bytes = 0;
+    let firstByteAt: number | undefined;
+    const done = () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", done);
+      resolve({ received, bytes, firstByteAt });
+    };
+    const onData = (chunk: Buffer) => {
+      firstByteAt ??= performance.now();
+      bytes += chunk.length;
+      if (received.length < MAX_BANNER_BYTES) received += chunk.toString("utf8");
+      if (expect === undefined || received.includes(expect)) done();
+    };
+    const onError = (err: Error) => reject(err);
+    socket.on("data", onData);
+    socket.once("error", onError);
+    socket.once("close", done);
+    if (send !== undefined) socket.write(send);
+  });
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
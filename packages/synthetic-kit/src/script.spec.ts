@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { isScriptRef, loadJourneyScript, resolveScriptPath } from "./script.js";
+import { classifyError } from "./errors.js";
+import { ErrorCategory } from "./types.js";
+
+describe("script.isScriptRef", () => {
+  it("treats module paths as scripts and bare names as default navigation", () => {
+    expect(isScriptRef("./journeys/checkout.ts")).toBe(true);
+    expect(isScriptRef("/abs/flow.mjs")).toBe(true);
+    expect(isScriptRef("basic-homepage")).toBe(false);
+    expect(isScriptRef(undefined)).toBe(false);
+  });
+});
+
+describe("script.loadJourneyScript", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "iv-script-"));
+    writeFileSync(
+      join(dir, "default.mjs"),
+      "export default async (page, context, { step }) => { await step('one', async () => 1); };\n",
+    );
+    writeFileSync(join(dir, "named.mjs"), "export const journey = async () => {};\n");
+    writeFileSync(join(dir, "empty.mjs"), "export const other = 1;\n");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves relative refs against the base directory", () => {
+    expect(resolveScriptPath("default.mjs", dir)).toBe(join(dir, "default.mjs"));
+    expect(resolveScriptPath(join(dir, "default.mjs"), dir)).toBe(join(dir, "default.mjs"));
+  });
+
+  it("rejects refs that leave the scripts directory", () => {
+    expect(() => resolveScriptPath("../../etc/passwd.js", dir)).toThrow(/is outside/);
+    expect(() => resolveScriptPath("/etc/flow.mjs", dir)).toThrow(/is outside/);
+    expect(() => resolveScriptPath("sub/../../x.mjs", dir)).toThrow(/is outside/);
+  });
+
+  it("rejects symlinks that point out of the scripts directory", () => {
+    const outside = mkdtempSync(join(tmpdir(), "iv-outside-"));
+    try {
+      writeFileSync(join(outside, "evil.mjs"), "export default async () => {};\n");
+      symlinkSync(join(outside, "evil.mjs"), join(dir, "link.mjs"));
+      expect(() => resolveScriptPath("link.mjs", dir)).toThrow(/is outside/);
+      symlinkSync(dir, join(outside, "scripts"));
+      expect(resolveScriptPath("missing.mjs", join(outside, "scripts"))).toBe(
+        join(outside, "scripts", "missing.mjs"),
+      );
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("loads a default export", async () => {
+    const fn = await loadJourneyScript("default.mjs", dir);
+    const names: string[] = [];
+    await fn({} as never, {} as never, {
+      step: async (name, body) => {
+        names.push(name);
+        return body();
+      },
+    });
+    expect(names).toEqual(["one"]);
+  });
+
+  it("loads a named `journey` export", async () => {
+    expect(typeof (await loadJourneyScript("named.mjs", dir))).toBe("function");
+  });
+
+  it("rejects modules without a journey function", async () => {
+    await expect(loadJourneyScript("empty.mjs", dir)).rejects.toThrow(
+      /could not be loaded: expected a default/,
+    );
+  });
+
+  it("classifies a missing module as INFRA_FAILURE", async () => {
+    const err = await loadJourneyScript("missing.mjs", dir).catch((e) => e);
+    expect(err.message).toMatch(/does not exist/);
+    expect(classifyError(err).category).toBe(ErrorCategory.INFRA_FAILURE);
+  });
+});
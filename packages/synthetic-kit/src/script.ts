@@ -0,0 +1,104 @@
+import { existsSync, realpathSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { BrowserContext, Page } from "playwright";
+
+/**
+ * `scriptRef` journeys: teams with existing Playwright code point a
+ * monitor at a module instead of re-describing the flow as `actions:`.
+ *
+ *   // journeys/checkout.ts
+ *   import type { JourneyScript } from "@insightview/synthetic-kit";
+ *   const checkout: JourneyScript = async (page, _context, { step }) => {
+ *     await step("home", () => page.goto("https://shop.example.com/"));
+ *     await step("cart", async () => {
+ *       await page.click("text=Add to cart");
+ *       await page.waitForURL("**\/cart");
+ *     });
+ *   };
+ *   export default checkout;
+ *
+ * runCheck loads the module, then calls it with the page and context
+ * it has already prepared (Web Vitals collector, auth strategy,
+ * network profile, trace headers). Every `helpers.step` becomes one
+ * StepResult with the same metrics, assertions and screenshots as a
+ * declarative step.
+ *
+ * Only refs that name a module file (.ts / .mts / .js / .mjs) are
+ * scripts. Bare names such as the legacy seed value `basic-homepage`
+ * predate this feature and keep meaning "default navigation".
+ */
+
+export interface ScriptStepOptions {
+  /** Assertions for this step. Defaults to the monitor-level ones. */
+  assertions?: Array<{ type: string; value: string }>;
+}
+
+export interface ScriptHelpers {
+  /**
+   * Run `fn` as a measured step. A throw records the step as an
+   * error and aborts the journey.
+   */
+  step<T>(name: string, fn: () => Promise<T>, opts?: ScriptStepOptions): Promise<T>;
+}
+
+export type JourneyScript = (
+  page: Page,
+  context: BrowserContext,
+  helpers: ScriptHelpers,
+) => Promise<void>;
+
+const SCRIPT_EXTENSIONS = /\.(ts|mts|js|mjs)$/i;
+
+export function isScriptRef(ref: string | null | undefined): ref is string {
+  return typeof ref === "string" && SCRIPT_EXTENSIONS.test(ref.trim());
+}
+
+/**
+ * Relative refs resolve against `baseDir`, then INSIGHTVIEW_SCRIPTS_DIR,
+ * then the working directory. That directory is also the boundary: a
+ * ref (relative or absolute) that lands outside it is rejected, since
+ * the monitor definition must not be able to load arbitrary modules.
+ * Symlinks are followed before the check, so a link inside the
+ * directory can't point the ref elsewhere.
+ */
+export function resolveScriptPath(ref: string, baseDir?: string): string {
+  const root = resolve(baseDir ?? process.env.INSIGHTVIEW_SCRIPTS_DIR ?? process.cwd());
+  const path = resolve(root, ref);
+  const rel = relative(real(root), real(path));
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`scriptRef '${ref}' could not be loaded: ${path} is outside ${root}`);
+  }
+  return path;
+}
+
+// realpath of the longest existing prefix, so a missing file under a
+// symlinked directory still compares against the real root.
+function real(path: string): string {
+  if (existsSync(path)) return realpathSync(path);
+  const parent = dirname(path);
+  return parent === path ? path : join(real(parent), basename(path));
+}
+
+export async function loadJourneyScript(
+  ref: string,
+  baseDir?: string,
+): Promise<JourneyScript> {
+  const path = resolveScriptPath(ref, baseDir);
+  if (!existsSync(path)) {
+    throw new Error(`scriptRef '${ref}' could not be loaded: ${path} does not exist`);
+  }
+  let mod: Record<string, unknown>;
+  try {
+    mod = (await import(pathToFileURL(path).href)) as Record<string, unknown>;
+  } catch (err) {
+    throw new Error(`scriptRef '${ref}' could not be loaded: ${(err as Error).message}`);
+  }
+  const fn = mod.default ?? mod.journey;
+  if (typeof fn !== "function") {
+    throw new Error(
+      `scriptRef '${ref}' could not be loaded: expected a default (or 'journey') export of type (page, context, helpers) => Promise<void>`,
+    );
+  }
+  return fn as JourneyScript;
+}
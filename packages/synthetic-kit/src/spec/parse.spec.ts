@@ -100,4 +100,102 @@ spec:
     expect(specs).toHaveLength(1);
     expect(specs[0].name).toBe("only-check");
   });
+
+  it("parses a type: api Check with a request block", () => {
+    const file = writeSpec(`
+apiVersion: insightview.io/v1
+kind: Check
+metadata:
+  name: api-health
+spec:
+  type: api
+  targetUrl: "https://api.example.com/health"
+  request:
+    method: POST
+    body: { ping: true }
+    expectedStatus: [200, 204]
+`);
+    const [spec] = parseMonitorPath(file);
+    expect(spec.type).toBe("api");
+    expect(spec.request?.method).toBe("POST");
+    expect(spec.steps).toEqual([
+      { name: "request", url: "https://api.example.com/health" },
+    ]);
+  });
+
+  it("parses journey steps with actions and an optional url", () => {
+    const file = writeSpec(`
+apiVersion: insightview.io/v1
+kind: Check
+metadata:
+  name: checkout
+spec:
+  type: browser
+  targetUrl: "https://shop.example.com/"
+  steps:
+    - name: cart
+      url: "https://shop.example.com/cart"
+      actions:
+        - { action: click, selector: "#checkout" }
+        - { action: waitForURL, url: "**/checkout" }
+    - name: pay
+      actions:
+        - { action: fill, selector: "#card", valueEnv: CARD_NUMBER }
+        - { action: press, key: Enter }
+`);
+    const [spec] = parseMonitorPath(file);
+    expect(spec.steps?.[0].actions).toHaveLength(2);
+    expect(spec.steps?.[1].url).toBeUndefined();
+    expect(spec.steps?.[1].actions?.[0]).toMatchObject({
+      action: "fill",
+      valueEnv: "CARD_NUMBER",
+    });
+  });
+
+  it("rejects unknown actions and steps with neither url nor actions", () => {
+    const unknownAction = writeSpec(`
+apiVersion: insightview.io/v1
+kind: Check
+metadata:
+  name: bad
+spec:
+  targetUrl: "https://example.com/"
+  steps:
+    - name: s1
+      url: "https://example.com/"
+      actions:
+        - { action: hover, selector: "#menu" }
+`);
+    expect(() => parseMonitorPath(unknownAction)).toThrow(/actions/);
+
+    const empty = writeSpec(`
+apiVersion: insightview.io/v1
+kind: Check
+metadata:
+  name: bad
+spec:
+  targetUrl: "https://example.com/"
+  steps:
+    - name: s1
+`);
+    expect(() => parseMonitorPath(empty)).toThrow(/url, actions, or both/);
+  });
+
+  it("parses native.a11y options", () => {
+    const file = writeSpec(`
+apiVersion: insightview.io/v1
+kind: Check
+metadata:
+  name: audited
+spec:
+  type: browser
+  targetUrl: "https://example.com/"
+  native:
+    a11y:
+      tags: [wcag2a, wcag2aa]
+      exclude: ["#chat-widget"]
+`);
+    const [spec] = parseMonitorPath(file);
+    expect(spec.a11y).toEqual({ tags: ["wcag2a", "wcag2aa"], exclude: ["#chat-widget"] });
+  });
 });
@@ -1,13 +1,15 @@
 import { readFileSync, readdirSync, statSync } from "node:fs";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { parseAllDocuments } from "yaml";
 import type { MonitorSpec, MonitorStep } from "../types.js";
-import { MonitorDocSchema, type MonitorDoc } from "./schema.js";
+import { parseMonitorDoc, type MonitorDoc } from "@insightview/monitor-schema";
 
 /**
  * Parse a directory or single YAML file into a list of MonitorSpec
- * objects ready for the runCheck orchestrator. AlertRule documents
- * are silently ignored (they're a platform-mode concern).
+ * objects ready for the runCheck orchestrator. Every document is
+ * validated against the shared monitors schema (any supported
+ * apiVersion), then everything but Checks is skipped: alert rules,
+ * channels and maintenance windows are a platform-mode concern.
  */
 export function parseMonitorPath(pathOrDir: string): MonitorSpec[] {
   const stat = statSync(pathOrDir);
@@ -26,8 +28,7 @@ export function parseMonitorPath(pathOrDir: string): MonitorSpec[] {
       }
       const json = doc.toJS();
       if (!json) continue;
-      if (json.kind !== "Check") continue; // skip AlertRule etc.
-      const parsed = MonitorDocSchema.safeParse(json);
+      const parsed = parseMonitorDoc(json);
       if (!parsed.success) {
         throw new Error(
           `Monitor schema error in ${file}: ${parsed.error.issues
@@ -35,7 +36,8 @@ export function parseMonitorPath(pathOrDir: string): MonitorSpec[] {
             .join("; ")}`,
         );
       }
-      specs.push(docToSpec(parsed.data));
+      if (parsed.data.kind !== "Check") continue;
+      specs.push(docToSpec(parsed.data, dirname(file)));
     }
   }
   return specs;
@@ -55,30 +57,51 @@ function walkYaml(dir: string): string[] {
   return out;
 }
 
-function docToSpec(doc: MonitorDoc): MonitorSpec {
-  const native = doc.spec.native;
+type CheckDoc = Extract<MonitorDoc, { kind: "Check" }>;
+
+function docToSpec(doc: CheckDoc, yamlDir: string): MonitorSpec {
   const steps: MonitorStep[] = doc.spec.steps
     ? (doc.spec.steps as MonitorStep[])
-    : [
-        {
-          name: "navigate",
-          url: doc.spec.targetUrl,
-          waitFor: { networkIdle: false },
-        },
-      ];
+    : [defaultStep(doc)];
   return {
     name: doc.metadata.name,
     description: doc.metadata.description,
+    type: doc.spec.type,
+    request: doc.spec.request,
+    tcp: doc.spec.tcp,
     targetUrl: doc.spec.targetUrl,
     timeoutMs: doc.spec.timeoutMs,
     retries: doc.spec.retries,
-    scriptRef: doc.spec.scriptRef,
+    // `./journeys/x.ts` is relative to the YAML file; other refs
+    // resolve at run time (see script.ts).
+    scriptRef:
+      doc.spec.scriptRef && /^\.\.?\//.test(doc.spec.scriptRef)
+        ? resolve(yamlDir, doc.spec.scriptRef)
+        : doc.spec.scriptRef,
     assertions: doc.spec.assertions,
-    tags: doc.metadata.tags ?? doc.spec.tags,
+    tags: doc.metadata.tags,
     steps,
-    auth: native?.auth,
-    network: native?.network,
-    exporters: native?.exporters,
-    preCookies: native?.preCookies,
+    auth: doc.spec.auth,
+    network: doc.spec.network,
+    exporters: doc.spec.exporters,
+    preCookies: doc.spec.cookies,
+    a11y: doc.spec.a11y,
+    location: doc.spec.native?.location,
   };
 }
+
+/** Single implicit step for monitors that don't declare `steps`. */
+function defaultStep(doc: CheckDoc): MonitorStep {
+  switch (doc.spec.type) {
+    case "api":
+      return { name: "request", url: doc.spec.targetUrl };
+    case "tcp":
+      return { name: "connect", url: doc.spec.targetUrl };
+    default:
+      return {
+        name: "navigate",
+        url: doc.spec.targetUrl,
+        waitFor: { networkIdle: false },
+      };
+  }
+}
@@ -0,0 +1,27 @@
+import { ErrorCategory, type StepResult } from "./types.js";
+
+/**
+ * Retry loop for the socket-level executors (api, tcp). Same
+ * semantics as the browser executor's runStepWithRetry: transient
+ * failures (TARGET_DOWN, INFRA_FAILURE) are retried up to
+ * `maxAttempts`, assertion failures (TARGET_ERROR) never are, and a
+ * step that only passes on a later attempt is flagged `flaky`.
+ */
+export async function runStepWithRetries(
+  maxAttempts: number,
+  attemptFn: () => Promise<StepResult>,
+): Promise<StepResult> {
+  let result: StepResult | undefined;
+  for (let attempt = 1; attempt <= Math.max(1, maxAttempts); attempt++) {
+    result = await attemptFn();
+    result.attempts = attempt;
+    if (result.status === "passed" || result.status === "partial") {
+      if (attempt > 1) result.flaky = true;
+      return result;
+    }
+    if (result.errorCategory === ErrorCategory.TARGET_ERROR) {
+      return result;
+    }
+  }
+  return result!;
+}
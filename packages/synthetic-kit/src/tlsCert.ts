@@ -0,0 +1,142 @@
+import { connect as tlsConnect, type DetailedPeerCertificate, type TLSSocket } from "node:tls";
+import type { TlsCertificateInfo } from "./types.js";
+
+/**
+ * Summarise the peer certificate of a connected TLS socket. Returns
+ * undefined when the peer presented nothing (e.g. the handshake was
+ * aborted before the certificate arrived).
+ */
+export function describeCertificate(socket: TLSSocket): TlsCertificateInfo | undefined {
+  const cert = socket.getPeerCertificate(true);
+  if (!cert || Object.keys(cert).length === 0) return undefined;
+  const validTo = new Date(cert.valid_to);
+  return {
+    subject: firstOf(cert.subject?.CN),
+    issuer: firstOf(cert.issuer?.O) ?? firstOf(cert.issuer?.CN),
+    subjectAltNames: (cert.subjectaltname ?? "")
+      .split(",")
+      .map((s) => s.trim().replace(/^DNS:/, ""))
+      .filter((s) => s.length > 0),
+    validFrom: new Date(cert.valid_from).toISOString(),
+    validTo: validTo.toISOString(),
+    daysUntilExpiry: daysUntil(validTo),
+    fingerprint256: cert.fingerprint256,
+    protocol: socket.getProtocol() ?? undefined,
+    authorized: socket.authorized,
+    authorizationError: socket.authorizationError
+      ? String(socket.authorizationError)
+      : undefined,
+    chain: describeChain(cert),
+  };
+}
+
+/**
+ * Intermediates and root as sent by the peer (or resolved from the
+ * local trust store), leaf excluded. A self-signed root points at
+ * itself, which ends the walk.
+ */
+function describeChain(leaf: DetailedPeerCertificate): TlsCertificateInfo["chain"] {
+  const chain: NonNullable<TlsCertificateInfo["chain"]> = [];
+  const seen = new Set<string>([leaf.fingerprint256]);
+  let cert = leaf.issuerCertificate;
+  while (cert && Object.keys(cert).length > 0 && !seen.has(cert.fingerprint256)) {
+    seen.add(cert.fingerprint256);
+    const validTo = new Date(cert.valid_to);
+    chain.push({
+      subject: firstOf(cert.subject?.CN) ?? firstOf(cert.subject?.O),
+      issuer: firstOf(cert.issuer?.CN) ?? firstOf(cert.issuer?.O),
+      validTo: validTo.toISOString(),
+      daysUntilExpiry: daysUntil(validTo),
+    });
+    cert = cert.issuerCertificate;
+  }
+  return chain;
+}
+
+/**
+ * Open a throwaway TLS connection to an https URL's origin and
+ * describe its certificate. Browser steps use this because Playwright
+ * only exposes a thin securityDetails() (no SANs, no chain). Never
+ * throws; unreachable origins and plain http resolve to undefined.
+ */
+export function probeCertificate(
+  rawUrl: string,
+  timeoutMs = 5_000,
+): Promise<TlsCertificateInfo | undefined> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return Promise.resolve(undefined);
+  }
+  if (url.protocol !== "https:") return Promise.resolve(undefined);
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  return new Promise((resolve) => {
+    const socket = tlsConnect({
+      host,
+      port: url.port ? parseInt(url.port, 10) : 443,
+      servername: /^[\d.]+$|:/.test(host) ? undefined : host,
+      // We want to describe expired / mis-issued certs, not refuse them;
+      // `authorized` records the verdict.
+      rejectUnauthorized: false,
+    });
+    const done = (info: TlsCertificateInfo | undefined) => {
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(info);
+    };
+    const timer = setTimeout(() => done(undefined), timeoutMs);
+    socket.once("secureConnect", () => done(describeCertificate(socket)));
+    socket.once("error", () => done(undefined));
+  });
+}
+
+/**
+ * Playwright's view of the certificate, used when a direct probe
+ * can't reach the origin (e.g. the browser goes through a proxy).
+ */
+export function certificateFromSecurityDetails(details: {
+  issuer?: string;
+  protocol?: string;
+  subjectName?: string;
+  validFrom?: number;
+  validTo?: number;
+}): TlsCertificateInfo | undefined {
+  if (details.validTo === undefined) return undefined;
+  const validTo = new Date(details.validTo * 1000);
+  return {
+    subject: details.subjectName,
+    issuer: details.issuer,
+    subjectAltNames: [],
+    validFrom: new Date((details.validFrom ?? 0) * 1000).toISOString(),
+    validTo: validTo.toISOString(),
+    daysUntilExpiry: daysUntil(validTo),
+    protocol: details.protocol,
+    // The browser completed the handshake, so it trusted the chain.
+    authorized: true,
+  };
+}
+
+/** The certificate in leaf + chain that expires first. */
+export function soonestExpiry(tls: TlsCertificateInfo): {
+  subject?: string;
+  validTo: string;
+  daysUntilExpiry: number;
+} {
+  let soonest = { subject: tls.subject, validTo: tls.validTo, daysUntilExpiry: tls.daysUntilExpiry };
+  for (const c of tls.chain ?? []) {
+    if (c.daysUntilExpiry < soonest.daysUntilExpiry) {
+      soonest = { subject: c.subject, validTo: c.validTo, daysUntilExpiry: c.daysUntilExpiry };
+    }
+  }
+  return soonest;
+}
+
+function daysUntil(date: Date): number {
+  return Math.floor((date.getTime() - Date.now()) / 86_400_000);
+}
+
+/** Certificate fields are string[] when an attribute repeats. */
+function firstOf(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
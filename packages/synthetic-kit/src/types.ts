@@ -40,6 +40,7 @@ export interface NavigationTiming {
   ttfb?: number;
   fcp?: number;
   dnsLookup?: number;
+  tcpConnect?: number;
   tlsTime?: number;
   domContentLoaded?: number;
   pageLoad?: number;
@@ -67,11 +68,117 @@ export interface AssertionResult {
   detail?: string;
 }
 
+/** Which executor runs the monitor. Mirrors core's CheckType. */
+export type MonitorType = "browser" | "api" | "tcp";
+
+/**
+ * HTTP request definition for `type: api` monitors. Every field is
+ * optional — the bare minimum is a GET against the step URL.
+ */
+export interface ApiRequestSpec {
+  method?: string;
+  /** Authorization and Cookie are dropped on cross-origin redirects. */
+  headers?: Record<string, string>;
+  /** Raw request body. Objects are JSON-encoded. */
+  body?: string | Record<string, unknown> | unknown[];
+  /** follow = chase Location headers, manual = report the 3xx, error = fail on 3xx. */
+  redirect?: "follow" | "manual" | "error";
+  maxRedirects?: number;
+  /**
+   * Accepted status codes. Defaults to any 2xx, unless the step has
+   * its own `status` / `status-code` assertion.
+   */
+  expectedStatus?: number[];
+  /** Set false to accept self-signed / expired certificates. */
+  verifyTls?: boolean;
+}
+
+/**
+ * Probe definition for `type: tcp` monitors. The target is
+ * `tcp://host:port` (or `tls://host:port`, which implies `tls: true`).
+ */
+export interface TcpProbeSpec {
+  /** Perform a TLS handshake after connecting. */
+  tls?: boolean;
+  /** SNI / certificate hostname. Defaults to the target host. */
+  servername?: string;
+  /** Set false to accept self-signed / expired certificates. */
+  verifyTls?: boolean;
+  /** Payload written after the connection (and handshake) is up. */
+  send?: string;
+  /** Substring the peer must send back (e.g. a banner) for the step to pass. */
+  expect?: string;
+}
+
+export interface TlsCertificateInfo {
+  subject?: string;
+  issuer?: string;
+  subjectAltNames: string[];
+  validFrom: string;
+  validTo: string;
+  daysUntilExpiry: number;
+  fingerprint256?: string;
+  protocol?: string;
+  authorized: boolean;
+  authorizationError?: string;
+  /** Intermediates / root above the leaf, nearest first. */
+  chain?: Array<{
+    subject?: string;
+    issuer?: string;
+    validTo: string;
+    daysUntilExpiry: number;
+  }>;
+}
+
+/**
+ * One scripted interaction inside a browser step. Actions run in
+ * order on the page shared by every step of the monitor, after the
+ * step's optional `url` navigation. `timeoutMs` bounds each action.
+ */
+export type MonitorAction =
+  | { action: "goto"; url: string; timeoutMs?: number }
+  | { action: "click"; selector: string; timeoutMs?: number }
+  | {
+      action: "fill";
+      selector: string;
+      /** Literal value, or `valueEnv` to read it from the environment (secrets). */
+      value?: string;
+      valueEnv?: string;
+      timeoutMs?: number;
+    }
+  | { action: "select"; selector: string; value: string | string[]; timeoutMs?: number }
+  | { action: "press"; key: string; selector?: string; timeoutMs?: number }
+  | {
+      action: "waitForSelector";
+      selector: string;
+      state?: "attached" | "detached" | "visible" | "hidden";
+      timeoutMs?: number;
+    }
+  /** Glob (`**\/checkout`) or a `/regex/` literal. */
+  | { action: "waitForURL"; url: string; timeoutMs?: number }
+  | { action: "upload"; selector: string; files: string[]; timeoutMs?: number }
+  /** JavaScript expression evaluated in the page; a thrown error fails the step. */
+  | { action: "evaluate"; script: string; timeoutMs?: number };
+
+export type MonitorActionType = MonitorAction["action"];
+
+export interface ActionResult {
+  action: MonitorActionType;
+  /** Selector / URL / key the action targeted, for logs. */
+  target?: string;
+  durationMs: number;
+  status: "passed" | "failed" | "skipped";
+  errorMessage?: string;
+}
+
 export interface MonitorStep {
   /** Human label — appears in artifacts and logs. */
   name: string;
-  /** Absolute URL to navigate to. */
-  url: string;
+  /**
+   * Absolute URL to navigate to. Browser steps may omit it to keep
+   * interacting with the page the previous step left behind.
+   */
+  url?: string;
   /** Additional wait hints for SPAs. */
   waitFor?: {
     selector?: string;
@@ -80,11 +187,17 @@ export interface MonitorStep {
   };
   /** Per-step assertion overrides. If omitted, uses monitor-level assertions. */
   assertions?: Array<{ type: string; value: string }>;
+  /** Per-step request overrides for `type: api` monitors. */
+  request?: ApiRequestSpec;
+  /** Scripted interactions for browser steps (journeys). */
+  actions?: MonitorAction[];
 }
 
 export interface MonitorSpec {
   name: string;
   description?: string;
+  /** Defaults to "browser". */
+  type?: MonitorType;
   targetUrl: string;
   timeoutMs?: number;
   retries?: number;
@@ -92,6 +205,10 @@ export interface MonitorSpec {
   assertions?: Array<{ type: string; value: string }>;
   tags?: string[];
   steps?: MonitorStep[];
+  /** Monitor-level request definition for `type: api` monitors. */
+  request?: ApiRequestSpec;
+  /** Probe definition for `type: tcp` monitors. */
+  tcp?: TcpProbeSpec;
   /** How to authenticate before the first step. */
   auth?: {
     strategy: string;
@@ -106,6 +223,47 @@ export interface MonitorSpec {
   exporters?: Array<{ type: string; config?: Record<string, unknown> }>;
   /** Consent cookies to pre-set before navigation. */
   preCookies?: Array<{ name: string; value: string; domain?: string; path?: string }>;
+  /**
+   * Run the axe-core accessibility audit on every browser step. Also
+   * switched on implicitly by any `max-a11y-*` assertion.
+   */
+  a11y?: boolean | A11yOptions;
+  /**
+   * Location label for this monitor's results (`native.location`).
+   * Overrides the runner's INSIGHTVIEW_LOCATION; not a platform location.
+   */
+  location?: string;
+}
+
+export type A11yImpact = "critical" | "serious" | "moderate" | "minor";
+
+/** Opt-in axe-core audit settings (`a11y:` in the monitor spec). */
+export interface A11yOptions {
+  /** axe rule tags to run, e.g. ["wcag2a", "wcag2aa"]. Default: all. */
+  tags?: string[];
+  /** Rule ids to skip (known, accepted violations). */
+  disableRules?: string[];
+  /** Selectors to exclude from the audit (third-party widgets). */
+  exclude?: string[];
+}
+
+export interface A11yViolation {
+  /** axe rule id, e.g. "color-contrast". */
+  id: string;
+  impact: A11yImpact | null;
+  help: string;
+  helpUrl?: string;
+  /** Number of elements that violate the rule. */
+  nodes: number;
+  /** First few offending selectors, for triage. */
+  targets: string[];
+}
+
+/** Violations counted per rule and grouped by impact. */
+export interface A11yResult {
+  counts: Record<A11yImpact, number>;
+  total: number;
+  violations: A11yViolation[];
 }
 
 export interface CdnCacheInfo {
@@ -123,19 +281,33 @@ export interface StepResult {
   status: "passed" | "failed" | "error" | "partial";
   statusCode?: number;
   cdnCache?: CdnCacheInfo;
+  /** Peer certificate of the final hop (api monitors over https). */
+  tls?: TlsCertificateInfo;
   flaky?: boolean;
   attempts?: number;
   webVitals: WebVitals;
   navigationTiming: NavigationTiming;
   resourceStats: ResourceStats;
   cdpMetrics: CdpMetrics;
+  /** axe-core audit of the page, when the a11y collector is enabled. */
+  a11y?: A11yResult;
   assertions: AssertionResult[];
+  /** Per-action timing for scripted steps, in execution order. */
+  actions?: ActionResult[];
   errorCategory?: ErrorCategory;
   errorMessage?: string;
   screenshotPath?: string;
   tracePath?: string;
 }
 
+export interface CertSummary {
+  /** Step URL host the certificate was served for. */
+  host: string;
+  subject?: string;
+  daysUntilExpiry: number;
+  validTo: string;
+}
+
 export interface ResultEnvelope {
   /** UUID */
   runId: string;
@@ -152,6 +324,12 @@ export interface ResultEnvelope {
     passedSteps: number;
     failedSteps: number;
     webVitals: WebVitals;
+    /** Numeric navigationTiming fields (dnsLookup, tcpConnect, ...) across steps. */
+    timings: Record<string, number>;
+    /** axe violations summed over steps: critical/serious/moderate/minor/total. */
+    a11y?: Record<A11yImpact | "total", number>;
+    /** Soonest-expiring certificate (leaf or chain) across https steps. */
+    cert?: CertSummary;
     totalRequests: number;
     failedRequests: number;
     passedAssertions: number;
@@ -0,0 +1,112 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { createS3Client } from "../exporters/s3.js";
+
+/**
+ * Where visual-diff baselines live. A location is either a local
+ * directory (committed next to the monitors, or a CI cache) or an
+ * `s3://bucket/prefix` URL. Keys are `<monitor>/<step>.png` unless
+ * the assertion overrides them with `baseline=`.
+ */
+export interface BaselineStore {
+  read(key: string): Promise<Buffer | undefined>;
+  write(key: string, png: Buffer): Promise<void>;
+  /** Human-readable location of `key`, for assertion details and logs. */
+  describe(key: string): string;
+}
+
+export const DEFAULT_BASELINE_LOCATION = "visual-baselines";
+
+export function baselineStoreFor(location: string): BaselineStore {
+  const s3 = /^s3:\/\/([^/]+)\/?(.*)$/.exec(location);
+  if (s3) return new S3BaselineStore(createS3Client(), s3[1], s3[2].replace(/\/$/, ""));
+  return new LocalBaselineStore(location);
+}
+
+export function baselineKey(monitor: string, step: string): string {
+  return `${sanitizeSegment(monitor)}/${sanitizeSegment(step)}.png`;
+}
+
+function sanitizeSegment(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_.-]/g, "_");
+}
+
+class LocalBaselineStore implements BaselineStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    const path = this.pathFor(key);
+    return existsSync(path) ? readFileSync(path) : undefined;
+  }
+
+  async write(key: string, png: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, png);
+  }
+
+  describe(key: string): string {
+    return this.pathFor(key);
+  }
+
+  // `baseline=` comes from the monitor definition, so like a scriptRef
+  // it must not reach files outside the store.
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    const rel = relative(this.root, path);
+    if (rel === "" || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new Error(`baseline '${key}' is outside ${this.root}`);
+    }
+    return path;
+  }
+}
+
+class S3BaselineStore implements BaselineStore {
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly prefix: string,
+  ) {}
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key;
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      const res = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+      );
+      if (!res.Body) return undefined;
+      return Buffer.from(await res.Body.transformToByteArray());
+    } catch (err) {
+      const name = (err as { name?: string }).name;
+      if (name === "NoSuchKey" || name === "NotFound") return undefined;
+      throw err;
+    }
+  }
+
+  async write(key: string, png: Buffer): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: png,
+        ContentType: "image/png",
+      }),
+    );
+  }
+
+  describe(key: string): string {
+    return `s3://${this.bucket}/${this.objectKey(key)}`;
+  }
+}
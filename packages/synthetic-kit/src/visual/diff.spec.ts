@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PNG } from "pngjs";
+import { diffPng, parseVisualDiffValue, withinThreshold } from "./diff.js";
+import { baselineKey, baselineStoreFor } from "./baselineStore.js";
+
+function solid(width: number, height: number, paint?: (x: number, y: number) => boolean): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const on = paint?.(x, y) ?? false;
+      png.data[i] = on ? 0 : 255;
+      png.data[i + 1] = on ? 0 : 255;
+      png.data[i + 2] = on ? 0 : 255;
+      png.data[i + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+describe("visual.parseVisualDiffValue", () => {
+  it("parses bare and keyed thresholds, masks and baseline overrides", () => {
+    expect(parseVisualDiffValue("0.5%").threshold).toEqual({ kind: "ratio", value: 0.005 });
+    const opts = parseVisualDiffValue("threshold=250; mask=.ad; mask=#clock; baseline=home/hero.png");
+    expect(opts.threshold).toEqual({ kind: "pixels", value: 250 });
+    expect(opts.masks).toEqual([".ad", "#clock"]);
+    expect(opts.baseline).toBe("home/hero.png");
+  });
+
+  it("rejects unknown options and malformed thresholds", () => {
+    expect(() => parseVisualDiffValue("colour=red")).toThrow(/unknown option/);
+    expect(() => parseVisualDiffValue("lots")).toThrow(/threshold must look like/);
+  });
+});
+
+describe("visual.diffPng", () => {
+  const base = solid(20, 10);
+  const changed = solid(20, 10, (x, y) => x < 5 && y < 2);
+
+  it("reports identical images as zero diff without a diff image", () => {
+    const diff = diffPng(base, base);
+    expect(diff.diffPixels).toBe(0);
+    expect(diff.diffImage).toBeUndefined();
+  });
+
+  it("counts differing pixels and applies the threshold", () => {
+    const diff = diffPng(base, changed);
+    expect(diff.diffPixels).toBe(10);
+    expect(diff.diffImage).toBeInstanceOf(Buffer);
+    expect(withinThreshold(diff, { kind: "pixels", value: 10 })).toBe(true);
+    expect(withinThreshold(diff, { kind: "ratio", value: 0.01 })).toBe(false);
+  });
+
+  it("ignores masked regions", () => {
+    expect(diffPng(base, changed, [{ x: 0, y: 0, width: 5, height: 2 }]).diffPixels).toBe(0);
+  });
+
+  it("fails on size mismatch", () => {
+    const diff = diffPng(base, solid(10, 10));
+    expect(diff.sizeMismatch).toMatch(/20x10/);
+    expect(withinThreshold(diff, { kind: "ratio", value: 1 })).toBe(false);
+  });
+});
+
+describe("visual.baselineStoreFor (local)", () => {
+  it("round-trips a baseline under <monitor>/<step>.png", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "iv-baseline-"));
+    try {
+      const store = baselineStoreFor(dir);
+      const key = baselineKey("home page", "navigate");
+      expect(key).toBe("home_page/navigate.png");
+      expect(await store.read(key)).toBeUndefined();
+      await store.write(key, Buffer.from("png"));
+      expect((await store.read(key))?.toString()).toBe("png");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects baseline keys that escape the store", async () => {
+    const store = baselineStoreFor("/tmp/iv-baselines");
+    await expect(store.read("../../etc/passwd")).rejects.toThrow(/outside/);
+    await expect(store.write("/etc/cron.d/x", Buffer.from("png"))).rejects.toThrow(/outside/);
+    expect(() => store.describe("home/../../x.png")).toThrow(/outside/);
+    expect(store.describe("home/hero.png")).toBe("/tmp/iv-baselines/home/hero.png");
+  });
+});
@@ -0,0 +1,132 @@
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+
+/**
+ * Pixel comparison for the `visual-diff` assertion. The assertion
+ * value is a `;`-separated option list, in the same spirit as the
+ * `name: value` / `$.path == value` assertion values:
+ *
+ *   "0.5%"                                   max 0.5% of pixels may differ
+ *   "250"                                    max 250 differing pixels
+ *   "threshold=1%; mask=.ad-slot; mask=#clock; baseline=home/hero.png"
+ *
+ * `mask` takes any Playwright selector; every match is blanked in both
+ * images before comparing. `baseline` overrides the default
+ * `<monitor>/<step>.png` key inside the baseline store.
+ */
+
+export interface VisualDiffOptions {
+  /** Maximum differing pixels, as a fraction of the image or absolute. */
+  threshold: { kind: "ratio"; value: number } | { kind: "pixels"; value: number };
+  masks: string[];
+  baseline?: string;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PngDiff {
+  diffPixels: number;
+  totalPixels: number;
+  /** Set when the images can't be compared pixel-for-pixel. */
+  sizeMismatch?: string;
+  /** Baseline with differing pixels highlighted; absent when identical. */
+  diffImage?: Buffer;
+}
+
+const DEFAULT_THRESHOLD: VisualDiffOptions["threshold"] = { kind: "ratio", value: 0.001 };
+
+export function parseVisualDiffValue(value: string): VisualDiffOptions {
+  const options: VisualDiffOptions = { threshold: DEFAULT_THRESHOLD, masks: [] };
+  for (const raw of value.split(";")) {
+    const token = raw.trim();
+    if (!token) continue;
+    const eq = token.indexOf("=");
+    const key = eq === -1 ? "threshold" : token.slice(0, eq).trim();
+    const val = eq === -1 ? token : token.slice(eq + 1).trim();
+    switch (key) {
+      case "threshold":
+        options.threshold = parseThreshold(val);
+        break;
+      case "mask":
+        if (val) options.masks.push(val);
+        break;
+      case "baseline":
+        if (val) options.baseline = val;
+        break;
+      default:
+        throw new Error(`visual-diff: unknown option '${key}'`);
+    }
+  }
+  return options;
+}
+
+function parseThreshold(val: string): VisualDiffOptions["threshold"] {
+  const pct = /^(\d+(?:\.\d+)?)\s*%$/.exec(val);
+  if (pct) return { kind: "ratio", value: parseFloat(pct[1]) / 100 };
+  const px = /^(\d+)\s*(?:px)?$/.exec(val);
+  if (px) return { kind: "pixels", value: parseInt(px[1], 10) };
+  throw new Error(`visual-diff: threshold must look like '0.5%' or '250', got '${val}'`);
+}
+
+export function formatThreshold(threshold: VisualDiffOptions["threshold"]): string {
+  return threshold.kind === "ratio"
+    ? `${(threshold.value * 100).toFixed(2)}%`
+    : `${threshold.value}px`;
+}
+
+export function withinThreshold(
+  diff: PngDiff,
+  threshold: VisualDiffOptions["threshold"],
+): boolean {
+  if (diff.sizeMismatch) return false;
+  return threshold.kind === "ratio"
+    ? diff.diffPixels / Math.max(diff.totalPixels, 1) <= threshold.value
+    : diff.diffPixels <= threshold.value;
+}
+
+/** Compare two PNGs after blanking `masks` in both. */
+export function diffPng(baseline: Buffer, current: Buffer, masks: Rect[] = []): PngDiff {
+  const a = PNG.sync.read(baseline);
+  const b = PNG.sync.read(current);
+  if (a.width !== b.width || a.height !== b.height) {
+    return {
+      diffPixels: b.width * b.height,
+      totalPixels: b.width * b.height,
+      sizeMismatch: `baseline is ${a.width}x${a.height}, screenshot is ${b.width}x${b.height}`,
+    };
+  }
+  for (const rect of masks) {
+    blank(a, rect);
+    blank(b, rect);
+  }
+  const out = new PNG({ width: a.width, height: a.height });
+  const diffPixels = pixelmatch(a.data, b.data, out.data, a.width, a.height, {
+    threshold: 0.1,
+  });
+  return {
+    diffPixels,
+    totalPixels: a.width * a.height,
+    diffImage: diffPixels > 0 ? PNG.sync.write(out) : undefined,
+  };
+}
+
+function blank(png: PNG, rect: Rect): void {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(png.width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(png.height, Math.ceil(rect.y + rect.height));
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * png.width + x) * 4;
+      png.data[i] = 255;
+      png.data[i + 1] = 0;
+      png.data[i + 2] = 255;
+      png.data[i + 3] = 255;
+    }
+  }
+}
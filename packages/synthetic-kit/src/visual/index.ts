@@ -0,0 +1,166 @@
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { Page } from "playwright";
+import type { AssertionResult } from "../types.js";
+import {
+  baselineKey,
+  baselineStoreFor,
+  DEFAULT_BASELINE_LOCATION,
+} from "./baselineStore.js";
+import {
+  diffPng,
+  formatThreshold,
+  parseVisualDiffValue,
+  withinThreshold,
+  type Rect,
+} from "./diff.js";
+
+export {
+  type BaselineStore,
+  baselineKey,
+  baselineStoreFor,
+  DEFAULT_BASELINE_LOCATION,
+} from "./baselineStore.js";
+export {
+  type PngDiff,
+  type Rect,
+  type VisualDiffOptions,
+  diffPng,
+  parseVisualDiffValue,
+} from "./diff.js";
+
+/**
+ * Visual regression for browser steps. runCheck calls
+ * `evaluateVisualDiffs` after the step screenshot is taken; the
+ * results are handed to runAssertions, which reports them under the
+ * `visual-diff` assertion type like any other assertion.
+ *
+ * For each compared step a `<step>.visual.json` sidecar lands next to
+ * the screenshot so `insightview visual-accept` can promote that
+ * screenshot to the new baseline without re-running the monitor.
+ */
+
+export interface VisualStepContext {
+  page: Page;
+  monitor: string;
+  step: string;
+  /** Baseline location: local directory or `s3://bucket/prefix`. */
+  baselines: string;
+  screenshotPath: string;
+  runArtifactsDir: string;
+}
+
+export interface VisualSidecar {
+  monitor: string;
+  step: string;
+  baselines: string;
+  baselineKey: string;
+  screenshotPath: string;
+}
+
+export const VISUAL_SIDECAR_SUFFIX = ".visual.json";
+
+/** Evaluate every `visual-diff` assertion; results are keyed by assertion value. */
+export async function evaluateVisualDiffs(
+  assertions: Array<{ type: string; value: string }>,
+  ctx: VisualStepContext,
+): Promise<Record<string, AssertionResult>> {
+  const out: Record<string, AssertionResult> = {};
+  for (const a of assertions) {
+    if (a.type !== "visual-diff" || out[a.value]) continue;
+    try {
+      out[a.value] = await evaluateOne(a.value, ctx);
+    } catch (err) {
+      out[a.value] = {
+        type: a.type,
+        value: a.value,
+        passed: false,
+        detail: `visual-diff: ${(err as Error).message}`,
+      };
+    }
+  }
+  return out;
+}
+
+async function evaluateOne(value: string, ctx: VisualStepContext): Promise<AssertionResult> {
+  const options = parseVisualDiffValue(value);
+  const store = baselineStoreFor(ctx.baselines);
+  const key = options.baseline ?? baselineKey(ctx.monitor, ctx.step);
+  const sidecar: VisualSidecar = {
+    monitor: ctx.monitor,
+    step: ctx.step,
+    baselines: /^s3:\/\//.test(ctx.baselines) ? ctx.baselines : resolve(ctx.baselines),
+    baselineKey: key,
+    screenshotPath: resolve(ctx.screenshotPath),
+  };
+  writeFileSync(
+    join(ctx.runArtifactsDir, `${sanitize(ctx.step)}${VISUAL_SIDECAR_SUFFIX}`),
+    JSON.stringify(sidecar, null, 2),
+  );
+
+  const baseline = await store.read(key);
+  if (!baseline) {
+    return {
+      type: "visual-diff",
+      value,
+      passed: true,
+      detail: `no baseline at ${store.describe(key)}; accept this run with 'insightview visual-accept'`,
+    };
+  }
+
+  const masks = await maskRects(ctx.page, options.masks);
+  const diff = diffPng(baseline, readFileSync(ctx.screenshotPath), masks);
+  let diffPath: string | undefined;
+  if (diff.diffImage) {
+    diffPath = join(ctx.runArtifactsDir, `${sanitize(ctx.step)}.diff.png`);
+    writeFileSync(diffPath, diff.diffImage);
+  }
+  const passed = withinThreshold(diff, options.threshold);
+  const ratio = ((diff.diffPixels / Math.max(diff.totalPixels, 1)) * 100).toFixed(2);
+  return {
+    type: "visual-diff",
+    value,
+    passed,
+    detail: passed
+      ? undefined
+      : diff.sizeMismatch
+        ? `visual-diff: ${diff.sizeMismatch}`
+        : `visual-diff ${ratio}% (${diff.diffPixels}px) > threshold ${formatThreshold(options.threshold)}${diffPath ? `; diff: ${diffPath}` : ""}`,
+  };
+}
+
+async function maskRects(page: Page, selectors: string[]): Promise<Rect[]> {
+  const rects: Rect[] = [];
+  for (const selector of selectors) {
+    for (const el of await page.locator(selector).all()) {
+      const box = await el.boundingBox().catch(() => null);
+      if (box) rects.push(box);
+    }
+  }
+  return rects;
+}
+
+/** Sidecars written by the most recent visual-diff evaluation in `runDir`. */
+export function readVisualSidecars(runDir: string): VisualSidecar[] {
+  return readdirSync(runDir)
+    .filter((f) => f.endsWith(VISUAL_SIDECAR_SUFFIX))
+    .map((f) => JSON.parse(readFileSync(join(runDir, f), "utf8")) as VisualSidecar);
+}
+
+/** Promote the sidecar's screenshot to its baseline. Returns the written location. */
+export async function acceptVisualBaseline(
+  sidecar: VisualSidecar,
+  baselines = sidecar.baselines,
+): Promise<string> {
+  const store = baselineStoreFor(baselines);
+  await store.write(sidecar.baselineKey, readFileSync(sidecar.screenshotPath));
+  return store.describe(sidecar.baselineKey);
+}
+
+export function defaultBaselineLocation(): string {
+  return process.env.INSIGHTVIEW_VISUAL_BASELINES ?? DEFAULT_BASELINE_LOCATION;
+}
+
+function sanitize(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_.-]/g, "_");
+}